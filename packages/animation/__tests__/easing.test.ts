@@ -0,0 +1,119 @@
+import {
+  Easing,
+  linear,
+  easeInQuad,
+  easeOutQuad,
+  easeInOutQuad,
+  easeInCubic,
+  easeOutCubic,
+  easeInOutCubic,
+  easeInExpo,
+  easeOutExpo,
+  easeInOutExpo,
+  easeInBack,
+  easeOutBack,
+  easeInOutBack,
+  easeInElastic,
+  easeOutElastic,
+  easeInOutElastic,
+  easeInBounce,
+  easeOutBounce,
+  easeInOutBounce,
+  cubicBezierEasing,
+} from "../src";
+
+const easings: [string, Easing][] = [
+  ["linear", linear],
+  ["easeInQuad", easeInQuad],
+  ["easeOutQuad", easeOutQuad],
+  ["easeInOutQuad", easeInOutQuad],
+  ["easeInCubic", easeInCubic],
+  ["easeOutCubic", easeOutCubic],
+  ["easeInOutCubic", easeInOutCubic],
+  ["easeInExpo", easeInExpo],
+  ["easeOutExpo", easeOutExpo],
+  ["easeInOutExpo", easeInOutExpo],
+  ["easeInBack", easeInBack],
+  ["easeOutBack", easeOutBack],
+  ["easeInOutBack", easeInOutBack],
+  ["easeInElastic", easeInElastic],
+  ["easeOutElastic", easeOutElastic],
+  ["easeInOutElastic", easeInOutElastic],
+  ["easeInBounce", easeInBounce],
+  ["easeOutBounce", easeOutBounce],
+  ["easeInOutBounce", easeInOutBounce],
+];
+
+describe("@trans-vector2d/animation.easing", () => {
+  it.each(easings)("%s starts at 0 and ends at 1", (_, easing) => {
+    expect(easing(0)).toBeCloseTo(0);
+    expect(easing(1)).toBeCloseTo(1);
+  });
+
+  it.each(easings.filter(([name]) => name.indexOf("InOut") >= 0))(
+    "%s passes halfway point",
+    (_, easing) => {
+      expect(easing(0.5)).toBeCloseTo(0.5);
+    }
+  );
+
+  it.each`
+    easing           | t       | expected
+    ${easeInQuad}    | ${0.5}  | ${0.25}
+    ${easeOutQuad}   | ${0.5}  | ${0.75}
+    ${easeInOutQuad} | ${0.25} | ${0.125}
+    ${easeInCubic}   | ${0.5}  | ${0.125}
+    ${easeOutCubic}  | ${0.5}  | ${0.875}
+    ${easeInExpo}    | ${0.5}  | ${1 / 32}
+    ${easeOutBounce} | ${0.5}  | ${0.765625}
+  `("can compute easing at $t", ({ easing, t, expected }) => {
+    expect(easing(t)).toBeCloseTo(expected);
+  });
+
+  it("can overshoot with back and elastic easing", () => {
+    expect(easeInBack(0.2)).toBeLessThan(0);
+    expect(easeOutBack(0.8)).toBeGreaterThan(1);
+    expect(easeOutElastic(0.1)).toBeGreaterThan(1);
+  });
+});
+
+describe("@trans-vector2d/animation.cubicBezierEasing", () => {
+  it("can reproduce linear easing", () => {
+    const easing = cubicBezierEasing(0, 0, 1, 1);
+
+    for (const t of [0, 0.1, 0.5, 0.9, 1]) {
+      expect(easing(t)).toBeCloseTo(t);
+    }
+  });
+
+  it("can reproduce quadratic bezier as cubic bezier", () => {
+    // Quadratic easeIn t^2 has control point (0.5, 0) as quadratic bezier
+    const easing = cubicBezierEasing(1 / 3, 0, 2 / 3, 1 / 3);
+
+    for (const t of [0.2, 0.5, 0.8]) {
+      expect(easing(t)).toBeCloseTo(t * t);
+    }
+  });
+
+  it("can compute easing with flat slope", () => {
+    const easing = cubicBezierEasing(1, 0, 0, 1);
+
+    expect(easing(0.5)).toBeCloseTo(0.5);
+    expect(easing(0.49)).toBeLessThan(easing(0.51));
+  });
+
+  it("can compute CSS ease", () => {
+    const ease = cubicBezierEasing(0.25, 0.1, 0.25, 1);
+
+    expect(ease(0.5)).toBeCloseTo(0.8024, 3);
+  });
+
+  it("can not create easing with x out of range", () => {
+    expect(() => cubicBezierEasing(-0.1, 0, 1, 1)).toThrowError(
+      "x of control points is out of [0, 1]"
+    );
+    expect(() => cubicBezierEasing(0, 0, 1.1, 1)).toThrowError(
+      "x of control points is out of [0, 1]"
+    );
+  });
+});
@@ -0,0 +1,67 @@
+import { KeyframeTrack, easeInQuad } from "../src";
+import { Vector } from "@trans-vector2d/vector";
+
+describe("@trans-vector2d/animation.KeyframeTrack", () => {
+  const track = KeyframeTrack.number([
+    { time: 2, value: 10 },
+    { time: 0, value: 0, easing: easeInQuad },
+    { time: 4, value: 0 },
+  ]);
+
+  it("can sort keyframes by time", () => {
+    expect(track.keyframes.map((k) => k.time)).toEqual([0, 2, 4]);
+    expect(track.startTime()).toBe(0);
+    expect(track.endTime()).toBe(4);
+  });
+
+  it.each`
+    time  | expected
+    ${-1} | ${0}
+    ${0}  | ${0}
+    ${1}  | ${2.5}
+    ${2}  | ${10}
+    ${3}  | ${5}
+    ${4}  | ${0}
+    ${10} | ${0}
+  `("can sample number at $time", ({ time, expected }) => {
+    expect(track.sample(time)).toBeCloseTo(expected);
+  });
+
+  it("can change value immediately by keyframes at same time", () => {
+    const step = KeyframeTrack.number([
+      { time: 0, value: 0 },
+      { time: 1, value: 1 },
+      { time: 1, value: 5 },
+      { time: 2, value: 5 },
+    ]);
+
+    expect(step.sample(0.5)).toBeCloseTo(0.5);
+    expect(step.sample(1)).toBe(5);
+  });
+
+  it("can sample vector", () => {
+    const vectorTrack = KeyframeTrack.vector([
+      { time: 0, value: { x: 0, y: 0 } },
+      { time: 1, value: { x: 2, y: 4 } },
+    ]);
+
+    expect(vectorTrack.sample(0.5)).toEqual(new Vector(1, 2));
+  });
+
+  it("can sample matrix component with identity defaults", () => {
+    const componentTrack = KeyframeTrack.component([
+      { time: 0, value: { rotation: 0 } },
+      { time: 1, value: { rotation: Math.PI * 4, scale: { x: 3, y: 3 } } },
+    ]);
+
+    const component = componentTrack.sample(0.5);
+    expect(component.rotation).toBeCloseTo(Math.PI * 2);
+    expect(Vector.from(component.scale).isClosedTo({ x: 2, y: 2 })).toBe(true);
+    expect(Vector.from(component.translation)).toEqual(Vector.zero);
+    expect(component.skew).toBe(0);
+  });
+
+  it("can not be created without keyframes", () => {
+    expect(() => KeyframeTrack.number([])).toThrowError("keyframes are empty");
+  });
+});
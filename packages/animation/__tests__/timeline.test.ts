@@ -0,0 +1,80 @@
+import { Timeline, KeyframeTrack } from "../src";
+import { Matrix } from "@trans-vector2d/matrix";
+
+describe("@trans-vector2d/animation.Timeline", () => {
+  const translation = KeyframeTrack.vector([
+    { time: 0, value: { x: 0, y: 0 } },
+    { time: 2, value: { x: 10, y: 0 } },
+  ]);
+  const rotation = KeyframeTrack.number([
+    { time: 0, value: 0 },
+    { time: 1, value: Math.PI / 2 },
+  ]);
+
+  it("can sample matrix at time", () => {
+    const timeline = new Timeline({ translation, rotation });
+
+    const expected = Matrix.from({
+      translation: { x: 5, y: 0 },
+      rotation: Math.PI / 2,
+    });
+    expect(timeline.duration).toBe(2);
+    expect(timeline.sample(1).isClosedTo(expected)).toBe(true);
+  });
+
+  it("can override component track by individual tracks", () => {
+    const component = KeyframeTrack.component([
+      { time: 0, value: { translation: { x: 1, y: 1 }, skew: 0.5 } },
+    ]);
+    const timeline = new Timeline({ component, rotation });
+
+    const sampled = timeline.sampleComponent(1);
+    expect(sampled.translation).toEqual({ x: 1, y: 1 });
+    expect(sampled.rotation).toBeCloseTo(Math.PI / 2);
+    expect(sampled.skew).toBe(0.5);
+  });
+
+  it("can sample identity without tracks", () => {
+    const timeline = new Timeline({});
+
+    expect(timeline.duration).toBe(0);
+    expect(timeline.sample(3).isClosedTo(Matrix.identity)).toBe(true);
+  });
+
+  it.each`
+    mode           | time    | expected
+    ${"once"}      | ${-1}   | ${0}
+    ${"once"}      | ${1.5}  | ${1.5}
+    ${"once"}      | ${5}    | ${2}
+    ${"loop"}      | ${2.5}  | ${0.5}
+    ${"loop"}      | ${-0.5} | ${1.5}
+    ${"ping-pong"} | ${1.5}  | ${1.5}
+    ${"ping-pong"} | ${2.5}  | ${1.5}
+    ${"ping-pong"} | ${4.5}  | ${0.5}
+    ${"ping-pong"} | ${-0.5} | ${0.5}
+  `("can map time $time in $mode mode", ({ mode, time, expected }) => {
+    const timeline = new Timeline({ translation }, mode);
+
+    expect(timeline.localTime(time)).toBeCloseTo(expected);
+    expect(timeline.sample(time).e).toBeCloseTo(expected * 5);
+  });
+
+  it("can use explicit duration", () => {
+    const timeline = new Timeline({ translation }, "loop", 4);
+
+    expect(timeline.sample(3).e).toBeCloseTo(10);
+    expect(timeline.sample(5).e).toBeCloseTo(5);
+  });
+
+  it("can tell playback is finished", () => {
+    expect(new Timeline({ translation }).isFinished(2)).toBe(true);
+    expect(new Timeline({ translation }).isFinished(1)).toBe(false);
+    expect(new Timeline({ translation }, "loop").isFinished(10)).toBe(false);
+  });
+
+  it("can not be created with negative duration", () => {
+    expect(() => new Timeline({}, "once", -1)).toThrowError(
+      "duration is negative"
+    );
+  });
+});
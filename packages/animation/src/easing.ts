@@ -0,0 +1,267 @@
+/**
+ * Function maps progress in [0, 1] to eased progress.
+ * Eased progress is 0 at 0 and 1 at 1 but may overshoot between them.
+ */
+export type Easing = (t: number) => number;
+
+const backOvershoot = 1.70158;
+const elasticPeriod = (2 * Math.PI) / 3;
+
+const reverseEasing = (easeIn: Easing, t: number): number => 1 - easeIn(1 - t);
+
+const mirrorEasing = (easeIn: Easing, t: number): number =>
+  t < 0.5 ? easeIn(2 * t) / 2 : 1 - easeIn(2 - 2 * t) / 2;
+
+/**
+ * No easing.
+ *
+ * @param t Progress
+ * @returns Progress as is
+ */
+export function linear(t: number): number {
+  return t;
+}
+
+/**
+ * Quadratic easing accelerates from zero velocity.
+ *
+ * @param t Progress
+ * @returns Eased progress
+ */
+export function easeInQuad(t: number): number {
+  return t * t;
+}
+
+/**
+ * Quadratic easing decelerates to zero velocity.
+ *
+ * @param t Progress
+ * @returns Eased progress
+ */
+export function easeOutQuad(t: number): number {
+  return reverseEasing(easeInQuad, t);
+}
+
+/**
+ * Quadratic easing accelerates until halfway and then decelerates.
+ *
+ * @param t Progress
+ * @returns Eased progress
+ */
+export function easeInOutQuad(t: number): number {
+  return mirrorEasing(easeInQuad, t);
+}
+
+/**
+ * Cubic easing accelerates from zero velocity.
+ *
+ * @param t Progress
+ * @returns Eased progress
+ */
+export function easeInCubic(t: number): number {
+  return t * t * t;
+}
+
+/**
+ * Cubic easing decelerates to zero velocity.
+ *
+ * @param t Progress
+ * @returns Eased progress
+ */
+export function easeOutCubic(t: number): number {
+  return reverseEasing(easeInCubic, t);
+}
+
+/**
+ * Cubic easing accelerates until halfway and then decelerates.
+ *
+ * @param t Progress
+ * @returns Eased progress
+ */
+export function easeInOutCubic(t: number): number {
+  return mirrorEasing(easeInCubic, t);
+}
+
+/**
+ * Exponential easing accelerates from nearly zero velocity.
+ *
+ * @param t Progress
+ * @returns Eased progress
+ */
+export function easeInExpo(t: number): number {
+  return t <= 0 ? 0 : Math.pow(2, 10 * t - 10);
+}
+
+/**
+ * Exponential easing decelerates to nearly zero velocity.
+ *
+ * @param t Progress
+ * @returns Eased progress
+ */
+export function easeOutExpo(t: number): number {
+  return reverseEasing(easeInExpo, t);
+}
+
+/**
+ * Exponential easing accelerates until halfway and then decelerates.
+ *
+ * @param t Progress
+ * @returns Eased progress
+ */
+export function easeInOutExpo(t: number): number {
+  return mirrorEasing(easeInExpo, t);
+}
+
+/**
+ * Easing pulls back slightly before moving.
+ *
+ * @param t Progress
+ * @returns Eased progress. Negative near start
+ */
+export function easeInBack(t: number): number {
+  return (backOvershoot + 1) * t * t * t - backOvershoot * t * t;
+}
+
+/**
+ * Easing overshoots target slightly before settling.
+ *
+ * @param t Progress
+ * @returns Eased progress. Greater than 1 near end
+ */
+export function easeOutBack(t: number): number {
+  return reverseEasing(easeInBack, t);
+}
+
+/**
+ * Easing pulls back at start and overshoots at end.
+ *
+ * @param t Progress
+ * @returns Eased progress
+ */
+export function easeInOutBack(t: number): number {
+  return mirrorEasing(easeInBack, t);
+}
+
+/**
+ * Easing oscillates with growing amplitude like stretched spring.
+ *
+ * @param t Progress
+ * @returns Eased progress
+ */
+export function easeInElastic(t: number): number {
+  if (t <= 0) return 0;
+  if (t >= 1) return 1;
+  return -Math.pow(2, 10 * t - 10) * Math.sin((10 * t - 10.75) * elasticPeriod);
+}
+
+/**
+ * Easing oscillates around target with shrinking amplitude like released spring.
+ *
+ * @param t Progress
+ * @returns Eased progress
+ */
+export function easeOutElastic(t: number): number {
+  return reverseEasing(easeInElastic, t);
+}
+
+/**
+ * Elastic easing both at start and end.
+ *
+ * @param t Progress
+ * @returns Eased progress
+ */
+export function easeInOutElastic(t: number): number {
+  return mirrorEasing(easeInElastic, t);
+}
+
+/**
+ * Easing bounces on target like dropped ball.
+ *
+ * @param t Progress
+ * @returns Eased progress
+ */
+export function easeOutBounce(t: number): number {
+  const n = 7.5625;
+  const d = 2.75;
+  if (t < 1 / d) return n * t * t;
+  if (t < 2 / d) return n * (t - 1.5 / d) ** 2 + 0.75;
+  if (t < 2.5 / d) return n * (t - 2.25 / d) ** 2 + 0.9375;
+  return n * (t - 2.625 / d) ** 2 + 0.984375;
+}
+
+/**
+ * Easing bounces on start before leaving.
+ *
+ * @param t Progress
+ * @returns Eased progress
+ */
+export function easeInBounce(t: number): number {
+  return reverseEasing(easeOutBounce, t);
+}
+
+/**
+ * Bouncing easing both at start and end.
+ *
+ * @param t Progress
+ * @returns Eased progress
+ */
+export function easeInOutBounce(t: number): number {
+  return mirrorEasing(easeInBounce, t);
+}
+
+/**
+ * Create easing defined by cubic bezier curve like CSS `cubic-bezier()`.
+ * Curve starts at (0, 0) and ends at (1, 1).
+ *
+ * @example
+ * const ease = cubicBezierEasing(0.25, 0.1, 0.25, 1); // same as CSS "ease"
+ * ease(0.5) // about 0.8
+ * @param x1 x of first control point in [0, 1]
+ * @param y1 y of first control point
+ * @param x2 x of second control point in [0, 1]
+ * @param y2 y of second control point
+ * @returns Easing
+ */
+export function cubicBezierEasing(
+  x1: number,
+  y1: number,
+  x2: number,
+  y2: number
+): Easing {
+  if (x1 < 0 || 1 < x1 || x2 < 0 || 1 < x2)
+    throw new Error("x of control points is out of [0, 1]");
+
+  const bezier = (p1: number, p2: number, u: number): number =>
+    ((1 - 3 * p2 + 3 * p1) * u + (3 * p2 - 6 * p1)) * u * u + 3 * p1 * u;
+  const slope = (p1: number, p2: number, u: number): number =>
+    3 * (1 - 3 * p2 + 3 * p1) * u * u + 2 * (3 * p2 - 6 * p1) * u + 3 * p1;
+
+  // Find parameter u where x(u) = t. x(u) is monotonic because x1 and x2 are in [0, 1]
+  const solveParameter = (t: number): number => {
+    let u = t;
+    for (let i = 0; i < 8; i++) {
+      const error = bezier(x1, x2, u) - t;
+      if (Math.abs(error) < 10 ** -12) return u;
+      const d = slope(x1, x2, u);
+      if (Math.abs(d) < 10 ** -6) break;
+      u -= error / d;
+    }
+    let low = 0;
+    let high = 1;
+    u = t;
+    for (let i = 0; i < 64; i++) {
+      const x = bezier(x1, x2, u);
+      if (Math.abs(x - t) < 10 ** -12) break;
+      if (x < t) low = u;
+      else high = u;
+      u = (low + high) / 2;
+    }
+    return u;
+  };
+
+  return (t: number): number => {
+    if (t <= 0) return 0;
+    if (t >= 1) return 1;
+    return bezier(y1, y2, solveParameter(t));
+  };
+}
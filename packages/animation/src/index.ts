@@ -0,0 +1,3 @@
+export * from "./easing";
+export * from "./keyframe-track";
+export * from "./timeline";
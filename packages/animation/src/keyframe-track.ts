@@ -0,0 +1,155 @@
+import { Vector, VectorLike } from "@trans-vector2d/vector";
+import { MatrixComponent } from "@trans-vector2d/matrix";
+import { Easing, linear } from "./easing";
+
+/**
+ * Value at time.
+ */
+export interface Keyframe<T> {
+  /** Time of keyframe */
+  time: number;
+  /** Value at time */
+  value: T;
+  /** Easing from self to next keyframe. Default is linear */
+  easing?: Easing;
+}
+
+/**
+ * Function interpolates two values by ratio.
+ */
+export type Interpolator<T> = (from: T, to: T, t: number) => T;
+
+const lerpNumber = (from: number, to: number, t: number): number =>
+  from + (to - from) * t;
+
+const lerpComponent = (
+  from: MatrixComponent,
+  to: MatrixComponent,
+  t: number
+): MatrixComponent => ({
+  translation: Vector.from(from.translation).lerp(to.translation, t),
+  rotation: lerpNumber(from.rotation, to.rotation, t),
+  scale: Vector.from(from.scale).lerp(to.scale, t),
+  skew: lerpNumber(from.skew || 0, to.skew || 0, t),
+});
+
+const fillComponent = (
+  component: Partial<MatrixComponent>
+): MatrixComponent => ({
+  translation: Vector.from(component.translation || Vector.zero),
+  rotation: component.rotation || 0,
+  scale: Vector.from(component.scale || Vector.one),
+  skew: component.skew || 0,
+});
+
+/**
+ * Sequence of keyframes sampled at any time.
+ * Keyframes at same time make immediate change of value.
+ * KeyframeTrack is immutable.
+ */
+export class KeyframeTrack<T> {
+  /** Keyframes sorted by time */
+  public readonly keyframes: readonly Keyframe<T>[];
+
+  /**
+   * @param keyframes Keyframes in any order. Must not be empty
+   * @param interpolate Function interpolates values of keyframes
+   */
+  constructor(
+    keyframes: readonly Keyframe<T>[],
+    public readonly interpolate: Interpolator<T>
+  ) {
+    if (keyframes.length === 0) throw new Error("keyframes are empty");
+    // Keep written order of keyframes at same time
+    this.keyframes = keyframes
+      .map((keyframe, index) => ({ keyframe, index }))
+      .sort((a, b) => a.keyframe.time - b.keyframe.time || a.index - b.index)
+      .map(({ keyframe }) => keyframe);
+  }
+
+  /**
+   * Return time of first keyframe.
+   *
+   * @returns Start time
+   */
+  startTime(): number {
+    return this.keyframes[0].time;
+  }
+
+  /**
+   * Return time of last keyframe.
+   *
+   * @returns End time
+   */
+  endTime(): number {
+    return this.keyframes[this.keyframes.length - 1].time;
+  }
+
+  /**
+   * Compute value at time.
+   * Value is held before first keyframe and after last keyframe.
+   *
+   * @param time Time
+   * @returns Value
+   */
+  sample(time: number): T {
+    const frames = this.keyframes;
+    if (time < frames[0].time) return frames[0].value;
+    // Find last keyframe at or before time
+    let low = 0;
+    let high = frames.length;
+    while (high - low > 1) {
+      const mid = Math.floor((low + high) / 2);
+      if (frames[mid].time <= time) low = mid;
+      else high = mid;
+    }
+    const from = frames[low];
+    const to = frames[low + 1];
+    if (to === undefined) return from.value;
+    const easing = from.easing || linear;
+    const ratio = (time - from.time) / (to.time - from.time);
+    return this.interpolate(from.value, to.value, easing(ratio));
+  }
+
+  /**
+   * Create track of numbers.
+   *
+   * @param keyframes Keyframes
+   * @returns Track
+   */
+  static number(keyframes: readonly Keyframe<number>[]): KeyframeTrack<number> {
+    return new KeyframeTrack(keyframes, lerpNumber);
+  }
+
+  /**
+   * Create track of vectors.
+   *
+   * @param keyframes Keyframes
+   * @returns Track
+   */
+  static vector(
+    keyframes: readonly Keyframe<VectorLike>[]
+  ): KeyframeTrack<Vector> {
+    return new KeyframeTrack(
+      keyframes.map((k) => ({ ...k, value: Vector.from(k.value) })),
+      (from, to, t) => from.lerp(to, t)
+    );
+  }
+
+  /**
+   * Create track of matrix components.
+   * Missing components are filled by identity.
+   * Rotation is interpolated linearly, so keyframes can express multiple turns.
+   *
+   * @param keyframes Keyframes
+   * @returns Track
+   */
+  static component(
+    keyframes: readonly Keyframe<Partial<MatrixComponent>>[]
+  ): KeyframeTrack<MatrixComponent> {
+    return new KeyframeTrack(
+      keyframes.map((k) => ({ ...k, value: fillComponent(k.value) })),
+      lerpComponent
+    );
+  }
+}
@@ -0,0 +1,123 @@
+import { Vector } from "@trans-vector2d/vector";
+import { Matrix, MatrixComponent } from "@trans-vector2d/matrix";
+import { KeyframeTrack } from "./keyframe-track";
+
+/**
+ * How timeline maps time beyond its duration.
+ * - once: time is clamped to duration
+ * - loop: time wraps to start
+ * - ping-pong: time plays forward and backward alternately
+ */
+export type PlaybackMode = "once" | "loop" | "ping-pong";
+
+/**
+ * Tracks animate matrix components.
+ * Component tracks override corresponding parts of `component` track.
+ */
+export interface TimelineTracks {
+  component?: KeyframeTrack<MatrixComponent>;
+  translation?: KeyframeTrack<Vector>;
+  rotation?: KeyframeTrack<number>;
+  scale?: KeyframeTrack<Vector>;
+  skew?: KeyframeTrack<number>;
+}
+
+/**
+ * Animation of transformation sampled at explicit time.
+ * Timeline does not depend on wall clock, so same time always results same matrix.
+ * Timeline is immutable.
+ */
+export class Timeline {
+  /** Duration of one playback */
+  public readonly duration: number;
+
+  /**
+   * @param tracks Tracks animate matrix components
+   * @param mode Playback mode
+   * @param duration Duration of one playback. Default is end time of latest track
+   */
+  constructor(
+    public readonly tracks: TimelineTracks,
+    public readonly mode: PlaybackMode = "once",
+    duration?: number
+  ) {
+    const endTimes = [
+      tracks.component,
+      tracks.translation,
+      tracks.rotation,
+      tracks.scale,
+      tracks.skew,
+    ].map((track) => (track === undefined ? 0 : track.endTime()));
+    this.duration =
+      duration === undefined ? Math.max(0, ...endTimes) : duration;
+    if (this.duration < 0) throw new Error("duration is negative");
+  }
+
+  /**
+   * Map time to time in one playback.
+   *
+   * @example
+   * new Timeline(tracks, "ping-pong", 2).localTime(3) // 1
+   * @param time Time
+   * @returns Time in [0, duration]
+   */
+  localTime(time: number): number {
+    const d = this.duration;
+    if (d === 0) return 0;
+    switch (this.mode) {
+      case "once":
+        return Math.min(d, Math.max(0, time));
+      case "loop":
+        return ((time % d) + d) % d;
+      case "ping-pong": {
+        const period = d * 2;
+        const t = ((time % period) + period) % period;
+        return t <= d ? t : period - t;
+      }
+    }
+  }
+
+  /**
+   * Return playback is finished.
+   * Looping timelines never finish.
+   *
+   * @param time Time
+   * @returns Playback is finished
+   */
+  isFinished(time: number): boolean {
+    return this.mode === "once" && time >= this.duration;
+  }
+
+  /**
+   * Compute matrix components at time.
+   * Components without tracks are identity.
+   *
+   * @param time Time
+   * @returns Matrix components
+   */
+  sampleComponent(time: number): MatrixComponent {
+    const t = this.localTime(time);
+    const { component, translation, rotation, scale, skew } = this.tracks;
+    const base: MatrixComponent =
+      component === undefined
+        ? { translation: Vector.zero, rotation: 0, scale: Vector.one, skew: 0 }
+        : component.sample(t);
+    return {
+      translation:
+        translation === undefined ? base.translation : translation.sample(t),
+      rotation: rotation === undefined ? base.rotation : rotation.sample(t),
+      scale: scale === undefined ? base.scale : scale.sample(t),
+      skew: skew === undefined ? base.skew : skew.sample(t),
+    };
+  }
+
+  /**
+   * Compute matrix at time.
+   *
+   * @param time Time
+   * @returns Matrix composed from sampled components
+   */
+  sample(time: number): Matrix {
+    return Matrix.from(this.sampleComponent(time));
+  }
+}
@@ -0,0 +1,184 @@
+import { Camera } from "../src";
+import { Vector } from "@trans-vector2d/vector";
+import { Matrix } from "@trans-vector2d/matrix";
+import { Rect } from "@trans-vector2d/rect";
+
+const v = (x: number, y: number): Vector => new Vector(x, y);
+
+describe("@trans-vector2d/camera.Camera", () => {
+  const viewportSize = { x: 200, y: 100 };
+
+  it("can map world to screen and screen to world", () => {
+    const camera = Camera.from({ viewportSize, position: v(10, 20), zoom: 2 });
+
+    expect(camera.worldToScreen(v(10, 20))).toEqual(v(100, 50));
+    expect(camera.worldToScreen(v(15, 20))).toEqual(v(110, 50));
+    expect(camera.screenToWorld(v(0, 0)).isClosedTo({ x: -40, y: -5 })).toBe(
+      true
+    );
+  });
+
+  it("can create view matrix and its inverse", () => {
+    const camera = Camera.from({
+      viewportSize,
+      position: v(3, 4),
+      zoom: 1.5,
+      rotation: 0.7,
+    });
+
+    const product = Matrix.product(
+      camera.viewMatrix(),
+      camera.inverseViewMatrix()
+    );
+    expect(product.isClosedTo(Matrix.identity)).toBe(true);
+  });
+
+  it("can rotate around center of viewport", () => {
+    const camera = Camera.from({ viewportSize, position: v(5, 5) }).rotateBy(
+      Math.PI / 2
+    );
+
+    expect(camera.worldToScreen(v(5, 5)).isClosedTo({ x: 100, y: 50 })).toBe(
+      true
+    );
+    // World +y is shown at screen +x when camera is rotated by +90 degrees
+    expect(camera.worldToScreen(v(5, 6)).isClosedTo({ x: 101, y: 50 })).toBe(
+      true
+    );
+  });
+
+  it("can pan by screen delta like dragging", () => {
+    const camera = Camera.from({ viewportSize, zoom: 2, rotation: 0.3 });
+    const grabbed = camera.screenToWorld(v(30, 40));
+
+    const panned = camera.panBy(v(10, -5));
+
+    expect(panned.worldToScreen(grabbed).isClosedTo({ x: 40, y: 35 })).toBe(
+      true
+    );
+  });
+
+  it("can zoom at screen point", () => {
+    const camera = Camera.from({ viewportSize, rotation: 0.5 });
+    const cursor = v(30, 80);
+    const anchor = camera.screenToWorld(cursor);
+
+    const zoomed = camera.zoomAt(cursor, 3);
+
+    expect(zoomed.zoom).toBeCloseTo(3);
+    expect(zoomed.worldToScreen(anchor).isClosedTo(cursor)).toBe(true);
+  });
+
+  it("can clamp zoom", () => {
+    const camera = Camera.from({ viewportSize, minZoom: 0.5, maxZoom: 4 });
+
+    expect(camera.zoomAt(v(0, 0), 10).zoom).toBe(4);
+    expect(camera.zoomTo(0.1).zoom).toBe(0.5);
+    expect(Camera.from({ viewportSize, zoom: 8, maxZoom: 4 }).zoom).toBe(4);
+  });
+
+  it("can keep anchor when zoom is clamped", () => {
+    const camera = Camera.from({ viewportSize, maxZoom: 2 });
+    const cursor = v(10, 10);
+    const anchor = camera.screenToWorld(cursor);
+
+    const zoomed = camera.zoomAt(cursor, 5);
+
+    expect(zoomed.worldToScreen(anchor).isClosedTo(cursor)).toBe(true);
+  });
+
+  it("can fit rect with letterbox", () => {
+    const camera = Camera.from({ viewportSize });
+    const rect = Rect.from({ min: { x: 0, y: 0 }, max: { x: 10, y: 10 } });
+
+    const fitted = camera.fit(rect, 10);
+
+    expect(fitted.zoom).toBeCloseTo(8);
+    expect(fitted.position).toEqual(v(5, 5));
+    expect(fitted.worldToScreen(v(0, 0)).isClosedTo({ x: 60, y: 10 })).toBe(
+      true
+    );
+    expect(fitted.worldToScreen(v(10, 10)).isClosedTo({ x: 140, y: 90 })).toBe(
+      true
+    );
+  });
+
+  it("can fit rect by rotated camera", () => {
+    const camera = Camera.from({ viewportSize, rotation: Math.PI / 2 });
+    const rect = Rect.from({ min: { x: 0, y: 0 }, max: { x: 10, y: 40 } });
+
+    const fitted = camera.fit(rect);
+
+    expect(fitted.zoom).toBeCloseTo(5);
+  });
+
+  it.each`
+    min               | max                | zoom
+    ${{ x: 5, y: 0 }} | ${{ x: 5, y: 10 }} | ${10}
+    ${{ x: 0, y: 5 }} | ${{ x: 40, y: 5 }} | ${5}
+  `("can fit rect collapsed to line", ({ min, max, zoom }) => {
+    const camera = Camera.from({ viewportSize });
+
+    const fitted = camera.fit(Rect.from({ min, max }));
+
+    expect(fitted.zoom).toBeCloseTo(zoom);
+    expect(fitted.position.isClosedTo(Rect.from({ min, max }).center())).toBe(
+      true
+    );
+  });
+
+  it("can not fit rect collapsed to point", () => {
+    const camera = Camera.from({ viewportSize });
+    const rect = Rect.from({ min: { x: 3, y: 4 }, max: { x: 3, y: 4 } });
+
+    expect(() => camera.fit(rect)).toThrowError("rect is collapsed to point");
+  });
+
+  it("can not fit with too large padding", () => {
+    const camera = Camera.from({ viewportSize });
+    const rect = Rect.from({ min: { x: 0, y: 0 }, max: { x: 1, y: 1 } });
+
+    expect(() => camera.fit(rect, 50)).toThrowError(
+      "padding is too large for viewport"
+    );
+  });
+
+  it("can compute visible bounds", () => {
+    const camera = Camera.from({ viewportSize, position: v(10, 0), zoom: 2 });
+
+    const bounds = camera.visibleBounds();
+
+    expect(bounds.min).toEqual(v(-40, -25));
+    expect(bounds.max).toEqual(v(60, 25));
+  });
+
+  it("can clamp pan to world bounds", () => {
+    const bounds = { min: { x: 0, y: 0 }, max: { x: 1000, y: 60 } };
+    const camera = Camera.from({ viewportSize, bounds });
+
+    expect(camera.position).toEqual(v(100, 30));
+    expect(camera.moveTo(v(2000, 0)).position).toEqual(v(900, 30));
+    expect(camera.panBy(v(-50, 0)).position).toEqual(v(150, 30));
+    expect(camera.panBy(v(50, 0)).position).toEqual(v(100, 30));
+  });
+
+  it("can resize viewport and change constraints", () => {
+    const camera = Camera.from({ viewportSize, position: v(1, 2), zoom: 3 });
+
+    const resized = camera.resize({ x: 400, y: 300 });
+    expect(resized.worldToScreen(v(1, 2))).toEqual(v(200, 150));
+    expect(resized.zoom).toBe(3);
+
+    expect(camera.withConstraints({ maxZoom: 2 }).zoom).toBe(2);
+  });
+
+  it.each`
+    init                                        | message
+    ${{ viewportSize: { x: 0, y: 100 } }}       | ${"viewportSize is not positive"}
+    ${{ viewportSize, minZoom: -1 }}            | ${"minZoom is negative"}
+    ${{ viewportSize, minZoom: 2, maxZoom: 1 }} | ${"minZoom is greater than maxZoom"}
+    ${{ viewportSize, zoom: 0 }}                | ${"zoom is not positive"}
+  `("can not be created with invalid parameters", ({ init, message }) => {
+    expect(() => Camera.from(init)).toThrowError(message);
+  });
+});
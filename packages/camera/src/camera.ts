@@ -0,0 +1,307 @@
+import { Vector, VectorLike } from "@trans-vector2d/vector";
+import { Matrix } from "@trans-vector2d/matrix";
+import { Rect, RectLike } from "@trans-vector2d/rect";
+
+/**
+ * Constraints applied whenever camera is moved, zoomed or rotated.
+ */
+export interface CameraConstraints {
+  /** Minimum zoom. Must not be negative */
+  minZoom: number;
+  /** Maximum zoom */
+  maxZoom: number;
+  /** Visible area is kept in bounds if specified. Area larger than bounds is centered */
+  bounds?: Rect;
+}
+
+/**
+ * Parameters to create camera.
+ */
+export interface CameraInit {
+  /** Size of viewport on screen */
+  viewportSize: VectorLike;
+  /** World point shown at center of viewport. Default is origin */
+  position?: VectorLike;
+  /** Screen length per world length. Default is 1 */
+  zoom?: number;
+  /** Rotation of camera in world. Default is 0 */
+  rotation?: number;
+  /** Default is 0 */
+  minZoom?: number;
+  /** Default is Infinity */
+  maxZoom?: number;
+  bounds?: RectLike;
+}
+
+/**
+ * Camera maps world to screen for pan-and-zoom view.
+ * Screen origin is top-left corner of viewport.
+ * Camera is immutable.
+ */
+export class Camera {
+  /**
+   * Create camera by `Camera.from` to apply constraints.
+   *
+   * @param viewportSize Size of viewport on screen
+   * @param position World point shown at center of viewport
+   * @param zoom Screen length per world length
+   * @param rotation Rotation of camera in world
+   * @param constraints Constraints
+   */
+  constructor(
+    public readonly viewportSize: Vector,
+    public readonly position: Vector,
+    public readonly zoom: number,
+    public readonly rotation: number,
+    public readonly constraints: CameraConstraints
+  ) {}
+
+  /**
+   * Create matrix maps world to screen.
+   *
+   * @returns View matrix
+   */
+  viewMatrix(): Matrix {
+    return Matrix.translation(this.position.negate())
+      .scaled({ x: this.zoom, y: this.zoom })
+      .rotated(-this.rotation)
+      .translated(this.viewportSize.div(2));
+  }
+
+  /**
+   * Create matrix maps screen to world.
+   *
+   * @returns Inverse of view matrix
+   */
+  inverseViewMatrix(): Matrix {
+    return this.viewMatrix().inverse();
+  }
+
+  /**
+   * Map world point to screen.
+   *
+   * @param point Point in world
+   * @returns Point on screen
+   */
+  worldToScreen(point: VectorLike): Vector {
+    return this.viewMatrix().globalizePoint(point);
+  }
+
+  /**
+   * Map screen point to world.
+   *
+   * @param point Point on screen
+   * @returns Point in world
+   */
+  screenToWorld(point: VectorLike): Vector {
+    return this.viewMatrix().localizePoint(point);
+  }
+
+  /**
+   * Compute bounding rect of visible area in world.
+   *
+   * @returns Bounding rect in world
+   */
+  visibleBounds(): Rect {
+    const half = this.visibleHalfExtent(this.zoom, this.rotation);
+    return new Rect(this.position.sub(half), this.position.add(half));
+  }
+
+  /**
+   * Create camera shows world point at center.
+   *
+   * @param position World point
+   * @returns Moved camera
+   */
+  moveTo(position: VectorLike): Camera {
+    return this.with(Vector.from(position), this.zoom, this.rotation);
+  }
+
+  /**
+   * Create camera panned by screen delta.
+   * Contents on screen follow delta like dragging.
+   *
+   * @param screenDelta Delta on screen
+   * @returns Panned camera
+   */
+  panBy(screenDelta: VectorLike): Camera {
+    const worldDelta = Vector.from(screenDelta)
+      .rotate(this.rotation)
+      .div(this.zoom);
+    return this.moveTo(this.position.sub(worldDelta));
+  }
+
+  /**
+   * Create camera zoomed around center of viewport.
+   *
+   * @param zoom Zoom
+   * @returns Zoomed camera
+   */
+  zoomTo(zoom: number): Camera {
+    return this.with(this.position, zoom, this.rotation);
+  }
+
+  /**
+   * Create camera zoomed around screen point.
+   * World point under screen point stays at it unless constraints move camera.
+   *
+   * @example
+   * camera.zoomAt(cursor, 1.1) // zoom in towards cursor
+   * @param screenPoint Point on screen
+   * @param factor Zoom multiplier
+   * @returns Zoomed camera
+   */
+  zoomAt(screenPoint: VectorLike, factor: number): Camera {
+    const anchor = this.screenToWorld(screenPoint);
+    const zoom = this.clampZoom(this.zoom * factor);
+    const offset = Vector.from(screenPoint)
+      .sub(this.viewportSize.div(2))
+      .rotate(this.rotation)
+      .div(zoom);
+    return this.with(anchor.sub(offset), zoom, this.rotation);
+  }
+
+  /**
+   * Create camera rotated around center of viewport.
+   *
+   * @param delta Rotation delta
+   * @returns Rotated camera
+   */
+  rotateBy(delta: number): Camera {
+    return this.with(this.position, this.zoom, this.rotation + delta);
+  }
+
+  /**
+   * Create camera shows whole rect at center of viewport.
+   * Remaining area of viewport is left as letterbox.
+   * Rect collapsed to line is fitted along its length.
+   *
+   * @param rect Rect in world. Must not be collapsed to point
+   * @param padding Margin on screen around rect
+   * @returns Fitted camera
+   */
+  fit(rect: RectLike, padding = 0): Camera {
+    const target = Rect.from(rect);
+    const size = target.size();
+    const cos = Math.abs(Math.cos(this.rotation));
+    const sin = Math.abs(Math.sin(this.rotation));
+    const rotatedSize = new Vector(
+      cos * size.x + sin * size.y,
+      sin * size.x + cos * size.y
+    );
+    if (rotatedSize.x === 0 && rotatedSize.y === 0)
+      throw new Error("rect is collapsed to point");
+    const available = this.viewportSize.sub({ x: padding * 2, y: padding * 2 });
+    if (available.x <= 0 || available.y <= 0)
+      throw new Error("padding is too large for viewport");
+    const zoom = Math.min(
+      available.x / rotatedSize.x,
+      available.y / rotatedSize.y
+    );
+    return this.with(target.center(), zoom, this.rotation);
+  }
+
+  /**
+   * Create camera has resized viewport.
+   * Position at center of viewport and zoom are kept.
+   *
+   * @param viewportSize Size of viewport
+   * @returns Resized camera
+   */
+  resize(viewportSize: VectorLike): Camera {
+    return Camera.from({
+      ...this.constraints,
+      viewportSize,
+      position: this.position,
+      zoom: this.zoom,
+      rotation: this.rotation,
+    });
+  }
+
+  /**
+   * Create camera with new constraints.
+   *
+   * @param constraints Constraints
+   * @returns Constrained camera
+   */
+  withConstraints(constraints: Partial<CameraConstraints>): Camera {
+    return Camera.from({
+      ...this.constraints,
+      ...constraints,
+      viewportSize: this.viewportSize,
+      position: this.position,
+      zoom: this.zoom,
+      rotation: this.rotation,
+    });
+  }
+
+  /**
+   * Create camera.
+   *
+   * @param init Parameters
+   * @returns Camera satisfies constraints
+   */
+  static from(init: CameraInit): Camera {
+    const viewportSize = Vector.from(init.viewportSize);
+    if (viewportSize.x <= 0 || viewportSize.y <= 0)
+      throw new Error("viewportSize is not positive");
+    const minZoom = init.minZoom === undefined ? 0 : init.minZoom;
+    const maxZoom = init.maxZoom === undefined ? Infinity : init.maxZoom;
+    if (minZoom < 0) throw new Error("minZoom is negative");
+    if (minZoom > maxZoom) throw new Error("minZoom is greater than maxZoom");
+    const bounds =
+      init.bounds === undefined ? undefined : Rect.from(init.bounds);
+    const camera = new Camera(viewportSize, Vector.zero, 1, 0, {
+      minZoom,
+      maxZoom,
+      bounds,
+    });
+    return camera.with(
+      Vector.from(init.position || Vector.zero),
+      init.zoom === undefined ? 1 : init.zoom,
+      init.rotation || 0
+    );
+  }
+
+  private with(position: Vector, zoom: number, rotation: number): Camera {
+    const clampedZoom = this.clampZoom(zoom);
+    return new Camera(
+      this.viewportSize,
+      this.clampPosition(position, clampedZoom, rotation),
+      clampedZoom,
+      rotation,
+      this.constraints
+    );
+  }
+
+  private clampZoom(zoom: number): number {
+    if (zoom <= 0) throw new Error("zoom is not positive");
+    const { minZoom, maxZoom } = this.constraints;
+    return Math.min(maxZoom, Math.max(minZoom, zoom));
+  }
+
+  private clampPosition(
+    position: Vector,
+    zoom: number,
+    rotation: number
+  ): Vector {
+    const { bounds } = this.constraints;
+    if (bounds === undefined) return position;
+    const half = this.visibleHalfExtent(zoom, rotation);
+    const center = bounds.center();
+    const clampAxis = (axis: "x" | "y"): number => {
+      const low = bounds.min[axis] + half[axis];
+      const high = bounds.max[axis] - half[axis];
+      if (low > high) return center[axis];
+      return Math.min(high, Math.max(low, position[axis]));
+    };
+    return new Vector(clampAxis("x"), clampAxis("y"));
+  }
+
+  private visibleHalfExtent(zoom: number, rotation: number): Vector {
+    const half = this.viewportSize.div(2 * zoom);
+    const cos = Math.abs(Math.cos(rotation));
+    const sin = Math.abs(Math.sin(rotation));
+    return new Vector(cos * half.x + sin * half.y, sin * half.x + cos * half.y);
+  }
+}
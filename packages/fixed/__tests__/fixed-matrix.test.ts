@@ -0,0 +1,294 @@
+import { FixedMatrix, FixedVector, fixedOne, fixedFromNumber } from "../src";
+import { Matrix, MatrixLike } from "@trans-vector2d/matrix";
+
+const q = fixedFromNumber;
+const fv = (x: number, y: number): FixedVector =>
+  FixedVector.fromVector({ x, y });
+
+// Max error of elements in float
+const errorTo = (actual: FixedMatrix, expected: MatrixLike): number => {
+  const m = actual.toMatrix();
+  return Math.max(
+    Math.abs(m.a - expected.a),
+    Math.abs(m.b - expected.b),
+    Math.abs(m.c - expected.c),
+    Math.abs(m.d - expected.d),
+    Math.abs(m.e - expected.e),
+    Math.abs(m.f - expected.f)
+  );
+};
+
+const component = {
+  translation: { x: 10, y: 20 },
+  rotation: 1,
+  scale: { x: 2, y: 1.5 },
+  skew: 0.2,
+};
+const fixedComponent = {
+  translation: fv(10, 20),
+  rotation: q(1),
+  scale: fv(2, 1.5),
+  skew: q(0.2),
+};
+const fm = FixedMatrix.from(fixedComponent);
+const m = Matrix.from(component);
+
+describe("@trans-vector2d/fixed.FixedMatrix", () => {
+  it("can convert from and to Matrix", () => {
+    const converted = FixedMatrix.fromMatrix(
+      new Matrix(1, 0.5, -2, 3, 4, -5.25)
+    );
+
+    expect(converted.asArray()).toEqual([
+      fixedOne,
+      q(0.5),
+      q(-2),
+      q(3),
+      q(4),
+      q(-5.25),
+    ]);
+    expect(converted.toMatrix()).toEqual(new Matrix(1, 0.5, -2, 3, 4, -5.25));
+    expect(converted.toString()).toBe("FixedMatrix(1, 0.5, -2, 3, 4, -5.25)");
+  });
+
+  it("can be created from components same as pinned", () => {
+    expect(fm.asArray()).toEqual([70820, 110292, -71952, 69884, q(10), q(20)]);
+    expect(errorTo(fm, m)).toBeLessThan(0.001);
+  });
+
+  it("can be created from components with pivot", () => {
+    const pivoted = FixedMatrix.from({ ...fixedComponent, pivot: fv(1, 2) });
+
+    expect(pivoted.globalizePoint(fv(1, 2)).asArray()).toEqual([q(10), q(20)]);
+    expect(
+      errorTo(pivoted, Matrix.from({ ...component, pivot: { x: 1, y: 2 } }))
+    ).toBeLessThan(0.001);
+  });
+
+  it("can decompose components", () => {
+    const { translation, rotation, scale, skew } = fm.decompose();
+
+    expect(translation.asArray()).toEqual([q(10), q(20)]);
+    expect(rotation).toBe(65535);
+    expect(scale.asArray()).toEqual([131072, 98305]);
+    expect(skew).toBe(13107);
+  });
+
+  it("can decompose reflection", () => {
+    const reflected = FixedMatrix.fromMatrix(
+      Matrix.from({ rotation: 3, scale: { x: 2, y: -1 } })
+    );
+    const expected = Matrix.from({
+      rotation: 3,
+      scale: { x: 2, y: -1 },
+    }).decompose();
+    const { rotation, scale } = reflected.decompose();
+
+    expect(rotation / fixedOne).toBeCloseTo(expected.rotation, 4);
+    expect(scale.toVector().x).toBeCloseTo(expected.scale.x, 4);
+    expect(scale.toVector().y).toBeCloseTo(expected.scale.y, 4);
+  });
+
+  it("can compute inverse", () => {
+    expect(fm.inverse().asArray()).toEqual([
+      23295,
+      -36764,
+      23984,
+      23607,
+      -712623,
+      -104493,
+    ]);
+    expect(fm.inverse().globalize(fm).isClosedTo(FixedMatrix.identity, 8)).toBe(
+      true
+    );
+    expect(errorTo(fm.inverse(), m.inverse())).toBeLessThan(0.001);
+  });
+
+  it("can handle not invertible matrix", () => {
+    const collapsed = FixedMatrix.scaling({ x: fixedOne, y: 0 });
+
+    expect(collapsed.determinant()).toBe(0);
+    expect(collapsed.isInvertible()).toBe(false);
+    expect(collapsed.tryInverse()).toBeUndefined();
+    expect(() => collapsed.inverse()).toThrowError("matrix is not invertible");
+    expect(fm.tryInverse()).toEqual(fm.inverse());
+    expect(collapsed.tryLocalize(fm)).toBeUndefined();
+    expect(fm.tryLocalize(fm)).toEqual(fm.localize(fm));
+    expect(fm.tryLocalizedBy(collapsed)).toBeUndefined();
+    expect(fm.tryLocalizedBy(fm)).toEqual(fm.localizedBy(fm));
+    expect(collapsed.tryLocalizePoint(fv(3, -4))).toBeUndefined();
+    expect(fm.tryLocalizePoint(fv(3, -4))).toEqual(fm.localizePoint(fv(3, -4)));
+  });
+
+  it("can transform points", () => {
+    const p = fv(3, -4);
+
+    expect(fm.globalizePoint(p).asArray()).toEqual([1155628, 1362060]);
+    expect(fm.localizePoint(p).asArray()).toEqual([-738674, -309213]);
+    expect(fm.localizePoint(fm.globalizePoint(p)).isClosedTo(p, q(0.001))).toBe(
+      true
+    );
+  });
+
+  it("can transform points stored in array same as each points", () => {
+    const points = [fv(3, -4), fv(-1.5, 0.25), fv(100, 200)];
+    const raw = new Int32Array(points.length * 2);
+    points.forEach((p, i) => raw.set(p.asArray(), i * 2));
+    const globalized = new Int32Array(raw.length);
+    const expected = (f: (p: FixedVector) => FixedVector): number[] =>
+      points.reduce<number[]>((acc, p) => acc.concat(f(p).asArray()), []);
+
+    expect(fm.globalizePoints(raw, globalized)).toBe(globalized);
+    expect(Array.from(globalized)).toEqual(
+      expected((p) => fm.globalizePoint(p))
+    );
+    expect(Array.from(FixedMatrix.productVectors(fm, raw.slice()))).toEqual(
+      Array.from(globalized)
+    );
+    expect(Array.from(fm.localizePoints(raw))).toEqual(
+      expected((p) => fm.localizePoint(p))
+    );
+    expect(() => fm.globalizePoints(new Int32Array(3))).toThrowError(
+      "points length is odd"
+    );
+    expect(() => fm.globalizePoints(raw, new Int32Array(2))).toThrowError(
+      "out length is not equal to points length"
+    );
+    expect(() =>
+      FixedMatrix.scaling({ x: 0, y: 0 }).localizePoints(raw)
+    ).toThrowError("matrix is not invertible");
+  });
+
+  it("can compose same as Matrix", () => {
+    const other = FixedMatrix.fromMatrix(m.inverse());
+    const pivot = fv(3, 4);
+
+    expect(errorTo(fm.globalize(other), m.globalize(m.inverse()))).toBeLessThan(
+      0.01
+    );
+    expect(
+      errorTo(fm.globalizedBy(other), m.globalizedBy(m.inverse()))
+    ).toBeLessThan(0.01);
+    expect(errorTo(fm.localize(fm), Matrix.identity)).toBeLessThan(0.01);
+    expect(errorTo(fm.localizedBy(fm), Matrix.identity)).toBeLessThan(0.01);
+    expect(fm.translated(fv(1, 2)).asArray()).toEqual([
+      fm.a,
+      fm.b,
+      fm.c,
+      fm.d,
+      q(11),
+      q(22),
+    ]);
+    expect(errorTo(fm.rotated(q(0.5)), m.rotated(0.5))).toBeLessThan(0.001);
+    expect(errorTo(fm.scaled(fv(2, 3)), m.scaled({ x: 2, y: 3 }))).toBeLessThan(
+      0.001
+    );
+    expect(
+      errorTo(
+        fm.rotatedAround(q(0.5), pivot),
+        m.rotatedAround(0.5, pivot.toVector())
+      )
+    ).toBeLessThan(0.001);
+    expect(
+      errorTo(
+        fm.scaledAround(fv(2, 3), pivot),
+        m.scaledAround({ x: 2, y: 3 }, pivot.toVector())
+      )
+    ).toBeLessThan(0.001);
+  });
+
+  it("can create basic matrices", () => {
+    expect(FixedMatrix.translation(fv(1, 2)).asArray()).toEqual([
+      fixedOne,
+      0,
+      0,
+      fixedOne,
+      q(1),
+      q(2),
+    ]);
+    expect(FixedMatrix.rotation(q(Math.PI / 2)).asArray()).toEqual([
+      0,
+      fixedOne,
+      -fixedOne,
+      0,
+      0,
+      0,
+    ]);
+    expect(FixedMatrix.scaling(fv(2, 3)).asArray()).toEqual([
+      q(2),
+      0,
+      0,
+      q(3),
+      0,
+      0,
+    ]);
+  });
+
+  it("can interpolate matrices", () => {
+    const half = FixedMatrix.lerp(FixedMatrix.identity, fm, q(0.5));
+
+    expect(half.asArray()).toEqual([86270, 47130, -32062, 75833, q(5), q(10)]);
+    expect(errorTo(half, Matrix.lerp(Matrix.identity, m, 0.5))).toBeLessThan(
+      0.001
+    );
+  });
+
+  it("can interpolate matrices by steps", () => {
+    const steps = FixedMatrix.lerpSteps(FixedMatrix.identity, fm, 5);
+
+    expect(steps).toHaveLength(5);
+    steps.forEach((step, i) => {
+      expect(step).toEqual(
+        FixedMatrix.lerp(FixedMatrix.identity, fm, (i * fixedOne) / 4)
+      );
+    });
+    expect(steps[4].isClosedTo(fm, 8)).toBe(true);
+    expect(() => FixedMatrix.lerpSteps(fm, fm, 1)).toThrowError(
+      "steps must be 2 or more"
+    );
+  });
+
+  it("can interpolate rotation across PI", () => {
+    const from = FixedMatrix.rotation(q(3));
+    const to = FixedMatrix.rotation(q(-3));
+    const half = FixedMatrix.lerp(from, to, q(0.5));
+
+    expect(
+      errorTo(half, Matrix.lerp(Matrix.rotation(3), Matrix.rotation(-3), 0.5))
+    ).toBeLessThan(0.001);
+  });
+
+  it("can tell equals and closing", () => {
+    const shifted = new FixedMatrix(fm.a + 1, fm.b, fm.c, fm.d, fm.e, fm.f);
+
+    expect(fm.equals(FixedMatrix.from(fm.asObject()))).toBe(true);
+    expect(fm.equals(shifted)).toBe(false);
+    expect(fm.isClosedTo(shifted)).toBe(true);
+    expect(fm.isClosedTo(shifted, 0)).toBe(false);
+    expect(() => fm.isClosedTo(shifted, -1)).toThrowError("delta is negative");
+  });
+
+  it("can reproduce bit-identical simulation", () => {
+    const simulate = (): FixedMatrix => {
+      let position = fv(10, -5);
+      let velocity = fv(1.25, 0.5);
+      let matrix = FixedMatrix.identity;
+      for (let i = 0; i < 1000; i++) {
+        velocity = velocity.rotate(q(0.05)).mlt(q(0.999));
+        position = position.add(velocity);
+        matrix = matrix.rotatedAround(q(0.01), position).translated(velocity);
+      }
+      return matrix;
+    };
+
+    expect(simulate().asArray()).toEqual([
+      -54514,
+      -34931,
+      34931,
+      -54514,
+      774758,
+      726528,
+    ]);
+    expect(simulate()).toEqual(simulate());
+  });
+});
@@ -0,0 +1,170 @@
+import { FixedVector, fixedOne, fixedFromNumber } from "../src";
+import { Vector } from "@trans-vector2d/vector";
+
+const q = fixedFromNumber;
+const fv = (x: number, y: number): FixedVector =>
+  FixedVector.fromVector({ x, y });
+
+// Error of each element of result in float
+const errorTo = (actual: FixedVector, expected: Vector): number =>
+  Math.max(
+    Math.abs(actual.toVector().x - expected.x),
+    Math.abs(actual.toVector().y - expected.y)
+  );
+
+const simulate = (): FixedVector[] => {
+  let position = fv(10, -5);
+  let velocity = fv(1.25, 0.5);
+  for (let i = 0; i < 1000; i++) {
+    velocity = velocity.rotate(q(0.05)).mlt(q(0.999));
+    position = position.add(velocity);
+  }
+  return [position, velocity];
+};
+
+describe("@trans-vector2d/fixed.FixedVector", () => {
+  it("can convert from and to Vector", () => {
+    const v = fv(1.5, -2.25);
+
+    expect(v.asObject()).toEqual({ x: 98304, y: -147456 });
+    expect(v.toVector()).toEqual(new Vector(1.5, -2.25));
+    expect(v.toString()).toBe("FixedVector(1.5, -2.25)");
+  });
+
+  it("drop fraction of raw elements", () => {
+    expect(new FixedVector(1.9, -1.9).asArray()).toEqual([1, -1]);
+    expect(FixedVector.from({ y: 3 }).asArray()).toEqual([0, 3]);
+  });
+
+  it("can compute arithmetic exactly", () => {
+    const v = fv(3, -4);
+    const w = fv(-1.5, 2.25);
+
+    expect(v.add(w).equals(fv(1.5, -1.75))).toBe(true);
+    expect(v.sub(w).equals(fv(4.5, -6.25))).toBe(true);
+    expect(v.hadamard(w).equals(fv(-4.5, -9))).toBe(true);
+    expect(v.mlt(q(0.5)).equals(fv(1.5, -2))).toBe(true);
+    expect(v.div(q(-2)).equals(fv(-1.5, 2))).toBe(true);
+    expect(v.negate().equals(fv(-3, 4))).toBe(true);
+    expect(v.abs().equals(fv(3, 4))).toBe(true);
+    expect(v.dot(w)).toBe(q(-13.5));
+    expect(v.cross(w)).toBe(q(0.75));
+    expect(v.perpLeft().equals(fv(4, 3))).toBe(true);
+    expect(v.perpRight().equals(fv(-4, -3))).toBe(true);
+    expect(v.min(w).equals(fv(-1.5, -4))).toBe(true);
+    expect(v.max(w).equals(fv(3, 2.25))).toBe(true);
+  });
+
+  it("can compute norm by integer square root", () => {
+    const v = fv(3, -4);
+
+    expect(v.norm()).toBe(q(5));
+    expect(v.squaredNorm()).toBe(q(25));
+    expect(v.distance(fv(0, 0))).toBe(q(5));
+    expect(v.unit().asArray()).toEqual([39322, -52429]);
+    expect(v.withNorm(q(10)).asArray()).toEqual([q(6), q(-8)]);
+    expect(v.clampNorm(0, q(1)).asArray()).toEqual([39321, -52428]);
+    expect(v.clampNorm(q(1), q(10))).toBe(v);
+  });
+
+  it("can handle zero vector", () => {
+    expect(() => FixedVector.zero.unit()).toThrowError("vector is zero");
+    expect(FixedVector.zero.tryUnit()).toBeUndefined();
+    expect(FixedVector.zero.unitOr({ x: fixedOne, y: 0 }).asArray()).toEqual([
+      fixedOne,
+      0,
+    ]);
+    expect(() => FixedVector.zero.withNorm(q(1))).toThrowError(
+      "vector is zero"
+    );
+    expect(FixedVector.zero.tryWithNorm(q(1))).toBeUndefined();
+    expect(FixedVector.zero.clampNorm(q(1), q(2))).toBe(FixedVector.zero);
+  });
+
+  it("can try to project onto zero vector", () => {
+    const v = fv(3, -4);
+    const w = fv(-1.5, 2.25);
+
+    expect(() => v.projectOnto(FixedVector.zero)).toThrowError(
+      "divisor is zero"
+    );
+    expect(v.tryProjectOnto(FixedVector.zero)).toBeUndefined();
+    expect(v.tryRejectFrom(FixedVector.zero)).toBeUndefined();
+    expect(v.tryReflect(FixedVector.zero)).toBeUndefined();
+    expect(v.tryProjectOnto(w)).toEqual(v.projectOnto(w));
+    expect(v.tryRejectFrom(w)).toEqual(v.rejectFrom(w));
+    expect(v.tryReflect(w)).toEqual(v.reflect(w));
+    expect(v.tryWithNorm(q(10))).toEqual(v.withNorm(q(10)));
+  });
+
+  it("throw Error when min is greater than max", () => {
+    expect(() => fv(1, 0).clampNorm(q(2), q(1))).toThrowError(
+      "min is greater than max"
+    );
+  });
+
+  it("can compute same raw values as pinned", () => {
+    const v = fv(3, -4);
+    const w = fv(-1.5, 2.25);
+
+    expect(v.rotate(q(0.7)).asArray()).toEqual([319251, -73843]);
+    expect(v.angle()).toBe(-60772);
+    expect(v.angleTo(w)).toBe(202250);
+    expect(v.projectOnto(w).asArray()).toEqual([181485, -272227]);
+    expect(v.reflect(w).asArray()).toEqual([-166362, 282310]);
+    expect(v.lerp(w, q(0.3)).asArray()).toEqual([108134, -139263]);
+    expect(FixedVector.fromPolar(q(2), q(2)).asArray()).toEqual([
+      -54544,
+      119182,
+    ]);
+    expect(w.norm()).toBe(177220);
+  });
+
+  it("can compute closed to Vector", () => {
+    const v = fv(3, -4);
+    const w = fv(-1.5, 2.25);
+    const fv2 = new Vector(3, -4);
+    const w2 = new Vector(-1.5, 2.25);
+
+    expect(errorTo(v.rotate(q(0.7)), fv2.rotate(0.7))).toBeLessThan(0.001);
+    expect(errorTo(v.projectOnto(w), fv2.projectOnto(w2))).toBeLessThan(0.001);
+    expect(errorTo(v.rejectFrom(w), fv2.rejectFrom(w2))).toBeLessThan(0.001);
+    expect(errorTo(v.reflect(w), fv2.reflect(w2))).toBeLessThan(0.001);
+    expect(v.angleTo(w) / fixedOne).toBeCloseTo(fv2.angleTo(w2), 4);
+    expect(v.toPolar().length).toBe(q(5));
+    expect(v.toPolar().angle / fixedOne).toBeCloseTo(fv2.angle(), 4);
+  });
+
+  it.each`
+    x        | y       | floor      | round
+    ${1.5}   | ${-1.5} | ${[1, -2]} | ${[2, -1]}
+    ${-0.25} | ${2.75} | ${[-1, 2]} | ${[0, 3]}
+  `("can floor and round ($x, $y)", ({ x, y, floor, round }) => {
+    expect(fv(x, y).floor().equals(fv(floor[0], floor[1]))).toBe(true);
+    expect(fv(x, y).round().equals(fv(round[0], round[1]))).toBe(true);
+  });
+
+  it("can tell closing to other vector", () => {
+    expect(fv(1, 2).isClosedTo({ x: q(1) + 1, y: q(2) - 1 })).toBe(true);
+    expect(fv(1, 2).isClosedTo({ x: q(1) + 2, y: q(2) })).toBe(false);
+    expect(fv(1, 2).isClosedTo({ x: q(1) + 2, y: q(2) }, 2)).toBe(true);
+    expect(() => fv(1, 2).isClosedTo(fv(1, 2), -1)).toThrowError(
+      "delta is negative"
+    );
+  });
+
+  it("wrap around on overflow", () => {
+    const max = new FixedVector(2147483647, 0);
+
+    expect(max.add({ x: 1, y: 0 }).x).toBe(-2147483648);
+    expect(max.negate().sub({ x: 2, y: 0 }).x).toBe(2147483647);
+  });
+
+  it("can reproduce bit-identical simulation", () => {
+    const [position, velocity] = simulate();
+
+    expect(position.asArray()).toEqual([74837, 668346]);
+    expect(velocity.asArray()).toEqual([31936, 3961]);
+    expect(simulate()).toEqual([position, velocity]);
+  });
+});
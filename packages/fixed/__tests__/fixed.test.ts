@@ -0,0 +1,190 @@
+import {
+  fixedOne,
+  fixedPi,
+  fixedHalfPi,
+  fixedTwoPi,
+  fixedFromNumber,
+  fixedToNumber,
+  fixedMul,
+  fixedDiv,
+  fixedSqrt,
+  fixedHypot,
+  fixedSin,
+  fixedCos,
+  fixedAtan2,
+} from "../src";
+
+const q = fixedFromNumber;
+const maxInt32 = 2147483647;
+const minInt32 = -2147483648;
+
+describe("@trans-vector2d/fixed.fixed", () => {
+  it.each`
+    value          | raw
+    ${0}           | ${0}
+    ${1}           | ${65536}
+    ${1.5}         | ${98304}
+    ${-2.25}       | ${-147456}
+    ${1 / 65536}   | ${1}
+    ${0.4 / 65536} | ${0}
+    ${-0}          | ${0}
+  `("can convert $value to raw value $raw", ({ value, raw }) => {
+    expect(fixedFromNumber(value)).toBe(raw);
+  });
+
+  it.each`
+    constant       | value
+    ${fixedPi}     | ${Math.PI}
+    ${fixedHalfPi} | ${Math.PI / 2}
+    ${fixedTwoPi}  | ${Math.PI * 2}
+  `("can round constant $constant from $value", ({ constant, value }) => {
+    expect(constant).toBe(q(value));
+  });
+
+  it("can convert to number exactly", () => {
+    expect(fixedToNumber(98304)).toBe(1.5);
+    expect(fixedToNumber(1)).toBe(1 / 65536);
+    expect(fixedToNumber(maxInt32)).toBe(32768 - 1 / 65536);
+  });
+
+  it.each([32768, -32768.01, NaN, Infinity])(
+    "throw Error when convert out of range %p",
+    (value) => {
+      expect(() => fixedFromNumber(value)).toThrowError(
+        "value is out of range"
+      );
+    }
+  );
+
+  it.each`
+    a           | b            | expected
+    ${q(1.5)}   | ${q(-2)}     | ${q(-3)}
+    ${q(-3)}    | ${q(-0.25)}  | ${q(0.75)}
+    ${1}        | ${32768}     | ${1}
+    ${-1}       | ${32768}     | ${0}
+    ${3}        | ${-21846}    | ${-1}
+    ${q(100)}   | ${q(200)}    | ${q(20000)}
+    ${maxInt32} | ${fixedOne}  | ${maxInt32}
+    ${minInt32} | ${-fixedOne} | ${minInt32}
+    ${maxInt32} | ${maxInt32}  | ${-65536}
+  `("can multiply $a and $b", ({ a, b, expected }) => {
+    expect(fixedMul(a, b)).toBe(expected);
+  });
+
+  it.each`
+    a           | b        | expected
+    ${q(3)}     | ${q(2)}  | ${q(1.5)}
+    ${q(-3)}    | ${q(2)}  | ${q(-1.5)}
+    ${q(3)}     | ${q(-2)} | ${q(-1.5)}
+    ${q(1)}     | ${q(3)}  | ${21845}
+    ${q(2)}     | ${q(3)}  | ${43691}
+    ${q(-2)}    | ${q(3)}  | ${-43691}
+    ${1}        | ${q(2)}  | ${1}
+    ${-1}       | ${q(2)}  | ${0}
+    ${minInt32} | ${1}     | ${0}
+  `("can divide $a by $b", ({ a, b, expected }) => {
+    expect(fixedDiv(a, b)).toBe(expected);
+  });
+
+  it("throw Error when divide by zero", () => {
+    expect(() => fixedDiv(fixedOne, 0)).toThrowError("divisor is zero");
+  });
+
+  it.each`
+    value       | expected
+    ${0}        | ${0}
+    ${q(2.25)}  | ${q(1.5)}
+    ${q(4)}     | ${q(2)}
+    ${q(2)}     | ${92682}
+    ${1}        | ${256}
+    ${maxInt32} | ${11863283}
+  `("can compute square root of $value", ({ value, expected }) => {
+    expect(fixedSqrt(value)).toBe(expected);
+  });
+
+  it("throw Error when compute square root of negative value", () => {
+    expect(() => fixedSqrt(-1)).toThrowError("value is negative");
+  });
+
+  it("can compute hypot without intermediate overflow", () => {
+    expect(fixedHypot(q(3), q(-4))).toBe(q(5));
+    expect(fixedHypot(q(12000), q(16000))).toBe(q(20000));
+    expect(fixedHypot(0, 0)).toBe(0);
+  });
+
+  it("wrap around hypot out of range", () => {
+    const hypot = fixedHypot(q(20000), q(-30000));
+
+    expect(hypot).toBe(-1932033216);
+    expect(hypot + 2 ** 32).toBeCloseTo(Math.sqrt(13) * q(10000), -1);
+  });
+
+  it.each`
+    angle           | sin          | cos
+    ${0}            | ${0}         | ${fixedOne}
+    ${fixedHalfPi}  | ${fixedOne}  | ${0}
+    ${fixedPi}      | ${0}         | ${-fixedOne}
+    ${-fixedHalfPi} | ${-fixedOne} | ${0}
+    ${q(0.3)}       | ${19368}     | ${62609}
+    ${q(2)}         | ${59591}     | ${-27272}
+    ${q(-2.5)}      | ${-39221}    | ${-52503}
+    ${q(10)}        | ${-35653}    | ${-54989}
+  `("can compute sin and cos of $angle", ({ angle, sin, cos }) => {
+    expect(fixedSin(angle)).toBe(sin);
+    expect(fixedCos(angle)).toBe(cos);
+  });
+
+  it("can compute sin and cos closed to Math", () => {
+    for (let raw = minInt32; raw < maxInt32 - 9999991; raw += 9999991) {
+      const angle = fixedToNumber(raw);
+      expect(Math.abs(fixedSin(raw) - Math.sin(angle) * fixedOne)).toBeLessThan(
+        2
+      );
+      expect(Math.abs(fixedCos(raw) - Math.cos(angle) * fixedOne)).toBeLessThan(
+        2
+      );
+    }
+  });
+
+  it.each`
+    y        | x             | expected
+    ${0}     | ${0}          | ${0}
+    ${0}     | ${q(2)}       | ${0}
+    ${q(2)}  | ${0}          | ${fixedHalfPi}
+    ${0}     | ${q(-2)}      | ${fixedPi}
+    ${q(-2)} | ${0}          | ${-fixedHalfPi}
+    ${q(1)}  | ${q(2)}       | ${30386}
+    ${q(-3)} | ${q(0.5)}     | ${-92121}
+    ${q(-1)} | ${q(-0.0001)} | ${-102950}
+  `("can compute atan2 of ($x, $y)", ({ y, x, expected }) => {
+    expect(fixedAtan2(y, x)).toBe(expected);
+  });
+
+  it("can compute atan2 closed to Math", () => {
+    for (let i = 0; i < 2000; i++) {
+      const x = ((i * 7919) % 4001) - 2000;
+      const y = ((i * 104729) % 3001) - 1500;
+      const expected = Math.atan2(y, x) * fixedOne;
+      expect(Math.abs(fixedAtan2(y * 1000, x * 1000) - expected)).toBeLessThan(
+        3
+      );
+    }
+  });
+
+  it("does not depend on Math trigonometry", () => {
+    const spies = [
+      jest.spyOn(Math, "sin").mockReturnValue(NaN),
+      jest.spyOn(Math, "cos").mockReturnValue(NaN),
+      jest.spyOn(Math, "atan2").mockReturnValue(NaN),
+      jest.spyOn(Math, "sqrt").mockReturnValue(NaN),
+    ];
+    try {
+      expect(fixedSin(q(0.3))).toBe(19368);
+      expect(fixedCos(q(0.3))).toBe(62609);
+      expect(fixedAtan2(q(1), q(2))).toBe(30386);
+      expect(fixedSqrt(q(2))).toBe(92682);
+    } finally {
+      spies.forEach((spy) => spy.mockRestore());
+    }
+  });
+});
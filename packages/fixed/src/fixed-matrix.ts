@@ -0,0 +1,633 @@
+import { VectorLike } from "@trans-vector2d/vector";
+import {
+  Matrix,
+  MatrixLike,
+  PivotMatrixComponent,
+} from "@trans-vector2d/matrix";
+import {
+  Fixed,
+  fixedOne,
+  fixedPi,
+  fixedTwoPi,
+  fixedFromNumber,
+  fixedToNumber,
+  fixedMul,
+  fixedDiv,
+  fixedHypot,
+  fixedSin,
+  fixedCos,
+  fixedAtan2,
+} from "./fixed";
+import { FixedVector } from "./fixed-vector";
+
+// Shortest signed difference of angles in [-PI, PI)
+const fixedDeltaAngle = (from: Fixed, to: Fixed): Fixed => {
+  const delta = (to - from) % fixedTwoPi;
+  if (delta >= fixedPi) return delta - fixedTwoPi;
+  if (delta < -fixedPi) return delta + fixedTwoPi;
+  return delta;
+};
+
+interface FixedComponent {
+  translation: FixedVector;
+  rotation: Fixed;
+  scale: FixedVector;
+  skew: Fixed;
+}
+
+/**
+ * Transformation matrix of Q16.16 fixed-point numbers.
+ * FixedMatrix is immutable and elements are placed like Matrix.
+ * Elements are raw 32bit integers, and raw value 65536 means 1.
+ * Every method uses integer arithmetic only,
+ * so results are bit-identical on any platform.
+ * Results out of range wrap around like 32bit integer.
+ * Use `toMatrix()` for output to CSS, SVG or canvas.
+ *
+ * [a, c, e,
+ *  b, d, f,
+ *  0, 0, 1]
+ */
+export class FixedMatrix {
+  static readonly identity = new FixedMatrix(fixedOne, 0, 0, fixedOne, 0, 0);
+
+  /**
+   * Elements are raw Q16.16 values. Fraction is dropped.
+   */
+  constructor(
+    public readonly a: Fixed,
+    public readonly b: Fixed,
+    public readonly c: Fixed,
+    public readonly d: Fixed,
+    public readonly e: Fixed,
+    public readonly f: Fixed
+  ) {
+    this.a = a | 0;
+    this.b = b | 0;
+    this.c = c | 0;
+    this.d = d | 0;
+    this.e = e | 0;
+    this.f = f | 0;
+  }
+
+  /**
+   * Create FixedMatrix from raw elements or raw components.
+   *
+   * Components are composed as T * R * K * S (K is skew along x-axis) like
+   * `Matrix.from`, and pivot is moved to translation if given.
+   *
+   * @param component object contains raw elements or raw components
+   * @returns FixedMatrix
+   */
+  static from(
+    component: Partial<PivotMatrixComponent> | MatrixLike
+  ): FixedMatrix {
+    if ("a" in component) {
+      return new FixedMatrix(
+        component.a,
+        component.b,
+        component.c,
+        component.d,
+        component.e,
+        component.f
+      );
+    }
+    const t = component.translation || { x: 0, y: 0 };
+    const s = component.scale || { x: fixedOne, y: fixedOne };
+    const r = component.rotation || 0;
+    const k = component.skew || 0;
+    const sin = fixedSin(r);
+    const cos = fixedCos(r);
+    const tan = fixedDiv(fixedSin(k), fixedCos(k));
+    const a = fixedMul(s.x, cos);
+    const b = fixedMul(s.x, sin);
+    const c = -fixedMul(s.y, sin - fixedMul(cos, tan));
+    const d = fixedMul(s.y, cos + fixedMul(sin, tan));
+    const p = component.pivot || { x: 0, y: 0 };
+    return new FixedMatrix(
+      a,
+      b,
+      c,
+      d,
+      t.x - (fixedMul(a, p.x) + fixedMul(c, p.y)),
+      t.y - (fixedMul(b, p.x) + fixedMul(d, p.y))
+    );
+  }
+
+  /**
+   * Create FixedMatrix from float matrix by rounding elements.
+   *
+   * @param m Float matrix
+   * @returns FixedMatrix
+   */
+  static fromMatrix(m: MatrixLike): FixedMatrix {
+    return new FixedMatrix(
+      fixedFromNumber(m.a),
+      fixedFromNumber(m.b),
+      fixedFromNumber(m.c),
+      fixedFromNumber(m.d),
+      fixedFromNumber(m.e),
+      fixedFromNumber(m.f)
+    );
+  }
+
+  /**
+   * Create translating matrix.
+   *
+   * @param delta Translation
+   * @returns Translation matrix
+   */
+  static translation(delta: VectorLike): FixedMatrix {
+    return FixedMatrix.identity.translated(delta);
+  }
+
+  /**
+   * Create rotating matrix.
+   *
+   * @param angle Rotation angle in radians
+   * @returns Rotation matrix
+   */
+  static rotation(angle: Fixed): FixedMatrix {
+    return FixedMatrix.identity.rotated(angle);
+  }
+
+  /**
+   * Create scaling matrix.
+   *
+   * @param scale Scale
+   * @returns Scaling matrix
+   */
+  static scaling(scale: VectorLike): FixedMatrix {
+    return FixedMatrix.identity.scaled(scale);
+  }
+
+  /**
+   * Create matrix from product.
+   *
+   * @param a
+   * @param b
+   * @returns result
+   */
+  static product(a: MatrixLike, b: MatrixLike): FixedMatrix {
+    return new FixedMatrix(
+      fixedMul(a.a, b.a) + fixedMul(a.c, b.b),
+      fixedMul(a.b, b.a) + fixedMul(a.d, b.b),
+      fixedMul(a.a, b.c) + fixedMul(a.c, b.d),
+      fixedMul(a.b, b.c) + fixedMul(a.d, b.d),
+      fixedMul(a.a, b.e) + fixedMul(a.c, b.f) + a.e,
+      fixedMul(a.b, b.e) + fixedMul(a.d, b.f) + a.f
+    );
+  }
+
+  /**
+   * Transform vector by matrix.
+   *
+   * @param m
+   * @param v
+   * @returns transformed vector
+   */
+  static productVector(m: MatrixLike, v: VectorLike): FixedVector {
+    return new FixedVector(
+      fixedMul(m.a, v.x) + fixedMul(m.c, v.y) + m.e,
+      fixedMul(m.b, v.x) + fixedMul(m.d, v.y) + m.f
+    );
+  }
+
+  /**
+   * Transform each points stored as [x0, y0, x1, y1, ...] by matrix.
+   * Each result is identical to `FixedMatrix.productVector`.
+   *
+   * @param m
+   * @param points raw points
+   * @param out buffer to store results. Default is `points` itself
+   * @returns `out`
+   */
+  static productVectors(
+    m: MatrixLike,
+    points: Int32Array,
+    out = points
+  ): Int32Array {
+    if (points.length % 2 !== 0) throw new Error("points length is odd");
+    if (out.length !== points.length)
+      throw new Error("out length is not equal to points length");
+    for (let i = 0; i < points.length; i += 2) {
+      const x = points[i];
+      const y = points[i + 1];
+      out[i] = fixedMul(m.a, x) + fixedMul(m.c, y) + m.e;
+      out[i + 1] = fixedMul(m.b, x) + fixedMul(m.d, y) + m.f;
+    }
+    return out;
+  }
+
+  /**
+   * Create matrix from inverse.
+   *
+   * @param m input matrix. Must be invertible
+   * @returns inverse matrix
+   */
+  static inverse(m: MatrixLike): FixedMatrix {
+    const det = FixedMatrix.from(m).determinant();
+    if (det === 0) throw new Error("matrix is not invertible");
+    return new FixedMatrix(
+      fixedDiv(m.d, det),
+      fixedDiv(-m.b, det),
+      fixedDiv(-m.c, det),
+      fixedDiv(m.a, det),
+      fixedDiv(fixedMul(m.c, m.f) - fixedMul(m.d, m.e), det),
+      fixedDiv(fixedMul(m.b, m.e) - fixedMul(m.a, m.f), det)
+    );
+  }
+
+  /**
+   * Create matrix interpolated between two matrices.
+   * Both matrices are decomposed and then translation, scale and skew are
+   * interpolated linearly and rotation is interpolated along the shortest arc.
+   *
+   * @param from matrix at t = 0
+   * @param to matrix at t = 1
+   * @param t interpolation ratio
+   * @returns interpolated matrix
+   */
+  static lerp(from: MatrixLike, to: MatrixLike, t: Fixed): FixedMatrix {
+    return FixedMatrix.lerpComponents(
+      FixedMatrix.from(from).decompose(),
+      FixedMatrix.from(to).decompose(),
+      t
+    );
+  }
+
+  /**
+   * Create matrices sampled between two matrices at even intervals.
+   * First and last matrices are equal to `from` and `to` components.
+   *
+   * @param from matrix at first step
+   * @param to matrix at last step
+   * @param steps count of matrices as integer, must be 2 or more
+   * @returns interpolated matrices
+   */
+  static lerpSteps(
+    from: MatrixLike,
+    to: MatrixLike,
+    steps: number
+  ): FixedMatrix[] {
+    if (steps < 2) throw new Error("steps must be 2 or more");
+    const c1 = FixedMatrix.from(from).decompose();
+    const c2 = FixedMatrix.from(to).decompose();
+    const result: FixedMatrix[] = [];
+    for (let i = 0; i < steps; i++) {
+      // Ratio of integers is same as ratio of raw values
+      result.push(FixedMatrix.lerpComponents(c1, c2, fixedDiv(i, steps - 1)));
+    }
+    return result;
+  }
+
+  private static lerpComponents(
+    c1: FixedComponent,
+    c2: FixedComponent,
+    t: Fixed
+  ): FixedMatrix {
+    const rotationDelta = fixedDeltaAngle(c1.rotation, c2.rotation);
+    return FixedMatrix.from({
+      translation: c1.translation.lerp(c2.translation, t),
+      rotation: c1.rotation + fixedMul(rotationDelta, t),
+      scale: c1.scale.lerp(c2.scale, t),
+      skew: c1.skew + fixedMul(c2.skew - c1.skew, t),
+    });
+  }
+
+  /**
+   * Create float matrix equals self.
+   * Conversion is exact.
+   *
+   * @returns Matrix
+   */
+  toMatrix(): Matrix {
+    return new Matrix(
+      fixedToNumber(this.a),
+      fixedToNumber(this.b),
+      fixedToNumber(this.c),
+      fixedToNumber(this.d),
+      fixedToNumber(this.e),
+      fixedToNumber(this.f)
+    );
+  }
+
+  /**
+   * Decompose matrix as translation, rotation, scale and skew.
+   * Matrix is decomposed as T * R * K * S like `Matrix.decompose`.
+   *
+   * @returns self components
+   */
+  decompose(): {
+    translation: FixedVector;
+    rotation: Fixed;
+    scale: FixedVector;
+    skew: Fixed;
+  } {
+    const translation = new FixedVector(this.e, this.f);
+    const det = this.determinant();
+    let scaleX = fixedHypot(this.a, this.b);
+
+    if (scaleX === 0) {
+      // x-axis is collapsed, so take rotation from y-axis
+      const scaleY = fixedHypot(this.c, this.d);
+      return {
+        translation,
+        rotation: scaleY === 0 ? 0 : fixedAtan2(-this.c, this.d),
+        scale: new FixedVector(0, scaleY),
+        skew: 0,
+      };
+    }
+
+    let rotation = fixedAtan2(this.b, this.a);
+    if (det < 0 && Math.abs(rotation) > fixedPi / 2) {
+      // Flip x instead of y to keep rotation small
+      scaleX = -scaleX;
+      rotation = fixedAtan2(-this.b, -this.a);
+    }
+    const scaleY = fixedDiv(det, scaleX);
+    const dot = fixedMul(this.a, this.c) + fixedMul(this.b, this.d);
+    // atan(dot / det) keeping skew in (-PI / 2, PI / 2)
+    const skew =
+      det === 0 ? 0 : det > 0 ? fixedAtan2(dot, det) : fixedAtan2(-dot, -det);
+    return {
+      translation,
+      rotation,
+      scale: new FixedVector(scaleX, scaleY),
+      skew,
+    };
+  }
+
+  /**
+   * Create globalized other matrix.
+   *
+   * @param localMatrix
+   * @returns self * localMatrix
+   */
+  globalize(localMatrix: MatrixLike): FixedMatrix {
+    return FixedMatrix.product(this, localMatrix);
+  }
+
+  /**
+   * Create localized other matrix.
+   *
+   * @param globalMatrix
+   * @returns inverse(self) * globalMatrix
+   */
+  localize(globalMatrix: MatrixLike): FixedMatrix {
+    return FixedMatrix.product(this.inverse(), globalMatrix);
+  }
+
+  /**
+   * Create matrix globalized by other matrix.
+   *
+   * @param globalMatrix
+   * @returns globalMatrix * self
+   */
+  globalizedBy(globalMatrix: MatrixLike): FixedMatrix {
+    return FixedMatrix.product(globalMatrix, this);
+  }
+
+  /**
+   * Create matrix localized by other matrix.
+   *
+   * @param localMatrix
+   * @returns inverse(localMatrix) * self
+   */
+  localizedBy(localMatrix: MatrixLike): FixedMatrix {
+    return FixedMatrix.product(FixedMatrix.inverse(localMatrix), this);
+  }
+
+  /**
+   * Create inverse matrix from self.
+   * Throw Error when self is not invertible. Use `tryInverse` to avoid it.
+   *
+   * @returns inverse matrix
+   */
+  inverse(): FixedMatrix {
+    return FixedMatrix.inverse(this);
+  }
+
+  /**
+   * Compute determinant of self.
+   *
+   * @returns determinant
+   */
+  determinant(): Fixed {
+    return (fixedMul(this.a, this.d) - fixedMul(this.b, this.c)) | 0;
+  }
+
+  /**
+   * Return self can be inverted.
+   *
+   * @returns determinant is not 0
+   */
+  isInvertible(): boolean {
+    return this.determinant() !== 0;
+  }
+
+  /**
+   * Create inverse matrix from self if self can be inverted.
+   *
+   * @returns inverse matrix or undefined if self is not invertible
+   */
+  tryInverse(): FixedMatrix | undefined {
+    if (!this.isInvertible()) return undefined;
+    return FixedMatrix.inverse(this);
+  }
+
+  /**
+   * Create localized other matrix if self can be inverted.
+   *
+   * @param globalMatrix
+   * @returns localized matrix or undefined if self is not invertible
+   */
+  tryLocalize(globalMatrix: MatrixLike): FixedMatrix | undefined {
+    if (!this.isInvertible()) return undefined;
+    return FixedMatrix.product(this.inverse(), globalMatrix);
+  }
+
+  /**
+   * Create matrix localized by other matrix if other can be inverted.
+   *
+   * @param localMatrix
+   * @returns localized matrix or undefined if other is not invertible
+   */
+  tryLocalizedBy(localMatrix: MatrixLike): FixedMatrix | undefined {
+    if (!FixedMatrix.from(localMatrix).isInvertible()) return undefined;
+    return FixedMatrix.product(FixedMatrix.inverse(localMatrix), this);
+  }
+
+  /**
+   * Localize point if self can be inverted.
+   *
+   * @param point global point
+   * @returns localized point or undefined if self is not invertible
+   */
+  tryLocalizePoint(point: VectorLike): FixedVector | undefined {
+    if (!this.isInvertible()) return undefined;
+    return FixedMatrix.productVector(this.inverse(), point);
+  }
+
+  /**
+   * Create translated matrix from self.
+   *
+   * @param delta translation
+   * @returns translated matrix
+   */
+  translated(delta: VectorLike): FixedMatrix {
+    return new FixedMatrix(
+      this.a,
+      this.b,
+      this.c,
+      this.d,
+      this.e + delta.x,
+      this.f + delta.y
+    );
+  }
+
+  /**
+   * Create rotated matrix from self.
+   *
+   * @param delta rotation
+   * @returns rotated matrix
+   */
+  rotated(delta: Fixed): FixedMatrix {
+    const r = FixedMatrix.from({ rotation: delta });
+    return FixedMatrix.product(r, this);
+  }
+
+  /**
+   * Create scaled matrix from self.
+   *
+   * @param scale
+   * @returns scaled matrix
+   */
+  scaled(scale: VectorLike): FixedMatrix {
+    const s = FixedMatrix.from({ scale });
+    return FixedMatrix.product(s, this);
+  }
+
+  /**
+   * Create matrix rotated around pivot from self.
+   *
+   * @param delta rotation
+   * @param pivot fixed point in global space
+   * @returns rotated matrix
+   */
+  rotatedAround(delta: Fixed, pivot: VectorLike): FixedMatrix {
+    return this.translated({ x: -pivot.x, y: -pivot.y })
+      .rotated(delta)
+      .translated(pivot);
+  }
+
+  /**
+   * Create matrix scaled around pivot from self.
+   *
+   * @param scale
+   * @param pivot fixed point in global space
+   * @returns scaled matrix
+   */
+  scaledAround(scale: VectorLike, pivot: VectorLike): FixedMatrix {
+    return this.translated({ x: -pivot.x, y: -pivot.y })
+      .scaled(scale)
+      .translated(pivot);
+  }
+
+  /**
+   * Globalize point.
+   *
+   * @param point local point
+   * @returns globalized point
+   */
+  globalizePoint(point: VectorLike): FixedVector {
+    return FixedMatrix.productVector(this, point);
+  }
+
+  /**
+   * Localize point.
+   * Throw Error when self is not invertible.
+   *
+   * @param point global point
+   * @returns localized point
+   */
+  localizePoint(point: VectorLike): FixedVector {
+    return FixedMatrix.productVector(this.inverse(), point);
+  }
+
+  /**
+   * Globalize points stored as [x0, y0, x1, y1, ...] without allocating FixedVectors.
+   *
+   * @param points raw local points
+   * @param out buffer to store globalized points. Default is `points` itself
+   * @returns `out`
+   */
+  globalizePoints(points: Int32Array, out = points): Int32Array {
+    return FixedMatrix.productVectors(this, points, out);
+  }
+
+  /**
+   * Localize points stored as [x0, y0, x1, y1, ...] without allocating FixedVectors.
+   * Throw Error when self is not invertible.
+   *
+   * @param points raw global points
+   * @param out buffer to store localized points. Default is `points` itself
+   * @returns `out`
+   */
+  localizePoints(points: Int32Array, out = points): Int32Array {
+    return FixedMatrix.productVectors(this.inverse(), points, out);
+  }
+
+  /**
+   * Return self elements equal other elements.
+   *
+   * @param other other matrix
+   * @returns self equals other
+   */
+  equals(other: MatrixLike): boolean {
+    const others = [other.a, other.b, other.c, other.d, other.e, other.f];
+    return this.asArray().every((v, i) => v === others[i]);
+  }
+
+  /**
+   * Return self elements is closed to other.
+   *
+   * @param other other matrix
+   * @param delta allowable error as raw value
+   * @returns self is closed to other
+   */
+  isClosedTo(other: MatrixLike, delta = 1): boolean {
+    if (delta < 0) throw new Error("delta is negative");
+    const others = [other.a, other.b, other.c, other.d, other.e, other.f];
+    return this.asArray().every((v, i) => Math.abs(v - others[i]) <= delta);
+  }
+
+  /**
+   * Create object contains raw elements of self.
+   *
+   * @returns object contains raw elements of self
+   */
+  asObject(): MatrixLike {
+    const { a, b, c, d, e, f } = this;
+    return { a, b, c, d, e, f };
+  }
+
+  /**
+   * Create array contains raw elements of self.
+   *
+   * @returns [a, b, c, d, e, f]
+   */
+  asArray(): [number, number, number, number, number, number] {
+    const { a, b, c, d, e, f } = this;
+    return [a, b, c, d, e, f];
+  }
+
+  /**
+   * Create string expresses self.
+   *
+   * @returns "FixedMatrix(a, b, c, d, e, f)" by numbers
+   */
+  toString(): string {
+    return `FixedMatrix(${this.asArray().map(fixedToNumber).join(", ")})`;
+  }
+}
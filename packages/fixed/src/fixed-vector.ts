@@ -0,0 +1,510 @@
+import { Vector, VectorLike, PolarLike } from "@trans-vector2d/vector";
+import {
+  Fixed,
+  fixedOne,
+  fixedFromNumber,
+  fixedToNumber,
+  fixedMul,
+  fixedDiv,
+  fixedHypot,
+  fixedSin,
+  fixedCos,
+  fixedAtan2,
+} from "./fixed";
+
+/**
+ * Immutable 2d vector of Q16.16 fixed-point numbers.
+ * Elements are raw 32bit integers, and raw value 65536 means 1.
+ * Every method uses integer arithmetic only,
+ * so results are bit-identical on any platform.
+ * Results out of range wrap around like 32bit integer.
+ */
+export class FixedVector {
+  static zero = new FixedVector(0, 0);
+  static one = new FixedVector(fixedOne, fixedOne);
+
+  /**
+   * @param x Raw Q16.16 x. Fraction is dropped
+   * @param y Raw Q16.16 y. Fraction is dropped
+   */
+  constructor(public readonly x: Fixed, public readonly y: Fixed) {
+    this.x = x | 0;
+    this.y = y | 0;
+  }
+
+  /**
+   * Create FixedVector from raw elements.
+   *
+   * @param v Object contains raw Q16.16 elements. Missing elements are treated as 0
+   * @returns FixedVector
+   */
+  static from(v: Partial<VectorLike>): FixedVector {
+    const x = v.x === undefined ? 0 : v.x;
+    const y = v.y === undefined ? 0 : v.y;
+    return new FixedVector(x, y);
+  }
+
+  /**
+   * Create FixedVector from float vector by rounding elements.
+   *
+   * @example
+   * FixedVector.fromVector({ x: 1.5, y: -2 }) // { x: 98304, y: -131072 }
+   * @param v Float vector
+   * @returns FixedVector
+   */
+  static fromVector(v: VectorLike): FixedVector {
+    return new FixedVector(fixedFromNumber(v.x), fixedFromNumber(v.y));
+  }
+
+  /**
+   * Create FixedVector from polar coordinates.
+   *
+   * @param length Length of vector
+   * @param angle Angle as radians
+   * @returns FixedVector
+   */
+  static fromPolar(length: Fixed, angle: Fixed): FixedVector {
+    return new FixedVector(
+      fixedMul(length, fixedCos(angle)),
+      fixedMul(length, fixedSin(angle))
+    );
+  }
+
+  /**
+   * Create float vector equals self.
+   * Conversion is exact.
+   *
+   * @returns Vector
+   */
+  toVector(): Vector {
+    return new Vector(fixedToNumber(this.x), fixedToNumber(this.y));
+  }
+
+  /**
+   * Create added vector.
+   *
+   * @param v Another vector
+   * @returns Added vector
+   */
+  add(v: VectorLike): FixedVector {
+    return new FixedVector(this.x + v.x, this.y + v.y);
+  }
+
+  /**
+   * Create subtracted vector.
+   *
+   * @param v Another vector
+   * @returns Subtracted vector
+   */
+  sub(v: VectorLike): FixedVector {
+    return new FixedVector(this.x - v.x, this.y - v.y);
+  }
+
+  /**
+   * Create hadamard-producted vector.
+   *
+   * @param v Another vector
+   * @returns Hadamard-producted vector
+   */
+  hadamard(v: VectorLike): FixedVector {
+    return new FixedVector(fixedMul(this.x, v.x), fixedMul(this.y, v.y));
+  }
+
+  /**
+   * Create multiplied vector.
+   *
+   * @param s Scalar
+   * @returns Multiplied vector
+   */
+  mlt(s: Fixed): FixedVector {
+    return new FixedVector(fixedMul(this.x, s), fixedMul(this.y, s));
+  }
+
+  /**
+   * Create divided vector.
+   *
+   * @param s Scalar. Must not be 0
+   * @returns Divided vector
+   */
+  div(s: Fixed): FixedVector {
+    return new FixedVector(fixedDiv(this.x, s), fixedDiv(this.y, s));
+  }
+
+  /**
+   * Create negated vector.
+   *
+   * @returns Negated vector
+   */
+  negate(): FixedVector {
+    return new FixedVector(-this.x, -this.y);
+  }
+
+  /**
+   * Compute norm of self by integer square root.
+   *
+   * @returns Norm
+   */
+  norm(): Fixed {
+    return fixedHypot(this.x, this.y);
+  }
+
+  /**
+   * Compute squared norm of self.
+   *
+   * @returns Squared norm
+   */
+  squaredNorm(): Fixed {
+    return this.dot(this);
+  }
+
+  /**
+   * Create vector each elements is absolute.
+   *
+   * @returns Absolute vector
+   */
+  abs(): FixedVector {
+    return new FixedVector(Math.abs(this.x), Math.abs(this.y));
+  }
+
+  /**
+   * Compute distance between self and other.
+   *
+   * @param other Another vector
+   * @returns Distance
+   */
+  distance(other: VectorLike): Fixed {
+    return this.sub(other).norm();
+  }
+
+  /**
+   * Create unit vector has same direction.
+   *
+   * @returns Unit vector
+   */
+  unit(): FixedVector {
+    const norm = this.norm();
+    if (norm === 0) throw new Error("vector is zero");
+    return this.div(norm);
+  }
+
+  /**
+   * Create unit vector if self has direction.
+   *
+   * @returns Unit vector or undefined if self is zero
+   */
+  tryUnit(): FixedVector | undefined {
+    const norm = this.norm();
+    if (norm === 0) return undefined;
+    return this.div(norm);
+  }
+
+  /**
+   * Create unit vector or fallback if self has no direction.
+   *
+   * @param fallback Vector used when self is zero
+   * @returns Unit vector or fallback
+   */
+  unitOr(fallback: VectorLike): FixedVector {
+    return this.tryUnit() || FixedVector.from(fallback);
+  }
+
+  /**
+   * Create rotated vector.
+   *
+   * @param rotation Rotation as radians
+   * @returns Rotated vector
+   */
+  rotate(rotation: Fixed): FixedVector {
+    const cos = fixedCos(rotation);
+    const sin = fixedSin(rotation);
+    return new FixedVector(
+      fixedMul(cos, this.x) - fixedMul(sin, this.y),
+      fixedMul(sin, this.x) + fixedMul(cos, this.y)
+    );
+  }
+
+  /**
+   * Compute angle of self.
+   *
+   * @returns Angle as radians
+   */
+  angle(): Fixed {
+    return fixedAtan2(this.y, this.x);
+  }
+
+  /**
+   * Create linearly interpolated vector between self and other.
+   *
+   * @param v Another vector
+   * @param t Interpolation ratio. 0 is self and 1 is other
+   * @returns Interpolated vector
+   */
+  lerp(v: VectorLike, t: Fixed): FixedVector {
+    return new FixedVector(
+      this.x + fixedMul(v.x - this.x, t),
+      this.y + fixedMul(v.y - this.y, t)
+    );
+  }
+
+  /**
+   * Compute dot product.
+   *
+   * @param v Another vector
+   * @returns Dot product
+   */
+  dot(v: VectorLike): Fixed {
+    return (fixedMul(this.x, v.x) + fixedMul(this.y, v.y)) | 0;
+  }
+
+  /**
+   * Compute z element of cross product.
+   *
+   * @param v Another vector
+   * @returns Cross product
+   */
+  cross(v: VectorLike): Fixed {
+    return (fixedMul(this.x, v.y) - fixedMul(this.y, v.x)) | 0;
+  }
+
+  /**
+   * Create projection of self onto other.
+   * Throw Error when other is zero. Use `tryProjectOnto` to avoid it.
+   *
+   * @param v Vector projected onto. Must not be zero
+   * @returns Projected vector
+   */
+  projectOnto(v: VectorLike): FixedVector {
+    const other = FixedVector.from(v);
+    return other.mlt(fixedDiv(this.dot(other), other.squaredNorm()));
+  }
+
+  /**
+   * Create projection of self onto other if other has direction.
+   *
+   * @param v Vector projected onto
+   * @returns Projected vector or undefined if squared norm of other is 0
+   */
+  tryProjectOnto(v: VectorLike): FixedVector | undefined {
+    if (FixedVector.from(v).squaredNorm() === 0) return undefined;
+    return this.projectOnto(v);
+  }
+
+  /**
+   * Create rejection of self from other.
+   * Throw Error when other is zero. Use `tryRejectFrom` to avoid it.
+   *
+   * @param v Another vector. Must not be zero
+   * @returns Rejected vector
+   */
+  rejectFrom(v: VectorLike): FixedVector {
+    return this.sub(this.projectOnto(v));
+  }
+
+  /**
+   * Create rejection of self from other if other has direction.
+   *
+   * @param v Another vector
+   * @returns Rejected vector or undefined if squared norm of other is 0
+   */
+  tryRejectFrom(v: VectorLike): FixedVector | undefined {
+    const projected = this.tryProjectOnto(v);
+    if (projected === undefined) return undefined;
+    return this.sub(projected);
+  }
+
+  /**
+   * Create reflected vector.
+   * Throw Error when normal is zero. Use `tryReflect` to avoid it.
+   *
+   * @param normal Normal of mirror. Must not be zero
+   * @returns Reflected vector
+   */
+  reflect(normal: VectorLike): FixedVector {
+    const projected = this.projectOnto(normal);
+    return this.sub(projected.add(projected));
+  }
+
+  /**
+   * Create reflected vector if normal has direction.
+   *
+   * @param normal Normal of mirror
+   * @returns Reflected vector or undefined if squared norm of normal is 0
+   */
+  tryReflect(normal: VectorLike): FixedVector | undefined {
+    const projected = this.tryProjectOnto(normal);
+    if (projected === undefined) return undefined;
+    return this.sub(projected.add(projected));
+  }
+
+  /**
+   * Create vector rotated by PI / 2.
+   *
+   * @returns Perpendicular vector
+   */
+  perpLeft(): FixedVector {
+    return new FixedVector(-this.y, this.x);
+  }
+
+  /**
+   * Create vector rotated by -PI / 2.
+   *
+   * @returns Perpendicular vector
+   */
+  perpRight(): FixedVector {
+    return new FixedVector(this.y, -this.x);
+  }
+
+  /**
+   * Compute signed angle from self to other.
+   *
+   * @param v Another vector
+   * @returns Signed angle as radians
+   */
+  angleTo(v: VectorLike): Fixed {
+    return fixedAtan2(this.cross(v), this.dot(v));
+  }
+
+  /**
+   * Create vector has same direction and given norm.
+   * Throw Error when self is zero. Use `tryWithNorm` to avoid it.
+   *
+   * @param norm Norm of result
+   * @returns Resized vector
+   */
+  withNorm(norm: Fixed): FixedVector {
+    const current = this.norm();
+    if (current === 0) throw new Error("vector is zero");
+    return this.mlt(fixedDiv(norm, current));
+  }
+
+  /**
+   * Create vector has same direction and given norm if self has direction.
+   *
+   * @param norm Norm of result
+   * @returns Resized vector or undefined if self is zero
+   */
+  tryWithNorm(norm: Fixed): FixedVector | undefined {
+    const current = this.norm();
+    if (current === 0) return undefined;
+    return this.mlt(fixedDiv(norm, current));
+  }
+
+  /**
+   * Create vector has same direction and clamped norm.
+   * Zero vector is returned as it is.
+   *
+   * @param min Minimum norm
+   * @param max Maximum norm
+   * @returns Clamped vector
+   */
+  clampNorm(min: Fixed, max: Fixed): FixedVector {
+    if (min > max) throw new Error("min is greater than max");
+    const norm = this.norm();
+    if (norm === 0) return this;
+    if (norm < min) return this.withNorm(min);
+    if (norm > max) return this.withNorm(max);
+    return this;
+  }
+
+  /**
+   * Create vector each elements is minimum of self and other.
+   *
+   * @param v Another vector
+   * @returns Minimum vector
+   */
+  min(v: VectorLike): FixedVector {
+    return new FixedVector(Math.min(this.x, v.x), Math.min(this.y, v.y));
+  }
+
+  /**
+   * Create vector each elements is maximum of self and other.
+   *
+   * @param v Another vector
+   * @returns Maximum vector
+   */
+  max(v: VectorLike): FixedVector {
+    return new FixedVector(Math.max(this.x, v.x), Math.max(this.y, v.y));
+  }
+
+  /**
+   * Create vector each elements is floored to integer.
+   *
+   * @returns Floored vector
+   */
+  floor(): FixedVector {
+    return new FixedVector(this.x & -fixedOne, this.y & -fixedOne);
+  }
+
+  /**
+   * Create vector each elements is rounded to integer.
+   *
+   * @returns Rounded vector
+   */
+  round(): FixedVector {
+    const half = fixedOne / 2;
+    return new FixedVector(
+      (this.x + half) & -fixedOne,
+      (this.y + half) & -fixedOne
+    );
+  }
+
+  /**
+   * Create polar coordinates of self.
+   *
+   * @returns Length and angle
+   */
+  toPolar(): PolarLike {
+    return { length: this.norm(), angle: this.angle() };
+  }
+
+  /**
+   * Compute self equals other.
+   *
+   * @param v Another vector
+   * @returns Self equals other
+   */
+  equals(v: VectorLike): boolean {
+    return this.x === v.x && this.y === v.y;
+  }
+
+  /**
+   * Compute self is closed to other.
+   *
+   * @param v Another vector
+   * @param delta Allowable error as raw value
+   * @returns Self is closed to other
+   */
+  isClosedTo(v: VectorLike, delta = 1): boolean {
+    if (delta < 0) throw new Error("delta is negative");
+    return Math.abs(this.x - v.x) <= delta && Math.abs(this.y - v.y) <= delta;
+  }
+
+  /**
+   * Create simple object equals self.
+   *
+   * @returns Object contains raw elements
+   */
+  asObject(): VectorLike {
+    return { x: this.x, y: this.y };
+  }
+
+  /**
+   * Create array equals [x, y].
+   *
+   * @returns Array contains raw elements
+   */
+  asArray(): [number, number] {
+    return [this.x, this.y];
+  }
+
+  /**
+   * Create string expresses self.
+   *
+   * @example
+   * FixedVector.fromVector({ x: 0.5, y: 1 }).toString() // "FixedVector(0.5, 1)"
+   * @returns String expresses self by numbers
+   */
+  toString(): string {
+    return `FixedVector(${fixedToNumber(this.x)}, ${fixedToNumber(this.y)})`;
+  }
+}
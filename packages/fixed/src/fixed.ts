@@ -0,0 +1,754 @@
+/**
+ * Q16.16 fixed-point number stored in 32bit integer.
+ * Raw value 65536 means 1, so range is [-32768, 32768) and resolution is 1 / 65536.
+ */
+export type Fixed = number;
+
+/**
+ * 1 in Q16.16.
+ */
+export const fixedOne: Fixed = 65536;
+
+/**
+ * PI in Q16.16.
+ */
+export const fixedPi: Fixed = 205887;
+
+/**
+ * 2 * PI in Q16.16.
+ * Rounded independently, so it is 1 greater than `fixedPi * 2`.
+ */
+export const fixedTwoPi: Fixed = 411775;
+
+/**
+ * PI / 2 in Q16.16.
+ */
+export const fixedHalfPi: Fixed = 102944;
+
+// Table steps per radian in Q16.16. Table has 1024 steps per full turn.
+// Low part keeps 16 more fraction bits for large angles
+const radianToStep = 10680707;
+const radianToStepLow = 28238;
+
+// round(sin(i * PI / 512) * 65536) for quarter turn.
+// Values are written as literals because Math.sin may differ between engines
+const sinTable = [
+  0,
+  402,
+  804,
+  1206,
+  1608,
+  2010,
+  2412,
+  2814,
+  3216,
+  3617,
+  4019,
+  4420,
+  4821,
+  5222,
+  5623,
+  6023,
+  6424,
+  6824,
+  7224,
+  7623,
+  8022,
+  8421,
+  8820,
+  9218,
+  9616,
+  10014,
+  10411,
+  10808,
+  11204,
+  11600,
+  11996,
+  12391,
+  12785,
+  13180,
+  13573,
+  13966,
+  14359,
+  14751,
+  15143,
+  15534,
+  15924,
+  16314,
+  16703,
+  17091,
+  17479,
+  17867,
+  18253,
+  18639,
+  19024,
+  19409,
+  19792,
+  20175,
+  20557,
+  20939,
+  21320,
+  21699,
+  22078,
+  22457,
+  22834,
+  23210,
+  23586,
+  23961,
+  24335,
+  24708,
+  25080,
+  25451,
+  25821,
+  26190,
+  26558,
+  26925,
+  27291,
+  27656,
+  28020,
+  28383,
+  28745,
+  29106,
+  29466,
+  29824,
+  30182,
+  30538,
+  30893,
+  31248,
+  31600,
+  31952,
+  32303,
+  32652,
+  33000,
+  33347,
+  33692,
+  34037,
+  34380,
+  34721,
+  35062,
+  35401,
+  35738,
+  36075,
+  36410,
+  36744,
+  37076,
+  37407,
+  37736,
+  38064,
+  38391,
+  38716,
+  39040,
+  39362,
+  39683,
+  40002,
+  40320,
+  40636,
+  40951,
+  41264,
+  41576,
+  41886,
+  42194,
+  42501,
+  42806,
+  43110,
+  43412,
+  43713,
+  44011,
+  44308,
+  44604,
+  44898,
+  45190,
+  45480,
+  45769,
+  46056,
+  46341,
+  46624,
+  46906,
+  47186,
+  47464,
+  47741,
+  48015,
+  48288,
+  48559,
+  48828,
+  49095,
+  49361,
+  49624,
+  49886,
+  50146,
+  50404,
+  50660,
+  50914,
+  51166,
+  51417,
+  51665,
+  51911,
+  52156,
+  52398,
+  52639,
+  52878,
+  53114,
+  53349,
+  53581,
+  53812,
+  54040,
+  54267,
+  54491,
+  54714,
+  54934,
+  55152,
+  55368,
+  55582,
+  55794,
+  56004,
+  56212,
+  56418,
+  56621,
+  56823,
+  57022,
+  57219,
+  57414,
+  57607,
+  57798,
+  57986,
+  58172,
+  58356,
+  58538,
+  58718,
+  58896,
+  59071,
+  59244,
+  59415,
+  59583,
+  59750,
+  59914,
+  60075,
+  60235,
+  60392,
+  60547,
+  60700,
+  60851,
+  60999,
+  61145,
+  61288,
+  61429,
+  61568,
+  61705,
+  61839,
+  61971,
+  62101,
+  62228,
+  62353,
+  62476,
+  62596,
+  62714,
+  62830,
+  62943,
+  63054,
+  63162,
+  63268,
+  63372,
+  63473,
+  63572,
+  63668,
+  63763,
+  63854,
+  63944,
+  64031,
+  64115,
+  64197,
+  64277,
+  64354,
+  64429,
+  64501,
+  64571,
+  64639,
+  64704,
+  64766,
+  64827,
+  64884,
+  64940,
+  64993,
+  65043,
+  65091,
+  65137,
+  65180,
+  65220,
+  65259,
+  65294,
+  65328,
+  65358,
+  65387,
+  65413,
+  65436,
+  65457,
+  65476,
+  65492,
+  65505,
+  65516,
+  65525,
+  65531,
+  65535,
+  65536,
+];
+
+// round(atan(i / 256) * 65536) for ratio in [0, 1]
+const atanTable = [
+  0,
+  256,
+  512,
+  768,
+  1024,
+  1280,
+  1536,
+  1792,
+  2047,
+  2303,
+  2559,
+  2814,
+  3070,
+  3325,
+  3580,
+  3836,
+  4091,
+  4346,
+  4600,
+  4855,
+  5110,
+  5364,
+  5618,
+  5872,
+  6126,
+  6380,
+  6633,
+  6887,
+  7140,
+  7392,
+  7645,
+  7898,
+  8150,
+  8402,
+  8653,
+  8905,
+  9156,
+  9407,
+  9657,
+  9908,
+  10158,
+  10408,
+  10657,
+  10906,
+  11155,
+  11403,
+  11652,
+  11899,
+  12147,
+  12394,
+  12641,
+  12887,
+  13133,
+  13379,
+  13624,
+  13869,
+  14114,
+  14358,
+  14601,
+  14845,
+  15088,
+  15330,
+  15572,
+  15814,
+  16055,
+  16296,
+  16536,
+  16776,
+  17015,
+  17254,
+  17492,
+  17730,
+  17968,
+  18205,
+  18441,
+  18677,
+  18913,
+  19148,
+  19382,
+  19616,
+  19850,
+  20083,
+  20315,
+  20547,
+  20779,
+  21009,
+  21240,
+  21469,
+  21699,
+  21927,
+  22156,
+  22383,
+  22610,
+  22836,
+  23062,
+  23288,
+  23512,
+  23737,
+  23960,
+  24183,
+  24406,
+  24627,
+  24849,
+  25069,
+  25289,
+  25509,
+  25727,
+  25946,
+  26163,
+  26380,
+  26597,
+  26813,
+  27028,
+  27242,
+  27456,
+  27670,
+  27882,
+  28094,
+  28306,
+  28517,
+  28727,
+  28936,
+  29145,
+  29354,
+  29561,
+  29768,
+  29975,
+  30180,
+  30386,
+  30590,
+  30794,
+  30997,
+  31200,
+  31402,
+  31603,
+  31803,
+  32003,
+  32203,
+  32401,
+  32600,
+  32797,
+  32994,
+  33190,
+  33385,
+  33580,
+  33774,
+  33968,
+  34160,
+  34353,
+  34544,
+  34735,
+  34925,
+  35115,
+  35304,
+  35492,
+  35680,
+  35867,
+  36053,
+  36239,
+  36424,
+  36608,
+  36792,
+  36975,
+  37158,
+  37340,
+  37521,
+  37701,
+  37881,
+  38060,
+  38239,
+  38417,
+  38594,
+  38771,
+  38947,
+  39123,
+  39297,
+  39472,
+  39645,
+  39818,
+  39990,
+  40162,
+  40333,
+  40503,
+  40673,
+  40842,
+  41010,
+  41178,
+  41346,
+  41512,
+  41678,
+  41844,
+  42008,
+  42172,
+  42336,
+  42499,
+  42661,
+  42823,
+  42984,
+  43145,
+  43304,
+  43464,
+  43622,
+  43780,
+  43938,
+  44095,
+  44251,
+  44407,
+  44562,
+  44716,
+  44870,
+  45024,
+  45176,
+  45328,
+  45480,
+  45631,
+  45781,
+  45931,
+  46080,
+  46229,
+  46377,
+  46525,
+  46672,
+  46818,
+  46964,
+  47109,
+  47254,
+  47398,
+  47542,
+  47685,
+  47827,
+  47969,
+  48111,
+  48251,
+  48392,
+  48531,
+  48671,
+  48809,
+  48947,
+  49085,
+  49222,
+  49359,
+  49495,
+  49630,
+  49765,
+  49899,
+  50033,
+  50167,
+  50299,
+  50432,
+  50563,
+  50695,
+  50826,
+  50956,
+  51086,
+  51215,
+  51344,
+  51472,
+];
+
+// Square root of non-negative integer less than 2^53 by digit-by-digit method.
+// Result is rounded to nearest
+const integerSqrt = (n: number): number => {
+  let rest = n;
+  let root = 0;
+  let bit = 4503599627370496;
+  while (bit > 1 && bit > rest) bit /= 4;
+  while (bit >= 1) {
+    if (rest >= root + bit) {
+      rest -= root + bit;
+      root = Math.floor(root / 2) + bit;
+    } else {
+      root = Math.floor(root / 2);
+    }
+    bit /= 4;
+  }
+  // rest is n - root^2 and (root + 0.5)^2 is root^2 + root + 0.25
+  return rest > root ? root + 1 : root;
+};
+
+// Sample sine table at step of full turn
+const sinStep = (step: number): Fixed => {
+  const i = step & 1023;
+  const j = i & 255;
+  switch (i >> 8) {
+    case 0:
+      return sinTable[j];
+    case 1:
+      return sinTable[256 - j];
+    case 2:
+      return -sinTable[j];
+    default:
+      return -sinTable[256 - j];
+  }
+};
+
+/**
+ * Convert number to Q16.16 by rounding to nearest.
+ *
+ * @example
+ * fixedFromNumber(1.5) // 98304
+ * @param value Number
+ * @returns Fixed
+ */
+export function fixedFromNumber(value: number): Fixed {
+  const raw = Math.round(value * fixedOne);
+  if (!(raw >= -2147483648 && raw <= 2147483647)) {
+    throw new Error("value is out of range");
+  }
+  return raw | 0;
+}
+
+/**
+ * Convert Q16.16 to number.
+ * Conversion is exact.
+ *
+ * @example
+ * fixedToNumber(98304) // 1.5
+ * @param value Fixed
+ * @returns Number
+ */
+export function fixedToNumber(value: Fixed): number {
+  return value / fixedOne;
+}
+
+/**
+ * Multiply Q16.16 numbers.
+ * Result is rounded to nearest and wraps around on overflow.
+ *
+ * @example
+ * fixedMul(fixedFromNumber(1.5), fixedFromNumber(-2)) // fixedFromNumber(-3)
+ * @param a Fixed
+ * @param b Fixed
+ * @returns a * b
+ */
+export function fixedMul(a: Fixed, b: Fixed): Fixed {
+  // Split into 16bit halves to keep every partial product exact in float64
+  const ah = a >> 16;
+  const al = a & 0xffff;
+  const bh = b >> 16;
+  const bl = b & 0xffff;
+  return (
+    (ah * bh * 65536 + ah * bl + al * bh + ((al * bl + 0x8000) >>> 16)) | 0
+  );
+}
+
+/**
+ * Divide Q16.16 numbers.
+ * Result is rounded to nearest and wraps around on overflow.
+ *
+ * @example
+ * fixedDiv(fixedFromNumber(3), fixedFromNumber(2)) // fixedFromNumber(1.5)
+ * @param a Dividend
+ * @param b Divisor
+ * @returns a / b
+ */
+export function fixedDiv(a: Fixed, b: Fixed): Fixed {
+  if (b === 0) throw new Error("divisor is zero");
+  // Numerator is less than 2^49, so float64 division floors correctly
+  const n = b < 0 ? -a : a;
+  const d = Math.abs(b);
+  return Math.floor((2 * n * fixedOne + d) / (2 * d)) | 0;
+}
+
+/**
+ * Compute square root of Q16.16 number by integer arithmetic.
+ *
+ * @example
+ * fixedSqrt(fixedFromNumber(2.25)) // fixedFromNumber(1.5)
+ * @param value Non-negative Fixed
+ * @returns Square root rounded to nearest
+ */
+export function fixedSqrt(value: Fixed): Fixed {
+  if (value < 0) throw new Error("value is negative");
+  return integerSqrt(value * fixedOne);
+}
+
+/**
+ * Compute length of (x, y) without intermediate overflow.
+ * Result wraps around when it is out of range.
+ *
+ * @param x Fixed
+ * @param y Fixed
+ * @returns sqrt(x^2 + y^2)
+ */
+export function fixedHypot(x: Fixed, y: Fixed): Fixed {
+  let ax = Math.abs(x);
+  let ay = Math.abs(y);
+  let scale = 1;
+  // Keep sum of squares less than 2^53
+  while (ax >= 67108864 || ay >= 67108864) {
+    ax = Math.floor(ax / 2);
+    ay = Math.floor(ay / 2);
+    scale *= 2;
+  }
+  return (integerSqrt(ax * ax + ay * ay) * scale) | 0;
+}
+
+// Interpolate sine table. Offset 256 steps makes cosine
+const lookupSin = (angle: Fixed, offset: number): Fixed => {
+  // Position wraps by 2^16 steps, that is exactly 64 turns
+  const position =
+    (fixedMul(angle, radianToStep) +
+      Math.round((angle * radianToStepLow) / 4294967296)) |
+    0;
+  const step = (position >> 16) + offset;
+  const s0 = sinStep(step);
+  const s1 = sinStep(step + 1);
+  return s0 + fixedMul(s1 - s0, position & 0xffff);
+};
+
+/**
+ * Compute sine by lookup table.
+ * Error is less than 2 / 65536.
+ *
+ * @param angle Angle as radians in Q16.16
+ * @returns Sine in Q16.16
+ */
+export function fixedSin(angle: Fixed): Fixed {
+  return lookupSin(angle, 0);
+}
+
+/**
+ * Compute cosine by lookup table.
+ * Error is less than 2 / 65536.
+ *
+ * @param angle Angle as radians in Q16.16
+ * @returns Cosine in Q16.16
+ */
+export function fixedCos(angle: Fixed): Fixed {
+  return lookupSin(angle, 256);
+}
+
+/**
+ * Compute angle of (x, y) by lookup table.
+ * Error is less than 3 / 65536.
+ *
+ * @example
+ * fixedAtan2(fixedOne, 0) // fixedHalfPi
+ * @param y Fixed
+ * @param x Fixed
+ * @returns Angle as radians in Q16.16 in [-PI, PI]. 0 if x and y are 0
+ */
+export function fixedAtan2(y: Fixed, x: Fixed): Fixed {
+  if (x === 0 && y === 0) return 0;
+  const ax = Math.abs(x);
+  const ay = Math.abs(y);
+  // Reduce to ratio in [0, 1] and restore octant later
+  const ratio = ay <= ax ? fixedDiv(ay, ax) : fixedDiv(ax, ay);
+  const i = ratio >> 8;
+  let angle =
+    i >= 256
+      ? atanTable[256]
+      : atanTable[i] +
+        (((atanTable[i + 1] - atanTable[i]) * (ratio & 0xff) + 0x80) >> 8);
+  if (ay > ax) angle = fixedHalfPi - angle;
+  if (x < 0) angle = fixedPi - angle;
+  return y < 0 ? -angle : angle;
+}
@@ -0,0 +1,3 @@
+export * from "./fixed";
+export * from "./fixed-vector";
+export * from "./fixed-matrix";
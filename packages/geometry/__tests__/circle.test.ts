@@ -0,0 +1,89 @@
+import { Circle, Polygon, OrientedBox } from "../src";
+import { Vector } from "@trans-vector2d/vector";
+import { Matrix } from "@trans-vector2d/matrix";
+
+const v = (x: number, y: number): Vector => new Vector(x, y);
+
+describe("@trans-vector2d/geometry.Circle", () => {
+  it("throw Error when radius is negative", () => {
+    expect(() => new Circle(v(0, 0), -1)).toThrowError();
+  });
+
+  it("can tell area", () => {
+    expect(new Circle(v(1, 1), 2).area()).toBeCloseTo(Math.PI * 4);
+  });
+
+  it.each`
+    point                 | contains
+    ${{ x: 0, y: 0 }}     | ${true}
+    ${{ x: 1, y: 0 }}     | ${true}
+    ${{ x: 0.8, y: 0.8 }} | ${false}
+  `("can tell contains { x: $point.x, y: $point.y }", ({ point, contains }) => {
+    expect(new Circle(v(0, 0), 1).contains(point)).toBe(contains);
+  });
+
+  it("can compute closest point on circumference", () => {
+    const c = new Circle(v(1, 1), 2);
+
+    expect(c.closestPoint({ x: 5, y: 1 }).isClosedTo({ x: 3, y: 1 })).toBe(
+      true
+    );
+    expect(c.closestPoint({ x: 1, y: 1 }).isClosedTo({ x: 3, y: 1 })).toBe(
+      true
+    );
+  });
+
+  it.each`
+    center            | radius | count
+    ${{ x: 2, y: 0 }} | ${1}   | ${1}
+    ${{ x: 1, y: 0 }} | ${1}   | ${2}
+    ${{ x: 3, y: 0 }} | ${1}   | ${0}
+    ${{ x: 0, y: 0 }} | ${0.5} | ${0}
+  `(
+    "can compute intersection points with circle at { x: $center.x, y: $center.y }",
+    ({ center, radius, count }) => {
+      const c1 = new Circle(v(0, 0), 1);
+      const c2 = new Circle(Vector.from(center), radius);
+      const points = c1.intersectionPoints(c2);
+
+      expect(points).toHaveLength(count);
+      for (const p of points) {
+        expect(p.distance(c1.center)).toBeCloseTo(c1.radius);
+        expect(p.distance(c2.center)).toBeCloseTo(c2.radius);
+      }
+    }
+  );
+
+  it("can tell intersects with area shapes", () => {
+    const c = new Circle(v(0, 0), 1);
+    const square = new Polygon([v(1.5, -1), v(3, -1), v(3, 1), v(1.5, 1)]);
+
+    expect(c.intersects(new Circle(v(1.5, 0), 0.5))).toBe(true);
+    expect(c.intersects(new Circle(v(2.5, 0), 0.5))).toBe(false);
+    expect(c.intersects(square)).toBe(false);
+    expect(
+      c.intersects(square.transformedBy(Matrix.translation({ x: -0.6, y: 0 })))
+    ).toBe(true);
+    expect(c.intersects(new OrientedBox(v(0, 0), v(5, 5), 1))).toBe(true);
+  });
+
+  it("can be transformed", () => {
+    const c = new Circle(v(1, 0), 1);
+    const m = Matrix.from({
+      translation: { x: 1, y: 1 },
+      rotation: 1,
+      scale: { x: 2, y: 3 },
+    });
+    const t = c.transformedBy(m);
+
+    expect(t.center.isClosedTo(m.globalizePoint(c.center))).toBe(true);
+    expect(t.radius).toBeCloseTo(3);
+  });
+
+  it("can create bounds", () => {
+    expect(new Circle(v(1, 1), 2).bounds().asObject()).toEqual({
+      min: { x: -1, y: -1 },
+      max: { x: 3, y: 3 },
+    });
+  });
+});
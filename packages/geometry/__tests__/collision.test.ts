@@ -0,0 +1,233 @@
+import {
+  Circle,
+  Polygon,
+  OrientedBox,
+  Collider,
+  collide,
+  boundsOverlap,
+} from "../src";
+import { Vector } from "@trans-vector2d/vector";
+import { Matrix } from "@trans-vector2d/matrix";
+
+const v = (x: number, y: number): Vector => new Vector(x, y);
+
+const square = (): Polygon =>
+  new Polygon([v(-1, -1), v(1, -1), v(1, 1), v(-1, 1)]);
+
+const at = (
+  shape: Circle | Polygon | OrientedBox,
+  x: number,
+  y = 0,
+  rotation = 0
+): Collider => ({
+  shape,
+  transform: Matrix.from({ translation: { x, y }, rotation }),
+});
+
+describe("@trans-vector2d/geometry collision", () => {
+  it("can detect collision of polygons", () => {
+    const collision = collide(at(square(), 0), at(square(), 1.5));
+
+    expect(collision?.depth).toBeCloseTo(0.5);
+    expect(collision?.normal.isClosedTo({ x: 1, y: 0 })).toBe(true);
+    expect(collision?.mtv.isClosedTo({ x: -0.5, y: 0 })).toBe(true);
+  });
+
+  it("return undefined for separated polygons", () => {
+    expect(collide(at(square(), 0), at(square(), 2.5))).toBeUndefined();
+  });
+
+  it("detect separation on rotated axis after broad-phase passed", () => {
+    const a = at(square(), 0, 0, Math.PI / 4);
+    const b = at(square(), 2.2, 2.2, Math.PI / 4);
+
+    expect(boundsOverlap(a, b)).toBe(true);
+    expect(collide(a, b)).toBeUndefined();
+  });
+
+  it("can detect collision of circles", () => {
+    const collision = collide(
+      at(new Circle(v(0, 0), 1), 0),
+      at(new Circle(v(0, 0), 1), 0, -1.5)
+    );
+
+    expect(collision?.depth).toBeCloseTo(0.5);
+    expect(collision?.normal.isClosedTo({ x: 0, y: -1 })).toBe(true);
+    expect(collision?.mtv.isClosedTo({ x: 0, y: 0.5 })).toBe(true);
+  });
+
+  it("ignore zero-length edges of duplicated vertices", () => {
+    const duplicated = new Polygon([
+      v(-1, -1),
+      v(1, -1),
+      v(1, -1),
+      v(1, 1),
+      v(-1, 1),
+      v(-1, 1),
+    ]);
+    const collision = collide(at(duplicated, 0), at(square(), 1.5));
+
+    expect(collision?.depth).toBeCloseTo(0.5);
+    expect(collision?.normal.isClosedTo({ x: 1, y: 0 })).toBe(true);
+  });
+
+  it("ignore nearest vertex at center of circle", () => {
+    const circle = at(new Circle(v(0, 0), 0.5), 1, 1);
+    const collision = collide(at(square(), 0), circle);
+
+    expect(collision?.depth).toBeCloseTo(0.5);
+    expect(collision?.normal.norm()).toBeCloseTo(1);
+  });
+
+  it("can detect collision of circle and polygon", () => {
+    const circle = at(new Circle(v(0, 0), 1), 0);
+    const collision = collide(circle, at(square(), 1.8));
+
+    expect(collision?.depth).toBeCloseTo(0.2);
+    expect(collision?.normal.isClosedTo({ x: 1, y: 0 })).toBe(true);
+  });
+
+  it("separate circle near polygon corner", () => {
+    const circle = at(new Circle(v(0, 0), 1), 0);
+    const corner = 1 + 1 / Math.SQRT2 + 0.1;
+
+    expect(collide(circle, at(square(), corner, corner))).toBeUndefined();
+    expect(
+      collide(circle, at(square(), corner - 0.2, corner - 0.2))
+    ).not.toBeUndefined();
+  });
+
+  it("treat circle scaled non-uniformly as ellipse", () => {
+    const ellipse: Collider = {
+      shape: new Circle(v(0, 0), 1),
+      transform: Matrix.from({ scale: { x: 1, y: 0.1 } }),
+    };
+
+    expect(collide(ellipse, at(square(), 0, 1.5))).toBeUndefined();
+    const collision = collide(ellipse, at(square(), 0, 1.05));
+    expect(collision?.depth).toBeCloseTo(0.05);
+    expect(collision?.normal.isClosedTo({ x: 0, y: 1 })).toBe(true);
+  });
+
+  it.each`
+    x       | y      | collided
+    ${-1.2} | ${1.7} | ${false}
+    ${1.2}  | ${1.7} | ${true}
+    ${2.5}  | ${0}   | ${true}
+    ${3.1}  | ${0}   | ${false}
+  `(
+    "detect collision of skewed ellipse and polygon at ($x, $y): $collided",
+    ({ x, y, collided }) => {
+      const ellipse: Collider = {
+        shape: new Circle(v(0, 0), 1),
+        transform: Matrix.from({ rotation: 0.4, scale: { x: 2, y: 0.5 } }),
+      };
+      const collision = collide(ellipse, at(square(), x, y));
+
+      expect(collision !== undefined).toBe(collided);
+      if (collision === undefined) return;
+      const moved: Collider = {
+        shape: ellipse.shape,
+        transform: Matrix.from(ellipse.transform).translated(
+          collision.mtv.mlt(1 + 10 ** -6)
+        ),
+      };
+      expect(collide(moved, at(square(), x, y))).toBeUndefined();
+    }
+  );
+
+  it("treat circle collapsed by scale as segment", () => {
+    const collapsed: Collider = {
+      shape: new Circle(v(0, 0), 1),
+      transform: Matrix.from({ scale: { x: 1, y: 0 } }),
+    };
+
+    expect(collide(collapsed, at(square(), 0, 1.5))).toBeUndefined();
+    expect(collide(collapsed, at(square(), 1.5, 0))?.depth).toBeCloseTo(0.5);
+  });
+
+  it("can detect collision of ellipse and circle", () => {
+    const ellipse: Collider = {
+      shape: new Circle(v(0, 0), 1),
+      transform: Matrix.from({ scale: { x: 2, y: 1 } }),
+    };
+    const circle = new Circle(v(0, 0), 1);
+
+    const collision = collide(ellipse, at(circle, 2.5));
+    expect(collision?.depth).toBeCloseTo(0.5);
+    expect(collision?.normal.isClosedTo({ x: 1, y: 0 })).toBe(true);
+    expect(collision?.mtv.isClosedTo({ x: -0.5, y: 0 })).toBe(true);
+    expect(collide(at(circle, 1), ellipse)).not.toBeUndefined();
+    expect(collide(ellipse, at(circle, 3.1))).toBeUndefined();
+  });
+
+  it.each`
+    x      | y      | rotation | scale                 | depth     | normal
+    ${1.5} | ${1.6} | ${0}     | ${{ x: 1, y: 1 }}     | ${0.3048} | ${{ x: 0.0066, y: 1 }}
+    ${0.5} | ${1.4} | ${0}     | ${{ x: 1, y: 1 }}     | ${0.3436} | ${{ x: -0.2677, y: 0.9635 }}
+    ${1.2} | ${1.9} | ${0}     | ${{ x: 1, y: 1 }}     | ${NaN}    | ${undefined}
+    ${0.3} | ${1.2} | ${-0.7}  | ${{ x: 1.5, y: 0.4 }} | ${0.7071} | ${{ x: -0.1178, y: 0.993 }}
+    ${1.5} | ${1.6} | ${-0.7}  | ${{ x: 1.5, y: 0.4 }} | ${NaN}    | ${undefined}
+  `(
+    "detect collision of skewed ellipse and ellipse at ($x, $y) rotated by $rotation",
+    ({ x, y, rotation, scale, depth, normal }) => {
+      const ellipse: Collider = {
+        shape: new Circle(v(0, 0), 1),
+        transform: Matrix.from({ rotation: 0.4, scale: { x: 2, y: 0.5 } }),
+      };
+      const other: Collider = {
+        shape: new Circle(v(0, 0), 1),
+        transform: Matrix.from({ translation: { x, y }, rotation, scale }),
+      };
+      const collision = collide(ellipse, other);
+
+      if (normal === undefined) {
+        expect(collision).toBeUndefined();
+        return;
+      }
+      expect(collision?.depth).toBeCloseTo(depth, 3);
+      expect(collision?.normal.isClosedTo(normal, 10 ** -3)).toBe(true);
+      if (collision === undefined) return;
+      const moved: Collider = {
+        shape: ellipse.shape,
+        transform: Matrix.from(ellipse.transform).translated(
+          collision.mtv.mlt(1 + 10 ** -6)
+        ),
+      };
+      expect(collide(moved, other)).toBeUndefined();
+    }
+  );
+
+  it("can detect collision of oriented boxes placed by matrices", () => {
+    const box = new OrientedBox(v(1, 0), v(1, 0.5), 0);
+    const a: Collider = {
+      shape: box,
+      transform: Matrix.from({ rotation: Math.PI / 2 }),
+    };
+    const b: Collider = {
+      shape: box,
+      transform: Matrix.from({ translation: { x: -0.5, y: 1.5 } }),
+    };
+
+    const collision = collide(a, b);
+
+    expect(collision).not.toBeUndefined();
+    expect(collision?.depth).toBeCloseTo(1);
+  });
+
+  it("move first collider out of second collider by mtv", () => {
+    const a = at(square(), 0, 0, 0.3);
+    const b = at(new Circle(v(0, 0), 0.7), 1.2, 0.9);
+    const collision = collide(a, b);
+    if (collision === undefined) throw new Error("not collided");
+
+    const moved: Collider = {
+      shape: a.shape,
+      transform: Matrix.from(a.transform).translated(
+        collision.mtv.mlt(1 + 10 ** -6)
+      ),
+    };
+
+    expect(collide(moved, b)).toBeUndefined();
+  });
+});
@@ -0,0 +1,50 @@
+import { Line, Segment, Circle } from "../src";
+import { Vector } from "@trans-vector2d/vector";
+import { Matrix } from "@trans-vector2d/matrix";
+
+const v = (x: number, y: number): Vector => new Vector(x, y);
+
+describe("@trans-vector2d/geometry.Line", () => {
+  it("can compute closest point on both sides", () => {
+    const l = new Line(v(0, 0), v(1, 0));
+
+    expect(l.closestPoint({ x: -5, y: 2 }).isClosedTo({ x: -5, y: 0 })).toBe(
+      true
+    );
+    expect(l.distanceTo({ x: 5, y: -2 })).toBeCloseTo(2);
+  });
+
+  it("can intersect with other line", () => {
+    const l1 = new Line(v(0, 0), v(1, 1));
+    const l2 = new Line(v(4, 0), v(0, 1));
+
+    const hits = l1.intersections(l2);
+
+    expect(hits).toHaveLength(1);
+    expect(hits[0].point.isClosedTo({ x: 4, y: 4 })).toBe(true);
+    expect(hits[0].t).toBeCloseTo(4);
+    expect(hits[0].normal.isClosedTo({ x: -1, y: 0 })).toBe(true);
+  });
+
+  it("can intersect with circle behind origin", () => {
+    const l = new Line(v(0, 0), v(1, 0));
+    const hits = l.intersections(new Circle(v(-3, 0), 1));
+
+    expect(hits.map((h) => h.t)).toEqual([-4, -2]);
+  });
+
+  it("can intersect with segment", () => {
+    const l = new Line(v(0, 0), v(1, 0));
+
+    expect(l.intersects(new Segment(v(5, -1), v(5, 1)))).toBe(true);
+    expect(l.intersects(new Segment(v(5, 1), v(5, 2)))).toBe(false);
+  });
+
+  it("can be transformed", () => {
+    const l = new Line(v(0, 1), v(1, 0));
+    const t = l.transformedBy(Matrix.rotation(Math.PI / 2));
+
+    expect(t.origin.isClosedTo({ x: -1, y: 0 })).toBe(true);
+    expect(t.direction.isClosedTo({ x: 0, y: 1 })).toBe(true);
+  });
+});
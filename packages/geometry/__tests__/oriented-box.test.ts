@@ -0,0 +1,96 @@
+import { OrientedBox, Polygon } from "../src";
+import { Vector } from "@trans-vector2d/vector";
+import { Matrix } from "@trans-vector2d/matrix";
+
+const v = (x: number, y: number): Vector => new Vector(x, y);
+
+describe("@trans-vector2d/geometry.OrientedBox", () => {
+  it("can create vertices", () => {
+    const box = new OrientedBox(v(1, 1), v(2, 1), Math.PI / 2);
+    const vertices = box.vertices();
+
+    expect(vertices[0].isClosedTo({ x: 2, y: -1 })).toBe(true);
+    expect(vertices[2].isClosedTo({ x: 0, y: 3 })).toBe(true);
+    expect(box.toPolygon()).toBeInstanceOf(Polygon);
+  });
+
+  it.each`
+    point               | contains
+    ${{ x: 1, y: 2.9 }} | ${true}
+    ${{ x: 2, y: 1 }}   | ${true}
+    ${{ x: 2.5, y: 1 }} | ${false}
+    ${{ x: 1, y: 3.1 }} | ${false}
+  `("can tell contains { x: $point.x, y: $point.y }", ({ point, contains }) => {
+    const box = new OrientedBox(v(1, 1), v(2, 1), Math.PI / 2);
+
+    expect(box.contains(point)).toBe(contains);
+  });
+
+  it("can tell intersects with other box", () => {
+    const box = new OrientedBox(v(0, 0), v(1, 1), 0);
+
+    expect(
+      box.intersects(new OrientedBox(v(2.3, 0), v(1, 1), Math.PI / 4))
+    ).toBe(true);
+    expect(
+      box.intersects(new OrientedBox(v(2.5, 0), v(1, 1), Math.PI / 4))
+    ).toBe(false);
+  });
+
+  it("can be transformed", () => {
+    const box = new OrientedBox(v(1, 0), v(2, 1), 0.3);
+    const m = Matrix.from({
+      translation: { x: 1, y: 2 },
+      rotation: 1,
+      scale: { x: 3, y: 3 },
+    });
+    const t = box.transformedBy(m);
+    const expected = box.toPolygon().transformedBy(m).vertices;
+
+    expect(t.rotation).toBeCloseTo(1.3);
+    expect(t.halfSize.isClosedTo({ x: 6, y: 3 })).toBe(true);
+    t.vertices().forEach((p, i) => {
+      expect(p.isClosedTo(expected[i])).toBe(true);
+    });
+  });
+
+  it.each`
+    component
+    ${{ skew: 0.6 }}
+    ${{ rotation: 0.8, scale: { x: 3, y: 0.5 } }}
+    ${{ scale: { x: 2, y: 0 } }}
+  `("can enclose box transformed by $component", ({ component }) => {
+    const box = new OrientedBox(v(1, 0), v(2, 1), 0.3);
+    const m = Matrix.from(component).translated({ x: 1, y: 2 });
+    const t = box.transformedBy(m);
+
+    box
+      .toPolygon()
+      .transformedBy(m)
+      .vertices.forEach((p) => expect(t.contains(p)).toBe(true));
+    expect(t.center.isClosedTo(m.globalizePoint(box.center))).toBe(true);
+  });
+
+  it("can transform box collapsed to segment", () => {
+    const box = new OrientedBox(v(0, 0), v(2, 1), 0);
+    const m = Matrix.from({ scale: { x: 0, y: 1 }, skew: 0.5 });
+    const t = box.transformedBy(m);
+
+    box
+      .toPolygon()
+      .transformedBy(m)
+      .vertices.forEach((p) => expect(t.contains(p)).toBe(true));
+    expect(t.halfSize.x).toBe(0);
+  });
+
+  it("can create bounds", () => {
+    const box = new OrientedBox(v(0, 0), v(1, 1), Math.PI / 4);
+
+    expect(
+      box.bounds().isClosedTo({
+        min: { x: -Math.SQRT2, y: -Math.SQRT2 },
+        max: { x: Math.SQRT2, y: Math.SQRT2 },
+      })
+    ).toBe(true);
+  });
+});
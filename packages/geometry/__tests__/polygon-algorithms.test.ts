@@ -0,0 +1,206 @@
+import {
+  polygonSignedArea,
+  polygonArea,
+  polygonWinding,
+  withWinding,
+  polygonCentroid,
+  isSimplePolygon,
+  isConvexPolygon,
+  polygonWindingNumber,
+  pointInPolygon,
+  convexHull,
+  triangulatePolygon,
+  transformPolygon,
+  Triangle,
+} from "../src";
+import { Vector, VectorLike } from "@trans-vector2d/vector";
+import { Matrix } from "@trans-vector2d/matrix";
+
+const v = (x: number, y: number): Vector => new Vector(x, y);
+
+const square = [v(0, 0), v(2, 0), v(2, 2), v(0, 2)];
+const lShape = [v(0, 0), v(2, 0), v(2, 1), v(1, 1), v(1, 2), v(0, 2)];
+const bowTie = [v(0, 0), v(2, 2), v(2, 0), v(0, 2)];
+// Pentagram drawn by one stroke
+const star = [0, 2, 4, 1, 3].map((i) =>
+  Vector.fromPolar(1, Math.PI / 2 + (i * 2 * Math.PI) / 5)
+);
+// Square loop drawn twice
+const doubleLoop = square.concat(square);
+
+const triangleArea = (t: Triangle): number => polygonSignedArea(t);
+
+const expectValidTriangulation = (
+  triangles: Triangle[],
+  outer: VectorLike[],
+  holes: VectorLike[][] = []
+): void => {
+  const area = triangles.reduce((sum, t) => sum + triangleArea(t), 0);
+  const expected =
+    polygonArea(outer) - holes.reduce((sum, h) => sum + polygonArea(h), 0);
+  expect(area).toBeCloseTo(expected);
+  triangles.forEach((t) => {
+    expect(triangleArea(t)).toBeGreaterThan(0);
+    const center = t[0].add(t[1]).add(t[2]).div(3);
+    expect(pointInPolygon(outer, center)).toBe(true);
+    holes.forEach((h) => {
+      expect(pointInPolygon(h, center)).toBe(false);
+    });
+  });
+};
+
+describe("@trans-vector2d/geometry polygon algorithms", () => {
+  it("can compute area", () => {
+    expect(polygonSignedArea(square)).toBe(4);
+    expect(polygonSignedArea(square.slice().reverse())).toBe(-4);
+    expect(polygonArea(lShape.slice().reverse())).toBe(3);
+  });
+
+  it("can detect and fix winding", () => {
+    const clockwise = lShape.slice().reverse();
+
+    expect(polygonWinding(lShape)).toBe("counterclockwise");
+    expect(polygonWinding(clockwise)).toBe("clockwise");
+    expect(polygonWinding([v(0, 0), v(1, 1), v(2, 2)])).toBeUndefined();
+    expect(withWinding(clockwise, "counterclockwise")).toEqual(lShape);
+    expect(withWinding(lShape, "counterclockwise")).toEqual(lShape);
+    expect(withWinding([{ x: 0, y: 0 }], "clockwise")[0]).toBeInstanceOf(
+      Vector
+    );
+  });
+
+  it("can compute centroid", () => {
+    expect(polygonCentroid(square)).toEqual(v(1, 1));
+    expect(polygonCentroid(lShape.slice().reverse())).toEqual(v(5 / 6, 5 / 6));
+    expect(polygonCentroid([v(0, 0), v(1, 0), v(2, 0)])).toBeUndefined();
+  });
+
+  it.each`
+    name                | vertices                                                  | simple   | convex
+    ${"square"}         | ${square}                                                 | ${true}  | ${true}
+    ${"l shape"}        | ${lShape}                                                 | ${true}  | ${false}
+    ${"bow tie"}        | ${bowTie}                                                 | ${false} | ${false}
+    ${"star"}           | ${star}                                                   | ${false} | ${false}
+    ${"double loop"}    | ${doubleLoop}                                             | ${false} | ${false}
+    ${"collinear edge"} | ${[v(0, 0), v(1, 0), v(2, 0), v(1, 1)]}                   | ${true}  | ${true}
+    ${"spike"}          | ${[v(0, 0), v(2, 0), v(1, 0), v(1, 1)]}                   | ${false} | ${false}
+    ${"line"}           | ${[v(0, 0), v(1, 0), v(2, 0)]}                            | ${false} | ${false}
+    ${"duplicated"}     | ${[v(0, 0), v(1, 0), v(1, 0), v(1, 1)]}                   | ${false} | ${true}
+    ${"touching"}       | ${[v(0, 0), v(4, 0), v(2, 2), v(4, 4), v(0, 4), v(2, 2)]} | ${false} | ${false}
+  `("can tell $name is simple or convex", ({ vertices, simple, convex }) => {
+    expect(isSimplePolygon(vertices)).toBe(simple);
+    expect(isConvexPolygon(vertices)).toBe(convex);
+  });
+
+  it.each`
+    point      | evenOdd  | nonZero
+    ${v(1, 1)} | ${true}  | ${true}
+    ${v(3, 1)} | ${false} | ${false}
+    ${v(2, 1)} | ${true}  | ${true}
+    ${v(0, 0)} | ${true}  | ${true}
+  `("can tell square contains $point", ({ point, evenOdd, nonZero }) => {
+    expect(pointInPolygon(square, point)).toBe(evenOdd);
+    expect(pointInPolygon(square, point, "non-zero")).toBe(nonZero);
+  });
+
+  it("can tell contains by fill rule", () => {
+    expect(polygonWindingNumber(star, v(0, 0))).toBe(2);
+    expect(pointInPolygon(star, v(0, 0), "even-odd")).toBe(false);
+    expect(pointInPolygon(star, v(0, 0), "non-zero")).toBe(true);
+    expect(pointInPolygon(doubleLoop, v(1, 1), "even-odd")).toBe(false);
+    expect(pointInPolygon(doubleLoop, v(1, 1), "non-zero")).toBe(true);
+    expect(polygonWindingNumber(square.slice().reverse(), v(1, 1))).toBe(-1);
+  });
+
+  it("can compute convex hull", () => {
+    const points = [
+      v(0, 0),
+      v(1, 1),
+      v(2, 0),
+      v(2, 2),
+      v(1, 0),
+      v(0, 2),
+      v(0.5, 1.5),
+      v(2, 2),
+    ];
+
+    expect(convexHull(points)).toEqual([v(0, 0), v(2, 0), v(2, 2), v(0, 2)]);
+    expect(convexHull([v(0, 0), v(1, 1), v(2, 2)])).toEqual([v(0, 0), v(2, 2)]);
+    expect(convexHull([v(1, 1), { x: 1, y: 1 }])).toEqual([v(1, 1)]);
+    expect(convexHull([])).toEqual([]);
+  });
+
+  it("can triangulate simple polygon", () => {
+    const triangles = triangulatePolygon(lShape.slice().reverse());
+
+    expect(triangles).toHaveLength(4);
+    expectValidTriangulation(triangles, lShape);
+  });
+
+  it("can triangulate comb shaped polygon", () => {
+    const comb = [v(0, 0), v(10, 0), v(10, 5)];
+    // Valleys are not collinear, so every vertex makes triangle
+    for (let i = 4; i >= 0; i--)
+      comb.push(v(2 * i + 1, 1 + (i % 2)), v(2 * i, 5));
+    const triangles = triangulatePolygon(comb);
+
+    expect(triangles).toHaveLength(comb.length - 2);
+    expectValidTriangulation(triangles, comb);
+  });
+
+  it("can triangulate polygon with holes", () => {
+    const outer = [v(0, 0), v(10, 0), v(10, 10), v(0, 10)];
+    const holes = [
+      [v(1, 1), v(4, 1), v(4, 4), v(1, 4)],
+      [v(6, 6), v(9, 6), v(9, 9), v(6, 9)].reverse(),
+      [v(6, 1), v(9, 2), v(7, 4)],
+    ];
+    const triangles = triangulatePolygon(outer, holes);
+
+    // n + 2h - 2 triangles for n vertices and h holes
+    expectValidTriangulation(triangles, outer, holes);
+  });
+
+  it("can triangulate polygon with hole aligned to vertex", () => {
+    const outer = [v(0, 0), v(4, 0), v(4, 4), v(0, 4)];
+    const hole = [v(1, 1), v(3, 1), v(3, 3), v(1, 3)];
+
+    expectValidTriangulation(triangulatePolygon(outer, [hole]), outer, [hole]);
+  });
+
+  it("can triangulate concave polygon with hole hidden by reflex vertex", () => {
+    const outer = [
+      v(0, 0),
+      v(10, 0),
+      v(10, 10),
+      v(5, 10),
+      v(5, 5.5),
+      v(4, 5.5),
+      v(4, 10),
+      v(0, 10),
+    ];
+    const hole = [v(1, 4), v(3, 4), v(3, 6), v(1, 6)];
+
+    expectValidTriangulation(triangulatePolygon(outer, [hole]), outer, [hole]);
+  });
+
+  it("can not triangulate with hole outside of polygon", () => {
+    expect(() =>
+      triangulatePolygon(square, [[v(5, 5), v(6, 5), v(6, 6)]])
+    ).toThrowError("hole is outside of polygon");
+    expect(() => triangulatePolygon([v(0, 0), v(1, 1)])).toThrowError(
+      "vertices must be 3 or more"
+    );
+  });
+
+  it("can transform polygon", () => {
+    const m = Matrix.from({
+      translation: { x: 1, y: 0 },
+      scale: { x: -1, y: 1 },
+    });
+    const transformed = transformPolygon(lShape, m);
+
+    expect(transformed[1]).toEqual(v(-1, 0));
+    expect(polygonWinding(transformed)).toBe("clockwise");
+  });
+});
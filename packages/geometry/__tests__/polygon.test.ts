@@ -0,0 +1,72 @@
+import { Polygon, Segment, OrientedBox } from "../src";
+import { Vector } from "@trans-vector2d/vector";
+import { Matrix } from "@trans-vector2d/matrix";
+
+const v = (x: number, y: number): Vector => new Vector(x, y);
+
+const lShape = (): Polygon =>
+  new Polygon([v(0, 0), v(2, 0), v(2, 1), v(1, 1), v(1, 2), v(0, 2)]);
+
+describe("@trans-vector2d/geometry.Polygon", () => {
+  it("throw Error when vertices are less than 3", () => {
+    expect(() => new Polygon([v(0, 0), v(1, 0)])).toThrowError();
+  });
+
+  it("can create edges", () => {
+    const edges = new Polygon([v(0, 0), v(1, 0), v(0, 1)]).edges();
+
+    expect(edges).toHaveLength(3);
+    expect(edges[2]).toBeInstanceOf(Segment);
+    expect(edges[2].start).toEqual(v(0, 1));
+    expect(edges[2].end).toEqual(v(0, 0));
+  });
+
+  it.each`
+    point                 | contains
+    ${{ x: 0.5, y: 0.5 }} | ${true}
+    ${{ x: 1.5, y: 0.5 }} | ${true}
+    ${{ x: 1.5, y: 1.5 }} | ${false}
+    ${{ x: 1, y: 1.5 }}   | ${true}
+    ${{ x: 3, y: 0.5 }}   | ${false}
+  `("can tell contains { x: $point.x, y: $point.y }", ({ point, contains }) => {
+    expect(lShape().contains(point)).toBe(contains);
+  });
+
+  it("can tell intersects with polygon", () => {
+    const square = new Polygon([v(0, 0), v(1, 0), v(1, 1), v(0, 1)]);
+
+    expect(
+      lShape().intersects(
+        square.transformedBy(Matrix.translation({ x: 1.2, y: 1.2 }))
+      )
+    ).toBe(false);
+    expect(
+      lShape().intersects(
+        square.transformedBy(Matrix.translation({ x: 0.8, y: 1.2 }))
+      )
+    ).toBe(true);
+    expect(
+      lShape().intersects(
+        square.transformedBy(Matrix.scaling({ x: 0.1, y: 0.1 }))
+      )
+    ).toBe(true);
+    expect(
+      lShape().intersects(new OrientedBox(v(1.5, 1.5), v(0.2, 0.2), 0))
+    ).toBe(false);
+  });
+
+  it("can be transformed", () => {
+    const m = Matrix.from({ translation: { x: 1, y: 0 }, rotation: Math.PI });
+    const t = lShape().transformedBy(m);
+
+    expect(t.vertices[1].isClosedTo({ x: -1, y: 0 })).toBe(true);
+    expect(t.contains({ x: 0.5, y: -0.5 })).toBe(true);
+  });
+
+  it("can create bounds", () => {
+    expect(lShape().bounds().asObject()).toEqual({
+      min: { x: 0, y: 0 },
+      max: { x: 2, y: 2 },
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { Ray, Segment, Circle, Polygon, OrientedBox } from "../src";
+import { Vector } from "@trans-vector2d/vector";
+import { Matrix } from "@trans-vector2d/matrix";
+
+const v = (x: number, y: number): Vector => new Vector(x, y);
+
+describe("@trans-vector2d/geometry.Ray", () => {
+  it("can tell point at parameter", () => {
+    const r = new Ray(v(1, 1), v(2, 0));
+
+    expect(r.pointAt(1.5)).toEqual(v(4, 1));
+  });
+
+  it("can compute closest point", () => {
+    const r = new Ray(v(0, 0), v(1, 0));
+
+    expect(r.closestPoint({ x: 5, y: 2 }).isClosedTo({ x: 5, y: 0 })).toBe(
+      true
+    );
+    expect(r.distanceTo({ x: -3, y: 4 })).toBeCloseTo(5);
+  });
+
+  it("can cast to polygon", () => {
+    const r = new Ray(v(-5, 0), v(1, 0));
+    const square = new Polygon([v(-1, -1), v(1, -1), v(1, 1), v(-1, 1)]);
+
+    const hit = r.cast(square);
+
+    expect(hit?.point.isClosedTo({ x: -1, y: 0 })).toBe(true);
+    expect(hit?.normal.isClosedTo({ x: -1, y: 0 })).toBe(true);
+    expect(hit?.t).toBeCloseTo(4);
+    expect(r.intersections(square)).toHaveLength(2);
+  });
+
+  it("get outward normal regardless of polygon winding", () => {
+    const r = new Ray(v(-5, 0), v(1, 0));
+    const square = new Polygon([v(-1, 1), v(1, 1), v(1, -1), v(-1, -1)]);
+
+    expect(r.cast(square)?.normal.isClosedTo({ x: -1, y: 0 })).toBe(true);
+  });
+
+  it("can cast to oriented box and circle", () => {
+    const r = new Ray(v(-0.2, -5), v(0, 2));
+    const box = new OrientedBox(v(0, 0), v(1, 1), Math.PI / 4);
+
+    const boxHit = r.cast(box);
+    const circleHit = r.cast(new Circle(v(0, 0), 1));
+
+    expect(boxHit?.point.isClosedTo({ x: -0.2, y: 0.2 - Math.SQRT2 })).toBe(
+      true
+    );
+    expect(
+      boxHit?.normal.isClosedTo({ x: -Math.SQRT1_2, y: -Math.SQRT1_2 })
+    ).toBe(true);
+    expect(circleHit?.point.x).toBeCloseTo(-0.2);
+    expect(circleHit?.point.y).toBeCloseTo(-Math.sqrt(0.96));
+    expect(circleHit?.normal.isClosedTo(circleHit.point)).toBe(true);
+  });
+
+  it("does not hit shape behind origin", () => {
+    const r = new Ray(v(0, 0), v(1, 0));
+
+    expect(r.cast(new Circle(v(-3, 0), 1))).toBeUndefined();
+    expect(r.cast(new Segment(v(-1, -1), v(-1, 1)))).toBeUndefined();
+    expect(r.intersects(new Circle(v(-3, 0), 1))).toBe(false);
+  });
+
+  it("can be transformed", () => {
+    const r = new Ray(v(1, 0), v(1, 0));
+    const m = Matrix.from({
+      translation: { x: 1, y: 1 },
+      rotation: Math.PI / 2,
+      scale: { x: 2, y: 2 },
+    });
+    const t = r.transformedBy(m);
+
+    expect(t.origin.isClosedTo({ x: 1, y: 3 })).toBe(true);
+    expect(t.direction.isClosedTo({ x: 0, y: 2 })).toBe(true);
+    expect(t.pointAt(2).isClosedTo(m.globalizePoint(r.pointAt(2)))).toBe(true);
+  });
+});
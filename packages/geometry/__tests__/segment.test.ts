@@ -0,0 +1,95 @@
+import { Segment, Circle, Polygon, Line } from "../src";
+import { Vector } from "@trans-vector2d/vector";
+import { Matrix } from "@trans-vector2d/matrix";
+
+const v = (x: number, y: number): Vector => new Vector(x, y);
+
+describe("@trans-vector2d/geometry.Segment", () => {
+  it("can tell length and point at parameter", () => {
+    const s = new Segment(v(0, 0), v(3, 4));
+
+    expect(s.length()).toBeCloseTo(5);
+    expect(s.pointAt(0.5)).toEqual(v(1.5, 2));
+  });
+
+  it.each`
+    point              | closest
+    ${{ x: 1, y: 1 }}  | ${{ x: 1, y: 0 }}
+    ${{ x: -1, y: 1 }} | ${{ x: 0, y: 0 }}
+    ${{ x: 5, y: -1 }} | ${{ x: 2, y: 0 }}
+  `(
+    "can compute closest point to { x: $point.x, y: $point.y }",
+    ({ point, closest }) => {
+      const s = new Segment(v(0, 0), v(2, 0));
+
+      expect(s.closestPoint(point).isClosedTo(closest)).toBe(true);
+      expect(s.distanceTo(point)).toBeCloseTo(
+        Vector.from(point).distance(closest)
+      );
+    }
+  );
+
+  it("can intersect with other segment", () => {
+    const s1 = new Segment(v(0, 0), v(2, 2));
+    const s2 = new Segment(v(0, 2), v(2, 0));
+
+    const hits = s1.intersections(s2);
+
+    expect(hits).toHaveLength(1);
+    expect(hits[0].point.isClosedTo({ x: 1, y: 1 })).toBe(true);
+    expect(hits[0].t).toBeCloseTo(0.5);
+    expect(hits[0].normal.dot(s1.end.sub(s1.start))).toBeLessThan(0);
+    expect(hits[0].normal.norm()).toBeCloseTo(1);
+    expect(s1.intersects(s2)).toBe(true);
+  });
+
+  it("does not intersect with parallel or distant segment", () => {
+    const s = new Segment(v(0, 0), v(2, 0));
+
+    expect(s.intersections(new Segment(v(0, 1), v(2, 1)))).toEqual([]);
+    expect(s.intersections(new Segment(v(3, -1), v(3, 1)))).toEqual([]);
+    expect(s.intersects(new Line(v(0, 1), v(1, 0)))).toBe(false);
+  });
+
+  it("can intersect with circle", () => {
+    const s = new Segment(v(-2, 0), v(2, 0));
+    const hits = s.intersections(new Circle(v(0, 0), 1));
+
+    expect(hits).toHaveLength(2);
+    expect(hits[0].point.isClosedTo({ x: -1, y: 0 })).toBe(true);
+    expect(hits[0].normal.isClosedTo({ x: -1, y: 0 })).toBe(true);
+    expect(hits[0].t).toBeCloseTo(0.25);
+    expect(hits[1].point.isClosedTo({ x: 1, y: 0 })).toBe(true);
+    expect(hits[1].normal.isClosedTo({ x: 1, y: 0 })).toBe(true);
+  });
+
+  it("intersects with area shape contains self", () => {
+    const s = new Segment(v(-0.5, 0), v(0.5, 0));
+    const square = new Polygon([v(-1, -1), v(1, -1), v(1, 1), v(-1, 1)]);
+
+    expect(s.intersections(square)).toEqual([]);
+    expect(s.intersects(square)).toBe(true);
+    expect(s.intersects(new Circle(v(0, 0), 2))).toBe(true);
+  });
+
+  it("can be transformed", () => {
+    const s = new Segment(v(1, 0), v(2, 0));
+    const m = Matrix.from({
+      rotation: Math.PI / 2,
+      translation: { x: 1, y: 1 },
+    });
+    const t = s.transformedBy(m);
+
+    expect(t.start.isClosedTo({ x: 1, y: 2 })).toBe(true);
+    expect(t.end.isClosedTo({ x: 1, y: 3 })).toBe(true);
+  });
+
+  it("can create bounds", () => {
+    const s = new Segment(v(2, -1), v(0, 3));
+
+    expect(s.bounds().asObject()).toEqual({
+      min: { x: 0, y: -1 },
+      max: { x: 2, y: 3 },
+    });
+  });
+});
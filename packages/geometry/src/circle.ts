@@ -0,0 +1,121 @@
+import { Vector, VectorLike } from "@trans-vector2d/vector";
+import { Matrix, MatrixLike } from "@trans-vector2d/matrix";
+import { Rect } from "@trans-vector2d/rect";
+import { Shape, shapesIntersect } from "./intersection";
+
+/**
+ * Circle.
+ * Circle is immutable.
+ */
+export class Circle {
+  readonly kind = "circle";
+
+  /**
+   * @param center Center point
+   * @param radius Radius
+   */
+  constructor(public readonly center: Vector, public readonly radius: number) {
+    if (radius < 0) throw new Error("radius is negative");
+  }
+
+  /**
+   * Compute area of self.
+   *
+   * @returns Area
+   */
+  area(): number {
+    return Math.PI * this.radius * this.radius;
+  }
+
+  /**
+   * Compute self contains point.
+   * Points on circumference are treated as contained.
+   *
+   * @param point Point
+   * @returns Self contains point
+   */
+  contains(point: VectorLike): boolean {
+    return this.center.sub(point).squaredNorm() <= this.radius * this.radius;
+  }
+
+  /**
+   * Compute closest point on circumference to point.
+   * Point at angle 0 is returned when point is center.
+   *
+   * @param point Point
+   * @returns Closest point on circumference
+   */
+  closestPoint(point: VectorLike): Vector {
+    const direction = Vector.from(point)
+      .sub(this.center)
+      .unitOr({ x: 1, y: 0 });
+    return this.center.add(direction.mlt(this.radius));
+  }
+
+  /**
+   * Compute intersection points of circumferences of self and other circle.
+   *
+   * @param other Another circle
+   * @returns 0, 1 or 2 points. Empty when circles are concentric
+   */
+  intersectionPoints(other: Circle): Vector[] {
+    const delta = other.center.sub(this.center);
+    const distance = delta.norm();
+    if (distance === 0) return [];
+    if (distance > this.radius + other.radius) return [];
+    if (distance < Math.abs(this.radius - other.radius)) return [];
+
+    const along =
+      (distance * distance +
+        this.radius * this.radius -
+        other.radius * other.radius) /
+      (2 * distance);
+    const height = Math.sqrt(Math.max(0, this.radius ** 2 - along ** 2));
+    const unit = delta.div(distance);
+    const base = this.center.add(unit.mlt(along));
+    if (height === 0) return [base];
+    const offset = unit.perpLeft().mlt(height);
+    return [base.add(offset), base.sub(offset)];
+  }
+
+  /**
+   * Compute self is overlapped with other shape.
+   *
+   * @param other Any shape
+   * @returns Self is overlapped with other
+   */
+  intersects(other: Shape): boolean {
+    return shapesIntersect(this, other);
+  }
+
+  /**
+   * Create bounding circle of self transformed by matrix.
+   * Result is exact when matrix does not contain non-uniform scale nor skew.
+   *
+   * @param matrix Transformation matrix
+   * @returns Transformed circle
+   */
+  transformedBy(matrix: MatrixLike): Circle {
+    const { a, b, c, d } = matrix;
+    // Largest singular value of linear part
+    const sum = a * a + b * b + c * c + d * d;
+    const det = a * d - b * c;
+    const scale = Math.sqrt(
+      (sum + Math.sqrt(Math.max(0, sum * sum - 4 * det * det))) / 2
+    );
+    return new Circle(
+      Matrix.productVector(matrix, this.center),
+      this.radius * scale
+    );
+  }
+
+  /**
+   * Create bounding rect of self.
+   *
+   * @returns Bounding rect
+   */
+  bounds(): Rect {
+    const size = this.radius * 2;
+    return Rect.fromCenter(this.center, { x: size, y: size });
+  }
+}
@@ -0,0 +1,272 @@
+import { Vector } from "@trans-vector2d/vector";
+import { Matrix, MatrixLike } from "@trans-vector2d/matrix";
+import { Rect } from "@trans-vector2d/rect";
+import { Circle } from "./circle";
+import { Polygon } from "./polygon";
+import { OrientedBox } from "./oriented-box";
+import { polygonEdges } from "./intersection";
+
+/**
+ * Local convex shape placed in world by transform.
+ */
+export interface Collider {
+  /** Circle, convex polygon or oriented box in local space */
+  shape: Circle | Polygon | OrientedBox;
+  /** Transform from local space to world space */
+  transform: MatrixLike;
+}
+
+/**
+ * Result of overlapped colliders.
+ */
+export interface Collision {
+  /** Penetration depth. 0 when colliders are touching */
+  depth: number;
+  /** Unit contact normal directs from first collider to second collider */
+  normal: Vector;
+  /** Minimum translation vector moves first collider out of second collider */
+  mtv: Vector;
+}
+
+/**
+ * Circle transformed by non-uniform scale or skew.
+ */
+interface Ellipse {
+  kind: "ellipse";
+  /** Circle in local space */
+  circle: Circle;
+  /** Center in world space */
+  center: Vector;
+  /** Transform from local space to world space */
+  transform: Matrix;
+  /** Transform from world space to local space */
+  inverse: Matrix;
+}
+
+type WorldShape = Circle | Polygon | Ellipse;
+
+// Count of axes sampled around full turn for circles and ellipses
+const sampledAxes = 64;
+// Ratio of golden-section search
+const goldenRatio = (Math.sqrt(5) - 1) / 2;
+
+const circleToWorld = (circle: Circle, transform: MatrixLike): WorldShape => {
+  const { a, b, c, d } = transform;
+  const tolerance = 10 ** -10 * (a * a + b * b + c * c + d * d);
+  // Columns of linear part are orthogonal and have same length
+  if (
+    Math.abs(a * a + b * b - c * c - d * d) <= tolerance &&
+    Math.abs(a * c + b * d) <= tolerance
+  ) {
+    return circle.transformedBy(transform);
+  }
+  const m = Matrix.from(transform);
+  const center = m.globalizePoint(circle.center);
+  if (Math.abs(m.determinant()) <= tolerance) {
+    // Collapsed to segment along longer column
+    const column =
+      a * a + b * b >= c * c + d * d ? new Vector(a, b) : new Vector(c, d);
+    const half = column.withNorm(
+      circle.radius * Math.sqrt(a * a + b * b + c * c + d * d)
+    );
+    return new Polygon([center.sub(half), center, center.add(half)]);
+  }
+  return {
+    kind: "ellipse",
+    circle,
+    center,
+    transform: m,
+    inverse: m.inverse(),
+  };
+};
+
+const toWorld = (collider: Collider): WorldShape => {
+  const { shape, transform } = collider;
+  if (shape.kind === "oriented-box")
+    return shape.toPolygon().transformedBy(transform);
+  if (shape.kind === "circle") return circleToWorld(shape, transform);
+  return shape.transformedBy(transform);
+};
+
+const boundsOf = (shape: WorldShape): Rect => {
+  if (shape.kind !== "ellipse") return shape.bounds();
+  const { a, b, c, d } = shape.transform;
+  const size = shape.circle.radius * 2;
+  return Rect.fromCenter(shape.center, {
+    x: size * Math.sqrt(a * a + c * c),
+    y: size * Math.sqrt(b * b + d * d),
+  });
+};
+
+const centerOf = (shape: WorldShape): Vector => {
+  if (shape.kind !== "polygon") return shape.center;
+  return shape.vertices
+    .reduce((sum, v) => sum.add(v), Vector.zero)
+    .div(shape.vertices.length);
+};
+
+const project = (shape: WorldShape, axis: Vector): [number, number] => {
+  if (shape.kind === "circle") {
+    const c = shape.center.dot(axis);
+    return [c - shape.radius, c + shape.radius];
+  }
+  if (shape.kind === "ellipse") {
+    // Support of ellipse along axis is radius times transposed linear part
+    const { a, b, c, d } = shape.transform;
+    const half =
+      shape.circle.radius *
+      Math.sqrt(
+        (a * axis.x + b * axis.y) ** 2 + (c * axis.x + d * axis.y) ** 2
+      );
+    const center = shape.center.dot(axis);
+    return [center - half, center + half];
+  }
+  let min = Infinity;
+  let max = -Infinity;
+  for (const v of shape.vertices) {
+    const p = v.dot(axis);
+    min = Math.min(min, p);
+    max = Math.max(max, p);
+  }
+  return [min, max];
+};
+
+const separatingAxes = (a: WorldShape, b: WorldShape): Vector[] => {
+  const axes: Vector[] = [];
+  // Zero axis comes from duplicated vertices and separates nothing
+  const pushAxis = (axis: Vector): void => {
+    const unit = axis.tryUnit();
+    if (unit !== undefined) axes.push(unit);
+  };
+  for (const shape of [a, b]) {
+    if (shape.kind === "polygon") {
+      for (const { normal } of polygonEdges(shape.vertices)) pushAxis(normal);
+    }
+  }
+  // Circle needs axis from nearest vertex of other polygon
+  for (const [circle, other] of [
+    [a, b],
+    [b, a],
+  ]) {
+    if (circle.kind === "polygon") continue;
+    if (other.kind === "circle" && circle.kind === "circle") {
+      axes.push(other.center.sub(circle.center).unitOr({ x: 1, y: 0 }));
+      continue;
+    }
+    if (other.kind !== "polygon") continue;
+    if (circle.kind === "circle") {
+      const nearest = other.vertices.reduce((p, q) =>
+        p.distance(circle.center) <= q.distance(circle.center) ? p : q
+      );
+      pushAxis(nearest.sub(circle.center));
+      continue;
+    }
+    // Ellipse is circle in local space, so find axis there and map its
+    // normal to world space by transposed inverse
+    const center = circle.circle.center;
+    const nearest = other.vertices
+      .map((v) => circle.inverse.globalizePoint(v))
+      .reduce((p, q) => (p.distance(center) <= q.distance(center) ? p : q));
+    const local = nearest.sub(center);
+    const { a: ia, b: ib, c: ic, d: id } = circle.inverse;
+    pushAxis(
+      new Vector(ia * local.x + ib * local.y, ic * local.x + id * local.y)
+    );
+  }
+  return axes;
+};
+
+// Ellipses have no edges, so minimum overlap is searched over all axes.
+// Overlap along axis directs from a to b, and it is negative along
+// separating axis
+const collideSmooth = (
+  a: Circle | Ellipse,
+  b: Circle | Ellipse
+): Collision | undefined => {
+  const axisAt = (angle: number): Vector =>
+    new Vector(Math.cos(angle), Math.sin(angle));
+  const overlapAt = (angle: number): number => {
+    const axis = axisAt(angle);
+    return project(a, axis)[1] - project(b, axis)[0];
+  };
+  const step = (2 * Math.PI) / sampledAxes;
+  let angle = 0;
+  let depth = overlapAt(0);
+  for (let i = 1; i < sampledAxes; i++) {
+    const overlap = overlapAt(i * step);
+    if (overlap < depth) {
+      angle = i * step;
+      depth = overlap;
+    }
+  }
+  // Refine around best sample
+  let low = angle - step;
+  let high = angle + step;
+  for (let i = 0; i < 40; i++) {
+    const left = high - goldenRatio * (high - low);
+    const right = low + goldenRatio * (high - low);
+    if (overlapAt(left) <= overlapAt(right)) high = right;
+    else low = left;
+  }
+  const refined = overlapAt((low + high) / 2);
+  if (refined < depth) {
+    angle = (low + high) / 2;
+    depth = refined;
+  }
+  if (depth < 0) return undefined;
+  const normal = axisAt(angle);
+  return { depth, normal, mtv: normal.mlt(-depth) };
+};
+
+/**
+ * Compute bounding rects of colliders are overlapped.
+ * This is cheap broad-phase test before `collide`.
+ *
+ * @param a Collider
+ * @param b Collider
+ * @returns Bounding rects in world space are overlapped
+ */
+export function boundsOverlap(a: Collider, b: Collider): boolean {
+  return boundsOf(toWorld(a)).intersects(boundsOf(toWorld(b)));
+}
+
+/**
+ * Detect collision of two colliders by separating axis theorem.
+ * Polygons must be convex.
+ * Circles transformed by non-uniform scale or skew are treated as ellipses.
+ * Collision of ellipse and circle or ellipse is found by searching axes
+ * around full turn, so depth and normal are accurate but not exact.
+ *
+ * @param a First collider
+ * @param b Second collider
+ * @returns Collision or undefined if colliders are separated
+ */
+export function collide(a: Collider, b: Collider): Collision | undefined {
+  const worldA = toWorld(a);
+  const worldB = toWorld(b);
+  if (!boundsOf(worldA).intersects(boundsOf(worldB))) return undefined;
+  if (
+    worldA.kind !== "polygon" &&
+    worldB.kind !== "polygon" &&
+    (worldA.kind === "ellipse" || worldB.kind === "ellipse")
+  ) {
+    return collideSmooth(worldA, worldB);
+  }
+
+  let depth = Infinity;
+  let normal = new Vector(1, 0);
+  for (const axis of separatingAxes(worldA, worldB)) {
+    const [minA, maxA] = project(worldA, axis);
+    const [minB, maxB] = project(worldB, axis);
+    const overlap = Math.min(maxA - minB, maxB - minA);
+    if (overlap < 0) return undefined;
+    if (overlap < depth) {
+      depth = overlap;
+      normal = axis;
+    }
+  }
+  if (centerOf(worldB).sub(centerOf(worldA)).dot(normal) < 0) {
+    normal = normal.negate();
+  }
+  return { depth, normal, mtv: normal.mlt(-depth) };
+}
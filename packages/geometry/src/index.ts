@@ -0,0 +1,9 @@
+export * from "./intersection";
+export * from "./segment";
+export * from "./ray";
+export * from "./line";
+export * from "./circle";
+export * from "./polygon";
+export * from "./polygon-algorithms";
+export * from "./oriented-box";
+export * from "./collision";
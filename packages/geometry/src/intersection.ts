@@ -0,0 +1,284 @@
+import { Vector, VectorLike } from "@trans-vector2d/vector";
+import { Matrix, MatrixLike } from "@trans-vector2d/matrix";
+import { Segment } from "./segment";
+import { Ray } from "./ray";
+import { Line } from "./line";
+import { Circle } from "./circle";
+import { Polygon } from "./polygon";
+import { OrientedBox } from "./oriented-box";
+
+/**
+ * Intersection of linear shape (segment, ray or line) and other shape.
+ */
+export interface Hit {
+  /** Intersection point */
+  point: Vector;
+  /** Unit normal of other shape at point, facing outward for area shapes */
+  normal: Vector;
+  /** Parameter of point along linear shape */
+  t: number;
+}
+
+/**
+ * Linear shape expressed as origin + t * direction (minT <= t <= maxT).
+ */
+export interface ParametricLine {
+  origin: Vector;
+  direction: Vector;
+  minT: number;
+  maxT: number;
+}
+
+export type LinearShape = Segment | Ray | Line;
+export type AreaShape = Circle | Polygon | OrientedBox;
+export type Shape = LinearShape | AreaShape;
+
+const isLinear = (shape: Shape): shape is LinearShape =>
+  shape.kind === "segment" || shape.kind === "ray" || shape.kind === "line";
+
+const intersectParametric = (
+  a: ParametricLine,
+  b: ParametricLine
+): { t: number; u: number } | undefined => {
+  const denom = a.direction.cross(b.direction);
+  if (denom === 0) return undefined;
+  const delta = b.origin.sub(a.origin);
+  const t = delta.cross(b.direction) / denom;
+  const u = delta.cross(a.direction) / denom;
+  if (t < a.minT || a.maxT < t || u < b.minT || b.maxT < u) return undefined;
+  return { t, u };
+};
+
+const hitsWithLinear = (a: ParametricLine, b: ParametricLine): Hit[] => {
+  const result = intersectParametric(a, b);
+  if (result === undefined) return [];
+  const perp = b.direction.perpLeft().unit();
+  const normal = perp.dot(a.direction) > 0 ? perp.negate() : perp;
+  const point = a.origin.add(a.direction.mlt(result.t));
+  return [{ point, normal, t: result.t }];
+};
+
+const hitsWithCircle = (a: ParametricLine, circle: Circle): Hit[] => {
+  const offset = a.origin.sub(circle.center);
+  const qa = a.direction.squaredNorm();
+  const qb = 2 * a.direction.dot(offset);
+  const qc = offset.squaredNorm() - circle.radius * circle.radius;
+  const disc = qb * qb - 4 * qa * qc;
+  if (qa === 0 || disc < 0) return [];
+
+  const sqrtDisc = Math.sqrt(disc);
+  const ts =
+    disc === 0
+      ? [-qb / (2 * qa)]
+      : [(-qb - sqrtDisc) / (2 * qa), (-qb + sqrtDisc) / (2 * qa)];
+  return ts
+    .filter((t) => a.minT <= t && t <= a.maxT)
+    .map((t) => {
+      const point = a.origin.add(a.direction.mlt(t));
+      const normal = point.sub(circle.center).unit();
+      return { point, normal, t };
+    });
+};
+
+/**
+ * Create edges of polygon with outward normals.
+ *
+ * @param vertices Vertices of simple polygon in any winding order
+ * @returns Edges and their outward unit normals
+ */
+export function polygonEdges(
+  vertices: readonly Vector[]
+): { edge: ParametricLine; normal: Vector }[] {
+  let doubleArea = 0;
+  for (let i = 0; i < vertices.length; i++) {
+    doubleArea += vertices[i].cross(vertices[(i + 1) % vertices.length]);
+  }
+  return vertices.map((start, i) => {
+    const end = vertices[(i + 1) % vertices.length];
+    const direction = end.sub(start);
+    const perp = doubleArea >= 0 ? direction.perpRight() : direction.perpLeft();
+    return {
+      edge: { origin: start, direction, minT: 0, maxT: 1 },
+      normal: perp.unitOr(Vector.zero),
+    };
+  });
+}
+
+const hitsWithPolygon = (
+  a: ParametricLine,
+  vertices: readonly Vector[]
+): Hit[] => {
+  const hits: Hit[] = [];
+  for (const { edge, normal } of polygonEdges(vertices)) {
+    const result = intersectParametric(a, edge);
+    if (result === undefined) continue;
+    // Skip hit at shared vertex of adjacent edges
+    if (hits.some((h) => Math.abs(h.t - result.t) <= 10 ** -12)) continue;
+    const point = a.origin.add(a.direction.mlt(result.t));
+    hits.push({ point, normal, t: result.t });
+  }
+  return hits.sort((h1, h2) => h1.t - h2.t);
+};
+
+/**
+ * Compute intersections of linear shape and other shape.
+ * Collinear overlaps of linear shapes are not reported.
+ *
+ * @param linear Segment, ray or line
+ * @param other Any shape
+ * @returns Hits sorted by parameter along linear shape
+ */
+export function linearIntersections(linear: LinearShape, other: Shape): Hit[] {
+  const a = linear.asParametric();
+  switch (other.kind) {
+    case "segment":
+    case "ray":
+    case "line":
+      return hitsWithLinear(a, other.asParametric());
+    case "circle":
+      return hitsWithCircle(a, other);
+    case "polygon":
+      return hitsWithPolygon(a, other.vertices);
+    case "oriented-box":
+      return hitsWithPolygon(a, other.vertices());
+  }
+}
+
+/**
+ * Compute closest point on linear shape to point.
+ *
+ * @param a Linear shape
+ * @param point Point
+ * @returns Closest point and its parameter
+ */
+export function closestOnParametric(
+  a: ParametricLine,
+  point: VectorLike
+): { point: Vector; t: number } {
+  const lengthSq = a.direction.squaredNorm();
+  const rawT =
+    lengthSq === 0
+      ? 0
+      : a.direction.dot(Vector.from(point).sub(a.origin)) / lengthSq;
+  const t = Math.min(a.maxT, Math.max(a.minT, rawT));
+  return { point: a.origin.add(a.direction.mlt(t)), t };
+}
+
+/**
+ * Compute distance between linear shape and point.
+ *
+ * @param a Linear shape
+ * @param point Point
+ * @returns Distance
+ */
+export function distanceToParametric(
+  a: ParametricLine,
+  point: VectorLike
+): number {
+  return closestOnParametric(a, point).point.distance(point);
+}
+
+/**
+ * Create linear shape transformed by matrix.
+ * Translation of matrix is applied to origin only,
+ * so each point keeps its parameter.
+ *
+ * @param a Linear shape
+ * @param matrix Transform
+ * @returns Transformed linear shape
+ */
+export function transformedParametric(
+  a: ParametricLine,
+  matrix: MatrixLike
+): ParametricLine {
+  const d = a.direction;
+  return {
+    origin: Matrix.productVector(matrix, a.origin),
+    direction: new Vector(
+      matrix.a * d.x + matrix.c * d.y,
+      matrix.b * d.x + matrix.d * d.y
+    ),
+    minT: a.minT,
+    maxT: a.maxT,
+  };
+}
+
+/**
+ * Compute polygon contains point by even-odd rule.
+ * Points on edges are treated as contained.
+ *
+ * @param vertices Vertices of polygon
+ * @param point Point
+ * @returns Polygon contains point
+ */
+export function polygonContains(
+  vertices: readonly Vector[],
+  point: VectorLike
+): boolean {
+  let inside = false;
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    const p = vertices[i];
+    const q = vertices[j];
+    const edge = { origin: q, direction: p.sub(q), minT: 0, maxT: 1 };
+    if (closestOnParametric(edge, point).point.isClosedTo(point)) return true;
+    if (
+      p.y > point.y !== q.y > point.y &&
+      point.x < ((q.x - p.x) * (point.y - p.y)) / (q.y - p.y) + p.x
+    )
+      inside = !inside;
+  }
+  return inside;
+}
+
+const polygonVertices = (shape: Polygon | OrientedBox): readonly Vector[] =>
+  shape.kind === "polygon" ? shape.vertices : shape.vertices();
+
+const circleIntersectsPolygon = (
+  circle: Circle,
+  vertices: readonly Vector[]
+): boolean => {
+  if (polygonContains(vertices, circle.center)) return true;
+  const radiusSq = circle.radius * circle.radius;
+  return polygonEdges(vertices).some(({ edge }) => {
+    const closest = closestOnParametric(edge, circle.center).point;
+    return closest.sub(circle.center).squaredNorm() <= radiusSq;
+  });
+};
+
+const areasIntersect = (a: AreaShape, b: AreaShape): boolean => {
+  if (a.kind === "circle" && b.kind === "circle") {
+    return a.center.distance(b.center) <= a.radius + b.radius;
+  }
+  if (a.kind === "circle") {
+    return circleIntersectsPolygon(
+      a,
+      polygonVertices(b as Polygon | OrientedBox)
+    );
+  }
+  if (b.kind === "circle")
+    return circleIntersectsPolygon(b, polygonVertices(a));
+
+  const va = polygonVertices(a);
+  const vb = polygonVertices(b);
+  if (polygonContains(va, vb[0]) || polygonContains(vb, va[0])) return true;
+  return polygonEdges(va).some(
+    ({ edge }) => hitsWithPolygon(edge, vb).length > 0
+  );
+};
+
+/**
+ * Compute two shapes are overlapped.
+ * Touching shapes are treated as overlapped.
+ *
+ * @param a Any shape
+ * @param b Any shape
+ * @returns Shapes are overlapped
+ */
+export function shapesIntersect(a: Shape, b: Shape): boolean {
+  if (isLinear(a)) {
+    if (linearIntersections(a, b).length > 0) return true;
+    return !isLinear(b) && b.contains(a.asParametric().origin);
+  }
+  if (isLinear(b)) return shapesIntersect(b, a);
+  return areasIntersect(a, b);
+}
@@ -0,0 +1,108 @@
+import { Vector, VectorLike } from "@trans-vector2d/vector";
+import { MatrixLike } from "@trans-vector2d/matrix";
+import {
+  Hit,
+  ParametricLine,
+  Shape,
+  linearIntersections,
+  shapesIntersect,
+  closestOnParametric,
+  distanceToParametric,
+  transformedParametric,
+} from "./intersection";
+
+/**
+ * Infinite line passes through origin.
+ * Line is immutable.
+ */
+export class Line {
+  readonly kind = "line";
+
+  /**
+   * @param origin Point at t = 0
+   * @param direction Direction. Point at t is origin + t * direction
+   */
+  constructor(
+    public readonly origin: Vector,
+    public readonly direction: Vector
+  ) {}
+
+  /**
+   * Compute point at parameter.
+   *
+   * @param t Parameter
+   * @returns Point
+   */
+  pointAt(t: number): Vector {
+    return this.origin.add(this.direction.mlt(t));
+  }
+
+  /**
+   * Compute closest point on self to point.
+   *
+   * @param point Point
+   * @returns Closest point
+   */
+  closestPoint(point: VectorLike): Vector {
+    return closestOnParametric(this.asParametric(), point).point;
+  }
+
+  /**
+   * Compute distance between self and point.
+   *
+   * @param point Point
+   * @returns Distance
+   */
+  distanceTo(point: VectorLike): number {
+    return distanceToParametric(this.asParametric(), point);
+  }
+
+  /**
+   * Compute intersections of self and other shape.
+   *
+   * @param other Any shape
+   * @returns Hits sorted by parameter along self
+   */
+  intersections(other: Shape): Hit[] {
+    return linearIntersections(this, other);
+  }
+
+  /**
+   * Compute self is overlapped with other shape.
+   *
+   * @param other Any shape
+   * @returns Self is overlapped with other
+   */
+  intersects(other: Shape): boolean {
+    return shapesIntersect(this, other);
+  }
+
+  /**
+   * Create line transformed by matrix.
+   * Parameter of each point is kept.
+   *
+   * @param matrix Transformation matrix
+   * @returns Transformed line
+   */
+  transformedBy(matrix: MatrixLike): Line {
+    const { origin, direction } = transformedParametric(
+      this.asParametric(),
+      matrix
+    );
+    return new Line(origin, direction);
+  }
+
+  /**
+   * Express self as origin + t * direction (t is any number).
+   *
+   * @returns Parametric expression
+   */
+  asParametric(): ParametricLine {
+    return {
+      origin: this.origin,
+      direction: this.direction,
+      minT: -Infinity,
+      maxT: Infinity,
+    };
+  }
+}
@@ -0,0 +1,141 @@
+import { Vector, VectorLike } from "@trans-vector2d/vector";
+import { Matrix, MatrixLike } from "@trans-vector2d/matrix";
+import { Rect } from "@trans-vector2d/rect";
+import { Polygon } from "./polygon";
+import { Shape, shapesIntersect } from "./intersection";
+
+/**
+ * Rotated rectangle.
+ * OrientedBox is immutable.
+ */
+export class OrientedBox {
+  readonly kind = "oriented-box";
+
+  /**
+   * @param center Center point
+   * @param halfSize Half of width and height before rotation
+   * @param rotation Rotation as radians
+   */
+  constructor(
+    public readonly center: Vector,
+    public readonly halfSize: Vector,
+    public readonly rotation: number
+  ) {}
+
+  /**
+   * Create matrix maps unit square [-1, 1]^2 to self.
+   *
+   * @returns Matrix
+   */
+  matrix(): Matrix {
+    return Matrix.from({
+      translation: this.center,
+      rotation: this.rotation,
+      scale: this.halfSize,
+    });
+  }
+
+  /**
+   * Compute corners of self.
+   *
+   * @returns Corners in counterclockwise order before rotation
+   */
+  vertices(): Vector[] {
+    const m = this.matrix();
+    return [
+      { x: -1, y: -1 },
+      { x: 1, y: -1 },
+      { x: 1, y: 1 },
+      { x: -1, y: 1 },
+    ].map((p) => m.globalizePoint(p));
+  }
+
+  /**
+   * Create polygon equals self.
+   *
+   * @returns Polygon
+   */
+  toPolygon(): Polygon {
+    return new Polygon(this.vertices());
+  }
+
+  /**
+   * Compute self contains point.
+   * Points on edges are treated as contained.
+   *
+   * @param point Point
+   * @returns Self contains point
+   */
+  contains(point: VectorLike): boolean {
+    const local = Vector.from(point)
+      .sub(this.center)
+      .rotate(-this.rotation)
+      .abs();
+    const eps = 10 ** -10;
+    return (
+      local.x <= Math.abs(this.halfSize.x) + eps &&
+      local.y <= Math.abs(this.halfSize.y) + eps
+    );
+  }
+
+  /**
+   * Compute self is overlapped with other shape.
+   *
+   * @param other Any shape
+   * @returns Self is overlapped with other
+   */
+  intersects(other: Shape): boolean {
+    return shapesIntersect(this, other);
+  }
+
+  /**
+   * Create box encloses self transformed by matrix.
+   * Result is aligned to transformed x-axis of self.
+   * It equals transformed self when matrix does not contain skew
+   * nor non-uniform scale along axes rotated from box axes,
+   * otherwise it is larger than transformed self.
+   * Use `toPolygon().transformedBy(matrix)` for exact shape.
+   *
+   * @param matrix Transformation matrix
+   * @returns Transformed box
+   */
+  transformedBy(matrix: MatrixLike): OrientedBox {
+    const linear = { ...Matrix.from(matrix).asObject(), e: 0, f: 0 };
+    const axisX = Matrix.productVector(
+      linear,
+      Vector.fromPolar(this.halfSize.x, this.rotation)
+    );
+    const axisY = Matrix.productVector(
+      linear,
+      Vector.fromPolar(this.halfSize.y, this.rotation + Math.PI / 2)
+    );
+    const center = Matrix.productVector(matrix, this.center);
+    const unit = axisX.tryUnit();
+    if (unit === undefined) {
+      // Collapsed x-axis leaves segment along y-axis
+      return new OrientedBox(
+        center,
+        new Vector(0, axisY.norm()),
+        axisY.angle() - Math.PI / 2
+      );
+    }
+    // Transformed self is parallelogram, so sum extents of both axes
+    return new OrientedBox(
+      center,
+      new Vector(
+        axisX.norm() + Math.abs(axisY.dot(unit)),
+        Math.abs(unit.cross(axisY))
+      ),
+      axisX.angle()
+    );
+  }
+
+  /**
+   * Create bounding rect of self.
+   *
+   * @returns Bounding rect
+   */
+  bounds(): Rect {
+    return Rect.fromPoints(this.vertices());
+  }
+}
@@ -0,0 +1,419 @@
+import { Vector, VectorLike } from "@trans-vector2d/vector";
+import { Matrix, MatrixLike } from "@trans-vector2d/matrix";
+import { polygonContains, closestOnParametric } from "./intersection";
+
+/**
+ * Winding order of polygon in y-up coordinate system.
+ * Order looks opposite in y-down coordinate system like screen.
+ */
+export type Winding = "clockwise" | "counterclockwise";
+
+/**
+ * Rule to determine inside of self-intersecting polygon.
+ */
+export type FillRule = "even-odd" | "non-zero";
+
+export type Triangle = [Vector, Vector, Vector];
+
+const toVectors = (vertices: readonly VectorLike[]): Vector[] =>
+  vertices.map((v) => Vector.from(v));
+
+// Positive when a -> b -> c turns to left
+const turn = (a: Vector, b: Vector, c: Vector): number =>
+  b.sub(a).cross(c.sub(b));
+
+const isPointOnSegment = (a: Vector, b: Vector, point: Vector): boolean => {
+  const edge = { origin: a, direction: b.sub(a), minT: 0, maxT: 1 };
+  return closestOnParametric(edge, point).point.isClosedTo(point);
+};
+
+const segmentsIntersect = (
+  a1: Vector,
+  a2: Vector,
+  b1: Vector,
+  b2: Vector
+): boolean => {
+  const d1 = turn(b1, b2, a1);
+  const d2 = turn(b1, b2, a2);
+  const d3 = turn(a1, a2, b1);
+  const d4 = turn(a1, a2, b2);
+  if (d1 * d2 < 0 && d3 * d4 < 0) return true;
+  return (
+    isPointOnSegment(b1, b2, a1) ||
+    isPointOnSegment(b1, b2, a2) ||
+    isPointOnSegment(a1, a2, b1) ||
+    isPointOnSegment(a1, a2, b2)
+  );
+};
+
+/**
+ * Compute signed area of polygon by shoelace formula.
+ *
+ * @param vertices Vertices of polygon
+ * @returns Area. Positive when vertices are counterclockwise
+ */
+export function polygonSignedArea(vertices: readonly VectorLike[]): number {
+  let doubleArea = 0;
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    const p = vertices[j];
+    const q = vertices[i];
+    doubleArea += p.x * q.y - p.y * q.x;
+  }
+  return doubleArea / 2;
+}
+
+/**
+ * Compute area of polygon.
+ *
+ * @param vertices Vertices of simple polygon in any winding order
+ * @returns Area
+ */
+export function polygonArea(vertices: readonly VectorLike[]): number {
+  return Math.abs(polygonSignedArea(vertices));
+}
+
+/**
+ * Detect winding order of polygon.
+ *
+ * @param vertices Vertices of polygon
+ * @returns Winding order or undefined if polygon has no area
+ */
+export function polygonWinding(
+  vertices: readonly VectorLike[]
+): Winding | undefined {
+  const area = polygonSignedArea(vertices);
+  if (area === 0) return undefined;
+  return area > 0 ? "counterclockwise" : "clockwise";
+}
+
+/**
+ * Create polygon has specified winding order.
+ * Vertices are reversed only if winding order differs.
+ *
+ * @param vertices Vertices of polygon
+ * @param winding Required winding order
+ * @returns Vertices in required winding order
+ */
+export function withWinding(
+  vertices: readonly VectorLike[],
+  winding: Winding
+): Vector[] {
+  const result = toVectors(vertices);
+  const current = polygonWinding(result);
+  if (current !== undefined && current !== winding) result.reverse();
+  return result;
+}
+
+/**
+ * Compute centroid of area of polygon.
+ *
+ * @param vertices Vertices of simple polygon in any winding order
+ * @returns Centroid or undefined if polygon has no area
+ */
+export function polygonCentroid(
+  vertices: readonly VectorLike[]
+): Vector | undefined {
+  const area = polygonSignedArea(vertices);
+  if (area === 0) return undefined;
+  let x = 0;
+  let y = 0;
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    const p = vertices[j];
+    const q = vertices[i];
+    const cross = p.x * q.y - p.y * q.x;
+    x += (p.x + q.x) * cross;
+    y += (p.y + q.y) * cross;
+  }
+  return new Vector(x / (6 * area), y / (6 * area));
+}
+
+/**
+ * Compute polygon is simple.
+ * Simple polygon has no self-intersection nor touching edges.
+ *
+ * @param vertices Vertices of polygon
+ * @returns Polygon is simple
+ */
+export function isSimplePolygon(vertices: readonly VectorLike[]): boolean {
+  const points = toVectors(vertices);
+  const n = points.length;
+  if (n < 3) return false;
+  for (let i = 0; i < n; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % n];
+    const c = points[(i + 2) % n];
+    if (a.isClosedTo(b)) return false;
+    // Adjacent edges folding back overlap each other
+    const ab = b.sub(a);
+    const bc = c.sub(b);
+    if (Math.abs(ab.cross(bc)) <= 10 ** -10 && ab.dot(bc) < 0) return false;
+  }
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 2; j < n; j++) {
+      if (i === 0 && j === n - 1) continue;
+      const intersects = segmentsIntersect(
+        points[i],
+        points[i + 1],
+        points[j],
+        points[(j + 1) % n]
+      );
+      if (intersects) return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Compute polygon is convex.
+ * Collinear vertices are allowed.
+ *
+ * @param vertices Vertices of polygon in any winding order
+ * @returns Polygon is convex and has area
+ */
+export function isConvexPolygon(vertices: readonly VectorLike[]): boolean {
+  // Zero length edge has no direction
+  const points = toVectors(vertices).filter(
+    (p, i, all) => !p.isClosedTo(all[(i + all.length - 1) % all.length])
+  );
+  const n = points.length;
+  if (n < 3) return false;
+  let sign = 0;
+  let totalTurn = 0;
+  for (let i = 0; i < n; i++) {
+    const ab = points[(i + 1) % n].sub(points[i]);
+    const bc = points[(i + 2) % n].sub(points[(i + 1) % n]);
+    const cross = ab.cross(bc);
+    totalTurn += Math.atan2(cross, ab.dot(bc));
+    if (Math.abs(cross) <= 10 ** -10) continue;
+    if (sign === 0) sign = Math.sign(cross);
+    else if (sign !== Math.sign(cross)) return false;
+  }
+  // Star polygon turns same direction but winds around multiple times
+  return sign !== 0 && Math.abs(Math.abs(totalTurn) - 2 * Math.PI) <= 10 ** -6;
+}
+
+/**
+ * Compute winding number of polygon around point.
+ *
+ * @param vertices Vertices of polygon
+ * @param point Point
+ * @returns Winding number. Positive when polygon winds counterclockwise
+ */
+export function polygonWindingNumber(
+  vertices: readonly VectorLike[],
+  point: VectorLike
+): number {
+  const p = Vector.from(point);
+  let winding = 0;
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    const a = Vector.from(vertices[j]);
+    const b = Vector.from(vertices[i]);
+    if (a.y <= p.y) {
+      if (b.y > p.y && turn(a, b, p) > 0) winding++;
+    } else if (b.y <= p.y && turn(a, b, p) < 0) {
+      winding--;
+    }
+  }
+  return winding;
+}
+
+/**
+ * Compute polygon contains point.
+ * Points on edges are treated as contained.
+ *
+ * @param vertices Vertices of polygon
+ * @param point Point
+ * @param rule Rule to determine inside of self-intersecting polygon
+ * @returns Polygon contains point
+ */
+export function pointInPolygon(
+  vertices: readonly VectorLike[],
+  point: VectorLike,
+  rule: FillRule = "even-odd"
+): boolean {
+  const points = toVectors(vertices);
+  if (rule === "even-odd") return polygonContains(points, point);
+  const p = Vector.from(point);
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    if (isPointOnSegment(points[j], points[i], p)) return true;
+  }
+  return polygonWindingNumber(points, p) !== 0;
+}
+
+/**
+ * Compute convex hull of points by monotone chain algorithm.
+ *
+ * @param points Points
+ * @returns Vertices of hull in counterclockwise order without collinear vertices
+ */
+export function convexHull(points: readonly VectorLike[]): Vector[] {
+  const sorted = toVectors(points).sort((a, b) => a.x - b.x || a.y - b.y);
+  if (sorted.length < 3) {
+    return sorted.filter((p, i) => i === 0 || !p.equals(sorted[i - 1]));
+  }
+  const buildChain = (ordered: Vector[]): Vector[] => {
+    const chain: Vector[] = [];
+    for (const p of ordered) {
+      while (
+        chain.length >= 2 &&
+        turn(chain[chain.length - 2], chain[chain.length - 1], p) <= 0
+      ) {
+        chain.pop();
+      }
+      chain.push(p);
+    }
+    // Last point is first point of other chain
+    chain.pop();
+    return chain;
+  };
+  const lower = buildChain(sorted);
+  const upper = buildChain(sorted.slice().reverse());
+  return lower.concat(upper);
+}
+
+const isInsideTriangle = (
+  a: Vector,
+  b: Vector,
+  c: Vector,
+  p: Vector
+): boolean => turn(a, b, p) >= 0 && turn(b, c, p) >= 0 && turn(c, a, p) >= 0;
+
+const mergeHole = (outer: Vector[], hole: Vector[]): Vector[] => {
+  // Connect rightmost vertex of hole to visible vertex of outer
+  let mi = 0;
+  hole.forEach((p, i) => {
+    if (p.x > hole[mi].x) mi = i;
+  });
+  const m = hole[mi];
+
+  let bestX = Infinity;
+  let pi = -1;
+  for (let i = 0; i < outer.length; i++) {
+    const a = outer[i];
+    const b = outer[(i + 1) % outer.length];
+    // Counterclockwise outer is hit from inside by upward edges
+    if (!(a.y <= m.y && m.y <= b.y && a.y < b.y)) continue;
+    const x = a.x + ((m.y - a.y) * (b.x - a.x)) / (b.y - a.y);
+    if (x < m.x || x >= bestX) continue;
+    bestX = x;
+    if (x === a.x && m.y === a.y) pi = i;
+    else if (x === b.x && m.y === b.y) pi = (i + 1) % outer.length;
+    else pi = a.x > b.x ? i : (i + 1) % outer.length;
+  }
+  if (pi < 0) throw new Error("hole is outside of polygon");
+
+  const hit = new Vector(bestX, m.y);
+  if (!outer[pi].equals(hit)) {
+    // Reflex vertex in triangle may hide candidate. Choose one closest to ray
+    const candidate = outer[pi];
+    let bestSlope = Infinity;
+    for (let i = 0; i < outer.length; i++) {
+      const p = outer[i];
+      const prev = outer[(i + outer.length - 1) % outer.length];
+      const next = outer[(i + 1) % outer.length];
+      if (i === pi || turn(prev, p, next) > 0) continue;
+      const inside =
+        turn(m, hit, candidate) > 0
+          ? isInsideTriangle(m, hit, candidate, p)
+          : isInsideTriangle(m, candidate, hit, p);
+      if (!inside || p.x <= m.x) continue;
+      const slope = Math.abs(p.y - m.y) / (p.x - m.x);
+      if (slope < bestSlope) {
+        bestSlope = slope;
+        pi = i;
+      }
+    }
+  }
+
+  const cycle = hole.slice(mi).concat(hole.slice(0, mi + 1));
+  return outer.slice(0, pi + 1).concat(cycle, [outer[pi]], outer.slice(pi + 1));
+};
+
+const clipEars = (points: Vector[]): Triangle[] => {
+  const triangles: Triangle[] = [];
+  const remaining = points.slice();
+  let i = 0;
+  let failures = 0;
+  while (remaining.length > 3) {
+    const n = remaining.length;
+    const a = remaining[(i + n - 1) % n];
+    const b = remaining[i % n];
+    const c = remaining[(i + 1) % n];
+    const cross = turn(a, b, c);
+    let isEar = false;
+    if (Math.abs(cross) <= 10 ** -10) {
+      // Degenerate vertex adds no area
+      remaining.splice(i % n, 1);
+      failures = 0;
+      continue;
+    }
+    if (cross > 0) {
+      isEar = !remaining.some(
+        (p) =>
+          !p.equals(a) &&
+          !p.equals(b) &&
+          !p.equals(c) &&
+          isInsideTriangle(a, b, c, p)
+      );
+    }
+    // Clip convex vertex anyway when numerical error hides all ears
+    if (isEar || (failures > n && cross > 0)) {
+      triangles.push([a, b, c]);
+      remaining.splice(i % n, 1);
+      failures = 0;
+      continue;
+    }
+    i = (i + 1) % n;
+    failures++;
+    if (failures > 2 * n) break;
+  }
+  if (remaining.length === 3) {
+    const [a, b, c] = remaining;
+    if (turn(a, b, c) > 10 ** -10) triangles.push([a, b, c]);
+  }
+  return triangles;
+};
+
+/**
+ * Triangulate polygon by ear clipping.
+ * Holes are connected to outer polygon by bridge edges before clipping.
+ *
+ * @example
+ * const square = [{ x: 0, y: 0 }, { x: 4, y: 0 }, { x: 4, y: 4 }, { x: 0, y: 4 }];
+ * const hole = [{ x: 1, y: 1 }, { x: 3, y: 1 }, { x: 3, y: 3 }, { x: 1, y: 3 }];
+ * triangulatePolygon(square, [hole]); // 8 triangles
+ * @param outer Vertices of simple polygon in any winding order
+ * @param holes Simple polygons inside of outer polygon in any winding order
+ * @returns Triangles in counterclockwise order
+ */
+export function triangulatePolygon(
+  outer: readonly VectorLike[],
+  holes: readonly (readonly VectorLike[])[] = []
+): Triangle[] {
+  if (outer.length < 3) throw new Error("vertices must be 3 or more");
+  const sortedHoles = holes
+    .filter((hole) => hole.length >= 3)
+    .map((hole) => withWinding(hole, "clockwise"))
+    .sort(
+      (h1, h2) =>
+        Math.max(...h2.map((p) => p.x)) - Math.max(...h1.map((p) => p.x))
+    );
+  let merged = withWinding(outer, "counterclockwise");
+  for (const hole of sortedHoles) merged = mergeHole(merged, hole);
+  return clipEars(merged);
+}
+
+/**
+ * Transform vertices of polygon by matrix.
+ * Winding order is reversed when matrix flips.
+ *
+ * @param vertices Vertices of polygon
+ * @param matrix Transformation matrix
+ * @returns Transformed vertices
+ */
+export function transformPolygon(
+  vertices: readonly VectorLike[],
+  matrix: MatrixLike
+): Vector[] {
+  return vertices.map((v) => Matrix.productVector(matrix, v));
+}
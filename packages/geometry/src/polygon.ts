@@ -0,0 +1,73 @@
+import { Vector, VectorLike } from "@trans-vector2d/vector";
+import { Matrix, MatrixLike } from "@trans-vector2d/matrix";
+import { Rect } from "@trans-vector2d/rect";
+import { Segment } from "./segment";
+import { Shape, shapesIntersect, polygonContains } from "./intersection";
+
+/**
+ * Simple polygon.
+ * Polygon is immutable.
+ */
+export class Polygon {
+  readonly kind = "polygon";
+
+  /**
+   * @param vertices Vertices in any winding order. Must contain 3 or more vertices
+   */
+  constructor(public readonly vertices: readonly Vector[]) {
+    if (vertices.length < 3) throw new Error("vertices must be 3 or more");
+  }
+
+  /**
+   * Create edges of self.
+   *
+   * @returns Edges. i-th edge starts from i-th vertex
+   */
+  edges(): Segment[] {
+    return this.vertices.map(
+      (v, i) => new Segment(v, this.vertices[(i + 1) % this.vertices.length])
+    );
+  }
+
+  /**
+   * Compute self contains point by even-odd rule.
+   * Points on edges are treated as contained.
+   *
+   * @param point Point
+   * @returns Self contains point
+   */
+  contains(point: VectorLike): boolean {
+    return polygonContains(this.vertices, point);
+  }
+
+  /**
+   * Compute self is overlapped with other shape.
+   *
+   * @param other Any shape
+   * @returns Self is overlapped with other
+   */
+  intersects(other: Shape): boolean {
+    return shapesIntersect(this, other);
+  }
+
+  /**
+   * Create polygon transformed by matrix.
+   *
+   * @param matrix Transformation matrix
+   * @returns Transformed polygon
+   */
+  transformedBy(matrix: MatrixLike): Polygon {
+    return new Polygon(
+      this.vertices.map((v) => Matrix.productVector(matrix, v))
+    );
+  }
+
+  /**
+   * Create bounding rect of self.
+   *
+   * @returns Bounding rect
+   */
+  bounds(): Rect {
+    return Rect.fromPoints(this.vertices.slice());
+  }
+}
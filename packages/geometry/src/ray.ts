@@ -0,0 +1,118 @@
+import { Vector, VectorLike } from "@trans-vector2d/vector";
+import { MatrixLike } from "@trans-vector2d/matrix";
+import {
+  Hit,
+  ParametricLine,
+  Shape,
+  linearIntersections,
+  shapesIntersect,
+  closestOnParametric,
+  distanceToParametric,
+  transformedParametric,
+} from "./intersection";
+
+/**
+ * Half-line starts from origin.
+ * Ray is immutable.
+ */
+export class Ray {
+  readonly kind = "ray";
+
+  /**
+   * @param origin Start point at t = 0
+   * @param direction Direction. Point at t is origin + t * direction
+   */
+  constructor(
+    public readonly origin: Vector,
+    public readonly direction: Vector
+  ) {}
+
+  /**
+   * Compute point at parameter.
+   *
+   * @param t Parameter
+   * @returns Point
+   */
+  pointAt(t: number): Vector {
+    return this.origin.add(this.direction.mlt(t));
+  }
+
+  /**
+   * Compute closest point on self to point.
+   *
+   * @param point Point
+   * @returns Closest point
+   */
+  closestPoint(point: VectorLike): Vector {
+    return closestOnParametric(this.asParametric(), point).point;
+  }
+
+  /**
+   * Compute distance between self and point.
+   *
+   * @param point Point
+   * @returns Distance
+   */
+  distanceTo(point: VectorLike): number {
+    return distanceToParametric(this.asParametric(), point);
+  }
+
+  /**
+   * Compute intersections of self and other shape.
+   *
+   * @param other Any shape
+   * @returns Hits sorted by parameter along self
+   */
+  intersections(other: Shape): Hit[] {
+    return linearIntersections(this, other);
+  }
+
+  /**
+   * Compute first intersection of self and other shape.
+   *
+   * @param other Any shape
+   * @returns Nearest hit from origin or undefined if self does not hit other
+   */
+  cast(other: Shape): Hit | undefined {
+    return this.intersections(other)[0];
+  }
+
+  /**
+   * Compute self is overlapped with other shape.
+   *
+   * @param other Any shape
+   * @returns Self is overlapped with other
+   */
+  intersects(other: Shape): boolean {
+    return shapesIntersect(this, other);
+  }
+
+  /**
+   * Create ray transformed by matrix.
+   * Parameter of each point is kept.
+   *
+   * @param matrix Transformation matrix
+   * @returns Transformed ray
+   */
+  transformedBy(matrix: MatrixLike): Ray {
+    const { origin, direction } = transformedParametric(
+      this.asParametric(),
+      matrix
+    );
+    return new Ray(origin, direction);
+  }
+
+  /**
+   * Express self as origin + t * direction (0 <= t).
+   *
+   * @returns Parametric expression
+   */
+  asParametric(): ParametricLine {
+    return {
+      origin: this.origin,
+      direction: this.direction,
+      minT: 0,
+      maxT: Infinity,
+    };
+  }
+}
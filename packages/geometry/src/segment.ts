@@ -0,0 +1,121 @@
+import { Vector, VectorLike } from "@trans-vector2d/vector";
+import { Matrix, MatrixLike } from "@trans-vector2d/matrix";
+import { Rect } from "@trans-vector2d/rect";
+import {
+  Hit,
+  ParametricLine,
+  Shape,
+  linearIntersections,
+  shapesIntersect,
+  closestOnParametric,
+  distanceToParametric,
+} from "./intersection";
+
+/**
+ * Line segment between two points.
+ * Segment is immutable.
+ */
+export class Segment {
+  readonly kind = "segment";
+
+  /**
+   * @param start Start point at t = 0
+   * @param end End point at t = 1
+   */
+  constructor(public readonly start: Vector, public readonly end: Vector) {}
+
+  /**
+   * Compute length of self.
+   *
+   * @returns Length
+   */
+  length(): number {
+    return this.start.distance(this.end);
+  }
+
+  /**
+   * Compute point at parameter.
+   *
+   * @param t Parameter. 0 is start and 1 is end
+   * @returns Point
+   */
+  pointAt(t: number): Vector {
+    return this.start.lerp(this.end, t);
+  }
+
+  /**
+   * Compute closest point on self to point.
+   *
+   * @param point Point
+   * @returns Closest point
+   */
+  closestPoint(point: VectorLike): Vector {
+    return closestOnParametric(this.asParametric(), point).point;
+  }
+
+  /**
+   * Compute distance between self and point.
+   *
+   * @param point Point
+   * @returns Distance
+   */
+  distanceTo(point: VectorLike): number {
+    return distanceToParametric(this.asParametric(), point);
+  }
+
+  /**
+   * Compute intersections of self and other shape.
+   *
+   * @param other Any shape
+   * @returns Hits sorted by parameter along self
+   */
+  intersections(other: Shape): Hit[] {
+    return linearIntersections(this, other);
+  }
+
+  /**
+   * Compute self is overlapped with other shape.
+   *
+   * @param other Any shape
+   * @returns Self is overlapped with other
+   */
+  intersects(other: Shape): boolean {
+    return shapesIntersect(this, other);
+  }
+
+  /**
+   * Create segment transformed by matrix.
+   *
+   * @param matrix Transformation matrix
+   * @returns Transformed segment
+   */
+  transformedBy(matrix: MatrixLike): Segment {
+    return new Segment(
+      Matrix.productVector(matrix, this.start),
+      Matrix.productVector(matrix, this.end)
+    );
+  }
+
+  /**
+   * Create bounding rect of self.
+   *
+   * @returns Bounding rect
+   */
+  bounds(): Rect {
+    return Rect.fromPoints([this.start, this.end]);
+  }
+
+  /**
+   * Express self as origin + t * direction (0 <= t <= 1).
+   *
+   * @returns Parametric expression
+   */
+  asParametric(): ParametricLine {
+    return {
+      origin: this.start,
+      direction: this.end.sub(this.start),
+      minT: 0,
+      maxT: 1,
+    };
+  }
+}
@@ -0,0 +1,142 @@
+import { HexGrid, axialToCube, cubeToAxial, cubeRound, hexRound } from "../src";
+import { Vector } from "@trans-vector2d/vector";
+import { Random } from "@trans-vector2d/random";
+
+const v = (x: number, y: number): Vector => new Vector(x, y);
+
+describe("@trans-vector2d/grid hex coordinates", () => {
+  it("can convert between axial and cube", () => {
+    expect(axialToCube(v(2, -3))).toEqual({ q: 2, r: -3, s: 1 });
+    expect(cubeToAxial({ q: 2, r: -3, s: 1 })).toEqual(v(2, -3));
+  });
+
+  it.each`
+    cube                           | expected
+    ${{ q: 0.1, r: 0.1, s: -0.2 }} | ${{ q: 0, r: 0, s: 0 }}
+    ${{ q: 0.6, r: 0.3, s: -0.9 }} | ${{ q: 1, r: 0, s: -1 }}
+    ${{ q: 0.4, r: 0.4, s: -0.8 }} | ${{ q: 0, r: 1, s: -1 }}
+    ${{ q: -1.4, r: 0.2, s: 1.2 }} | ${{ q: -1, r: 0, s: 1 }}
+  `("can round $cube", ({ cube, expected }) => {
+    const rounded = cubeRound(cube);
+
+    expect(rounded).toEqual(expected);
+    expect(rounded.q + rounded.r + rounded.s).toBe(0);
+  });
+});
+
+describe.each`
+  orientation
+  ${"pointy"}
+  ${"flat"}
+`("@trans-vector2d/grid.HexGrid ($orientation)", ({ orientation }) => {
+  const grid = HexGrid.fromSize(10, orientation, v(5, 5));
+
+  it("can place neighbors at same distance", () => {
+    const center = grid.cellToWorld(v(1, 2));
+
+    expect(grid.cellToWorld(v(0, 0))).toEqual(v(5, 5));
+    grid.neighbors(v(1, 2)).forEach((n) => {
+      expect(grid.cellToWorld(n).distance(center)).toBeCloseTo(
+        10 * Math.sqrt(3)
+      );
+      expect(grid.distance(v(1, 2), n)).toBe(1);
+    });
+    grid.corners(v(1, 2)).forEach((c) => {
+      expect(c.distance(center)).toBeCloseTo(10);
+    });
+  });
+
+  it("can find hexagon contains point", () => {
+    const random = new Random(7);
+    for (let i = 0; i < 200; i++) {
+      const point = v(random.range(-100, 100), random.range(-100, 100));
+      const cell = grid.worldToCell(point);
+      const distance = grid.cellToWorld(cell).distance(point);
+      // Nearest center is center of hexagon contains point
+      grid.neighbors(cell).forEach((n) => {
+        expect(grid.cellToWorld(n).distance(point)).toBeGreaterThanOrEqual(
+          distance - 10 ** -9
+        );
+      });
+      expect(hexRound(grid.matrix.localizePoint(point))).toEqual(cell);
+    }
+  });
+
+  it("can draw line", () => {
+    const line = grid.line(v(0, 0), v(3, -5));
+
+    expect(line).toHaveLength(6);
+    expect(line[0]).toEqual(v(0, 0));
+    expect(line[5]).toEqual(v(3, -5));
+    line.slice(1).forEach((c, i) => {
+      expect(grid.distance(line[i], c)).toBe(1);
+    });
+    expect(grid.line(v(1, 1), v(1, 1))).toEqual([v(1, 1)]);
+  });
+
+  it("can enumerate range and ring", () => {
+    const range = grid.range(v(2, -1), 3);
+    const ring = grid.ring(v(2, -1), 3);
+
+    expect(range).toHaveLength(37);
+    range.forEach((c) => {
+      expect(grid.distance(v(2, -1), c)).toBeLessThanOrEqual(3);
+    });
+    expect(ring).toHaveLength(18);
+    ring.forEach((c, i) => {
+      expect(grid.distance(v(2, -1), c)).toBe(3);
+      expect(grid.distance(ring[(i + 1) % ring.length], c)).toBe(1);
+    });
+    expect(grid.ring(v(2, -1), 0)).toEqual([v(2, -1)]);
+    expect(() => grid.range(v(0, 0), -1)).toThrowError("radius is negative");
+  });
+});
+
+describe("@trans-vector2d/grid.HexGrid offset coordinates", () => {
+  it.each`
+    orientation | parity    | axial       | offset
+    ${"pointy"} | ${"odd"}  | ${v(0, 1)}  | ${v(0, 1)}
+    ${"pointy"} | ${"odd"}  | ${v(-1, 2)} | ${v(0, 2)}
+    ${"pointy"} | ${"even"} | ${v(-1, 1)} | ${v(0, 1)}
+    ${"flat"}   | ${"odd"}  | ${v(1, 0)}  | ${v(1, 0)}
+    ${"flat"}   | ${"odd"}  | ${v(2, -1)} | ${v(2, 0)}
+    ${"flat"}   | ${"even"} | ${v(1, -1)} | ${v(1, 0)}
+  `(
+    "can convert $axial to $offset in $parity $orientation grid",
+    ({ orientation, parity, axial, offset }) => {
+      const grid = HexGrid.fromSize(1, orientation, Vector.zero, parity);
+
+      expect(grid.toOffset(axial)).toEqual(offset);
+      expect(grid.fromOffset(offset)).toEqual(axial);
+    }
+  );
+
+  it.each`
+    orientation | parity
+    ${"pointy"} | ${"odd"}
+    ${"pointy"} | ${"even"}
+    ${"flat"}   | ${"odd"}
+    ${"flat"}   | ${"even"}
+  `(
+    "can place offset cells in rows and columns ($parity $orientation)",
+    ({ orientation, parity }) => {
+      const grid = HexGrid.fromSize(1, orientation, Vector.zero, parity);
+      for (let x = -3; x <= 3; x++) {
+        for (let y = -3; y <= 3; y++) {
+          const axial = grid.fromOffset(v(x, y));
+          expect(grid.toOffset(axial)).toEqual(v(x, y));
+
+          // Rows of pointy grid and columns of flat grid are straight
+          const p = grid.cellToWorld(axial);
+          const q = grid.cellToWorld(grid.fromOffset(v(x, y + 2)));
+          const r = grid.cellToWorld(grid.fromOffset(v(x + 2, y)));
+          if (orientation === "pointy") expect(r.y).toBeCloseTo(p.y);
+          else expect(q.x).toBeCloseTo(p.x);
+          // Every other row or column is aligned
+          if (orientation === "pointy") expect(q.x).toBeCloseTo(p.x);
+          else expect(r.y).toBeCloseTo(p.y);
+        }
+      }
+    }
+  );
+});
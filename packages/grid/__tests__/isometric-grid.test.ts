@@ -0,0 +1,70 @@
+import { IsometricGrid } from "../src";
+import { Vector } from "@trans-vector2d/vector";
+
+const v = (x: number, y: number): Vector => new Vector(x, y);
+const tile = v(64, 32);
+
+describe("@trans-vector2d/grid.IsometricGrid", () => {
+  it("can convert between diamond cell and world", () => {
+    const grid = IsometricGrid.fromTileSize(tile);
+
+    expect(grid.cellToWorld(v(0, 0))).toEqual(v(32, 16));
+    expect(grid.cellToWorld(v(1, 0))).toEqual(v(64, 32));
+    expect(grid.cellToWorld(v(0, 1))).toEqual(v(0, 32));
+    expect(grid.corners(v(0, 0)).map((p) => p.asObject())).toEqual([
+      { x: 32, y: 32 },
+      { x: 0, y: 16 },
+      { x: 32, y: 0 },
+      { x: 64, y: 16 },
+    ]);
+    // Inside of diamond but near corner of bounding box
+    expect(grid.worldToCell(v(32, 1))).toEqual(v(0, 0));
+    expect(grid.worldToCell(v(60, 1))).toEqual(v(0, -1));
+    expect(grid.worldToCell(v(4, 30))).toEqual(v(0, 1));
+  });
+
+  it("can convert between staggered cell and world", () => {
+    const grid = IsometricGrid.fromTileSize(tile, "staggered", v(10, 0));
+
+    expect(grid.cellToWorld(v(0, 0))).toEqual(v(42, 16));
+    expect(grid.cellToWorld(v(1, 0))).toEqual(v(106, 16));
+    expect(grid.cellToWorld(v(0, 1))).toEqual(v(74, 32));
+    expect(grid.cellToWorld(v(0, -1))).toEqual(v(74, 0));
+    expect(grid.worldToCell(v(14, 30))).toEqual(v(-1, 1));
+    expect(grid.worldToCell(v(106, 17))).toEqual(v(1, 0));
+  });
+
+  it("can convert staggered cell to diamond cell and back", () => {
+    const grid = IsometricGrid.fromTileSize(tile, "staggered");
+    for (let x = -3; x <= 3; x++) {
+      for (let y = -3; y <= 3; y++) {
+        expect(grid.fromDiamond(grid.toDiamond(v(x, y)))).toEqual(v(x, y));
+      }
+    }
+  });
+
+  it.each`
+    layout
+    ${"diamond"}
+    ${"staggered"}
+  `("can enumerate adjacent tiles in $layout layout", ({ layout }) => {
+    const grid = IsometricGrid.fromTileSize(tile, layout, Vector.zero, 8);
+    const center = grid.cellToWorld(v(2, 3));
+    const neighbors = grid.neighbors(v(2, 3));
+
+    expect(neighbors).toHaveLength(8);
+    neighbors.slice(0, 4).forEach((n) => {
+      const d = grid.cellToWorld(n).sub(center);
+      expect(Math.abs(d.x)).toBe(32);
+      expect(Math.abs(d.y)).toBe(16);
+      expect(grid.distance(v(2, 3), n)).toBe(1);
+    });
+    expect(grid.range(v(2, 3), 1)).toHaveLength(9);
+
+    const line = grid.line(v(2, 3), v(-1, 7));
+    expect(line[line.length - 1]).toEqual(v(-1, 7));
+    line.slice(1).forEach((c, i) => {
+      expect(grid.distance(line[i], c)).toBe(1);
+    });
+  });
+});
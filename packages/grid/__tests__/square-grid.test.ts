@@ -0,0 +1,84 @@
+import { SquareGrid } from "../src";
+import { Vector } from "@trans-vector2d/vector";
+import { Matrix } from "@trans-vector2d/matrix";
+
+const v = (x: number, y: number): Vector => new Vector(x, y);
+
+describe("@trans-vector2d/grid.SquareGrid", () => {
+  it("can convert between cell and world", () => {
+    const grid = SquareGrid.fromCellSize(v(32, 16), v(100, 0));
+
+    expect(grid.cellToWorld(v(0, 0))).toEqual(v(116, 8));
+    expect(grid.cellToWorld(v(-1, 2))).toEqual(v(84, 40));
+    expect(grid.worldToCell(v(100, 0))).toEqual(v(0, 0));
+    expect(grid.worldToCell(v(131.9, 15.9))).toEqual(v(0, 0));
+    expect(grid.worldToCell(v(99.9, -0.1))).toEqual(v(-1, -1));
+    expect(grid.worldToCell(v(90, 5))).toEqual(v(-1, 0));
+  });
+
+  it("can use rotated grid", () => {
+    const grid = new SquareGrid(Matrix.rotation(Math.PI / 2).scaled(v(2, 2)));
+
+    expect(grid.cellToWorld(v(1, 0)).isClosedTo(v(0, 2))).toBe(true);
+    expect(grid.worldToCell(v(0.5, 2.5))).toEqual(v(1, 0));
+    expect(grid.corners(v(0, 0))[0].isClosedTo(v(-1, 1))).toBe(true);
+  });
+
+  it.each`
+    connectivity | neighbors | distance | rangeCount
+    ${4}         | ${4}      | ${7}     | ${13}
+    ${8}         | ${8}      | ${4}     | ${25}
+  `(
+    "can enumerate cells with $connectivity connectivity",
+    ({ connectivity, neighbors, distance, rangeCount }) => {
+      const grid = new SquareGrid(Matrix.identity, connectivity);
+
+      expect(grid.neighbors(v(1, 1))).toHaveLength(neighbors);
+      grid.neighbors(v(1, 1)).forEach((n) => {
+        expect(grid.distance(v(1, 1), n)).toBe(1);
+      });
+      expect(grid.distance(v(0, 0), v(-3, 4))).toBe(distance);
+
+      const range = grid.range(v(5, 5), 2);
+      expect(range).toHaveLength(rangeCount);
+      range.forEach((c) => {
+        expect(grid.distance(v(5, 5), c)).toBeLessThanOrEqual(2);
+      });
+    }
+  );
+
+  it.each`
+    connectivity | a           | b
+    ${4}         | ${v(0, 0)}  | ${v(5, 2)}
+    ${4}         | ${v(3, -1)} | ${v(-2, 4)}
+    ${4}         | ${v(0, 0)}  | ${v(0, -3)}
+    ${8}         | ${v(0, 0)}  | ${v(5, 2)}
+    ${8}         | ${v(3, -1)} | ${v(-2, 4)}
+  `(
+    "can draw line from $a to $b with $connectivity connectivity",
+    ({ connectivity, a, b }) => {
+      const grid = new SquareGrid(Matrix.identity, connectivity);
+      const line = grid.line(a, b);
+
+      expect(line[0]).toEqual(a);
+      expect(line[line.length - 1]).toEqual(b);
+      expect(line).toHaveLength(grid.distance(a, b) + 1);
+      line.slice(1).forEach((c, i) => {
+        expect(grid.distance(line[i], c)).toBe(1);
+      });
+    }
+  );
+
+  it("can draw line of single cell", () => {
+    expect(new SquareGrid().line(v(2, 2), v(2, 2))).toEqual([v(2, 2)]);
+  });
+
+  it("can not use invalid arguments", () => {
+    expect(() => new SquareGrid(Matrix.scaling(v(0, 1)))).toThrowError(
+      "matrix is not invertible"
+    );
+    expect(() => new SquareGrid().range(v(0, 0), -1)).toThrowError(
+      "radius is negative"
+    );
+  });
+});
@@ -0,0 +1,83 @@
+import { Vector, VectorLike } from "@trans-vector2d/vector";
+import { Matrix } from "@trans-vector2d/matrix";
+
+/**
+ * Common interface of grid coordinate systems.
+ * Cell is identified by integer coordinates and its center is placed at
+ * cell coordinates in cell space. Matrix maps cell space to world space.
+ */
+export interface Grid {
+  /**
+   * Matrix from cell space to world space.
+   */
+  readonly matrix: Matrix;
+
+  /**
+   * Compute center of cell in world space.
+   *
+   * @param cell Cell coordinates
+   */
+  cellToWorld(cell: VectorLike): Vector;
+
+  /**
+   * Find cell contains point in world space.
+   *
+   * @param point Point in world space
+   */
+  worldToCell(point: VectorLike): Vector;
+
+  /**
+   * Enumerate adjacent cells.
+   *
+   * @param cell Cell coordinates
+   */
+  neighbors(cell: VectorLike): Vector[];
+
+  /**
+   * Compute count of steps between cells moving through neighbors.
+   *
+   * @param a Cell coordinates
+   * @param b Cell coordinates
+   */
+  distance(a: VectorLike, b: VectorLike): number;
+
+  /**
+   * Enumerate cells on line between cells.
+   *
+   * @param a Start cell
+   * @param b End cell
+   * @returns Cells from a to b. Each cell is neighbor of previous cell
+   */
+  line(a: VectorLike, b: VectorLike): Vector[];
+
+  /**
+   * Enumerate cells within distance.
+   *
+   * @param center Center cell
+   * @param radius Max distance
+   */
+  range(center: VectorLike, radius: number): Vector[];
+}
+
+/**
+ * Create matrix inverse of grid matrix.
+ *
+ * @param matrix Matrix from cell space to world space
+ * @returns Matrix from world space to cell space
+ */
+export function gridInverseMatrix(matrix: Matrix): Matrix {
+  const inverse = matrix.tryInverse();
+  if (inverse === undefined) throw new Error("matrix is not invertible");
+  return inverse;
+}
+
+/**
+ * Round point in cell space to nearest integer coordinates.
+ *
+ * @param point Point in cell space
+ * @returns Cell coordinates without negative zero
+ */
+export function roundCell(point: VectorLike): Vector {
+  // Adding 0 converts -0 to 0
+  return new Vector(Math.round(point.x) + 0, Math.round(point.y) + 0);
+}
@@ -0,0 +1,282 @@
+import { Vector, VectorLike } from "@trans-vector2d/vector";
+import { Matrix } from "@trans-vector2d/matrix";
+import { Grid, gridInverseMatrix } from "./grid";
+
+/**
+ * Orientation of hexagon. Pointy has vertex on top and flat has edge on top.
+ */
+export type HexOrientation = "pointy" | "flat";
+
+/**
+ * Which rows (pointy) or columns (flat) are shifted in offset coordinates.
+ */
+export type HexOffsetParity = "odd" | "even";
+
+/**
+ * Cube coordinates of hexagon. q + r + s is always 0.
+ */
+export interface CubeCoordinates {
+  q: number;
+  r: number;
+  s: number;
+}
+
+// Axial directions in counterclockwise order of cell space
+const hexDirections = [
+  new Vector(1, 0),
+  new Vector(1, -1),
+  new Vector(0, -1),
+  new Vector(-1, 0),
+  new Vector(-1, 1),
+  new Vector(0, 1),
+];
+
+/**
+ * Convert axial coordinates to cube coordinates.
+ *
+ * @param axial Axial coordinates. x is q and y is r
+ * @returns Cube coordinates
+ */
+export function axialToCube(axial: VectorLike): CubeCoordinates {
+  return { q: axial.x, r: axial.y, s: -axial.x - axial.y + 0 };
+}
+
+/**
+ * Convert cube coordinates to axial coordinates.
+ *
+ * @param cube Cube coordinates
+ * @returns Axial coordinates. x is q and y is r
+ */
+export function cubeToAxial(cube: CubeCoordinates): Vector {
+  return new Vector(cube.q, cube.r);
+}
+
+/**
+ * Round fractional cube coordinates to cube coordinates of hexagon contains it.
+ *
+ * @param cube Fractional cube coordinates
+ * @returns Cube coordinates of hexagon
+ */
+export function cubeRound(cube: CubeCoordinates): CubeCoordinates {
+  let q = Math.round(cube.q);
+  let r = Math.round(cube.r);
+  let s = Math.round(cube.s);
+  const dq = Math.abs(q - cube.q);
+  const dr = Math.abs(r - cube.r);
+  const ds = Math.abs(s - cube.s);
+  // Rounding each component independently can break q + r + s = 0.
+  // Recompute component has largest rounding error
+  if (dq > dr && dq > ds) q = -r - s;
+  else if (dr > ds) r = -q - s;
+  else s = -q - r;
+  return { q: q + 0, r: r + 0, s: s + 0 };
+}
+
+/**
+ * Round fractional axial coordinates to axial coordinates of hexagon contains it.
+ *
+ * @param axial Fractional axial coordinates
+ * @returns Axial coordinates of hexagon
+ */
+export function hexRound(axial: VectorLike): Vector {
+  return cubeToAxial(cubeRound(axialToCube(axial)));
+}
+
+/**
+ * Grid of hexagons in axial coordinates.
+ * Matrix maps axial coordinates to world space.
+ */
+export class HexGrid implements Grid {
+  private readonly inverse: Matrix;
+
+  /**
+   * @param matrix Matrix from axial coordinates to world space
+   * @param orientation Orientation of hexagon. Used by offset coordinates
+   * @param offsetParity Shifted rows or columns of offset coordinates
+   */
+  constructor(
+    public readonly matrix: Matrix,
+    public readonly orientation: HexOrientation = "pointy",
+    public readonly offsetParity: HexOffsetParity = "odd"
+  ) {
+    this.inverse = gridInverseMatrix(matrix);
+  }
+
+  /**
+   * Create grid of regular hexagons.
+   *
+   * @example
+   * const grid = HexGrid.fromSize(10, "flat");
+   * grid.cellToWorld({ x: 1, y: 0 }); // { x: 15, y: 5 * Math.sqrt(3) }
+   * @param size Distance from center to vertex of hexagon
+   * @param orientation Orientation of hexagon
+   * @param origin Center of hexagon (0, 0) in world space
+   * @param offsetParity Shifted rows or columns of offset coordinates
+   * @returns Grid
+   */
+  static fromSize(
+    size: number,
+    orientation: HexOrientation = "pointy",
+    origin: VectorLike = Vector.zero,
+    offsetParity: HexOffsetParity = "odd"
+  ): HexGrid {
+    const long = Math.sqrt(3) * size;
+    const short = 1.5 * size;
+    const matrix =
+      orientation === "pointy"
+        ? new Matrix(long, 0, long / 2, short, origin.x, origin.y)
+        : new Matrix(short, long / 2, 0, long, origin.x, origin.y);
+    return new HexGrid(matrix, orientation, offsetParity);
+  }
+
+  /**
+   * Compute center of hexagon in world space.
+   *
+   * @param cell Axial coordinates
+   * @returns Center of hexagon
+   */
+  cellToWorld(cell: VectorLike): Vector {
+    return this.matrix.globalizePoint(cell);
+  }
+
+  /**
+   * Find hexagon contains point in world space.
+   *
+   * @param point Point in world space
+   * @returns Axial coordinates
+   */
+  worldToCell(point: VectorLike): Vector {
+    return hexRound(Matrix.productVector(this.inverse, point));
+  }
+
+  /**
+   * Compute vertices of hexagon in world space.
+   *
+   * @param cell Axial coordinates
+   * @returns Vertices
+   */
+  corners(cell: VectorLike): Vector[] {
+    // Vertex is centroid of self and two adjacent neighbors
+    return hexDirections.map((d, i) => {
+      const next = hexDirections[(i + 1) % hexDirections.length];
+      return this.cellToWorld(d.add(next).div(3).add(cell));
+    });
+  }
+
+  /**
+   * Enumerate adjacent hexagons.
+   *
+   * @param cell Axial coordinates
+   * @returns Axial coordinates of 6 neighbors
+   */
+  neighbors(cell: VectorLike): Vector[] {
+    return hexDirections.map((d) => d.add(cell));
+  }
+
+  /**
+   * Compute count of steps between hexagons.
+   *
+   * @param a Axial coordinates
+   * @param b Axial coordinates
+   * @returns Distance
+   */
+  distance(a: VectorLike, b: VectorLike): number {
+    const dq = a.x - b.x;
+    const dr = a.y - b.y;
+    return (Math.abs(dq) + Math.abs(dr) + Math.abs(dq + dr)) / 2;
+  }
+
+  /**
+   * Enumerate hexagons on line between hexagons.
+   *
+   * @param a Start axial coordinates
+   * @param b End axial coordinates
+   * @returns Hexagons from a to b. Each hexagon is neighbor of previous one
+   */
+  line(a: VectorLike, b: VectorLike): Vector[] {
+    // Nudge line to avoid sampling exactly on edges between hexagons
+    const nudge = { x: 10 ** -6, y: 10 ** -6 };
+    const start = Vector.from(a).add(nudge);
+    const end = Vector.from(b).add(nudge);
+    const n = this.distance(a, b);
+    const cells = [Vector.from(a)];
+    for (let i = 1; i <= n; i++) cells.push(hexRound(start.lerp(end, i / n)));
+    return cells;
+  }
+
+  /**
+   * Enumerate hexagons within distance.
+   *
+   * @param center Center axial coordinates
+   * @param radius Max distance
+   * @returns Axial coordinates
+   */
+  range(center: VectorLike, radius: number): Vector[] {
+    if (radius < 0) throw new Error("radius is negative");
+    const r = Math.floor(radius);
+    const cells: Vector[] = [];
+    for (let dq = -r; dq <= r; dq++) {
+      const minR = Math.max(-r, -dq - r);
+      const maxR = Math.min(r, -dq + r);
+      for (let dr = minR; dr <= maxR; dr++) {
+        cells.push(new Vector(center.x + dq, center.y + dr));
+      }
+    }
+    return cells;
+  }
+
+  /**
+   * Enumerate hexagons at exactly distance.
+   *
+   * @param center Center axial coordinates
+   * @param radius Distance
+   * @returns Axial coordinates in counterclockwise order of cell space
+   */
+  ring(center: VectorLike, radius: number): Vector[] {
+    if (radius < 0) throw new Error("radius is negative");
+    const r = Math.floor(radius);
+    if (r === 0) return [Vector.from(center)];
+    const cells: Vector[] = [];
+    let cell = hexDirections[4].mlt(r).add(center);
+    hexDirections.forEach((d) => {
+      for (let i = 0; i < r; i++) {
+        cells.push(cell);
+        cell = cell.add(d);
+      }
+    });
+    return cells;
+  }
+
+  /**
+   * Convert axial coordinates to offset coordinates.
+   * Pointy grid shifts rows and flat grid shifts columns.
+   *
+   * @param cell Axial coordinates
+   * @returns Offset coordinates. x is column and y is row
+   */
+  toOffset(cell: VectorLike): Vector {
+    const sign = this.offsetParity === "odd" ? -1 : 1;
+    if (this.orientation === "pointy") {
+      const shift = (cell.y + sign * (cell.y & 1)) / 2;
+      return new Vector(cell.x + shift, cell.y);
+    }
+    const shift = (cell.x + sign * (cell.x & 1)) / 2;
+    return new Vector(cell.x, cell.y + shift);
+  }
+
+  /**
+   * Convert offset coordinates to axial coordinates.
+   *
+   * @param offset Offset coordinates. x is column and y is row
+   * @returns Axial coordinates
+   */
+  fromOffset(offset: VectorLike): Vector {
+    const sign = this.offsetParity === "odd" ? -1 : 1;
+    if (this.orientation === "pointy") {
+      const shift = (offset.y + sign * (offset.y & 1)) / 2;
+      return new Vector(offset.x - shift + 0, offset.y);
+    }
+    const shift = (offset.x + sign * (offset.x & 1)) / 2;
+    return new Vector(offset.x, offset.y - shift + 0);
+  }
+}
@@ -0,0 +1,4 @@
+export * from "./grid";
+export * from "./square-grid";
+export * from "./isometric-grid";
+export * from "./hex-grid";
@@ -0,0 +1,168 @@
+import { Vector, VectorLike } from "@trans-vector2d/vector";
+import { Matrix } from "@trans-vector2d/matrix";
+import { Grid } from "./grid";
+import { SquareGrid, SquareConnectivity } from "./square-grid";
+
+/**
+ * Layout of cell coordinates of isometric grid.
+ * Diamond uses axes along tile edges, so whole map looks like diamond.
+ * Staggered uses columns and rows, and odd rows are shifted by half tile.
+ */
+export type IsometricLayout = "diamond" | "staggered";
+
+/**
+ * Grid of isometric diamond tiles.
+ * Matrix maps diamond cell space to world space.
+ * Staggered cells are converted to diamond cells before mapping.
+ */
+export class IsometricGrid implements Grid {
+  private readonly square: SquareGrid;
+
+  /**
+   * @param matrix Matrix from diamond cell space to world space
+   * @param layout Layout of cell coordinates
+   * @param connectivity Neighbors of cell. 4 shares edges and 8 also shares corners
+   */
+  constructor(
+    public readonly matrix: Matrix,
+    public readonly layout: IsometricLayout = "diamond",
+    public readonly connectivity: SquareConnectivity = 4
+  ) {
+    this.square = new SquareGrid(matrix, connectivity);
+  }
+
+  /**
+   * Create grid of tiles.
+   *
+   * @example
+   * const grid = IsometricGrid.fromTileSize({ x: 64, y: 32 }, "staggered");
+   * grid.cellToWorld({ x: 0, y: 1 }); // { x: 64, y: 32 }
+   * @param size Width and height of tile image
+   * @param layout Layout of cell coordinates
+   * @param origin Top-left corner of bounding box of tile (0, 0) in world space
+   * @param connectivity Neighbors of cell
+   * @returns Grid
+   */
+  static fromTileSize(
+    size: VectorLike,
+    layout: IsometricLayout = "diamond",
+    origin: VectorLike = Vector.zero,
+    connectivity: SquareConnectivity = 4
+  ): IsometricGrid {
+    const matrix = new Matrix(
+      size.x / 2,
+      size.y / 2,
+      -size.x / 2,
+      size.y / 2,
+      origin.x + size.x / 2,
+      origin.y + size.y / 2
+    );
+    return new IsometricGrid(matrix, layout, connectivity);
+  }
+
+  /**
+   * Convert cell coordinates of self layout to diamond coordinates.
+   *
+   * @param cell Cell coordinates
+   * @returns Diamond cell coordinates
+   */
+  toDiamond(cell: VectorLike): Vector {
+    if (this.layout === "diamond") return Vector.from(cell);
+    const odd = cell.y & 1;
+    return new Vector(
+      cell.x + (cell.y + odd) / 2,
+      (cell.y - odd) / 2 - cell.x + 0
+    );
+  }
+
+  /**
+   * Convert diamond coordinates to cell coordinates of self layout.
+   *
+   * @param cell Diamond cell coordinates
+   * @returns Cell coordinates
+   */
+  fromDiamond(cell: VectorLike): Vector {
+    if (this.layout === "diamond") return Vector.from(cell);
+    const row = cell.x + cell.y;
+    return new Vector((cell.x - cell.y - (row & 1)) / 2 + 0, row);
+  }
+
+  /**
+   * Compute center of cell in world space.
+   *
+   * @param cell Cell coordinates
+   * @returns Center of cell
+   */
+  cellToWorld(cell: VectorLike): Vector {
+    return this.square.cellToWorld(this.toDiamond(cell));
+  }
+
+  /**
+   * Find cell contains point in world space.
+   *
+   * @param point Point in world space
+   * @returns Cell coordinates
+   */
+  worldToCell(point: VectorLike): Vector {
+    return this.fromDiamond(this.square.worldToCell(point));
+  }
+
+  /**
+   * Compute corners of tile in world space.
+   *
+   * @param cell Cell coordinates
+   * @returns Corners of diamond
+   */
+  corners(cell: VectorLike): Vector[] {
+    return this.square.corners(this.toDiamond(cell));
+  }
+
+  /**
+   * Enumerate adjacent cells.
+   *
+   * @param cell Cell coordinates
+   * @returns Neighbor cells. Edge neighbors come first
+   */
+  neighbors(cell: VectorLike): Vector[] {
+    return this.square
+      .neighbors(this.toDiamond(cell))
+      .map((c) => this.fromDiamond(c));
+  }
+
+  /**
+   * Compute count of steps between cells.
+   *
+   * @param a Cell coordinates
+   * @param b Cell coordinates
+   * @returns Distance
+   */
+  distance(a: VectorLike, b: VectorLike): number {
+    return this.square.distance(this.toDiamond(a), this.toDiamond(b));
+  }
+
+  /**
+   * Enumerate cells on line between cells.
+   *
+   * @param a Start cell
+   * @param b End cell
+   * @returns Cells from a to b. Each cell is neighbor of previous cell
+   */
+  line(a: VectorLike, b: VectorLike): Vector[] {
+    return this.square
+      .line(this.toDiamond(a), this.toDiamond(b))
+      .map((c) => this.fromDiamond(c));
+  }
+
+  /**
+   * Enumerate cells within distance.
+   *
+   * @param center Center cell
+   * @param radius Max distance
+   * @returns Cells
+   */
+  range(center: VectorLike, radius: number): Vector[] {
+    return this.square
+      .range(this.toDiamond(center), radius)
+      .map((c) => this.fromDiamond(c));
+  }
+}
@@ -0,0 +1,182 @@
+import { Vector, VectorLike } from "@trans-vector2d/vector";
+import { Matrix } from "@trans-vector2d/matrix";
+import { Grid, gridInverseMatrix, roundCell } from "./grid";
+
+/**
+ * Neighbors of square cell. 4 shares edges and 8 also shares corners.
+ */
+export type SquareConnectivity = 4 | 8;
+
+const edgeDirections = [
+  new Vector(1, 0),
+  new Vector(0, 1),
+  new Vector(-1, 0),
+  new Vector(0, -1),
+];
+
+const cornerDirections = [
+  new Vector(1, 1),
+  new Vector(-1, 1),
+  new Vector(-1, -1),
+  new Vector(1, -1),
+];
+
+/**
+ * Grid of square cells.
+ * Any parallelogram grid can be expressed by matrix.
+ */
+export class SquareGrid implements Grid {
+  private readonly inverse: Matrix;
+
+  /**
+   * @param matrix Matrix from cell space to world space
+   * @param connectivity Neighbors of cell
+   */
+  constructor(
+    public readonly matrix: Matrix = Matrix.identity,
+    public readonly connectivity: SquareConnectivity = 4
+  ) {
+    this.inverse = gridInverseMatrix(matrix);
+  }
+
+  /**
+   * Create grid has axis aligned cells.
+   *
+   * @example
+   * const grid = SquareGrid.fromCellSize({ x: 32, y: 32 });
+   * grid.cellToWorld({ x: 0, y: 0 }); // { x: 16, y: 16 }
+   * @param size Width and height of cell
+   * @param origin Top-left corner of cell (0, 0) in world space
+   * @param connectivity Neighbors of cell
+   * @returns Grid
+   */
+  static fromCellSize(
+    size: VectorLike,
+    origin: VectorLike = Vector.zero,
+    connectivity: SquareConnectivity = 4
+  ): SquareGrid {
+    const matrix = Matrix.translation({ x: 0.5, y: 0.5 })
+      .scaled(size)
+      .translated(origin);
+    return new SquareGrid(matrix, connectivity);
+  }
+
+  /**
+   * Compute center of cell in world space.
+   *
+   * @param cell Cell coordinates
+   * @returns Center of cell
+   */
+  cellToWorld(cell: VectorLike): Vector {
+    return this.matrix.globalizePoint(cell);
+  }
+
+  /**
+   * Find cell contains point in world space.
+   *
+   * @param point Point in world space
+   * @returns Cell coordinates
+   */
+  worldToCell(point: VectorLike): Vector {
+    return roundCell(Matrix.productVector(this.inverse, point));
+  }
+
+  /**
+   * Compute corners of cell in world space.
+   *
+   * @param cell Cell coordinates
+   * @returns Corners in same order of cell space
+   */
+  corners(cell: VectorLike): Vector[] {
+    const c = Vector.from(cell);
+    return cornerDirections.map((d) => this.cellToWorld(c.add(d.mlt(0.5))));
+  }
+
+  /**
+   * Enumerate adjacent cells.
+   *
+   * @param cell Cell coordinates
+   * @returns Neighbor cells. Edge neighbors come first
+   */
+  neighbors(cell: VectorLike): Vector[] {
+    const directions =
+      this.connectivity === 4
+        ? edgeDirections
+        : edgeDirections.concat(cornerDirections);
+    return directions.map((d) => d.add(cell));
+  }
+
+  /**
+   * Compute count of steps between cells.
+   * Manhattan distance for 4 connectivity and Chebyshev distance for 8.
+   *
+   * @param a Cell coordinates
+   * @param b Cell coordinates
+   * @returns Distance
+   */
+  distance(a: VectorLike, b: VectorLike): number {
+    const dx = Math.abs(a.x - b.x);
+    const dy = Math.abs(a.y - b.y);
+    return this.connectivity === 4 ? dx + dy : Math.max(dx, dy);
+  }
+
+  /**
+   * Enumerate cells on line between cells.
+   *
+   * @param a Start cell
+   * @param b End cell
+   * @returns Cells from a to b. Each cell is neighbor of previous cell
+   */
+  line(a: VectorLike, b: VectorLike): Vector[] {
+    const start = Vector.from(a);
+    const end = Vector.from(b);
+    const n = this.distance(start, end);
+    if (this.connectivity === 8) {
+      const cells = [start];
+      for (let i = 1; i <= n; i++)
+        cells.push(roundCell(start.lerp(end, i / n)));
+      return cells;
+    }
+
+    // Step towards axis whose next cell boundary is closer
+    const nx = Math.abs(end.x - start.x);
+    const ny = Math.abs(end.y - start.y);
+    const sx = Math.sign(end.x - start.x);
+    const sy = Math.sign(end.y - start.y);
+    const cells = [start];
+    let x = start.x;
+    let y = start.y;
+    for (let ix = 0, iy = 0; ix < nx || iy < ny; ) {
+      if ((0.5 + ix) * ny < (0.5 + iy) * nx) {
+        x += sx;
+        ix++;
+      } else {
+        y += sy;
+        iy++;
+      }
+      cells.push(new Vector(x, y));
+    }
+    return cells;
+  }
+
+  /**
+   * Enumerate cells within distance.
+   *
+   * @param center Center cell
+   * @param radius Max distance
+   * @returns Cells in row-major order
+   */
+  range(center: VectorLike, radius: number): Vector[] {
+    if (radius < 0) throw new Error("radius is negative");
+    const c = Vector.from(center);
+    const r = Math.floor(radius);
+    const cells: Vector[] = [];
+    for (let dy = -r; dy <= r; dy++) {
+      for (let dx = -r; dx <= r; dx++) {
+        const cell = new Vector(c.x + dx, c.y + dy);
+        if (this.distance(c, cell) <= r) cells.push(cell);
+      }
+    }
+    return cells;
+  }
+}
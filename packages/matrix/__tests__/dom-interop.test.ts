@@ -0,0 +1,101 @@
+import { Matrix, CanvasTransformContext } from "../src";
+
+class StubContext implements CanvasTransformContext {
+  current = Matrix.identity;
+
+  setTransform(
+    a: number,
+    b: number,
+    c: number,
+    d: number,
+    e: number,
+    f: number
+  ): void {
+    this.current = new Matrix(a, b, c, d, e, f);
+  }
+
+  transform(
+    a: number,
+    b: number,
+    c: number,
+    d: number,
+    e: number,
+    f: number
+  ): void {
+    this.current = this.current.globalize({ a, b, c, d, e, f });
+  }
+}
+
+describe("@trans-vector2d/matrix.Matrix DOM interop", () => {
+  it("can be created from DOMMatrix like object", () => {
+    const domMatrix = {
+      a: 1,
+      b: 2,
+      c: 3,
+      d: 4,
+      e: 5,
+      f: 6,
+      m11: 1,
+      m12: 2,
+      m21: 3,
+      m22: 4,
+      m41: 5,
+      m42: 6,
+      is2D: true,
+    };
+
+    expect(Matrix.fromDOMMatrix(domMatrix).asArray()).toEqual([
+      1,
+      2,
+      3,
+      4,
+      5,
+      6,
+    ]);
+  });
+
+  it.each`
+    init                               | expected
+    ${{}}                              | ${[1, 0, 0, 1, 0, 0]}
+    ${{ m11: 2, m22: 3, m41: 4 }}      | ${[2, 0, 0, 3, 4, 0]}
+    ${{ b: 1, c: -1, f: 2 }}           | ${[1, 1, -1, 1, 0, 2]}
+    ${{ a: 0, m12: 1, m21: -1, d: 0 }} | ${[0, 1, -1, 0, 0, 0]}
+  `("fill missing elements of $init", ({ init, expected }) => {
+    expect(Matrix.fromDOMMatrix(init).asArray()).toEqual(expected);
+  });
+
+  it("throw Error when elements are inconsistent", () => {
+    expect(() => Matrix.fromDOMMatrix({ a: 1, m11: 2 })).toThrowError(
+      /a and m11/
+    );
+  });
+
+  it("can create DOMMatrix2DInit", () => {
+    const m = new Matrix(1, 2, 3, 4, 5, 6);
+    const init = m.toDOMMatrixInit();
+
+    expect(init).toEqual({ a: 1, b: 2, c: 3, d: 4, e: 5, f: 6, is2D: true });
+    expect(Matrix.fromDOMMatrix(init).equals(m)).toBe(true);
+  });
+
+  it("can set transform to canvas context", () => {
+    const context = new StubContext();
+    context.setTransform(2, 0, 0, 2, 0, 0);
+    const m = new Matrix(1, 2, 3, 4, 5, 6);
+
+    m.setToContext(context);
+
+    expect(context.current.equals(m)).toBe(true);
+  });
+
+  it("can compose transform to canvas context", () => {
+    const context = new StubContext();
+    const base = Matrix.translation({ x: 1, y: 2 });
+    const m = Matrix.rotation(1);
+    base.setToContext(context);
+
+    m.composeToContext(context);
+
+    expect(context.current.equals(base.globalize(m))).toBe(true);
+  });
+});
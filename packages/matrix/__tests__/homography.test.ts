@@ -0,0 +1,180 @@
+import { Homography, Matrix, Quad } from "../src";
+import { Vector } from "@trans-vector2d/vector";
+
+const v = (x: number, y: number): Vector => new Vector(x, y);
+
+const perspective = new Homography(2, 0.5, -1, 3, 10, -4, 0.01, -0.02, 1);
+
+describe("@trans-vector2d/matrix.Homography", () => {
+  it("can map point with perspective divide", () => {
+    const h = new Homography(1, 0, 0, 1, 0, 0, 1, 0, 1);
+
+    expect(h.globalizePoint(v(1, 2))).toEqual(v(0.5, 1));
+    expect(h.globalizePoint(v(-1, 2))).toBeUndefined();
+    expect(Homography.identity.globalizePoint(v(3, 4))).toEqual(v(3, 4));
+  });
+
+  it("can map point to infinity regardless of scale of elements", () => {
+    const small = new Homography(1, 0, 0, 1, 0, 0, 10 ** -12, 0, 10 ** -12);
+
+    expect(small.globalizePoint(v(1, 2))).toEqual(v(0.5 * 10 ** 12, 10 ** 12));
+    expect(small.globalizePoint(v(-1, 2))).toBeUndefined();
+    expect(
+      new Homography(1, 0, 0, 1, 0, 0, 1, 0, 1).globalizePoint(v(NaN, 0))
+    ).toBeUndefined();
+  });
+
+  it("can not localize point by singular homography", () => {
+    const singular = new Homography(1, 2, 2, 4, 0, 0, 0, 0, 1);
+
+    expect(singular.localizePoint(v(1, 2))).toBeUndefined();
+    expect(Homography.identity.localizePoint(v(1, 2))).toEqual(v(1, 2));
+  });
+
+  it("can compute product", () => {
+    const other = new Homography(0.5, 0, 0.2, 1, -3, 2, -0.01, 0.005, 1);
+    const product = Homography.product(perspective, other);
+    const p = v(3, -2);
+
+    const expected = perspective.globalizePoint(
+      other.globalizePoint(p) as Vector
+    ) as Vector;
+    expect((product.globalizePoint(p) as Vector).isClosedTo(expected)).toBe(
+      true
+    );
+    expect(perspective.globalize(other)).toEqual(product);
+  });
+
+  it("can compute inverse", () => {
+    const inverse = perspective.inverse();
+    const p = v(5, 7);
+
+    expect(
+      Homography.product(perspective, inverse).isClosedTo(Homography.identity)
+    ).toBe(true);
+    expect(
+      (perspective.localizePoint(
+        perspective.globalizePoint(p) as Vector
+      ) as Vector).isClosedTo(p)
+    ).toBe(true);
+    expect(new Homography(1, 2, 2, 4, 0, 0, 0, 0, 1).tryInverse()).toBe(
+      undefined
+    );
+  });
+
+  it("can invert homography regardless of scale of elements", () => {
+    const small = new Homography(
+      10 ** -4,
+      0,
+      0,
+      10 ** -4,
+      0,
+      0,
+      0,
+      0,
+      10 ** -4
+    );
+    const large = new Homography(
+      2e8,
+      5e7,
+      -1e8,
+      3e8,
+      1e9,
+      -4e8,
+      1e6,
+      -2e6,
+      1e8
+    );
+
+    expect(small.tryInverse()?.normalized()).toEqual(Homography.identity);
+    expect(large.isInvertible()).toBe(true);
+    expect(
+      new Homography(1e8, 2e8, 2e8, 4e8, 0, 0, 0, 0, 1).isInvertible()
+    ).toBe(false);
+  });
+
+  it("can map large quad to small quad", () => {
+    const src: Quad = [v(0, 0), v(4000, 0), v(4000, 3000), v(0, 3000)];
+    const dst: Quad = [v(0, 0), v(0.01, 0), v(0.01, 0.01), v(0, 0.01)];
+    const h = Homography.fromQuadToQuad(src, dst) as Homography;
+
+    expect(h).not.toBeUndefined();
+    src.forEach((p, i) => {
+      expect(
+        (h.globalizePoint(p) as Vector).isClosedTo(dst[i], 10 ** -12)
+      ).toBe(true);
+    });
+  });
+
+  it("can be normalized", () => {
+    const scaled = new Homography(2, 0, 0, 2, 4, 6, 0, 0, 2);
+
+    expect(scaled.normalized()).toEqual(
+      new Homography(1, 0, 0, 1, 2, 3, 0, 0, 1)
+    );
+    expect(scaled.globalizePoint(v(1, 1))).toEqual(v(3, 4));
+  });
+
+  it("can map quad to quad", () => {
+    const src: Quad = [v(30, 10), v(70, 10), v(100, 90), v(0, 90)];
+    const dst: Quad = [v(0, 0), v(210, 0), v(210, 297), v(0, 297)];
+    const h = Homography.fromQuadToQuad(src, dst) as Homography;
+
+    expect(h).not.toBeUndefined();
+    src.forEach((p, i) => {
+      expect((h.globalizePoint(p) as Vector).isClosedTo(dst[i], 10 ** -8)).toBe(
+        true
+      );
+    });
+    expect(h.isAffine()).toBe(false);
+    // Straight lines stay straight
+    const mid = h.globalizePoint(v(50, 50)) as Vector;
+    const top = h.globalizePoint(v(50, 10)) as Vector;
+    const bottom = h.globalizePoint(v(50, 90)) as Vector;
+    expect(top.sub(mid).cross(bottom.sub(mid))).toBeCloseTo(0, 6);
+  });
+
+  it("can map parallelogram by affine homography", () => {
+    const src: Quad = [v(0, 0), v(1, 0), v(1, 1), v(0, 1)];
+    const m = Matrix.from({ translation: v(3, 4), rotation: 0.5 });
+    const dst = src.map((p) => m.globalizePoint(p));
+    const h = Homography.fromQuadToQuad(src, [dst[0], dst[1], dst[2], dst[3]]);
+
+    expect(h).not.toBeUndefined();
+    expect((h as Homography).isAffine()).toBe(true);
+    expect(((h as Homography).toMatrix() as Matrix).isClosedTo(m)).toBe(true);
+  });
+
+  it("can not map degenerate quad", () => {
+    const square: Quad = [v(0, 0), v(1, 0), v(1, 1), v(0, 1)];
+    const collinear: Quad = [v(0, 0), v(1, 0), v(2, 0), v(0, 1)];
+
+    expect(Homography.fromQuadToQuad(square, collinear)).toBeUndefined();
+    expect(Homography.fromQuadToQuad(collinear, square)).toBeUndefined();
+  });
+
+  it("can be converted to and from Matrix", () => {
+    const m = new Matrix(1, 2, 3, 4, 5, 6);
+    const h = Homography.fromMatrix(m);
+
+    expect(h.asArray()).toEqual([1, 2, 3, 4, 5, 6, 0, 0, 1]);
+    expect(h.toMatrix()).toEqual(m);
+    expect(
+      Homography.from({ ...m.asObject(), g: 0, h: 0, i: 2 }).toMatrix()
+    ).toEqual(new Matrix(0.5, 1, 1.5, 2, 2.5, 3));
+    expect(perspective.toMatrix()).toBeUndefined();
+    expect(h.globalizePoint(v(1, 1))).toEqual(m.globalizePoint(v(1, 1)));
+  });
+
+  it("can create CSS and string", () => {
+    expect(Homography.identity.toCSS()).toBe(
+      "matrix3d(1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1)"
+    );
+    expect(new Homography(1, 2, 3, 4, 5, 6, 0.125, 0, 1).toCSS(2)).toBe(
+      "matrix3d(1, 2, 0, 0.13, 3, 4, 0, 0, 0, 0, 1, 0, 5, 6, 0, 1)"
+    );
+    expect(Homography.identity.toString()).toBe(
+      "Homography(1, 0, 0, 1, 0, 0, 0, 0, 1)"
+    );
+  });
+});
@@ -1,5 +1,5 @@
-import { Matrix } from "../src";
-import { Vector } from "@trans-vector2d/vector";
+import { Matrix, MatrixComponent } from "../src";
+import { Vector, setStrictMode } from "@trans-vector2d/vector";
 
 const globalizingMatrixes = (): {
   baseMatrix: Matrix;
@@ -67,6 +67,98 @@ describe("@trans-vector2d/matrix.Matrix", () => {
     expect(decomposed.scale).toEqual(Vector.from(scale));
   });
 
+  it("can be created with skew", () => {
+    const m = Matrix.from({ skew: Math.PI / 4, scale: { x: 1, y: 2 } });
+
+    expect(m.a).toBeCloseTo(1);
+    expect(m.b).toBeCloseTo(0);
+    expect(m.c).toBeCloseTo(2);
+    expect(m.d).toBeCloseTo(2);
+  });
+
+  it("can decompose skew", () => {
+    const translation = { x: 1, y: 2 };
+    const rotation = 0.5;
+    const scale = { x: 2, y: 3 };
+    const skew = 0.3;
+
+    const matrix = Matrix.from({ translation, rotation, scale, skew });
+    const decomposed = matrix.decompose();
+
+    expect(decomposed.translation).toEqual(Vector.from(translation));
+    expect(decomposed.rotation).toBeCloseTo(rotation);
+    expect(decomposed.scale.x).toBeCloseTo(scale.x);
+    expect(decomposed.scale.y).toBeCloseTo(scale.y);
+    expect(decomposed.skew).toBeCloseTo(skew);
+  });
+
+  it.each`
+    rotation        | sx    | sy    | skew
+    ${Math.PI / 2}  | ${2}  | ${3}  | ${0}
+    ${-Math.PI / 2} | ${2}  | ${3}  | ${0.2}
+    ${Math.PI / 2}  | ${-2} | ${3}  | ${-0.4}
+    ${3}            | ${2}  | ${-3} | ${1}
+    ${-2}           | ${-1} | ${-1} | ${0}
+    ${1}            | ${1}  | ${1}  | ${-1.2}
+  `(
+    "can reproduce matrix from decomposed components (rotation: $rotation, scale: ($sx, $sy), skew: $skew)",
+    ({ rotation, sx, sy, skew }) => {
+      const matrix = Matrix.from({
+        translation: { x: 1, y: -2 },
+        rotation,
+        scale: { x: sx, y: sy },
+        skew,
+      });
+      const reproduced = Matrix.from(matrix.decompose());
+
+      expect(reproduced.isClosedTo(matrix)).toBe(true);
+    }
+  );
+
+  it("can reproduce skewed matrix made by globalizing", () => {
+    const parent = Matrix.from({ rotation: 0.3, scale: { x: 1, y: 4 } });
+    const child = Matrix.from({ rotation: 1.1, translation: { x: 2, y: 1 } });
+    const matrix = parent.globalize(child);
+    const decomposed = matrix.decompose();
+
+    expect(decomposed.skew).not.toBeCloseTo(0);
+    expect(Matrix.from(decomposed).isClosedTo(matrix)).toBe(true);
+  });
+
+  it("can decompose matrix collapsed along x-axis", () => {
+    const matrix = Matrix.from({ rotation: 1, scale: { x: 0, y: 2 } });
+    const decomposed = matrix.decompose();
+
+    expect(decomposed.rotation).toBeCloseTo(1);
+    expect(decomposed.scale.x).toBeCloseTo(0);
+    expect(decomposed.scale.y).toBeCloseTo(2);
+    expect(Matrix.from(decomposed).isClosedTo(matrix)).toBe(true);
+  });
+
+  it("collapse y-axis of singular matrix has parallel axes", () => {
+    // y-axis parallel to x-axis can not be expressed by components
+    const matrix = new Matrix(1, 0, 2, 0, 3, 4);
+    const decomposed = matrix.decompose();
+
+    expect(decomposed.scale).toEqual(new Vector(1, 0));
+    expect(decomposed.skew).toBe(0);
+    expect(
+      Matrix.from(decomposed).isClosedTo(new Matrix(1, 0, 0, 0, 3, 4))
+    ).toBe(true);
+  });
+
+  it("can be created from components without skew", () => {
+    const component: MatrixComponent = {
+      translation: { x: 1, y: 2 },
+      rotation: 0.5,
+      scale: { x: 2, y: 3 },
+    };
+
+    expect(Matrix.from(component)).toEqual(
+      Matrix.from({ ...component, skew: 0 })
+    );
+  });
+
   it.each`
     tx      | ty
     ${0}    | ${0}
@@ -110,7 +202,7 @@ describe("@trans-vector2d/matrix.Matrix", () => {
     const matrix = Matrix.from({ scale });
     const decomposed = matrix.decompose();
 
-    const expectedRotation = sx >= 0 || sy >= 0 ? 0 : -Math.PI;
+    const expectedRotation = sx >= 0 || sy >= 0 ? 0 : Math.PI;
     const expectedScale =
       sx >= 0 || sy >= 0 ? { x: sx, y: sy } : { x: -sx, y: -sy };
     expect(decomposed.translation).toEqual({ x: 0, y: 0 });
@@ -177,6 +269,71 @@ describe("@trans-vector2d/matrix.Matrix", () => {
     expect(decomposed.scale).toEqual({ x: 3, y: 4 });
   });
 
+  it("can create matrix rotated around pivot", () => {
+    const m = Matrix.from({
+      translation: { x: 1, y: 2 },
+      scale: { x: 2, y: 1 },
+    });
+    const pivot = { x: 3, y: 1 };
+    const m2 = m.rotatedAround(Math.PI / 2, pivot);
+
+    const expected = Matrix.translation(pivot)
+      .globalize(Matrix.rotation(Math.PI / 2))
+      .globalize(Matrix.translation({ x: -3, y: -1 }))
+      .globalize(m);
+    expect(m2.isClosedTo(expected)).toBe(true);
+    expect(m2.globalizePoint(m.localizePoint(pivot)).x).toBeCloseTo(3);
+    expect(m2.globalizePoint(m.localizePoint(pivot)).y).toBeCloseTo(1);
+  });
+
+  it("can create matrix scaled around pivot", () => {
+    const m = Matrix.from({ translation: { x: 1, y: 2 }, rotation: 1 });
+    const m2 = m.scaledAround({ x: 3, y: 4 }, { x: 1, y: 2 });
+
+    const decomposed = m2.decompose();
+    expect(decomposed.translation).toEqual({ x: 1, y: 2 });
+    expect(
+      m2.isClosedTo(m.scaled({ x: 3, y: 4 }).translated({ x: -2, y: -6 }))
+    ).toBe(true);
+  });
+
+  it("can be created from components with pivot", () => {
+    const pivot = { x: 16, y: 8 };
+    const m = Matrix.from({
+      translation: { x: 100, y: 50 },
+      rotation: 1,
+      scale: { x: 2, y: 3 },
+      skew: 0.2,
+      pivot,
+    });
+
+    const expected = Matrix.from({
+      translation: { x: 100, y: 50 },
+      rotation: 1,
+      scale: { x: 2, y: 3 },
+      skew: 0.2,
+    }).globalize(Matrix.translation({ x: -16, y: -8 }));
+    expect(m.isClosedTo(expected)).toBe(true);
+    expect(m.globalizePoint(pivot)).toEqual({ x: 100, y: 50 });
+  });
+
+  it("can decompose around pivot", () => {
+    const m = Matrix.from({
+      translation: { x: 100, y: 50 },
+      rotation: -2,
+      scale: { x: 2, y: -3 },
+      skew: 0.4,
+      pivot: { x: 16, y: 8 },
+    });
+
+    const decomposed = m.decomposeAround({ x: 16, y: 8 });
+    expect(decomposed.translation.x).toBeCloseTo(100);
+    expect(decomposed.translation.y).toBeCloseTo(50);
+    expect(decomposed.pivot).toEqual({ x: 16, y: 8 });
+    expect(decomposed.rotation).toBe(m.decompose().rotation);
+    expect(Matrix.from(decomposed).isClosedTo(m)).toBe(true);
+  });
+
   it("can create inverse matrix", () => {
     const m = new Matrix(1, 2, 3, 4, 5, 6);
     const im = m.inverse();
@@ -292,4 +449,246 @@ describe("@trans-vector2d/matrix.Matrix", () => {
 
     expect(p).toEqual({ a: 31, b: 46, c: 39, d: 58, e: 52, f: 76 });
   });
+
+  it("can interpolate matrices", () => {
+    const from = Matrix.from({
+      translation: { x: 0, y: 2 },
+      rotation: 0,
+      scale: { x: 1, y: 1 },
+    });
+    const to = Matrix.from({
+      translation: { x: 4, y: 6 },
+      rotation: Math.PI / 2,
+      scale: { x: 3, y: 1 },
+    });
+    const m = Matrix.lerp(from, to, 0.5);
+    const expected = Matrix.from({
+      translation: { x: 2, y: 4 },
+      rotation: Math.PI / 4,
+      scale: { x: 2, y: 1 },
+    });
+
+    expect(m.isClosedTo(expected)).toBe(true);
+  });
+
+  it("interpolate rotation along shortest arc", () => {
+    const from = Matrix.rotation((Math.PI * 3) / 4);
+    const to = Matrix.rotation((-Math.PI * 3) / 4);
+    const m = Matrix.lerp(from, to, 0.5);
+
+    expect(m.isClosedTo(Matrix.rotation(Math.PI))).toBe(true);
+  });
+
+  it("can sample interpolated matrices", () => {
+    const from = Matrix.translation({ x: 0, y: 0 });
+    const to = Matrix.from({ translation: { x: 3, y: 0 }, rotation: 0.3 });
+    const matrices = Matrix.lerpSteps(from, to, 4);
+
+    expect(matrices).toHaveLength(4);
+    expect(matrices[0].isClosedTo(from)).toBe(true);
+    expect(matrices[3].isClosedTo(to)).toBe(true);
+    matrices.forEach((m, i) => {
+      expect(m.isClosedTo(Matrix.lerp(from, to, i / 3))).toBe(true);
+    });
+  });
+
+  it("throw Error when steps is less than 2 in lerpSteps()", () => {
+    expect(() =>
+      Matrix.lerpSteps(Matrix.identity, Matrix.identity, 1)
+    ).toThrowError();
+  });
+
+  it("can compute determinant", () => {
+    const m = new Matrix(1, 2, 3, 4, 5, 6);
+
+    expect(m.determinant()).toBe(-2);
+  });
+
+  it.each`
+    matrix                                          | invertible
+    ${new Matrix(1, 2, 3, 4, 5, 6)}                 | ${true}
+    ${Matrix.scaling({ x: 0, y: 0 })}               | ${false}
+    ${Matrix.scaling({ x: 0, y: 1 })}               | ${false}
+    ${Matrix.scaling({ x: 10 ** -6, y: 10 ** -6 })} | ${false}
+    ${new Matrix(1, 2, 2, 4, 0, 0)}                 | ${false}
+    ${new Matrix(NaN, 0, 0, 1, 0, 0)}               | ${false}
+  `("can tell matrix is invertible: $invertible", ({ matrix, invertible }) => {
+    expect(matrix.isInvertible()).toBe(invertible);
+    expect(matrix.tryInverse() !== undefined).toBe(invertible);
+  });
+
+  it("can tell invertible with epsilon", () => {
+    const m = Matrix.scaling({ x: 10 ** -6, y: 10 ** -6 });
+
+    expect(m.isInvertible(0)).toBe(true);
+    expect(m.tryInverse(0)).toBeInstanceOf(Matrix);
+  });
+
+  it("throw Error when use negative epsilon in isInvertible()", () => {
+    expect(() => Matrix.identity.isInvertible(-1)).toThrowError();
+  });
+
+  it("can try to create inverse matrix", () => {
+    const m = new Matrix(1, 2, 3, 4, 5, 6);
+
+    expect(m.tryInverse()).toEqual(m.inverse());
+  });
+
+  it("can try to localize by invertible matrix", () => {
+    const { baseMatrix, localMatrix, globalMatrix } = globalizingMatrixes();
+
+    const localized1 = baseMatrix.tryLocalize(globalMatrix);
+    const localized2 = globalMatrix.tryLocalizedBy(baseMatrix);
+    const localPoint = baseMatrix.tryLocalizePoint({ x: 0, y: 2 });
+
+    expect(localized1?.isClosedTo(localMatrix)).toBe(true);
+    expect(localized2?.isClosedTo(localMatrix)).toBe(true);
+    expect(localPoint?.isClosedTo({ x: 2, y: 1 })).toBe(true);
+  });
+
+  it("return undefined when try to localize by not invertible matrix", () => {
+    const hidden = Matrix.scaling({ x: 0, y: 0 });
+    const m = Matrix.translation({ x: 1, y: 2 });
+
+    expect(hidden.tryLocalize(m)).toBeUndefined();
+    expect(m.tryLocalizedBy(hidden)).toBeUndefined();
+    expect(hidden.tryLocalizePoint({ x: 1, y: 2 })).toBeUndefined();
+  });
+
+  it("can globalize points in buffer", () => {
+    const m = new Matrix(0.3, 1.7, -2.1, 0.9, 5.5, -3.3);
+    const points = new Float64Array([1, 2, -0.1, 0.7, 100.3, -45.1]);
+    const out = new Float64Array(points.length);
+
+    const result = m.globalizePoints(points, out);
+
+    expect(result).toBe(out);
+    for (let i = 0; i < points.length; i += 2) {
+      const v = Matrix.productVector(m, { x: points[i], y: points[i + 1] });
+      expect(out[i]).toBe(v.x);
+      expect(out[i + 1]).toBe(v.y);
+    }
+  });
+
+  it("can globalize points in place", () => {
+    const m = new Matrix(0.3, 1.7, -2.1, 0.9, 5.5, -3.3);
+    const points = new Float64Array([1, 2, -0.1, 0.7]);
+    const expected = m.globalizePoints(points, new Float64Array(4));
+
+    const result = Matrix.productVectors(m, points);
+
+    expect(result).toBe(points);
+    expect(points).toEqual(expected);
+  });
+
+  it("can localize points in buffer", () => {
+    const m = new Matrix(0.3, 1.7, -2.1, 0.9, 5.5, -3.3);
+    const points = new Float64Array([1, 2, -0.1, 0.7]);
+
+    const result = m.localizePoints(points, new Float64Array(4));
+
+    for (let i = 0; i < points.length; i += 2) {
+      const v = m.localizePoint({ x: points[i], y: points[i + 1] });
+      expect(result[i]).toBe(v.x);
+      expect(result[i + 1]).toBe(v.y);
+    }
+  });
+
+  it("can compute product of matrices in buffer", () => {
+    const m = new Matrix(1, 2, 3, 4, 5, 6);
+    const m1 = new Matrix(7, 8, 9, 10, 11, 12);
+    const m2 = new Matrix(0.1, -0.2, 0.3, 0.4, -0.5, 0.6);
+    const matrices = new Float64Array([...m1.asArray(), ...m2.asArray()]);
+
+    Matrix.productMatrices(m, matrices);
+
+    expect(Array.from(matrices.slice(0, 6))).toEqual(
+      Matrix.product(m, m1).asArray()
+    );
+    expect(Array.from(matrices.slice(6))).toEqual(
+      Matrix.product(m, m2).asArray()
+    );
+  });
+
+  it("throw Error when buffer length is invalid", () => {
+    const m = Matrix.identity;
+
+    expect(() => m.globalizePoints(new Float64Array(3))).toThrowError();
+    expect(() =>
+      m.globalizePoints(new Float64Array(4), new Float64Array(2))
+    ).toThrowError();
+    expect(() => Matrix.productMatrices(m, new Float64Array(5))).toThrowError();
+    expect(() =>
+      Matrix.productMatrices(m, new Float64Array(6), new Float64Array(12))
+    ).toThrowError();
+  });
+
+  it("can tell finite", () => {
+    expect(new Matrix(1, 2, 3, 4, 5, 6).isFinite()).toBe(true);
+    expect(new Matrix(1, 2, 3, 4, 5, NaN).isFinite()).toBe(false);
+    expect(Matrix.scaling({ x: 0, y: 0 }).inverse().isFinite()).toBe(false);
+  });
+
+  it("can create string", () => {
+    expect(new Matrix(1, 2, 3, 4, 5, 6).toString()).toBe(
+      "Matrix(1, 2, 3, 4, 5, 6)"
+    );
+  });
+
+  it("throw Error naming operation when produce non-finite in strict mode", () => {
+    const hidden = Matrix.scaling({ x: 0, y: 0 });
+    setStrictMode(true);
+    try {
+      expect(() => hidden.inverse()).toThrowError(
+        "Matrix.inverse produced non-finite result from operands: Matrix(0, 0, 0, 0, 0, 0)"
+      );
+      expect(() => hidden.localizePoint({ x: 1, y: 2 })).toThrowError(
+        /^Matrix.localizePoint produced non-finite result/
+      );
+      expect(hidden.tryInverse()).toBeUndefined();
+      expect(Matrix.identity.inverse().equals(Matrix.identity)).toBe(true);
+    } finally {
+      setStrictMode(false);
+    }
+  });
+
+  it.each`
+    name                  | operation
+    ${"rotatedAround"}    | ${(): unknown => Matrix.identity.rotatedAround(Infinity, { x: 1, y: 2 })}
+    ${"scaledAround"}     | ${(): unknown => Matrix.identity.scaledAround({ x: 1, y: 1 }, { x: NaN, y: 0 })}
+    ${"decomposeAround"}  | ${(): unknown => Matrix.identity.decomposeAround({ x: Infinity, y: 0 })}
+    ${"tryLocalizePoint"} | ${(): unknown => Matrix.identity.tryLocalizePoint({ x: NaN, y: 0 })}
+    ${"globalizePoints"}  | ${(): unknown => Matrix.identity.globalizePoints(new Float64Array([1, NaN]))}
+    ${"lerp"}             | ${(): unknown => Matrix.lerp(Matrix.identity, Matrix.identity, NaN)}
+  `("throw Error naming $name in strict mode", ({ name, operation }) => {
+    setStrictMode(true);
+    try {
+      expect(operation).toThrowError(
+        new RegExp(`^Matrix.${name} produced non-finite result`)
+      );
+    } finally {
+      setStrictMode(false);
+    }
+  });
+
+  it("does not check results when not strict mode", () => {
+    expect(
+      Matrix.identity.rotatedAround(Infinity, { x: 1, y: 2 }).isFinite()
+    ).toBe(false);
+  });
+
+  it.each`
+    rotation
+    ${Math.PI}
+    ${-Math.PI}
+    ${Math.PI * 3}
+    ${(-Math.PI * 5) / 2}
+  `("decompose rotation $rotation as normalized angle", ({ rotation }) => {
+    const decomposed = Matrix.from({ rotation }).decompose();
+
+    expect(decomposed.rotation).toBeGreaterThan(-Math.PI);
+    expect(decomposed.rotation).toBeLessThanOrEqual(Math.PI);
+    expect(Math.cos(decomposed.rotation)).toBeCloseTo(Math.cos(rotation));
+    expect(Math.sin(decomposed.rotation)).toBeCloseTo(Math.sin(rotation));
+  });
 });
@@ -0,0 +1,111 @@
+import { Matrix, fitPointElements } from "../src";
+import { Vector } from "@trans-vector2d/vector";
+
+const v = (x: number, y: number): Vector => new Vector(x, y);
+
+const src = [v(0, 0), v(4, 0), v(4, 3), v(0, 3), v(1, 2), v(3, -1)];
+const transform = (m: Matrix, points: Vector[]): Vector[] =>
+  points.map((p) => m.globalizePoint(p));
+
+describe("@trans-vector2d/matrix.Matrix point fitting", () => {
+  it("can create matrix from 3 point pairs", () => {
+    const expected = new Matrix(2, 0.5, -1, 3, 10, -4);
+    const s: [Vector, Vector, Vector] = [v(1, 1), v(5, 2), v(-2, 4)];
+    const d = transform(expected, s);
+    const m = Matrix.fromPoints(s, [d[0], d[1], d[2]]);
+
+    expect(m).not.toBeUndefined();
+    expect((m as Matrix).isClosedTo(expected)).toBe(true);
+  });
+
+  it("can not create matrix from collinear points", () => {
+    const s: [Vector, Vector, Vector] = [v(0, 0), v(1, 1), v(3, 3)];
+    const d: [Vector, Vector, Vector] = [v(0, 0), v(1, 0), v(0, 1)];
+
+    expect(Matrix.fromPoints(s, d)).toBeUndefined();
+    expect(Matrix.fitPoints(s, d, "affine")).toBeUndefined();
+  });
+
+  it.each`
+    model           | expected
+    ${"affine"}     | ${new Matrix(1.5, -0.5, 0.3, 0.8, 7, 2)}
+    ${"similarity"} | ${Matrix.from({ translation: v(-3, 5), rotation: 2.5, scale: v(1.7, 1.7) })}
+    ${"rigid"}      | ${Matrix.from({ translation: v(20, 1), rotation: -0.4 })}
+  `("can recover $model transformation", ({ model, expected }) => {
+    const fit = Matrix.fitPoints(src, transform(expected, src), model);
+
+    expect(fit).not.toBeUndefined();
+    if (fit === undefined) return;
+    expect(fit.matrix.isClosedTo(expected)).toBe(true);
+    expect(fit.residual).toBeCloseTo(0);
+  });
+
+  it("can fit noisy points by least squares", () => {
+    const expected = Matrix.from({ translation: v(5, 5), rotation: 1 });
+    const noise = [v(0.1, 0), v(-0.1, 0.05), v(0, -0.1), v(0.05, 0.1)];
+    const dst = transform(expected, src.slice(0, 4)).map((p, i) =>
+      p.add(noise[i])
+    );
+    const rigid = Matrix.fitPoints(src.slice(0, 4), dst, "rigid");
+    const affine = Matrix.fitPoints(src.slice(0, 4), dst, "affine");
+
+    expect(rigid).not.toBeUndefined();
+    expect(affine).not.toBeUndefined();
+    if (rigid === undefined || affine === undefined) return;
+    expect(rigid.matrix.decompose().rotation).toBeCloseTo(1, 1);
+    expect(rigid.residual).toBeGreaterThan(0);
+    expect(rigid.residual).toBeLessThan(0.15);
+    // More freedom fits better
+    expect(affine.residual).toBeLessThanOrEqual(rigid.residual);
+  });
+
+  it("can fit similarity without reflection", () => {
+    const mirrored = src.map((p) => v(-p.x, p.y));
+    const fit = Matrix.fitPoints(src, mirrored, "similarity");
+
+    expect(fit).not.toBeUndefined();
+    if (fit === undefined) return;
+    expect(fit.matrix.determinant()).toBeGreaterThanOrEqual(0);
+    expect(fit.residual).toBeGreaterThan(1);
+  });
+
+  it("can fit similarity and rigid to collinear points", () => {
+    const s = [v(0, 0), v(1, 0), v(2, 0)];
+    const expected = Matrix.from({ rotation: Math.PI / 2, scale: v(2, 2) });
+    const fit = Matrix.fitPoints(s, transform(expected, s), "similarity");
+
+    expect(fit).not.toBeUndefined();
+    expect((fit as { matrix: Matrix }).matrix.isClosedTo(expected)).toBe(true);
+    expect(Matrix.fitPoints(s, s, "affine")).toBeUndefined();
+  });
+
+  it.each`
+    model
+    ${"similarity"}
+    ${"rigid"}
+  `("can not fit $model to points at same position", ({ model }) => {
+    const s = [v(1, 1), v(1, 1), v(1, 1)];
+
+    expect(Matrix.fitPoints(s, src.slice(0, 3), model)).toBeUndefined();
+  });
+
+  it("can report residual with elements", () => {
+    const fit = fitPointElements(
+      [v(0, 0), v(2, 0)],
+      [v(0, 0), v(4, 0)],
+      "rigid"
+    );
+
+    // Best translation moves src centroid (1, 0) to dst centroid (2, 0)
+    expect(fit).toMatchObject({ a: 1, b: 0, d: 1, e: 1, f: 0, residual: 1 });
+  });
+
+  it.each`
+    s                  | d                  | model       | message
+    ${src}             | ${src.slice(1)}    | ${"affine"} | ${"src and dst have different length"}
+    ${src.slice(0, 2)} | ${src.slice(0, 2)} | ${"affine"} | ${"points are less than 3"}
+    ${src.slice(0, 1)} | ${src.slice(0, 1)} | ${"rigid"}  | ${"points are less than 2"}
+  `("throw Error when $message", ({ s, d, model, message }) => {
+    expect(() => Matrix.fitPoints(s, d, model)).toThrowError(message);
+  });
+});
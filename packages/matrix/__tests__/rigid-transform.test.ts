@@ -0,0 +1,73 @@
+import { Matrix, RigidTransform } from "../src";
+import { Vector } from "@trans-vector2d/vector";
+
+const v = (x: number, y: number): Vector => new Vector(x, y);
+
+const rigid = RigidTransform.from(v(3, -2), 0.7);
+const rigid2 = RigidTransform.from(v(-1, 5), 2.9);
+const points = [v(0, 0), v(1, 0), v(-3, 7)];
+
+describe("@trans-vector2d/matrix.RigidTransform", () => {
+  it("can transform point same as Matrix", () => {
+    const m = Matrix.from({ translation: v(3, -2), rotation: 0.7 });
+
+    expect(rigid.toMatrix().isClosedTo(m)).toBe(true);
+    points.forEach((p) => {
+      expect(rigid.globalizePoint(p).isClosedTo(m.globalizePoint(p))).toBe(
+        true
+      );
+      expect(rigid.localizePoint(p).isClosedTo(m.localizePoint(p))).toBe(true);
+    });
+  });
+
+  it("can compose in closed form", () => {
+    const composed = rigid.globalize(rigid2);
+    const expected = Matrix.product(rigid, rigid2);
+
+    expect(composed).toBeInstanceOf(RigidTransform);
+    expect(composed.toMatrix().isClosedTo(expected)).toBe(true);
+    expect(composed.rotation).toBeCloseTo(0.7 + 2.9 - 2 * Math.PI);
+    expect(rigid.localize(composed).isClosedTo(rigid2)).toBe(true);
+  });
+
+  it("can invert exactly", () => {
+    const inverse = rigid.inverse();
+
+    expect(rigid.globalize(inverse).isClosedTo(RigidTransform.identity)).toBe(
+      true
+    );
+    expect(inverse.inverse().isClosedTo(rigid)).toBe(true);
+    // Repeated inversion does not accumulate scale
+    let t = rigid;
+    for (let i = 0; i < 1000; i++) t = t.inverse();
+    expect(t.toMatrix().determinant()).toBeCloseTo(1, 12);
+  });
+
+  it("can be used as MatrixLike", () => {
+    const m = Matrix.translation(v(10, 0));
+
+    expect(m.globalize(rigid).isClosedTo(m.globalize(rigid.toMatrix()))).toBe(
+      true
+    );
+    expect(m.localize(rigid).isClosedTo(m.localize(rigid.toMatrix()))).toBe(
+      true
+    );
+    expect(Matrix.from(rigid)).toEqual(rigid.toMatrix());
+  });
+
+  it("can be created from rigid matrix only", () => {
+    expect(
+      (RigidTransform.fromMatrix(
+        rigid.toMatrix()
+      ) as RigidTransform).isClosedTo(rigid)
+    ).toBe(true);
+    expect(RigidTransform.fromMatrix(Matrix.scaling(v(2, 2)))).toBeUndefined();
+    expect(RigidTransform.fromMatrix(Matrix.scaling(v(-1, 1)))).toBeUndefined();
+  });
+
+  it("can normalize rotation", () => {
+    expect(RigidTransform.from(v(0, 0), 3 * Math.PI).rotation).toBeCloseTo(
+      Math.PI
+    );
+  });
+});
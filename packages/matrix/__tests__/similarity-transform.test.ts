@@ -0,0 +1,91 @@
+import { Matrix, RigidTransform, SimilarityTransform } from "../src";
+import { Vector } from "@trans-vector2d/vector";
+
+const v = (x: number, y: number): Vector => new Vector(x, y);
+
+const rigid = RigidTransform.from(v(3, -2), 0.7);
+const rigid2 = RigidTransform.from(v(-1, 5), 2.9);
+const similarity = SimilarityTransform.from(v(3, -2), 0.7, 2.5);
+const similarity2 = SimilarityTransform.from(v(-1, 5), 2.9, 0.4);
+const points = [v(0, 0), v(1, 0), v(-3, 7)];
+
+describe("@trans-vector2d/matrix.SimilarityTransform", () => {
+  it("can transform point same as Matrix", () => {
+    const m = Matrix.from({
+      translation: v(3, -2),
+      rotation: 0.7,
+      scale: v(2.5, 2.5),
+    });
+
+    expect(similarity.toMatrix().isClosedTo(m)).toBe(true);
+    points.forEach((p) => {
+      expect(similarity.globalizePoint(p).isClosedTo(m.globalizePoint(p))).toBe(
+        true
+      );
+      expect(similarity.localizePoint(p).isClosedTo(m.localizePoint(p))).toBe(
+        true
+      );
+    });
+  });
+
+  it("can compose in closed form", () => {
+    const composed = similarity.globalize(similarity2);
+    const withRigid = similarity.globalize(rigid2);
+
+    expect(composed.scale).toBeCloseTo(1);
+    expect(
+      composed.toMatrix().isClosedTo(Matrix.product(similarity, similarity2))
+    ).toBe(true);
+    expect(
+      withRigid.toMatrix().isClosedTo(Matrix.product(similarity, rigid2))
+    ).toBe(true);
+    expect(similarity.localize(composed).isClosedTo(similarity2)).toBe(true);
+    expect(similarity.localize(withRigid).toRigid().isClosedTo(rigid2)).toBe(
+      true
+    );
+  });
+
+  it("can invert exactly", () => {
+    const inverse = similarity.inverse();
+
+    expect(inverse.scale).toBe(0.4);
+    expect(
+      similarity.globalize(inverse).isClosedTo(SimilarityTransform.identity)
+    ).toBe(true);
+    expect(
+      inverse.toMatrix().isClosedTo(Matrix.inverse(similarity.toMatrix()))
+    ).toBe(true);
+  });
+
+  it("can convert between rigid transform and matrix", () => {
+    expect(SimilarityTransform.fromRigid(rigid).toMatrix()).toEqual(
+      rigid.toMatrix()
+    );
+    expect(similarity.toRigid().isClosedTo(rigid)).toBe(true);
+    expect(
+      (SimilarityTransform.fromMatrix(
+        similarity.toMatrix()
+      ) as SimilarityTransform).isClosedTo(similarity)
+    ).toBe(true);
+    expect(
+      SimilarityTransform.fromMatrix(Matrix.scaling(v(2, 3)))
+    ).toBeUndefined();
+    expect(
+      SimilarityTransform.fromMatrix(new Matrix(1, 0, 0.5, 1, 0, 0))
+    ).toBeUndefined();
+  });
+
+  it("can be used as MatrixLike", () => {
+    const m = Matrix.rotation(1);
+
+    expect(
+      m.globalize(similarity).isClosedTo(m.globalize(similarity.toMatrix()))
+    ).toBe(true);
+  });
+
+  it("can not be created with non-positive scale", () => {
+    expect(() => SimilarityTransform.from(v(0, 0), 0, 0)).toThrowError(
+      "scale is not positive"
+    );
+  });
+});
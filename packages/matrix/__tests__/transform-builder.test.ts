@@ -0,0 +1,146 @@
+import { Matrix, TransformBuilder } from "../src";
+import { Vector } from "@trans-vector2d/vector";
+
+const v = (x: number, y: number): Vector => new Vector(x, y);
+
+const base = Matrix.from({
+  translation: v(10, 20),
+  rotation: 0.5,
+  scale: v(2, 1),
+});
+
+describe("@trans-vector2d/matrix.TransformBuilder", () => {
+  it("can build identity", () => {
+    expect(TransformBuilder.identity.build()).toBe(Matrix.identity);
+    expect(TransformBuilder.identity.pivot).toEqual({ x: 0, y: 0 });
+  });
+
+  it("can apply operations in order", () => {
+    const m = TransformBuilder.identity
+      .scaleGlobal(v(2, 3))
+      .rotateGlobal(1)
+      .translateGlobal(v(4, 5))
+      .build();
+
+    const expected = Matrix.from({
+      translation: v(4, 5),
+      rotation: 1,
+      scale: v(2, 3),
+    });
+    expect(m.isClosedTo(expected)).toBe(true);
+  });
+
+  it("can apply local operations in reverse order of global", () => {
+    const m = TransformBuilder.identity
+      .translateLocal(v(4, 5))
+      .rotateLocal(1)
+      .scaleLocal(v(2, 3))
+      .build();
+
+    const expected = Matrix.from({
+      translation: v(4, 5),
+      rotation: 1,
+      scale: v(2, 3),
+    });
+    expect(m.isClosedTo(expected)).toBe(true);
+  });
+
+  it("can translate in local and global space", () => {
+    const builder = TransformBuilder.from(base);
+
+    expect(
+      builder
+        .translateLocal(v(1, 0))
+        .globalPivot()
+        .isClosedTo(base.globalizePoint(v(1, 0)))
+    ).toBe(true);
+    expect(builder.translateGlobal(v(1, 0)).globalPivot()).toEqual({
+      x: 11,
+      y: 20,
+    });
+  });
+
+  it.each`
+    operation
+    ${(b: TransformBuilder): TransformBuilder => b.rotateLocal(1.2)}
+    ${(b: TransformBuilder): TransformBuilder => b.rotateGlobal(1.2)}
+    ${(b: TransformBuilder): TransformBuilder => b.scaleLocal(v(3, -2))}
+    ${(b: TransformBuilder): TransformBuilder => b.scaleGlobal(v(3, -2))}
+  `("keep pivot fixed in $operation", ({ operation }) => {
+    const builder = TransformBuilder.from(base, v(5, -3));
+    const moved = operation(builder) as TransformBuilder;
+
+    expect(moved.pivot).toEqual(builder.pivot);
+    expect(moved.globalPivot().isClosedTo(builder.globalPivot())).toBe(true);
+    expect(moved.build().isClosedTo(base)).toBe(false);
+  });
+
+  it("distinguish local and global rotation under non-uniform scale", () => {
+    const builder = TransformBuilder.from(base);
+    const local = builder.rotateLocal(Math.PI / 2).build();
+    const global = builder.rotateGlobal(Math.PI / 2).build();
+
+    expect(local.isClosedTo(base.globalize(Matrix.rotation(Math.PI / 2)))).toBe(
+      true
+    );
+    expect(
+      global.isClosedTo(
+        base.rotatedAround(Math.PI / 2, base.globalizePoint(v(0, 0)))
+      )
+    ).toBe(true);
+    expect(local.isClosedTo(global)).toBe(false);
+  });
+
+  it("can use explicit pivot instead of pivot of builder", () => {
+    const builder = TransformBuilder.from(base, v(5, -3));
+    const local = builder.rotateLocal(1, v(1, 1)).build();
+    const global = builder.scaleGlobal(v(2, 2), v(7, 7)).build();
+
+    expect(
+      local.globalizePoint(v(1, 1)).isClosedTo(base.globalizePoint(v(1, 1)))
+    ).toBe(true);
+    expect(global.isClosedTo(base.scaledAround(v(2, 2), v(7, 7)))).toBe(true);
+  });
+
+  it("can set pivot by anchor", () => {
+    const builder = TransformBuilder.identity.withAnchor(
+      v(0.5, 0.25),
+      v(64, 32)
+    );
+    const m = builder
+      .translateGlobal(v(100, 100))
+      .rotateGlobal(Math.PI)
+      .build();
+
+    expect(builder.pivot).toEqual({ x: 32, y: 8 });
+    expect(m.globalizePoint(v(32, 8)).isClosedTo(v(132, 108))).toBe(true);
+    expect(m.globalizePoint(v(0, 0)).isClosedTo(v(164, 116))).toBe(true);
+  });
+
+  it("can change pivot without moving object", () => {
+    const builder = TransformBuilder.from(base).withPivot(v(3, 4));
+
+    expect(builder.build()).toEqual(base);
+    expect(builder.globalPivot()).toEqual(base.globalizePoint(v(3, 4)));
+  });
+
+  it("can apply any transform in local and global space", () => {
+    const other = Matrix.from({ rotation: 0.3, skew: 0.2 });
+    const builder = TransformBuilder.from(base);
+
+    expect(builder.transformLocal(other).build()).toEqual(
+      base.globalize(other)
+    );
+    expect(builder.transformGlobal(other).build()).toEqual(
+      base.globalizedBy(other)
+    );
+  });
+
+  it("does not change self", () => {
+    const builder = TransformBuilder.from(base, v(1, 2));
+    builder.translateGlobal(v(1, 1)).rotateLocal(1).withPivot(v(0, 0));
+
+    expect(builder.build()).toEqual(base);
+    expect(builder.pivot).toEqual({ x: 1, y: 2 });
+  });
+});
@@ -0,0 +1,114 @@
+import { Matrix, parseTransformFunctions } from "../src";
+
+describe("@trans-vector2d/matrix.parseTransformFunctions", () => {
+  it.each`
+    str                           | expected
+    ${""}                         | ${[]}
+    ${"none"}                     | ${[]}
+    ${"matrix(1,2,3,4,5,6)"}      | ${[{ name: "matrix", args: [1, 2, 3, 4, 5, 6] }]}
+    ${"matrix(1 2 3 4 5 6)"}      | ${[{ name: "matrix", args: [1, 2, 3, 4, 5, 6] }]}
+    ${"translate(1px, -2.5e1px)"} | ${[{ name: "translate", args: [1, -25] }]}
+    ${"translateX(.5) TRANSLATEY(2)"} | ${[
+  { name: "translateX", args: [0.5] },
+  { name: "translateY", args: [2] },
+]}
+    ${"scale(2),scaleX(3)"} | ${[
+  { name: "scale", args: [2] },
+  { name: "scaleX", args: [3] },
+]}
+    ${"rotate(0.5turn 1 2)"}      | ${[{ name: "rotate", args: [Math.PI, 1, 2] }]}
+    ${"skewX(1rad)skewY(200grad)"} | ${[
+  { name: "skewX", args: [1] },
+  { name: "skewY", args: [Math.PI] },
+]}
+  `("can parse '$str'", ({ str, expected }) => {
+    expect(parseTransformFunctions(str)).toEqual(expected);
+  });
+
+  it("treat unitless angle as degrees", () => {
+    const [func] = parseTransformFunctions(" rotate( 90 ) ");
+
+    expect(func.name).toBe("rotate");
+    expect(func.args[0]).toBeCloseTo(Math.PI / 2);
+  });
+
+  it.each`
+    str                        | message
+    ${"rotate(90"}             | ${/end of input at position 9/}
+    ${"rotate(90)x"}           | ${/expected transform function but found "x" at position 10/}
+    ${"rotat(90)"}             | ${/expected transform function but found "r" at position 0/}
+    ${"scale 2"}               | ${/expected "\(" but found "2" at position 6/}
+    ${"scale(1, 2, 3)"}        | ${/expected "\)" but found "3" at position 12/}
+    ${"rotate(1, 2)"}          | ${/expected 1 or 3 arguments for rotate .* at position 11/}
+    ${"translate(1em)"}        | ${/expected length but found "e" at position 11/}
+    ${"scale(2deg)"}           | ${/expected number but found "d" at position 7/}
+    ${"matrix(1, 2, 3, 4, 5)"} | ${/expected 6 arguments/}
+    ${"translate(a)"}          | ${/expected number but found "a" at position 10/}
+  `("throw Error with position for '$str'", ({ str, message }) => {
+    expect(() => parseTransformFunctions(str)).toThrowError(message);
+  });
+});
+
+describe("@trans-vector2d/matrix.Matrix transform string", () => {
+  it("can parse transform list", () => {
+    const m = Matrix.parseTransform(
+      "translate(1, 2) rotate(90deg) scale(2, 3)"
+    );
+    const expected = Matrix.from({
+      translation: { x: 1, y: 2 },
+      rotation: Math.PI / 2,
+      scale: { x: 2, y: 3 },
+    });
+
+    expect(m.isClosedTo(expected)).toBe(true);
+  });
+
+  it("can parse rotation around point", () => {
+    const m = Matrix.parseTransform("rotate(90, 1, 1)");
+
+    expect(m.globalizePoint({ x: 1, y: 1 }).isClosedTo({ x: 1, y: 1 })).toBe(
+      true
+    );
+    expect(m.globalizePoint({ x: 2, y: 1 }).isClosedTo({ x: 1, y: 2 })).toBe(
+      true
+    );
+  });
+
+  it.each`
+    str                 | expected
+    ${"scale(2)"}       | ${new Matrix(2, 0, 0, 2, 0, 0)}
+    ${"scaleY(3)"}      | ${new Matrix(1, 0, 0, 3, 0, 0)}
+    ${"translateY(3)"}  | ${new Matrix(1, 0, 0, 1, 0, 3)}
+    ${"skewX(45)"}      | ${new Matrix(1, 0, 1, 1, 0, 0)}
+    ${"skewY(45)"}      | ${new Matrix(1, 1, 0, 1, 0, 0)}
+    ${"skew(45deg)"}    | ${new Matrix(1, 0, 1, 1, 0, 0)}
+    ${"skew(0, 45deg)"} | ${new Matrix(1, 1, 0, 1, 0, 0)}
+    ${"none"}           | ${Matrix.identity}
+  `("can parse '$str'", ({ str, expected }) => {
+    expect(Matrix.parseTransform(str).isClosedTo(expected)).toBe(true);
+  });
+
+  it("can create CSS and SVG string", () => {
+    const m = new Matrix(1, -0, 0.5, 2, 1e-7, -3.14159);
+
+    expect(m.toCSS()).toBe("matrix(1, 0, 0.5, 2, 1e-7, -3.14159)");
+    expect(m.toSVG()).toBe("matrix(1 0 0.5 2 1e-7 -3.14159)");
+    expect(m.toCSS(2)).toBe("matrix(1, 0, 0.5, 2, 0, -3.14)");
+    expect(m.toSVG(3)).toBe("matrix(1 0 0.5 2 0 -3.142)");
+  });
+
+  it("can round-trip through transform string", () => {
+    const m = Matrix.from({
+      translation: { x: 12.3, y: -4.5 },
+      rotation: 0.7,
+      scale: { x: 1.5, y: -0.25 },
+      skew: 0.2,
+    });
+
+    expect(Matrix.parseTransform(m.toCSS()).equals(m)).toBe(true);
+    expect(Matrix.parseTransform(m.toSVG()).equals(m)).toBe(true);
+    expect(Matrix.parseTransform(m.toCSS(8)).isClosedTo(m, 10 ** -8)).toBe(
+      true
+    );
+  });
+});
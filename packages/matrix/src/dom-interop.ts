@@ -0,0 +1,82 @@
+/**
+ * Structural subset of `DOMMatrix2DInit`.
+ * `DOMMatrix` and `DOMMatrixReadOnly` satisfy this interface.
+ */
+export interface DOMMatrix2DInitLike {
+  a?: number;
+  b?: number;
+  c?: number;
+  d?: number;
+  e?: number;
+  f?: number;
+  m11?: number;
+  m12?: number;
+  m21?: number;
+  m22?: number;
+  m41?: number;
+  m42?: number;
+  is2D?: boolean;
+}
+
+/**
+ * Structural subset of `CanvasRenderingContext2D` for transformation.
+ */
+export interface CanvasTransformContext {
+  setTransform(
+    a: number,
+    b: number,
+    c: number,
+    d: number,
+    e: number,
+    f: number
+  ): void;
+  transform(
+    a: number,
+    b: number,
+    c: number,
+    d: number,
+    e: number,
+    f: number
+  ): void;
+}
+
+type Element2D = "a" | "b" | "c" | "d" | "e" | "f";
+type Element4x4 = "m11" | "m12" | "m21" | "m22" | "m41" | "m42";
+
+const aliases: [Element2D, Element4x4][] = [
+  ["a", "m11"],
+  ["b", "m12"],
+  ["c", "m21"],
+  ["d", "m22"],
+  ["e", "m41"],
+  ["f", "m42"],
+];
+
+/**
+ * Read 2d elements from DOMMatrix2DInit like object.
+ * Missing elements are filled as DOMMatrix does.
+ *
+ * @param init object contains a-f or m11-m42
+ * @returns [a, b, c, d, e, f]
+ */
+export function readDOMMatrixElements(
+  init: DOMMatrix2DInitLike
+): [number, number, number, number, number, number] {
+  const elements = aliases.map(([short, long]) => {
+    const s = init[short];
+    const l = init[long];
+    if (s !== undefined && l !== undefined && s !== l)
+      throw new Error(`${short} and ${long} are inconsistent`);
+    if (s !== undefined) return s;
+    if (l !== undefined) return l;
+    return short === "a" || short === "d" ? 1 : 0;
+  });
+  return [
+    elements[0],
+    elements[1],
+    elements[2],
+    elements[3],
+    elements[4],
+    elements[5],
+  ];
+}
@@ -0,0 +1,353 @@
+import { Vector, VectorLike } from "@trans-vector2d/vector";
+import { Matrix, MatrixLike } from "./matrix";
+import { formatTransformNumber } from "./transform-string";
+
+export interface HomographyLike extends MatrixLike {
+  g: number;
+  h: number;
+  i: number;
+}
+
+/**
+ * Four corners of quadrilateral.
+ */
+export type Quad = readonly [VectorLike, VectorLike, VectorLike, VectorLike];
+
+// Map unit square (0, 0), (1, 0), (1, 1), (0, 1) to quad by Heckbert's method
+const squareToQuad = (quad: Quad): HomographyLike | undefined => {
+  const [p0, p1, p2, p3] = quad;
+  const dx1 = p1.x - p2.x;
+  const dx2 = p3.x - p2.x;
+  const dx3 = p0.x - p1.x + p2.x - p3.x;
+  const dy1 = p1.y - p2.y;
+  const dy2 = p3.y - p2.y;
+  const dy3 = p0.y - p1.y + p2.y - p3.y;
+  const det = dx1 * dy2 - dx2 * dy1;
+  if (det === 0) return undefined;
+  const g = (dx3 * dy2 - dx2 * dy3) / det;
+  const h = (dx1 * dy3 - dx3 * dy1) / det;
+  return {
+    a: p1.x - p0.x + g * p1.x,
+    b: p1.y - p0.y + g * p1.y,
+    c: p3.x - p0.x + h * p3.x,
+    d: p3.y - p0.y + h * p3.y,
+    e: p0.x,
+    f: p0.y,
+    g,
+    h,
+    i: 1,
+  };
+};
+
+/**
+ * Projective transformation matrix.
+ * Homography is immutable.
+ * Elements are placed like Matrix and last row is not fixed.
+ *
+ * [a, c, e,
+ *  b, d, f,
+ *  g, h, i]
+ */
+export class Homography {
+  static readonly identity = new Homography(1, 0, 0, 1, 0, 0, 0, 0, 1);
+
+  constructor(
+    public readonly a: number,
+    public readonly b: number,
+    public readonly c: number,
+    public readonly d: number,
+    public readonly e: number,
+    public readonly f: number,
+    public readonly g: number,
+    public readonly h: number,
+    public readonly i: number
+  ) {}
+
+  /**
+   * Create Homography from object has elements.
+   *
+   * @param h object contains a-i
+   * @returns Homography
+   */
+  static from(h: HomographyLike): Homography {
+    return new Homography(h.a, h.b, h.c, h.d, h.e, h.f, h.g, h.h, h.i);
+  }
+
+  /**
+   * Create Homography equivalent to affine Matrix.
+   *
+   * @param m Matrix
+   * @returns Homography has last row [0, 0, 1]
+   */
+  static fromMatrix(m: MatrixLike): Homography {
+    return new Homography(m.a, m.b, m.c, m.d, m.e, m.f, 0, 0, 1);
+  }
+
+  /**
+   * Create Homography maps corners of quad to corners of other quad.
+   *
+   * @example
+   * // Map trapezoid seen in photo to rectangle
+   * Homography.fromQuadToQuad(
+   *   [{ x: 30, y: 10 }, { x: 70, y: 10 }, { x: 100, y: 90 }, { x: 0, y: 90 }],
+   *   [{ x: 0, y: 0 }, { x: 210, y: 0 }, { x: 210, y: 297 }, { x: 0, y: 297 }]
+   * )
+   * @param src Corners of source quad
+   * @param dst Corners of target quad. i-th corner corresponds to i-th src corner
+   * @returns Homography or undefined if 3 corners of either quad are on a line
+   */
+  static fromQuadToQuad(src: Quad, dst: Quad): Homography | undefined {
+    const fromSquare = squareToQuad(src);
+    const toQuad = squareToQuad(dst);
+    if (fromSquare === undefined || toQuad === undefined) return undefined;
+    const toSquare = Homography.from(fromSquare).tryInverse();
+    if (toSquare === undefined) return undefined;
+    if (!Homography.from(toQuad).isInvertible()) return undefined;
+    return Homography.product(toQuad, toSquare).normalized();
+  }
+
+  /**
+   * Create homography from product.
+   *
+   * @param a
+   * @param b
+   * @returns result
+   */
+  static product(a: HomographyLike, b: HomographyLike): Homography {
+    return new Homography(
+      a.a * b.a + a.c * b.b + a.e * b.g,
+      a.b * b.a + a.d * b.b + a.f * b.g,
+      a.a * b.c + a.c * b.d + a.e * b.h,
+      a.b * b.c + a.d * b.d + a.f * b.h,
+      a.a * b.e + a.c * b.f + a.e * b.i,
+      a.b * b.e + a.d * b.f + a.f * b.i,
+      a.g * b.a + a.h * b.b + a.i * b.g,
+      a.g * b.c + a.h * b.d + a.i * b.h,
+      a.g * b.e + a.h * b.f + a.i * b.i
+    );
+  }
+
+  /**
+   * Create inverse homography.
+   * Result contains NaN or Infinity when h is not invertible.
+   *
+   * @param h
+   * @returns inverse homography
+   */
+  static inverse(h: HomographyLike): Homography {
+    const det = Homography.from(h).determinant();
+    // Adjugate divided by determinant
+    return new Homography(
+      (h.d * h.i - h.f * h.h) / det,
+      (h.f * h.g - h.b * h.i) / det,
+      (h.e * h.h - h.c * h.i) / det,
+      (h.a * h.i - h.e * h.g) / det,
+      (h.c * h.f - h.e * h.d) / det,
+      (h.e * h.b - h.a * h.f) / det,
+      (h.b * h.h - h.d * h.g) / det,
+      (h.c * h.g - h.a * h.h) / det,
+      (h.a * h.d - h.c * h.b) / det
+    );
+  }
+
+  /**
+   * Compute determinant of self.
+   *
+   * @returns determinant of 3x3 matrix
+   */
+  determinant(): number {
+    return (
+      this.a * (this.d * this.i - this.f * this.h) -
+      this.c * (this.b * this.i - this.f * this.g) +
+      this.e * (this.b * this.h - this.d * this.g)
+    );
+  }
+
+  /**
+   * Return self can be inverted.
+   * Determinant is compared with product of row norms, which is its upper
+   * bound, so result does not depend on scale of elements.
+   *
+   * @param epsilon minimum ratio of absolute determinant to product of row norms
+   * @returns self can be inverted
+   */
+  isInvertible(epsilon = 10 ** -10): boolean {
+    if (epsilon < 0) throw new Error("epsilon is negative");
+    const { a, b, c, d, e, f, g, h, i } = this;
+    const bound =
+      Math.sqrt(a * a + c * c + e * e) *
+      Math.sqrt(b * b + d * d + f * f) *
+      Math.sqrt(g * g + h * h + i * i);
+    const det = this.determinant();
+    return Number.isFinite(det) && Math.abs(det) > epsilon * bound;
+  }
+
+  /**
+   * Create inverse homography from self.
+   * Result contains NaN or Infinity when self is not invertible.
+   * Use `tryInverse` to detect it.
+   */
+  inverse(): Homography {
+    return Homography.inverse(this);
+  }
+
+  /**
+   * Create inverse homography from self if self can be inverted.
+   *
+   * @param epsilon minimum ratio of absolute determinant to product of row norms
+   * @returns inverse homography or undefined if self is not invertible
+   */
+  tryInverse(epsilon = 10 ** -10): Homography | undefined {
+    if (!this.isInvertible(epsilon)) return undefined;
+    return Homography.inverse(this);
+  }
+
+  /**
+   * Create globalized other homography.
+   *
+   * @param localHomography
+   * @returns globalized homography
+   */
+  globalize(localHomography: HomographyLike): Homography {
+    return Homography.product(this, localHomography);
+  }
+
+  /**
+   * Create homography scaled to make i be 1.
+   * Scaling elements does not change transformation.
+   *
+   * @returns normalized homography, or self if i is 0
+   */
+  normalized(): Homography {
+    if (this.i === 0 || this.i === 1) return this;
+    const s = 1 / this.i;
+    return new Homography(
+      this.a * s,
+      this.b * s,
+      this.c * s,
+      this.d * s,
+      this.e * s,
+      this.f * s,
+      this.g * s,
+      this.h * s,
+      1
+    );
+  }
+
+  /**
+   * Transform point with perspective divide.
+   * Point is mapped to infinity when divisor is tiny relative to its terms.
+   *
+   * @param point point
+   * @returns transformed point or undefined if point is mapped to infinity
+   */
+  globalizePoint(point: VectorLike): Vector | undefined {
+    const gx = this.g * point.x;
+    const hy = this.h * point.y;
+    const w = gx + hy + this.i;
+    const bound = Math.abs(gx) + Math.abs(hy) + Math.abs(this.i);
+    // Negated comparison rejects NaN
+    if (!(Math.abs(w) > 10 ** -10 * bound)) return undefined;
+    return new Vector(
+      (this.a * point.x + this.c * point.y + this.e) / w,
+      (this.b * point.x + this.d * point.y + this.f) / w
+    );
+  }
+
+  /**
+   * Transform point by inverse of self.
+   *
+   * @param point point
+   * @returns transformed point or undefined if self is not invertible or
+   * point is mapped to infinity
+   */
+  localizePoint(point: VectorLike): Vector | undefined {
+    const inverse = this.tryInverse();
+    if (inverse === undefined) return undefined;
+    return inverse.globalizePoint(point);
+  }
+
+  /**
+   * Return last row of self is [0, 0, non-zero].
+   *
+   * @param delta allowable error of g and h relative to i
+   * @returns self is affine
+   */
+  isAffine(delta = 10 ** -10): boolean {
+    if (this.i === 0) return false;
+    return (
+      Math.abs(this.g / this.i) <= delta && Math.abs(this.h / this.i) <= delta
+    );
+  }
+
+  /**
+   * Create Matrix if self is affine.
+   *
+   * @param delta allowable error of g and h relative to i
+   * @returns Matrix or undefined if self is not affine
+   */
+  toMatrix(delta = 10 ** -10): Matrix | undefined {
+    if (!this.isAffine(delta)) return undefined;
+    const { a, b, c, d, e, f } = this.normalized();
+    return new Matrix(a, b, c, d, e, f);
+  }
+
+  /**
+   * Return self elements is closed to other.
+   * Elements are compared as they are, so normalize both before comparing
+   * homographies differ only in scale.
+   *
+   * @param other other homography
+   * @param delta allowable error
+   * @returns self is closed to other
+   */
+  isClosedTo(other: HomographyLike, delta = 10 ** -10): boolean {
+    const others = Homography.from(other).asArray();
+    return this.asArray().every((v, i) => Math.abs(v - others[i]) <= delta);
+  }
+
+  /**
+   * Create object contains elements of self.
+   *
+   * @returns object contains elements of self
+   */
+  asObject(): HomographyLike {
+    const { a, b, c, d, e, f, g, h, i } = this;
+    return { a, b, c, d, e, f, g, h, i };
+  }
+
+  /**
+   * Create array contains elements of self.
+   *
+   * @returns [a, b, c, d, e, f, g, h, i]
+   */
+  asArray(): number[] {
+    const { a, b, c, d, e, f, g, h, i } = this;
+    return [a, b, c, d, e, f, g, h, i];
+  }
+
+  /**
+   * Create string expresses self.
+   *
+   * @returns "Homography(a, b, c, d, e, f, g, h, i)"
+   */
+  toString(): string {
+    return `Homography(${this.asArray().join(", ")})`;
+  }
+
+  /**
+   * Create CSS transform string.
+   *
+   * @example
+   * Homography.identity.toCSS() // "matrix3d(1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1)"
+   * @param precision count of fraction digits. All digits are used if undefined
+   * @returns CSS matrix3d string
+   */
+  toCSS(precision?: number): string {
+    const { a, b, c, d, e, f, g, h, i } = this;
+    const elements = [a, b, 0, g, c, d, 0, h, 0, 0, 1, 0, e, f, 0, i];
+    return `matrix3d(${elements
+      .map((v) => formatTransformNumber(v, precision))
+      .join(", ")})`;
+  }
+}
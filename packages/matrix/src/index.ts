@@ -1 +1,8 @@
 export * from "./matrix";
+export * from "./transform-string";
+export * from "./dom-interop";
+export * from "./point-fit";
+export * from "./homography";
+export * from "./rigid-transform";
+export * from "./similarity-transform";
+export * from "./transform-builder";
@@ -1,9 +1,47 @@
-import { Vector, VectorLike } from "@trans-vector2d/vector";
+import {
+  Vector,
+  VectorLike,
+  isStrictMode,
+  assertFiniteResult,
+  normalizeAngle,
+  deltaAngle,
+} from "@trans-vector2d/vector";
+import {
+  TransformFunction,
+  parseTransformFunctions,
+  formatTransformNumber,
+} from "./transform-string";
+import {
+  DOMMatrix2DInitLike,
+  CanvasTransformContext,
+  readDOMMatrixElements,
+} from "./dom-interop";
+import { PointFitModel, fitPointElements } from "./point-fit";
 
 export interface MatrixComponent {
   translation: VectorLike;
   rotation: number;
   scale: VectorLike;
+  // Skew along x-axis. Default is 0
+  skew?: number;
+}
+
+/**
+ * Components with pivot.
+ * Rotation, skew and scale are applied around pivot in local space,
+ * and then pivot is moved to translation.
+ */
+export interface PivotMatrixComponent extends MatrixComponent {
+  pivot: VectorLike;
+}
+
+/**
+ * Matrix fitted to point correspondences.
+ */
+export interface MatrixFit {
+  matrix: Matrix;
+  // Root mean square of distances between transformed src and dst
+  residual: number;
 }
 
 export interface MatrixLike {
@@ -36,19 +74,55 @@ export class Matrix {
   ) {}
 
   /**
-   * Decompose matrix as translation, rotation and scale.
+   * Decompose matrix as translation, rotation, scale and skew.
+   * Matrix is decomposed as T * R * K * S (K is skew along x-axis).
+   * Reflection is expressed as negative scale.
+   * Rotation is normalized to (-PI, PI] and skew is in (-PI / 2, PI / 2).
+   * `Matrix.from(m.decompose())` reproduces `m` when `m` is invertible or
+   * x-axis of `m` is collapsed.
+   * Other singular matrices have parallel axes, which can not be expressed
+   * by components, so y-axis of them is collapsed in reproduced matrix.
    *
    * @returns self components
    */
-  decompose(): { translation: Vector; rotation: number; scale: Vector } {
-    const translation = new Vector(this.e, this.f);
-    const rotation = Math.max(
-      Math.atan2(this.b, this.a),
-      Math.atan2(-this.c, this.d)
-    );
-    const cos = Math.cos(rotation);
-    const scale = new Vector(this.a / cos, this.d / cos);
-    return { translation, rotation, scale };
+  decompose(): {
+    translation: Vector;
+    rotation: number;
+    scale: Vector;
+    skew: number;
+  } {
+    const result = Matrix.decomposeElements(this);
+    if (isStrictMode()) assertFiniteResult(result, "Matrix.decompose", [this]);
+    return result;
+  }
+
+  /**
+   * Decompose matrix as components around pivot.
+   * Translation is the position pivot is moved to, and others are same as
+   * `decompose()`.
+   * `Matrix.from(m.decomposeAround(pivot))` reproduces `m` when `m` is
+   * invertible.
+   *
+   * @param pivot Pivot in local space
+   * @returns self components with pivot
+   */
+  decomposeAround(
+    pivot: VectorLike
+  ): {
+    translation: Vector;
+    rotation: number;
+    scale: Vector;
+    skew: number;
+    pivot: Vector;
+  } {
+    const result = {
+      ...Matrix.decomposeElements(this),
+      translation: Matrix.multiplyVector(this, pivot),
+      pivot: new Vector(pivot.x, pivot.y),
+    };
+    if (isStrictMode())
+      assertFiniteResult(result, "Matrix.decomposeAround", [this, pivot]);
+    return result;
   }
 
   /**
@@ -58,17 +132,25 @@ export class Matrix {
    * @returns globalized matrix
    */
   globalize(localMatrix: MatrixLike): Matrix {
-    return Matrix.product(this, localMatrix);
+    const result = Matrix.multiply(this, localMatrix);
+    if (isStrictMode())
+      assertFiniteResult(result, "Matrix.globalize", [this, localMatrix]);
+    return result;
   }
 
   /**
    * Create localize other matrix.
+   * Result contains NaN or Infinity when self is not invertible.
+   * Use `tryLocalize` to detect it.
    *
    * @param globalMatrix
    * @returns localized matrix
    */
   localize(globalMatrix: MatrixLike): Matrix {
-    return Matrix.product(Matrix.inverse(this), globalMatrix);
+    const result = Matrix.multiply(Matrix.invert(this), globalMatrix);
+    if (isStrictMode())
+      assertFiniteResult(result, "Matrix.localize", [this, globalMatrix]);
+    return result;
   }
 
   /**
@@ -78,24 +160,135 @@ export class Matrix {
    * @return globalized matrix
    */
   globalizedBy(globalMatrix: MatrixLike): Matrix {
-    return Matrix.product(globalMatrix, this);
+    const result = Matrix.multiply(globalMatrix, this);
+    if (isStrictMode())
+      assertFiniteResult(result, "Matrix.globalizedBy", [this, globalMatrix]);
+    return result;
   }
 
   /**
    * Create matrix localized by other matrix.
+   * Result contains NaN or Infinity when other is not invertible.
+   * Use `tryLocalizedBy` to detect it.
    *
    * @param localMatrix
    * @returns localized matrix
    */
   localizedBy(localMatrix: MatrixLike): Matrix {
-    return Matrix.product(Matrix.inverse(localMatrix), this);
+    const result = Matrix.multiply(Matrix.invert(localMatrix), this);
+    if (isStrictMode())
+      assertFiniteResult(result, "Matrix.localizedBy", [this, localMatrix]);
+    return result;
   }
 
   /**
    * Create inverse matrix from self.
+   * Result contains NaN or Infinity when self is not invertible.
+   * Use `tryInverse` to detect it.
    */
   inverse(): Matrix {
-    return Matrix.inverse(this);
+    const result = Matrix.invert(this);
+    if (isStrictMode()) assertFiniteResult(result, "Matrix.inverse", [this]);
+    return result;
+  }
+
+  /**
+   * Compute determinant of self.
+   *
+   * @returns a * d - b * c
+   */
+  determinant(): number {
+    const result = this.a * this.d - this.b * this.c;
+    if (isStrictMode())
+      assertFiniteResult(result, "Matrix.determinant", [this]);
+    return result;
+  }
+
+  /**
+   * Return self can be inverted.
+   *
+   * @param epsilon minimum absolute value of determinant
+   * @returns self can be inverted
+   */
+  isInvertible(epsilon = 10 ** -10): boolean {
+    return Matrix.canInvert(this, epsilon);
+  }
+
+  /**
+   * Create inverse matrix from self if self can be inverted.
+   *
+   * @param epsilon minimum absolute value of determinant
+   * @returns inverse matrix or undefined if self is not invertible
+   */
+  tryInverse(epsilon = 10 ** -10): Matrix | undefined {
+    if (!Matrix.canInvert(this, epsilon)) return undefined;
+    const result = Matrix.invert(this);
+    if (isStrictMode())
+      assertFiniteResult(result, "Matrix.tryInverse", [this, epsilon]);
+    return result;
+  }
+
+  /**
+   * Create localize other matrix if self can be inverted.
+   *
+   * @param globalMatrix
+   * @param epsilon minimum absolute value of determinant
+   * @returns localized matrix or undefined if self is not invertible
+   */
+  tryLocalize(
+    globalMatrix: MatrixLike,
+    epsilon = 10 ** -10
+  ): Matrix | undefined {
+    if (!Matrix.canInvert(this, epsilon)) return undefined;
+    const result = Matrix.multiply(Matrix.invert(this), globalMatrix);
+    if (isStrictMode())
+      assertFiniteResult(result, "Matrix.tryLocalize", [
+        this,
+        globalMatrix,
+        epsilon,
+      ]);
+    return result;
+  }
+
+  /**
+   * Create matrix localized by other matrix if other can be inverted.
+   *
+   * @param localMatrix
+   * @param epsilon minimum absolute value of determinant
+   * @returns localized matrix or undefined if other is not invertible
+   */
+  tryLocalizedBy(
+    localMatrix: MatrixLike,
+    epsilon = 10 ** -10
+  ): Matrix | undefined {
+    if (!Matrix.canInvert(localMatrix, epsilon)) return undefined;
+    const result = Matrix.multiply(Matrix.invert(localMatrix), this);
+    if (isStrictMode())
+      assertFiniteResult(result, "Matrix.tryLocalizedBy", [
+        this,
+        localMatrix,
+        epsilon,
+      ]);
+    return result;
+  }
+
+  /**
+   * Localize point if self can be inverted.
+   *
+   * @param point global point
+   * @param epsilon minimum absolute value of determinant
+   * @returns localized point or undefined if self is not invertible
+   */
+  tryLocalizePoint(point: VectorLike, epsilon = 10 ** -10): Vector | undefined {
+    if (!Matrix.canInvert(this, epsilon)) return undefined;
+    const result = Matrix.multiplyVector(Matrix.invert(this), point);
+    if (isStrictMode())
+      assertFiniteResult(result, "Matrix.tryLocalizePoint", [
+        this,
+        point,
+        epsilon,
+      ]);
+    return result;
   }
 
   /**
@@ -105,14 +298,10 @@ export class Matrix {
    * @returns translated matrix
    */
   translated(delta: VectorLike): Matrix {
-    return new Matrix(
-      this.a,
-      this.b,
-      this.c,
-      this.d,
-      this.e + delta.x,
-      this.f + delta.y
-    );
+    const result = Matrix.translate(this, delta.x, delta.y);
+    if (isStrictMode())
+      assertFiniteResult(result, "Matrix.translated", [this, delta]);
+    return result;
   }
 
   /**
@@ -122,8 +311,10 @@ export class Matrix {
    * @returns rotated matrix
    */
   rotated(delta: number): Matrix {
-    const r = Matrix.from({ rotation: delta });
-    return Matrix.product(r, this);
+    const result = Matrix.multiply(Matrix.compose({ rotation: delta }), this);
+    if (isStrictMode())
+      assertFiniteResult(result, "Matrix.rotated", [this, delta]);
+    return result;
   }
 
   /**
@@ -133,8 +324,51 @@ export class Matrix {
    * @returns scaled matrix
    */
   scaled(scale: VectorLike): Matrix {
-    const s = Matrix.from({ scale });
-    return Matrix.product(s, this);
+    const result = Matrix.multiply(Matrix.compose({ scale }), this);
+    if (isStrictMode())
+      assertFiniteResult(result, "Matrix.scaled", [this, scale]);
+    return result;
+  }
+
+  /**
+   * Create matrix rotated around pivot from self.
+   * Rotation is applied after self, so pivot is in global space.
+   *
+   * @example
+   * // Rotate object a quarter turn around its current center
+   * m.rotatedAround(Math.PI / 2, m.globalizePoint(localCenter))
+   * @param delta rotation
+   * @param pivot fixed point in global space
+   * @returns rotated matrix
+   */
+  rotatedAround(delta: number, pivot: VectorLike): Matrix {
+    const result = Matrix.multiplyAround(
+      Matrix.compose({ rotation: delta }),
+      this,
+      pivot
+    );
+    if (isStrictMode())
+      assertFiniteResult(result, "Matrix.rotatedAround", [this, delta, pivot]);
+    return result;
+  }
+
+  /**
+   * Create matrix scaled around pivot from self.
+   * Scaling is applied after self, so pivot is in global space.
+   *
+   * @param scale
+   * @param pivot fixed point in global space
+   * @returns scaled matrix
+   */
+  scaledAround(scale: VectorLike, pivot: VectorLike): Matrix {
+    const result = Matrix.multiplyAround(
+      Matrix.compose({ scale }),
+      this,
+      pivot
+    );
+    if (isStrictMode())
+      assertFiniteResult(result, "Matrix.scaledAround", [this, scale, pivot]);
+    return result;
   }
 
   /**
@@ -144,17 +378,63 @@ export class Matrix {
    * @returns globalized point
    */
   globalizePoint(point: VectorLike): Vector {
-    return Matrix.productVector(this, point);
+    const result = Matrix.multiplyVector(this, point);
+    if (isStrictMode())
+      assertFiniteResult(result, "Matrix.globalizePoint", [this, point]);
+    return result;
   }
 
   /**
    * Localize point.
+   * Result contains NaN or Infinity when self is not invertible.
+   * Use `tryLocalizePoint` to detect it.
    *
    * @param point global point
    * @returns localized point
    */
   localizePoint(point: VectorLike): Vector {
-    return Matrix.productVector(this.inverse(), point);
+    const result = Matrix.multiplyVector(Matrix.invert(this), point);
+    if (isStrictMode())
+      assertFiniteResult(result, "Matrix.localizePoint", [this, point]);
+    return result;
+  }
+
+  /**
+   * Globalize points stored as [x0, y0, x1, y1, ...] without allocating Vectors.
+   *
+   * @param points local points
+   * @param out buffer to store globalized points. Default is `points` itself
+   * @returns `out`
+   */
+  globalizePoints(points: Float64Array, out = points): Float64Array {
+    const result = Matrix.multiplyVectors(this, points, out);
+    if (isStrictMode())
+      assertFiniteResult(result, "Matrix.globalizePoints", [this, points]);
+    return result;
+  }
+
+  /**
+   * Localize points stored as [x0, y0, x1, y1, ...] without allocating Vectors.
+   * Result contains NaN or Infinity when self is not invertible.
+   *
+   * @param points global points
+   * @param out buffer to store localized points. Default is `points` itself
+   * @returns `out`
+   */
+  localizePoints(points: Float64Array, out = points): Float64Array {
+    const result = Matrix.multiplyVectors(Matrix.invert(this), points, out);
+    if (isStrictMode())
+      assertFiniteResult(result, "Matrix.localizePoints", [this, points]);
+    return result;
+  }
+
+  /**
+   * Return self elements do not contain NaN nor Infinity.
+   *
+   * @returns self is finite
+   */
+  isFinite(): boolean {
+    return this.asArray().every((v) => Number.isFinite(v));
   }
 
   /**
@@ -211,6 +491,78 @@ export class Matrix {
     return [this.a, this.b, this.c, this.d, this.e, this.f];
   }
 
+  /**
+   * Create string expresses self.
+   *
+   * @returns "Matrix(a, b, c, d, e, f)"
+   */
+  toString(): string {
+    return `Matrix(${this.asArray().join(", ")})`;
+  }
+
+  /**
+   * Create CSS transform string.
+   *
+   * @example
+   * new Matrix(1, 0, 0, 1, 2, 3).toCSS() // "matrix(1, 0, 0, 1, 2, 3)"
+   * @param precision count of fraction digits. All digits are used if undefined
+   * @returns CSS transform string
+   */
+  toCSS(precision?: number): string {
+    const elements = this.asArray().map((v) =>
+      formatTransformNumber(v, precision)
+    );
+    return `matrix(${elements.join(", ")})`;
+  }
+
+  /**
+   * Create SVG transform attribute string.
+   *
+   * @example
+   * new Matrix(1, 0, 0, 1, 2, 3).toSVG() // "matrix(1 0 0 1 2 3)"
+   * @param precision count of fraction digits. All digits are used if undefined
+   * @returns SVG transform attribute string
+   */
+  toSVG(precision?: number): string {
+    const elements = this.asArray().map((v) =>
+      formatTransformNumber(v, precision)
+    );
+    return `matrix(${elements.join(" ")})`;
+  }
+
+  /**
+   * Create object can be passed to `DOMMatrix.fromMatrix`.
+   *
+   * @returns DOMMatrix2DInit
+   */
+  toDOMMatrixInit(): Required<
+    Pick<DOMMatrix2DInitLike, "a" | "b" | "c" | "d" | "e" | "f" | "is2D">
+  > {
+    return { ...this.asObject(), is2D: true };
+  }
+
+  /**
+   * Replace transform of canvas context with self.
+   *
+   * @example
+   * Matrix.rotation(Math.PI).setToContext(canvas.getContext("2d"));
+   * @param context object has `setTransform` like CanvasRenderingContext2D
+   */
+  setToContext(context: Pick<CanvasTransformContext, "setTransform">): void {
+    context.setTransform(this.a, this.b, this.c, this.d, this.e, this.f);
+  }
+
+  /**
+   * Multiply transform of canvas context by self.
+   *
+   * @example
+   * Matrix.rotation(Math.PI).composeToContext(canvas.getContext("2d"));
+   * @param context object has `transform` like CanvasRenderingContext2D
+   */
+  composeToContext(context: Pick<CanvasTransformContext, "transform">): void {
+    context.transform(this.a, this.b, this.c, this.d, this.e, this.f);
+  }
+
   /**
    * Create translating matrix.
    *
@@ -218,7 +570,10 @@ export class Matrix {
    * @returns Translation matrix.
    */
   static translation(delta: VectorLike): Matrix {
-    return Matrix.identity.translated(delta);
+    const result = Matrix.translate(Matrix.identity, delta.x, delta.y);
+    if (isStrictMode())
+      assertFiniteResult(result, "Matrix.translation", [delta]);
+    return result;
   }
 
   /**
@@ -228,7 +583,12 @@ export class Matrix {
    * @returns Rotation matrix.
    */
   static rotation(angle: number): Matrix {
-    return Matrix.identity.rotated(angle);
+    const result = Matrix.multiply(
+      Matrix.compose({ rotation: angle }),
+      Matrix.identity
+    );
+    if (isStrictMode()) assertFiniteResult(result, "Matrix.rotation", [angle]);
+    return result;
   }
 
   /**
@@ -238,32 +598,174 @@ export class Matrix {
    * @returns Scaling matrix.
    */
   static scaling(scale: VectorLike): Matrix {
-    return Matrix.identity.scaled(scale);
+    const result = Matrix.multiply(Matrix.compose({ scale }), Matrix.identity);
+    if (isStrictMode()) assertFiniteResult(result, "Matrix.scaling", [scale]);
+    return result;
   }
 
   /**
    * Create Matrix from elements or components.
    *
-   * @param component object contains elements or translation, rotation, and scale
+   * Components are composed as T * R * K * S (K is skew along x-axis).
+   * When pivot is given, they are composed as T * R * K * S * P^-1
+   * (P is translation by pivot), so pivot is moved to translation.
+   *
+   * @example
+   * // 32x32 sprite rotated around its center placed at (100, 50)
+   * Matrix.from({ translation: { x: 100, y: 50 }, rotation: 1, pivot: { x: 16, y: 16 } })
+   * @param component object contains elements or translation, rotation, scale, skew and pivot
+   * @returns Matrix
+   */
+  static from(component: Partial<PivotMatrixComponent> | MatrixLike): Matrix {
+    const result =
+      "a" in component
+        ? new Matrix(
+            component.a,
+            component.b,
+            component.c,
+            component.d,
+            component.e,
+            component.f
+          )
+        : Matrix.compose(component);
+    if (isStrictMode()) assertFiniteResult(result, "Matrix.from", [component]);
+    return result;
+  }
+
+  /**
+   * Create Matrix from DOMMatrix, DOMMatrixReadOnly or DOMMatrix2DInit.
+   * Missing elements are filled as DOMMatrix does.
+   *
+   * @example
+   * Matrix.fromDOMMatrix(canvasContext.getTransform())
+   * Matrix.fromDOMMatrix({ m11: 2, m22: 2, m41: 10 })
+   * @param init object contains a-f or m11-m42
+   * @throws Error when a-f and m11-m42 are inconsistent
+   * @returns Matrix
+   */
+  static fromDOMMatrix(init: DOMMatrix2DInitLike): Matrix {
+    const [a, b, c, d, e, f] = readDOMMatrixElements(init);
+    const result = new Matrix(a, b, c, d, e, f);
+    if (isStrictMode())
+      assertFiniteResult(result, "Matrix.fromDOMMatrix", [init]);
+    return result;
+  }
+
+  /**
+   * Create Matrix maps 3 src points to 3 dst points exactly.
+   *
+   * @example
+   * // Map unit triangle to triangle drawn on screen
+   * Matrix.fromPoints(
+   *   [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 0, y: 1 }],
+   *   [{ x: 10, y: 10 }, { x: 30, y: 10 }, { x: 10, y: 50 }]
+   * )
+   * @param src Source points
+   * @param dst Target points. i-th point corresponds to i-th src point
+   * @returns Matrix or undefined if src points are on a line
+   */
+  static fromPoints(
+    src: readonly [VectorLike, VectorLike, VectorLike],
+    dst: readonly [VectorLike, VectorLike, VectorLike]
+  ): Matrix | undefined {
+    const fit = fitPointElements(src, dst, "affine");
+    if (fit === undefined) return undefined;
+    const result = new Matrix(fit.a, fit.b, fit.c, fit.d, fit.e, fit.f);
+    if (isStrictMode())
+      assertFiniteResult(result, "Matrix.fromPoints", [src, dst]);
+    return result;
+  }
+
+  /**
+   * Fit Matrix maps src points to dst points by least squares.
+   * Similarity and rigid models are fitted by Umeyama's method and never
+   * contain reflection.
+   *
+   * @example
+   * const fit = Matrix.fitPoints(touchedPoints, targetPoints, "similarity");
+   * if (fit !== undefined && fit.residual < 2) calibration = fit.matrix;
+   * @param src Source points
+   * @param dst Target points. i-th point corresponds to i-th src point
+   * @param model "affine", "similarity" or "rigid"
+   * @throws Error when src and dst have different length or too few points
+   * @returns Matrix and residual, or undefined if src points are degenerate.
+   * Affine model is degenerate when src points are on a line and
+   * other models are degenerate when src points are at same position
+   */
+  static fitPoints(
+    src: readonly VectorLike[],
+    dst: readonly VectorLike[],
+    model: PointFitModel = "affine"
+  ): MatrixFit | undefined {
+    const fit = fitPointElements(src, dst, model);
+    if (fit === undefined) return undefined;
+    const { a, b, c, d, e, f, residual } = fit;
+    const result = { matrix: new Matrix(a, b, c, d, e, f), residual };
+    if (isStrictMode())
+      assertFiniteResult(result, "Matrix.fitPoints", [src, dst, model]);
+    return result;
+  }
+
+  /**
+   * Create Matrix from SVG transform attribute or CSS 2D transform property.
+   * Unitless angles are treated as degrees like SVG.
+   *
+   * @example
+   * Matrix.parseTransform("translate(1px, 2px) rotate(90deg)")
+   * Matrix.parseTransform("rotate(45 10 10) skewX(0.1rad) scale(2)")
+   * @param str transform string
+   * @throws Error with position when str is malformed
    * @returns Matrix
    */
-  static from(component: Partial<MatrixComponent> | MatrixLike): Matrix {
-    if ("a" in component) {
-      return new Matrix(
-        component.a,
-        component.b,
-        component.c,
-        component.d,
-        component.e,
-        component.f
-      );
+  static parseTransform(str: string): Matrix {
+    const result = parseTransformFunctions(str)
+      .map((func) => Matrix.fromTransformFunction(func))
+      .reduce((m, f) => Matrix.multiply(m, f), Matrix.identity);
+    if (isStrictMode())
+      assertFiniteResult(result, "Matrix.parseTransform", [str]);
+    return result;
+  }
+
+  private static fromTransformFunction(func: TransformFunction): Matrix {
+    const args = func.args;
+    switch (func.name) {
+      case "matrix":
+        return new Matrix(args[0], args[1], args[2], args[3], args[4], args[5]);
+      case "translate":
+        return Matrix.translation({ x: args[0], y: args[1] || 0 });
+      case "translateX":
+        return Matrix.translation({ x: args[0], y: 0 });
+      case "translateY":
+        return Matrix.translation({ x: 0, y: args[0] });
+      case "scale":
+        return Matrix.scaling({
+          x: args[0],
+          y: args.length > 1 ? args[1] : args[0],
+        });
+      case "scaleX":
+        return Matrix.scaling({ x: args[0], y: 1 });
+      case "scaleY":
+        return Matrix.scaling({ x: 1, y: args[0] });
+      case "rotate": {
+        const center = { x: args[1] || 0, y: args[2] || 0 };
+        return Matrix.translation(center)
+          .globalize(Matrix.rotation(args[0]))
+          .globalize(Matrix.translation({ x: -center.x, y: -center.y }));
+      }
+      case "skew":
+        return new Matrix(
+          1,
+          Math.tan(args[1] || 0),
+          Math.tan(args[0]),
+          1,
+          0,
+          0
+        );
+      case "skewX":
+        return new Matrix(1, 0, Math.tan(args[0]), 1, 0, 0);
+      case "skewY":
+        return new Matrix(1, Math.tan(args[0]), 0, 1, 0, 0);
     }
-    const t = component.translation || { x: 0, y: 0 };
-    const s = component.scale || { x: 1, y: 1 };
-    const r = component.rotation || 0;
-    const sin = Math.sin(r);
-    const cos = Math.cos(r);
-    return new Matrix(s.x * cos, s.x * sin, -s.y * sin, s.y * cos, t.x, t.y);
   }
 
   /**
@@ -274,14 +776,68 @@ export class Matrix {
    * @returns result
    */
   static product(a: MatrixLike, b: MatrixLike): Matrix {
-    return new Matrix(
-      a.a * b.a + a.c * b.b,
-      a.b * b.a + a.d * b.b,
-      a.a * b.c + a.c * b.d,
-      a.b * b.c + a.d * b.d,
-      a.a * b.e + a.c * b.f + a.e,
-      a.b * b.e + a.d * b.f + a.f
-    );
+    const result = Matrix.multiply(a, b);
+    if (isStrictMode()) assertFiniteResult(result, "Matrix.product", [a, b]);
+    return result;
+  }
+
+  /**
+   * Create matrix interpolated between two matrices.
+   * Both matrices are decomposed and then translation, scale and skew are
+   * interpolated linearly and rotation is interpolated along the shortest arc.
+   *
+   * @param from matrix at t = 0
+   * @param to matrix at t = 1
+   * @param t interpolation ratio
+   * @returns interpolated matrix
+   */
+  static lerp(from: MatrixLike, to: MatrixLike, t: number): Matrix {
+    const c1 = Matrix.decomposeElements(from);
+    const c2 = Matrix.decomposeElements(to);
+    const result = Matrix.lerpComponents(c1, c2, t);
+    if (isStrictMode())
+      assertFiniteResult(result, "Matrix.lerp", [from, to, t]);
+    return result;
+  }
+
+  /**
+   * Create matrices sampled between two matrices at even intervals.
+   * First and last matrices are equal to `from` and `to` components.
+   *
+   * @param from matrix at first step
+   * @param to matrix at last step
+   * @param steps count of matrices, must be 2 or more
+   * @returns interpolated matrices
+   */
+  static lerpSteps(from: MatrixLike, to: MatrixLike, steps: number): Matrix[] {
+    if (steps < 2) throw new Error("steps must be 2 or more");
+    const c1 = Matrix.decomposeElements(from);
+    const c2 = Matrix.decomposeElements(to);
+    const result: Matrix[] = [];
+    for (let i = 0; i < steps; i++) {
+      result.push(Matrix.lerpComponents(c1, c2, i / (steps - 1)));
+    }
+    if (isStrictMode())
+      assertFiniteResult(result, "Matrix.lerpSteps", [from, to, steps]);
+    return result;
+  }
+
+  private static lerpComponents(
+    c1: Required<MatrixComponent>,
+    c2: Required<MatrixComponent>,
+    t: number
+  ): Matrix {
+    const rotationDelta = deltaAngle(c1.rotation, c2.rotation);
+    const lerp = (v1: VectorLike, v2: VectorLike): VectorLike => ({
+      x: v1.x + (v2.x - v1.x) * t,
+      y: v1.y + (v2.y - v1.y) * t,
+    });
+    return Matrix.compose({
+      translation: lerp(c1.translation, c2.translation),
+      rotation: c1.rotation + rotationDelta * t,
+      scale: lerp(c1.scale, c2.scale),
+      skew: c1.skew + (c2.skew - c1.skew) * t,
+    });
   }
 
   /**
@@ -292,7 +848,68 @@ export class Matrix {
    * @returns Vector
    */
   static productVector(m: MatrixLike, v: VectorLike): Vector {
-    return new Vector(m.a * v.x + m.c * v.y + m.e, m.b * v.x + m.d * v.y + m.f);
+    const result = Matrix.multiplyVector(m, v);
+    if (isStrictMode())
+      assertFiniteResult(result, "Matrix.productVector", [m, v]);
+    return result;
+  }
+
+  /**
+   * Compute m*v for each points stored as [x0, y0, x1, y1, ...].
+   * Each result is identical to `Matrix.productVector`.
+   *
+   * @param m matrix
+   * @param points points
+   * @param out buffer to store results. Default is `points` itself
+   * @returns `out`
+   */
+  static productVectors(
+    m: MatrixLike,
+    points: Float64Array,
+    out = points
+  ): Float64Array {
+    const result = Matrix.multiplyVectors(m, points, out);
+    if (isStrictMode())
+      assertFiniteResult(result, "Matrix.productVectors", [m, points]);
+    return result;
+  }
+
+  /**
+   * Compute m*n for each matrices stored as [a0, b0, c0, d0, e0, f0, a1, ...].
+   * Each result is identical to `Matrix.product`.
+   *
+   * @param m matrix
+   * @param matrices matrices
+   * @param out buffer to store results. Default is `matrices` itself
+   * @returns `out`
+   */
+  static productMatrices(
+    m: MatrixLike,
+    matrices: Float64Array,
+    out = matrices
+  ): Float64Array {
+    if (matrices.length % 6 !== 0)
+      throw new Error("matrices length is not multiple of 6");
+    if (out.length !== matrices.length)
+      throw new Error("out length is not equal to matrices length");
+    for (let i = 0; i < matrices.length; i += 6) {
+      const a = matrices[i];
+      const b = matrices[i + 1];
+      const c = matrices[i + 2];
+      const d = matrices[i + 3];
+      const e = matrices[i + 4];
+      const f = matrices[i + 5];
+      out[i] = m.a * a + m.c * b;
+      out[i + 1] = m.b * a + m.d * b;
+      out[i + 2] = m.a * c + m.c * d;
+      out[i + 3] = m.b * c + m.d * d;
+      out[i + 4] = m.a * e + m.c * f + m.e;
+      out[i + 5] = m.b * e + m.d * f + m.f;
+    }
+    const result = out;
+    if (isStrictMode())
+      assertFiniteResult(result, "Matrix.productMatrices", [m, matrices]);
+    return result;
   }
 
   /**
@@ -302,6 +919,128 @@ export class Matrix {
    * @returns inverse matrix
    */
   static inverse(m: MatrixLike): Matrix {
+    const result = Matrix.invert(m);
+    if (isStrictMode()) assertFiniteResult(result, "Matrix.inverse", [m]);
+    return result;
+  }
+
+  private static decomposeElements(
+    m: MatrixLike
+  ): {
+    translation: Vector;
+    rotation: number;
+    scale: Vector;
+    skew: number;
+  } {
+    const translation = new Vector(m.e, m.f);
+    const det = m.a * m.d - m.b * m.c;
+    let scaleX = Math.sqrt(m.a * m.a + m.b * m.b);
+
+    if (scaleX === 0) {
+      // x-axis is collapsed, so take rotation from y-axis
+      const scaleY = Math.sqrt(m.c * m.c + m.d * m.d);
+      const rotation = scaleY === 0 ? 0 : normalizeAngle(Math.atan2(-m.c, m.d));
+      return {
+        translation,
+        rotation,
+        scale: new Vector(0, scaleY),
+        skew: 0,
+      };
+    }
+
+    let rotation = Math.atan2(m.b, m.a);
+    if (det < 0 && Math.abs(rotation) > Math.PI / 2) {
+      // Flip x instead of y to keep rotation small
+      scaleX = -scaleX;
+      rotation = Math.atan2(-m.b, -m.a);
+    }
+    const scaleY = det / scaleX;
+    const skew = det === 0 ? 0 : Math.atan((m.a * m.c + m.b * m.d) / det);
+    return {
+      translation,
+      rotation: normalizeAngle(rotation),
+      scale: new Vector(scaleX, scaleY),
+      skew,
+    };
+  }
+
+  private static compose(component: Partial<PivotMatrixComponent>): Matrix {
+    const t = component.translation || { x: 0, y: 0 };
+    const s = component.scale || { x: 1, y: 1 };
+    const r = component.rotation || 0;
+    const k = component.skew || 0;
+    const sin = Math.sin(r);
+    const cos = Math.cos(r);
+    const tan = Math.tan(k);
+    const a = s.x * cos;
+    const b = s.x * sin;
+    const c = -s.y * (sin - cos * tan);
+    const d = s.y * (cos + sin * tan);
+    const p = component.pivot;
+    if (p === undefined) return new Matrix(a, b, c, d, t.x, t.y);
+    return new Matrix(
+      a,
+      b,
+      c,
+      d,
+      t.x - (a * p.x + c * p.y),
+      t.y - (b * p.x + d * p.y)
+    );
+  }
+
+  private static translate(m: MatrixLike, x: number, y: number): Matrix {
+    return new Matrix(m.a, m.b, m.c, m.d, m.e + x, m.f + y);
+  }
+
+  private static multiply(a: MatrixLike, b: MatrixLike): Matrix {
+    return new Matrix(
+      a.a * b.a + a.c * b.b,
+      a.b * b.a + a.d * b.b,
+      a.a * b.c + a.c * b.d,
+      a.b * b.c + a.d * b.d,
+      a.a * b.e + a.c * b.f + a.e,
+      a.b * b.e + a.d * b.f + a.f
+    );
+  }
+
+  // Apply m after self around pivot, as T(pivot) * m * T(-pivot) * self
+  private static multiplyAround(
+    m: MatrixLike,
+    self: MatrixLike,
+    pivot: VectorLike
+  ): Matrix {
+    const moved = Matrix.translate(self, -pivot.x, -pivot.y);
+    return Matrix.translate(Matrix.multiply(m, moved), pivot.x, pivot.y);
+  }
+
+  private static multiplyVector(m: MatrixLike, v: VectorLike): Vector {
+    return new Vector(m.a * v.x + m.c * v.y + m.e, m.b * v.x + m.d * v.y + m.f);
+  }
+
+  private static multiplyVectors(
+    m: MatrixLike,
+    points: Float64Array,
+    out: Float64Array
+  ): Float64Array {
+    if (points.length % 2 !== 0) throw new Error("points length is odd");
+    if (out.length !== points.length)
+      throw new Error("out length is not equal to points length");
+    for (let i = 0; i < points.length; i += 2) {
+      const x = points[i];
+      const y = points[i + 1];
+      out[i] = m.a * x + m.c * y + m.e;
+      out[i + 1] = m.b * x + m.d * y + m.f;
+    }
+    return out;
+  }
+
+  private static canInvert(m: MatrixLike, epsilon: number): boolean {
+    if (epsilon < 0) throw new Error("epsilon is negative");
+    const det = m.a * m.d - m.b * m.c;
+    return Number.isFinite(det) && Math.abs(det) > epsilon;
+  }
+
+  private static invert(m: MatrixLike): Matrix {
     // https://www.wolframalpha.com/input/?i=Inverse+[{{a%2Cc%2Ce}%2C{b%2Cd%2Cf}%2C{0%2C0%2C1}}]&lang=ja
     const denom = m.a * m.d - m.b * m.c;
 
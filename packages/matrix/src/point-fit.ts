@@ -0,0 +1,126 @@
+import { VectorLike } from "@trans-vector2d/vector";
+
+/**
+ * Transformation model to fit.
+ * - affine: any linear transformation and translation
+ * - similarity: rotation, uniform scale and translation
+ * - rigid: rotation and translation
+ */
+export type PointFitModel = "affine" | "similarity" | "rigid";
+
+/**
+ * Elements of fitted matrix and its error.
+ */
+export interface PointFitElements {
+  a: number;
+  b: number;
+  c: number;
+  d: number;
+  e: number;
+  f: number;
+  // Root mean square of distances between transformed src and dst
+  residual: number;
+}
+
+const centroid = (points: readonly VectorLike[]): VectorLike => {
+  let x = 0;
+  let y = 0;
+  for (const p of points) {
+    x += p.x;
+    y += p.y;
+  }
+  return { x: x / points.length, y: y / points.length };
+};
+
+const withResidual = (
+  src: readonly VectorLike[],
+  dst: readonly VectorLike[],
+  m: Omit<PointFitElements, "residual">
+): PointFitElements => {
+  let squaredSum = 0;
+  src.forEach((p, i) => {
+    const dx = m.a * p.x + m.c * p.y + m.e - dst[i].x;
+    const dy = m.b * p.x + m.d * p.y + m.f - dst[i].y;
+    squaredSum += dx * dx + dy * dy;
+  });
+  return { ...m, residual: Math.sqrt(squaredSum / src.length) };
+};
+
+/**
+ * Fit matrix elements maps src points to dst points by least squares.
+ * Affine model needs 3 or more src points not on a line.
+ * Similarity and rigid models need 2 or more src points not at same position.
+ *
+ * @param src Source points
+ * @param dst Target points. i-th point corresponds to i-th src point
+ * @param model Transformation model
+ * @returns Elements and residual or undefined if src points are degenerate
+ */
+export function fitPointElements(
+  src: readonly VectorLike[],
+  dst: readonly VectorLike[],
+  model: PointFitModel
+): PointFitElements | undefined {
+  if (src.length !== dst.length) {
+    throw new Error("src and dst have different length");
+  }
+  const minCount = model === "affine" ? 3 : 2;
+  if (src.length < minCount)
+    throw new Error(`points are less than ${minCount}`);
+
+  const cs = centroid(src);
+  const cd = centroid(dst);
+  // Covariances of centered points
+  let sxx = 0;
+  let sxy = 0;
+  let syy = 0;
+  let qxx = 0;
+  let qxy = 0;
+  let qyx = 0;
+  let qyy = 0;
+  src.forEach((p, i) => {
+    const px = p.x - cs.x;
+    const py = p.y - cs.y;
+    const qx = dst[i].x - cd.x;
+    const qy = dst[i].y - cd.y;
+    sxx += px * px;
+    sxy += px * py;
+    syy += py * py;
+    qxx += qx * px;
+    qxy += qx * py;
+    qyx += qy * px;
+    qyy += qy * py;
+  });
+  const spread = sxx + syy;
+  if (spread === 0) return undefined;
+
+  let a: number;
+  let b: number;
+  let c: number;
+  let d: number;
+  if (model === "affine") {
+    const det = sxx * syy - sxy * sxy;
+    // Compare with spread to be independent of unit of coordinates
+    if (det <= 10 ** -10 * spread * spread) return undefined;
+    a = (qxx * syy - qxy * sxy) / det;
+    c = (qxy * sxx - qxx * sxy) / det;
+    b = (qyx * syy - qyy * sxy) / det;
+    d = (qyy * sxx - qyx * sxy) / det;
+  } else {
+    // Closed form of Umeyama's method in 2d
+    const dot = qxx + qyy;
+    const cross = qyx - qxy;
+    const rotation = Math.atan2(cross, dot);
+    const scale =
+      model === "similarity"
+        ? Math.sqrt(dot * dot + cross * cross) / spread
+        : 1;
+    a = scale * Math.cos(rotation);
+    b = scale * Math.sin(rotation);
+    c = -b;
+    d = a;
+  }
+  const e = cd.x - (a * cs.x + c * cs.y);
+  const f = cd.y - (b * cs.x + d * cs.y);
+  return withResidual(src, dst, { a, b, c, d, e, f });
+}
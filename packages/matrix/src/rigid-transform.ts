@@ -0,0 +1,166 @@
+import {
+  Vector,
+  VectorLike,
+  normalizeAngle,
+  deltaAngle,
+} from "@trans-vector2d/vector";
+import { Matrix, MatrixLike } from "./matrix";
+
+/**
+ * Rotation and translation.
+ * RigidTransform is immutable and satisfies MatrixLike,
+ * so it can be passed to Matrix methods directly.
+ * Point is rotated first and then translated.
+ */
+export class RigidTransform implements MatrixLike {
+  static readonly identity = new RigidTransform(Vector.zero, 0);
+
+  readonly a: number;
+  readonly b: number;
+  readonly c: number;
+  readonly d: number;
+  readonly e: number;
+  readonly f: number;
+
+  /**
+   * @param translation Translation
+   * @param rotation Rotation angle. Normalized to (-PI, PI]
+   */
+  constructor(
+    public readonly translation: Vector,
+    public readonly rotation: number
+  ) {
+    this.rotation = normalizeAngle(rotation);
+    const cos = Math.cos(this.rotation);
+    const sin = Math.sin(this.rotation);
+    this.a = cos;
+    this.b = sin;
+    this.c = -sin;
+    this.d = cos;
+    this.e = translation.x;
+    this.f = translation.y;
+  }
+
+  /**
+   * Create RigidTransform from components.
+   *
+   * @param translation Translation
+   * @param rotation Rotation angle
+   * @returns RigidTransform
+   */
+  static from(translation: VectorLike, rotation = 0): RigidTransform {
+    return new RigidTransform(Vector.from(translation), rotation);
+  }
+
+  /**
+   * Create RigidTransform from matrix has no scale nor skew.
+   *
+   * @param m Matrix
+   * @param delta allowable error of scale and skew
+   * @returns RigidTransform or undefined if matrix has scale, skew or reflection
+   */
+  static fromMatrix(
+    m: MatrixLike,
+    delta = 10 ** -10
+  ): RigidTransform | undefined {
+    const { translation, rotation, scale, skew } = Matrix.from(m).decompose();
+    if (
+      Math.abs(scale.x - 1) > delta ||
+      Math.abs(scale.y - 1) > delta ||
+      Math.abs(skew) > delta
+    ) {
+      return undefined;
+    }
+    return new RigidTransform(translation, rotation);
+  }
+
+  /**
+   * Transform point from local space to global space.
+   *
+   * @param point Point in local space
+   * @returns Point in global space
+   */
+  globalizePoint(point: VectorLike): Vector {
+    return Vector.from(point).rotate(this.rotation).add(this.translation);
+  }
+
+  /**
+   * Transform point from global space to local space.
+   *
+   * @param point Point in global space
+   * @returns Point in local space
+   */
+  localizePoint(point: VectorLike): Vector {
+    return Vector.from(point).sub(this.translation).rotate(-this.rotation);
+  }
+
+  /**
+   * Create transform applies local transform and then self.
+   *
+   * @param local Transform in local space of self
+   * @returns self * local
+   */
+  globalize(local: RigidTransform): RigidTransform {
+    return new RigidTransform(
+      this.globalizePoint(local.translation),
+      this.rotation + local.rotation
+    );
+  }
+
+  /**
+   * Create transform expresses global transform in local space of self.
+   *
+   * @param global Transform in global space
+   * @returns inverse(self) * global
+   */
+  localize(global: RigidTransform): RigidTransform {
+    return new RigidTransform(
+      this.localizePoint(global.translation),
+      global.rotation - this.rotation
+    );
+  }
+
+  /**
+   * Create inverse transform without division.
+   *
+   * @returns Inverse transform
+   */
+  inverse(): RigidTransform {
+    return new RigidTransform(
+      this.translation.negate().rotate(-this.rotation),
+      -this.rotation
+    );
+  }
+
+  /**
+   * Create Matrix expresses self.
+   *
+   * @returns Matrix
+   */
+  toMatrix(): Matrix {
+    return new Matrix(this.a, this.b, this.c, this.d, this.e, this.f);
+  }
+
+  /**
+   * Return self is closed to other.
+   *
+   * @param other Other transform
+   * @param delta allowable error
+   * @returns self is closed to other
+   */
+  isClosedTo(other: RigidTransform, delta = 10 ** -10): boolean {
+    return (
+      this.translation.isClosedTo(other.translation, delta) &&
+      Math.abs(deltaAngle(this.rotation, other.rotation)) <= delta
+    );
+  }
+
+  /**
+   * Create string expresses self.
+   *
+   * @returns "RigidTransform(translation, rotation)"
+   */
+  toString(): string {
+    return `RigidTransform(${this.translation.toString()}, ${this.rotation})`;
+  }
+}
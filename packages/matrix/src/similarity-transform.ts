@@ -0,0 +1,209 @@
+import {
+  Vector,
+  VectorLike,
+  normalizeAngle,
+  deltaAngle,
+} from "@trans-vector2d/vector";
+import { Matrix, MatrixLike } from "./matrix";
+import { RigidTransform } from "./rigid-transform";
+
+/**
+ * Uniform scale, rotation and translation.
+ * SimilarityTransform is immutable and satisfies MatrixLike,
+ * so it can be passed to Matrix methods directly.
+ * Point is scaled and rotated first and then translated.
+ */
+export class SimilarityTransform implements MatrixLike {
+  static readonly identity = new SimilarityTransform(Vector.zero, 0, 1);
+
+  readonly a: number;
+  readonly b: number;
+  readonly c: number;
+  readonly d: number;
+  readonly e: number;
+  readonly f: number;
+
+  /**
+   * @param translation Translation
+   * @param rotation Rotation angle. Normalized to (-PI, PI]
+   * @param scale Uniform scale. Must be positive
+   */
+  constructor(
+    public readonly translation: Vector,
+    public readonly rotation: number,
+    public readonly scale: number
+  ) {
+    if (!(scale > 0)) throw new Error("scale is not positive");
+    this.rotation = normalizeAngle(rotation);
+    const cos = scale * Math.cos(this.rotation);
+    const sin = scale * Math.sin(this.rotation);
+    this.a = cos;
+    this.b = sin;
+    this.c = -sin;
+    this.d = cos;
+    this.e = translation.x;
+    this.f = translation.y;
+  }
+
+  /**
+   * Create SimilarityTransform from components.
+   *
+   * @param translation Translation
+   * @param rotation Rotation angle
+   * @param scale Uniform scale
+   * @returns SimilarityTransform
+   */
+  static from(
+    translation: VectorLike,
+    rotation = 0,
+    scale = 1
+  ): SimilarityTransform {
+    return new SimilarityTransform(Vector.from(translation), rotation, scale);
+  }
+
+  /**
+   * Create SimilarityTransform equivalent to RigidTransform.
+   *
+   * @param rigid RigidTransform
+   * @returns SimilarityTransform has scale 1
+   */
+  static fromRigid(rigid: RigidTransform): SimilarityTransform {
+    return new SimilarityTransform(rigid.translation, rigid.rotation, 1);
+  }
+
+  /**
+   * Create SimilarityTransform from matrix has uniform scale and no skew.
+   *
+   * @param m Matrix
+   * @param delta allowable error of scale and skew
+   * @returns SimilarityTransform or undefined if matrix has non-uniform scale,
+   * skew or reflection
+   */
+  static fromMatrix(
+    m: MatrixLike,
+    delta = 10 ** -10
+  ): SimilarityTransform | undefined {
+    const { translation, rotation, scale, skew } = Matrix.from(m).decompose();
+    if (
+      !(scale.x > 0) ||
+      Math.abs(scale.x - scale.y) > delta ||
+      Math.abs(skew) > delta
+    ) {
+      return undefined;
+    }
+    return new SimilarityTransform(translation, rotation, scale.x);
+  }
+
+  /**
+   * Transform point from local space to global space.
+   *
+   * @param point Point in local space
+   * @returns Point in global space
+   */
+  globalizePoint(point: VectorLike): Vector {
+    return Vector.from(point)
+      .mlt(this.scale)
+      .rotate(this.rotation)
+      .add(this.translation);
+  }
+
+  /**
+   * Transform point from global space to local space.
+   *
+   * @param point Point in global space
+   * @returns Point in local space
+   */
+  localizePoint(point: VectorLike): Vector {
+    return Vector.from(point)
+      .sub(this.translation)
+      .rotate(-this.rotation)
+      .div(this.scale);
+  }
+
+  /**
+   * Create transform applies local transform and then self.
+   *
+   * @param local Transform in local space of self
+   * @returns self * local
+   */
+  globalize(local: SimilarityTransform | RigidTransform): SimilarityTransform {
+    const scale = local instanceof SimilarityTransform ? local.scale : 1;
+    return new SimilarityTransform(
+      this.globalizePoint(local.translation),
+      this.rotation + local.rotation,
+      this.scale * scale
+    );
+  }
+
+  /**
+   * Create transform expresses global transform in local space of self.
+   *
+   * @param global Transform in global space
+   * @returns inverse(self) * global
+   */
+  localize(global: SimilarityTransform | RigidTransform): SimilarityTransform {
+    const scale = global instanceof SimilarityTransform ? global.scale : 1;
+    return new SimilarityTransform(
+      this.localizePoint(global.translation),
+      global.rotation - this.rotation,
+      scale / this.scale
+    );
+  }
+
+  /**
+   * Create inverse transform from components.
+   *
+   * @returns Inverse transform
+   */
+  inverse(): SimilarityTransform {
+    return new SimilarityTransform(
+      this.translation.negate().rotate(-this.rotation).div(this.scale),
+      -this.rotation,
+      1 / this.scale
+    );
+  }
+
+  /**
+   * Create RigidTransform by dropping scale.
+   *
+   * @returns RigidTransform has same translation and rotation
+   */
+  toRigid(): RigidTransform {
+    return new RigidTransform(this.translation, this.rotation);
+  }
+
+  /**
+   * Create Matrix expresses self.
+   *
+   * @returns Matrix
+   */
+  toMatrix(): Matrix {
+    return new Matrix(this.a, this.b, this.c, this.d, this.e, this.f);
+  }
+
+  /**
+   * Return self is closed to other.
+   *
+   * @param other Other transform
+   * @param delta allowable error
+   * @returns self is closed to other
+   */
+  isClosedTo(other: SimilarityTransform, delta = 10 ** -10): boolean {
+    return (
+      this.translation.isClosedTo(other.translation, delta) &&
+      Math.abs(deltaAngle(this.rotation, other.rotation)) <= delta &&
+      Math.abs(this.scale - other.scale) <= delta
+    );
+  }
+
+  /**
+   * Create string expresses self.
+   *
+   * @returns "SimilarityTransform(translation, rotation, scale)"
+   */
+  toString(): string {
+    return `SimilarityTransform(${this.translation.toString()}, ${
+      this.rotation
+    }, ${this.scale})`;
+  }
+}
@@ -0,0 +1,190 @@
+import { Vector, VectorLike } from "@trans-vector2d/vector";
+import { Matrix, MatrixLike } from "./matrix";
+
+/**
+ * Builder composes transform step by step.
+ * TransformBuilder is immutable, so each operation creates new builder.
+ *
+ * Each operation is applied in either space.
+ * - Local operation is applied before current transform, in local space.
+ *   It works like editing object in its own coordinates.
+ * - Global operation is applied after current transform, in parent space.
+ *   It works like editing object on screen.
+ *
+ * Rotation and scaling are applied around pivot.
+ * Pivot is fixed to local space, so it moves with object.
+ *
+ * @example
+ * // Sprite 64x32 placed at (100, 100) and spun around its center on screen
+ * const m = TransformBuilder.identity
+ *   .withAnchor({ x: 0.5, y: 0.5 }, { x: 64, y: 32 })
+ *   .translateGlobal({ x: 100, y: 100 })
+ *   .rotateGlobal(Math.PI / 4)
+ *   .build();
+ */
+export class TransformBuilder {
+  static readonly identity = new TransformBuilder(Matrix.identity, Vector.zero);
+
+  /**
+   * @param matrix Current transform
+   * @param pivot Pivot in local space
+   */
+  constructor(public readonly matrix: Matrix, public readonly pivot: Vector) {}
+
+  /**
+   * Create builder starts from matrix.
+   *
+   * @param m Initial transform
+   * @param pivot Pivot in local space
+   * @returns TransformBuilder
+   */
+  static from(
+    m: MatrixLike,
+    pivot: VectorLike = Vector.zero
+  ): TransformBuilder {
+    return new TransformBuilder(Matrix.from(m), Vector.from(pivot));
+  }
+
+  /**
+   * Create builder has other pivot.
+   * Changing pivot does not move object.
+   *
+   * @param pivot Pivot in local space
+   * @returns TransformBuilder
+   */
+  withPivot(pivot: VectorLike): TransformBuilder {
+    return new TransformBuilder(this.matrix, Vector.from(pivot));
+  }
+
+  /**
+   * Create builder has pivot at relative position of box.
+   *
+   * @example
+   * // Pivot at center of 64x32 box
+   * builder.withAnchor({ x: 0.5, y: 0.5 }, { x: 64, y: 32 })
+   * @param anchor Relative position. (0, 0) is origin and (1, 1) is opposite corner
+   * @param size Size of box starts at origin of local space
+   * @returns TransformBuilder
+   */
+  withAnchor(anchor: VectorLike, size: VectorLike): TransformBuilder {
+    return this.withPivot({ x: anchor.x * size.x, y: anchor.y * size.y });
+  }
+
+  /**
+   * Compute position of pivot in parent space.
+   *
+   * @returns Pivot in global space
+   */
+  globalPivot(): Vector {
+    return this.matrix.globalizePoint(this.pivot);
+  }
+
+  /**
+   * Apply transform before current transform.
+   *
+   * @param m Transform in local space
+   * @returns TransformBuilder
+   */
+  transformLocal(m: MatrixLike): TransformBuilder {
+    return new TransformBuilder(this.matrix.globalize(m), this.pivot);
+  }
+
+  /**
+   * Apply transform after current transform.
+   *
+   * @param m Transform in global space
+   * @returns TransformBuilder
+   */
+  transformGlobal(m: MatrixLike): TransformBuilder {
+    return new TransformBuilder(this.matrix.globalizedBy(m), this.pivot);
+  }
+
+  /**
+   * Translate along axes of local space.
+   *
+   * @param delta Translation in local space
+   * @returns TransformBuilder
+   */
+  translateLocal(delta: VectorLike): TransformBuilder {
+    return this.transformLocal(Matrix.translation(delta));
+  }
+
+  /**
+   * Translate along axes of parent space.
+   *
+   * @param delta Translation in global space
+   * @returns TransformBuilder
+   */
+  translateGlobal(delta: VectorLike): TransformBuilder {
+    return new TransformBuilder(this.matrix.translated(delta), this.pivot);
+  }
+
+  /**
+   * Rotate in local space.
+   * Rotation is affected by scale and skew of current transform.
+   *
+   * @param angle Rotation angle
+   * @param pivot Fixed point in local space. Default is pivot of builder
+   * @returns TransformBuilder
+   */
+  rotateLocal(angle: number, pivot: VectorLike = this.pivot): TransformBuilder {
+    return this.transformLocal(Matrix.identity.rotatedAround(angle, pivot));
+  }
+
+  /**
+   * Rotate in parent space.
+   *
+   * @param angle Rotation angle
+   * @param pivot Fixed point in global space. Default is pivot of builder
+   * @returns TransformBuilder
+   */
+  rotateGlobal(
+    angle: number,
+    pivot: VectorLike = this.globalPivot()
+  ): TransformBuilder {
+    return new TransformBuilder(
+      this.matrix.rotatedAround(angle, pivot),
+      this.pivot
+    );
+  }
+
+  /**
+   * Scale along axes of local space.
+   *
+   * @param scale Scale
+   * @param pivot Fixed point in local space. Default is pivot of builder
+   * @returns TransformBuilder
+   */
+  scaleLocal(
+    scale: VectorLike,
+    pivot: VectorLike = this.pivot
+  ): TransformBuilder {
+    return this.transformLocal(Matrix.identity.scaledAround(scale, pivot));
+  }
+
+  /**
+   * Scale along axes of parent space.
+   *
+   * @param scale Scale
+   * @param pivot Fixed point in global space. Default is pivot of builder
+   * @returns TransformBuilder
+   */
+  scaleGlobal(
+    scale: VectorLike,
+    pivot: VectorLike = this.globalPivot()
+  ): TransformBuilder {
+    return new TransformBuilder(
+      this.matrix.scaledAround(scale, pivot),
+      this.pivot
+    );
+  }
+
+  /**
+   * Create matrix composed so far.
+   *
+   * @returns Matrix
+   */
+  build(): Matrix {
+    return this.matrix;
+  }
+}
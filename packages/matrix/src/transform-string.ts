@@ -0,0 +1,163 @@
+export type TransformFunctionName =
+  | "matrix"
+  | "translate"
+  | "translateX"
+  | "translateY"
+  | "scale"
+  | "scaleX"
+  | "scaleY"
+  | "rotate"
+  | "skew"
+  | "skewX"
+  | "skewY";
+
+/**
+ * Parsed function of transform string.
+ * Angles are converted to radians and lengths are converted to unitless numbers.
+ */
+export interface TransformFunction {
+  name: TransformFunctionName;
+  args: number[];
+}
+
+type ArgKind = "number" | "length" | "angle";
+
+const signatures: {
+  [name in TransformFunctionName]: { kinds: ArgKind[]; counts: number[] };
+} = {
+  matrix: {
+    kinds: ["number", "number", "number", "number", "number", "number"],
+    counts: [6],
+  },
+  translate: { kinds: ["length", "length"], counts: [1, 2] },
+  translateX: { kinds: ["length"], counts: [1] },
+  translateY: { kinds: ["length"], counts: [1] },
+  scale: { kinds: ["number", "number"], counts: [1, 2] },
+  scaleX: { kinds: ["number"], counts: [1] },
+  scaleY: { kinds: ["number"], counts: [1] },
+  rotate: { kinds: ["angle", "length", "length"], counts: [1, 3] },
+  skew: { kinds: ["angle", "angle"], counts: [1, 2] },
+  skewX: { kinds: ["angle"], counts: [1] },
+  skewY: { kinds: ["angle"], counts: [1] },
+};
+
+// Count of each unit in half turn
+const angleUnits: { [unit: string]: number } = {
+  "": 180,
+  deg: 180,
+  rad: Math.PI,
+  grad: 200,
+  turn: 0.5,
+};
+
+const numberPattern = /^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/;
+const identPattern = /^[a-zA-Z%]+/;
+
+/**
+ * Parse SVG transform attribute or CSS 2D transform property.
+ * Unitless angles are treated as degrees like SVG.
+ *
+ * @example
+ * parseTransformFunctions("translate(10px, 20px) rotate(90deg)")
+ * // [{ name: "translate", args: [10, 20] }, { name: "rotate", args: [Math.PI / 2] }]
+ * @param str transform string
+ * @returns parsed functions in written order
+ */
+export function parseTransformFunctions(str: string): TransformFunction[] {
+  let pos = 0;
+
+  const fail = (message: string): never => {
+    const found = pos < str.length ? `"${str[pos]}"` : "end of input";
+    throw new Error(
+      `Invalid transform: ${message} but found ${found} at position ${pos}`
+    );
+  };
+  const skipSpaces = (): void => {
+    while (pos < str.length && /\s/.test(str[pos])) pos += 1;
+  };
+  const skipSeparator = (): void => {
+    skipSpaces();
+    if (str[pos] === ",") {
+      pos += 1;
+      skipSpaces();
+    }
+  };
+  const readIdent = (): string => {
+    const match = identPattern.exec(str.slice(pos));
+    if (match === null) return "";
+    pos += match[0].length;
+    return match[0];
+  };
+  const readArg = (kind: ArgKind): number => {
+    const match = numberPattern.exec(str.slice(pos));
+    if (match === null) return fail("expected number");
+    pos += match[0].length;
+    const value = parseFloat(match[0]);
+    const unitPos = pos;
+    const unit = readIdent().toLowerCase();
+    const isAngleUnit = Object.prototype.hasOwnProperty.call(angleUnits, unit);
+    if (kind === "angle" && unit === "rad") return value;
+    if (kind === "angle" && isAngleUnit)
+      return (value * Math.PI) / angleUnits[unit];
+    if (kind === "length" && (unit === "" || unit === "px")) return value;
+    if (kind === "number" && unit === "") return value;
+    pos = unitPos;
+    return fail(`expected ${kind}`);
+  };
+
+  skipSpaces();
+  if (/^none\s*$/i.test(str.slice(pos))) return [];
+
+  const functions: TransformFunction[] = [];
+  while (pos < str.length) {
+    if (functions.length > 0) skipSeparator();
+    if (pos >= str.length) break;
+
+    const namePos = pos;
+    const rawName = readIdent();
+    const name = (Object.keys(signatures) as TransformFunctionName[]).filter(
+      (n) => n.toLowerCase() === rawName.toLowerCase()
+    )[0];
+    if (name === undefined) {
+      pos = namePos;
+      return fail("expected transform function");
+    }
+
+    skipSpaces();
+    if (str[pos] !== "(") fail('expected "("');
+    pos += 1;
+    skipSpaces();
+
+    const signature = signatures[name];
+    const args: number[] = [];
+    while (str[pos] !== ")") {
+      if (args.length > 0) skipSeparator();
+      if (args.length >= signature.kinds.length) fail('expected ")"');
+      args.push(readArg(signature.kinds[args.length]));
+      skipSpaces();
+    }
+    if (signature.counts.indexOf(args.length) < 0)
+      fail(`expected ${signature.counts.join(" or ")} arguments for ${name}`);
+    pos += 1;
+
+    functions.push({ name, args });
+  }
+  return functions;
+}
+
+/**
+ * Format number for transform string.
+ *
+ * @param value number
+ * @param precision count of fraction digits. All digits are used if undefined
+ * @returns formatted number
+ */
+export function formatTransformNumber(
+  value: number,
+  precision?: number
+): string {
+  const rounded =
+    precision === undefined ? value : Number(value.toFixed(precision));
+  // Avoid "-0"
+  return String(rounded === 0 ? 0 : rounded);
+}
@@ -0,0 +1,124 @@
+import { QuadraticBezier, CubicBezier } from "../src";
+import { Vector } from "@trans-vector2d/vector";
+import { Matrix } from "@trans-vector2d/matrix";
+
+const v = (x: number, y: number): Vector => new Vector(x, y);
+
+describe("@trans-vector2d/path.QuadraticBezier", () => {
+  const curve = new QuadraticBezier(v(0, 0), v(1, 2), v(2, 0));
+
+  it("can compute point, tangent and normal at parameter", () => {
+    expect(curve.pointAt(0)).toEqual(v(0, 0));
+    expect(curve.pointAt(0.5).isClosedTo({ x: 1, y: 1 })).toBe(true);
+    expect(curve.pointAt(1)).toEqual(v(2, 0));
+    expect(curve.tangentAt(0.5).isClosedTo({ x: 1, y: 0 })).toBe(true);
+    expect(curve.normalAt(0.5).isClosedTo({ x: 0, y: 1 })).toBe(true);
+  });
+
+  it("can be split into curves have same points", () => {
+    const [before, after] = curve.split(0.25);
+
+    expect(before.pointAt(1).isClosedTo(curve.pointAt(0.25))).toBe(true);
+    expect(before.pointAt(0.5).isClosedTo(curve.pointAt(0.125))).toBe(true);
+    expect(after.pointAt(0.5).isClosedTo(curve.pointAt(0.625))).toBe(true);
+  });
+
+  it("can compute tight bounds", () => {
+    const bounds = curve.bounds();
+
+    expect(bounds.min.isClosedTo({ x: 0, y: 0 })).toBe(true);
+    expect(bounds.max.isClosedTo({ x: 2, y: 1 })).toBe(true);
+  });
+
+  it("can be elevated to cubic bezier", () => {
+    const cubic = curve.toCubic();
+
+    for (const t of [0, 0.3, 0.7, 1]) {
+      expect(cubic.pointAt(t).isClosedTo(curve.pointAt(t))).toBe(true);
+    }
+  });
+});
+
+describe("@trans-vector2d/path.CubicBezier", () => {
+  const curve = new CubicBezier(v(0, 0), v(0, 1), v(2, -1), v(2, 0));
+
+  it("can compute point and tangent at parameter", () => {
+    expect(curve.pointAt(0.5).isClosedTo({ x: 1, y: 0 })).toBe(true);
+    expect(curve.tangentAt(0).isClosedTo({ x: 0, y: 1 })).toBe(true);
+    expect(curve.normalAt(0).isClosedTo({ x: -1, y: 0 })).toBe(true);
+  });
+
+  it("can compute tangent where derivative is zero", () => {
+    const degenerated = new CubicBezier(v(0, 0), v(0, 0), v(1, 1), v(1, 1));
+
+    const expected = v(1, 1).unit();
+    expect(degenerated.tangentAt(0).isClosedTo(expected)).toBe(true);
+    expect(degenerated.tangentAt(1).isClosedTo(expected)).toBe(true);
+  });
+
+  it("can be split into curves have same points", () => {
+    const [before, after] = curve.split(0.4);
+
+    for (const t of [0, 0.5, 1]) {
+      expect(before.pointAt(t).isClosedTo(curve.pointAt(0.4 * t))).toBe(true);
+      expect(after.pointAt(t).isClosedTo(curve.pointAt(0.4 + 0.6 * t))).toBe(
+        true
+      );
+    }
+  });
+
+  it("can compute tight bounds", () => {
+    const bounds = curve.bounds();
+    // y(t) = 3t(1-t)(1-2t) is extremal at t = 1/2 -+ sqrt(3)/6
+    const extremum = Math.sqrt(3) / 6;
+
+    expect(bounds.min.isClosedTo({ x: 0, y: -extremum })).toBe(true);
+    expect(bounds.max.isClosedTo({ x: 2, y: extremum })).toBe(true);
+  });
+
+  it("can compute length and point at length", () => {
+    const straight = new CubicBezier(v(0, 0), v(3, 0), v(3, 0), v(3, 0));
+
+    expect(straight.length()).toBeCloseTo(3);
+    expect(straight.pointAtLength(1).isClosedTo({ x: 1, y: 0 })).toBe(true);
+    expect(straight.pointAtLength(10)).toEqual(v(3, 0));
+    expect(curve.pointAtLength(curve.length() / 2).isClosedTo(v(1, 0))).toBe(
+      true
+    );
+  });
+
+  it("can be flattened within tolerance", () => {
+    const tolerance = 0.01;
+    const points = curve.flatten(tolerance);
+
+    expect(points[0]).toEqual(curve.start);
+    expect(points[points.length - 1]).toEqual(curve.end);
+    for (let i = 0; i <= 100; i++) {
+      const p = curve.pointAt(i / 100);
+      const distance = Math.min(
+        ...points.slice(1).map((q, j) => {
+          const a = points[j];
+          const d = q.sub(a);
+          const r = Math.min(1, Math.max(0, d.dot(p.sub(a)) / d.squaredNorm()));
+          return p.distance(a.add(d.mlt(r)));
+        })
+      );
+      expect(distance).toBeLessThanOrEqual(tolerance);
+    }
+  });
+
+  it("can not be flattened with non-positive tolerance", () => {
+    expect(() => curve.flatten(0)).toThrowError();
+  });
+
+  it("can be transformed by matrix", () => {
+    const m = Matrix.from({ translation: { x: 1, y: 2 }, rotation: 1 });
+    const transformed = curve.transformedBy(m);
+
+    for (const t of [0, 0.3, 1]) {
+      expect(
+        transformed.pointAt(t).isClosedTo(m.globalizePoint(curve.pointAt(t)))
+      ).toBe(true);
+    }
+  });
+});
@@ -0,0 +1,120 @@
+import { EllipticArc } from "../src";
+import { Vector } from "@trans-vector2d/vector";
+import { Matrix } from "@trans-vector2d/matrix";
+
+const v = (x: number, y: number): Vector => new Vector(x, y);
+
+describe("@trans-vector2d/path.EllipticArc", () => {
+  it("can compute point, tangent and normal at parameter", () => {
+    const arc = EllipticArc.fromCircle(v(1, 1), 2, 0, Math.PI / 2);
+
+    expect(arc.pointAt(0).isClosedTo({ x: 3, y: 1 })).toBe(true);
+    expect(arc.pointAt(1).isClosedTo({ x: 1, y: 3 })).toBe(true);
+    expect(arc.tangentAt(0).isClosedTo({ x: 0, y: 1 })).toBe(true);
+    expect(arc.normalAt(0).isClosedTo({ x: -1, y: 0 })).toBe(true);
+  });
+
+  it("can compute length", () => {
+    const arc = EllipticArc.fromCircle(v(0, 0), 2, 1, -Math.PI);
+
+    expect(arc.length()).toBeCloseTo(2 * Math.PI);
+    expect(arc.pointAtLength(Math.PI).isClosedTo(arc.pointAt(0.5))).toBe(true);
+  });
+
+  it("can be split", () => {
+    const arc = EllipticArc.fromCircle(v(0, 0), 1, 0, Math.PI);
+    const [before, after] = arc.split(0.5);
+
+    expect(before.pointAt(1).isClosedTo({ x: 0, y: 1 })).toBe(true);
+    expect(after.pointAt(1).isClosedTo({ x: -1, y: 0 })).toBe(true);
+  });
+
+  it.each`
+    start          | sweep           | min                                      | max
+    ${0}           | ${Math.PI}      | ${{ x: -1, y: 0 }}                       | ${{ x: 1, y: 1 }}
+    ${Math.PI / 4} | ${-Math.PI / 2} | ${{ x: Math.SQRT1_2, y: -Math.SQRT1_2 }} | ${{ x: 1, y: Math.SQRT1_2 }}
+    ${0}           | ${Math.PI * 2}  | ${{ x: -1, y: -1 }}                      | ${{ x: 1, y: 1 }}
+  `(
+    "can compute tight bounds of circle arc from $start sweeps $sweep",
+    ({ start, sweep, min, max }) => {
+      const bounds = EllipticArc.fromCircle(v(0, 0), 1, start, sweep).bounds();
+
+      expect(bounds.min.isClosedTo(min)).toBe(true);
+      expect(bounds.max.isClosedTo(max)).toBe(true);
+    }
+  );
+
+  it("can compute tight bounds of rotated ellipse", () => {
+    const arc = EllipticArc.fromEllipse(
+      v(0, 0),
+      v(2, 1),
+      Math.PI / 4,
+      0,
+      Math.PI * 2
+    );
+    // Half width of rotated ellipse is sqrt((rx^2 + ry^2) / 2)
+    const half = Math.sqrt(2.5);
+
+    const bounds = arc.bounds();
+    expect(bounds.min.isClosedTo({ x: -half, y: -half })).toBe(true);
+    expect(bounds.max.isClosedTo({ x: half, y: half })).toBe(true);
+  });
+
+  it("can be transformed by matrix exactly", () => {
+    const arc = EllipticArc.fromCircle(v(1, 0), 1, 0, Math.PI);
+    const m = Matrix.from({ scale: { x: 2, y: 1 }, skew: 0.3, rotation: 1 });
+    const transformed = arc.transformedBy(m);
+
+    for (const t of [0, 0.4, 1]) {
+      expect(
+        transformed.pointAt(t).isClosedTo(m.globalizePoint(arc.pointAt(t)))
+      ).toBe(true);
+    }
+  });
+
+  it.each`
+    largeArc | sweep    | center
+    ${false} | ${true}  | ${{ x: 1, y: 2 }}
+    ${true}  | ${false} | ${{ x: 1, y: 2 }}
+    ${false} | ${false} | ${{ x: 1, y: 0 }}
+    ${true}  | ${true}  | ${{ x: 1, y: 0 }}
+  `(
+    "can be created from endpoints with largeArc $largeArc and sweep $sweep",
+    ({ largeArc, sweep, center }) => {
+      const radius = Math.sqrt(2);
+      const arc = EllipticArc.fromEndpoints(
+        v(0, 1),
+        v(radius, radius),
+        0,
+        largeArc,
+        sweep,
+        v(2, 1)
+      ) as EllipticArc;
+
+      expect(arc.pointAt(0).isClosedTo({ x: 0, y: 1 })).toBe(true);
+      expect(arc.pointAt(1).isClosedTo({ x: 2, y: 1 })).toBe(true);
+      expect(arc.pointAt(0.5).distance(center)).toBeCloseTo(radius);
+      expect(Math.abs(arc.sweepAngle) > Math.PI).toBe(largeArc);
+      expect(arc.sweepAngle > 0).toBe(sweep);
+    }
+  );
+
+  it("can scale radii up to connect endpoints", () => {
+    const arc = EllipticArc.fromEndpoints(
+      v(0, 0),
+      v(1, 1),
+      0,
+      false,
+      true,
+      v(4, 0)
+    ) as EllipticArc;
+
+    expect(arc.pointAt(0.5).isClosedTo({ x: 2, y: -2 })).toBe(true);
+  });
+
+  it("can not be created from endpoints with zero radius", () => {
+    expect(
+      EllipticArc.fromEndpoints(v(0, 0), v(0, 1), 0, false, true, v(1, 0))
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,95 @@
+import { Path, LineCurve, CubicBezier, EllipticArc } from "../src";
+import { Vector } from "@trans-vector2d/vector";
+import { Matrix } from "@trans-vector2d/matrix";
+
+const v = (x: number, y: number): Vector => new Vector(x, y);
+
+describe("@trans-vector2d/path.Path", () => {
+  const path = new Path([
+    new LineCurve(v(0, 0), v(2, 0)),
+    EllipticArc.fromCircle(v(2, 1), 1, -Math.PI / 2, Math.PI),
+    new LineCurve(v(2, 2), v(0, 2)),
+  ]);
+
+  it("can compute point, tangent and normal at parameter", () => {
+    expect(path.pointAt(1 / 6).isClosedTo({ x: 1, y: 0 })).toBe(true);
+    expect(path.pointAt(0.5).isClosedTo({ x: 3, y: 1 })).toBe(true);
+    expect(path.pointAt(1).isClosedTo({ x: 0, y: 2 })).toBe(true);
+    expect(path.tangentAt(0.5).isClosedTo({ x: 0, y: 1 })).toBe(true);
+    expect(path.normalAt(0.5).isClosedTo({ x: -1, y: 0 })).toBe(true);
+  });
+
+  it("can compute length and evaluate at length", () => {
+    expect(path.length()).toBeCloseTo(4 + Math.PI);
+    expect(path.pointAtLength(1).isClosedTo({ x: 1, y: 0 })).toBe(true);
+    expect(path.pointAtLength(2 + Math.PI / 2).isClosedTo({ x: 3, y: 1 })).toBe(
+      true
+    );
+    expect(path.tangentAtLength(3 + Math.PI).isClosedTo({ x: -1, y: 0 })).toBe(
+      true
+    );
+    expect(path.normalAtLength(3 + Math.PI).isClosedTo({ x: 0, y: -1 })).toBe(
+      true
+    );
+    expect(path.pointAtLength(100).isClosedTo({ x: 0, y: 2 })).toBe(true);
+  });
+
+  it("can be split", () => {
+    const [before, after] = path.split(0.5);
+
+    expect(before.segments).toHaveLength(2);
+    expect(after.segments).toHaveLength(2);
+    expect(before.length() + after.length()).toBeCloseTo(path.length());
+    expect(after.pointAt(0).isClosedTo({ x: 3, y: 1 })).toBe(true);
+  });
+
+  it("can compute tight bounds", () => {
+    const bounds = path.bounds();
+
+    expect(bounds.min.isClosedTo({ x: 0, y: 0 })).toBe(true);
+    expect(bounds.max.isClosedTo({ x: 3, y: 2 })).toBe(true);
+  });
+
+  it("can be flattened into polyline for each connected part", () => {
+    const separated = new Path([
+      new LineCurve(v(0, 0), v(1, 0)),
+      new CubicBezier(v(1, 0), v(2, 0), v(2, 1), v(3, 1)),
+      new LineCurve(v(5, 5), v(6, 5)),
+    ]);
+
+    const polylines = separated.flatten(0.01);
+
+    expect(polylines).toHaveLength(2);
+    expect(polylines[0][0]).toEqual(v(0, 0));
+    expect(polylines[0][polylines[0].length - 1]).toEqual(v(3, 1));
+    expect(polylines[1]).toEqual([v(5, 5), v(6, 5)]);
+  });
+
+  it("can be transformed by matrix", () => {
+    const m = Matrix.from({
+      translation: { x: 1, y: 1 },
+      scale: { x: 2, y: 2 },
+    });
+    const transformed = path.transformedBy(m);
+
+    expect(transformed.length()).toBeCloseTo(path.length() * 2);
+    expect(transformed.pointAt(0.5).isClosedTo({ x: 7, y: 3 })).toBe(true);
+  });
+
+  it("can be created from SVG path data", () => {
+    const fromSVG = Path.fromSVG("M0 0 H2 A1 1 0 0 1 2 2 L0 2");
+
+    expect(fromSVG.segments).toHaveLength(3);
+    expect(fromSVG.length()).toBeCloseTo(path.length());
+    expect(fromSVG.pointAt(0.5).isClosedTo({ x: 3, y: 1 })).toBe(true);
+  });
+
+  it("can not evaluate empty path", () => {
+    const empty = new Path([]);
+
+    expect(empty.length()).toBe(0);
+    expect(() => empty.pointAt(0)).toThrowError("path is empty");
+    expect(() => empty.pointAtLength(0)).toThrowError("path is empty");
+    expect(() => empty.bounds()).toThrowError("path is empty");
+  });
+});
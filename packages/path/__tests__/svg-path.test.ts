@@ -0,0 +1,99 @@
+import {
+  parsePathData,
+  LineCurve,
+  QuadraticBezier,
+  CubicBezier,
+  EllipticArc,
+} from "../src";
+import { Vector } from "@trans-vector2d/vector";
+
+const v = (x: number, y: number): Vector => new Vector(x, y);
+
+describe("@trans-vector2d/path.parsePathData", () => {
+  it("can parse absolute and relative lines", () => {
+    const curves = parsePathData("M 1 1 L 3 1 l 0 2 H 0 v -1 h1 V0");
+
+    expect(curves).toEqual([
+      new LineCurve(v(1, 1), v(3, 1)),
+      new LineCurve(v(3, 1), v(3, 3)),
+      new LineCurve(v(3, 3), v(0, 3)),
+      new LineCurve(v(0, 3), v(0, 2)),
+      new LineCurve(v(0, 2), v(1, 2)),
+      new LineCurve(v(1, 2), v(1, 0)),
+    ]);
+  });
+
+  it("can treat extra pairs of move command as lines", () => {
+    const curves = parsePathData("m1,1 2,0 0,2");
+
+    expect(curves).toEqual([
+      new LineCurve(v(1, 1), v(3, 1)),
+      new LineCurve(v(3, 1), v(3, 3)),
+    ]);
+  });
+
+  it("can parse compact numbers", () => {
+    const curves = parsePathData("M.5-1L1e1.5-2.5-.5");
+
+    expect(curves).toEqual([
+      new LineCurve(v(0.5, -1), v(10, 0.5)),
+      new LineCurve(v(10, 0.5), v(-2.5, -0.5)),
+    ]);
+  });
+
+  it("can parse cubic and smooth cubic curves", () => {
+    const curves = parsePathData("M0 0 C 0 1 1 1 1 0 s 1 -1 1 0");
+
+    expect(curves).toEqual([
+      new CubicBezier(v(0, 0), v(0, 1), v(1, 1), v(1, 0)),
+      new CubicBezier(v(1, 0), v(1, -1), v(2, -1), v(2, 0)),
+    ]);
+  });
+
+  it("can parse quadratic and smooth quadratic curves", () => {
+    const curves = parsePathData("M0 0 Q 1 1 2 0 T 4 0 M 0 0 T 1 1");
+
+    expect(curves).toEqual([
+      new QuadraticBezier(v(0, 0), v(1, 1), v(2, 0)),
+      new QuadraticBezier(v(2, 0), v(3, -1), v(4, 0)),
+      new QuadraticBezier(v(0, 0), v(0, 0), v(1, 1)),
+    ]);
+  });
+
+  it("can parse arcs with compact flags", () => {
+    const curves = parsePathData("M0 0 a1 1 0 011 1 A 0 1 0 0 0 2 2");
+
+    expect(curves).toHaveLength(2);
+    expect(curves[0]).toBeInstanceOf(EllipticArc);
+    expect(curves[0].pointAt(1).isClosedTo({ x: 1, y: 1 })).toBe(true);
+    expect(curves[0].pointAt(0.5).distance({ x: 0, y: 1 })).toBeCloseTo(1);
+    // Arc with zero radius is treated as line
+    expect(curves[1]).toEqual(new LineCurve(v(1, 1), v(2, 2)));
+  });
+
+  it("can close subpaths", () => {
+    const curves = parsePathData("M0 0 L1 0 L1 1 Z M2 2 L3 2 L2 2 z");
+
+    expect(curves).toEqual([
+      new LineCurve(v(0, 0), v(1, 0)),
+      new LineCurve(v(1, 0), v(1, 1)),
+      new LineCurve(v(1, 1), v(0, 0)),
+      new LineCurve(v(2, 2), v(3, 2)),
+      new LineCurve(v(3, 2), v(2, 2)),
+    ]);
+  });
+
+  it("can parse empty path data", () => {
+    expect(parsePathData("  ")).toEqual([]);
+  });
+
+  it.each`
+    d                          | message
+    ${"L 1 1"}                 | ${'Invalid path data: expected "M" or "m" but found "L" at position 0'}
+    ${"M 0 0 X 1"}             | ${'Invalid path data: expected command but found "X" at position 6'}
+    ${"M 0 0 L 1"}             | ${"Invalid path data: expected number but found end of input at position 9"}
+    ${"M 0 0 A 1 1 0 2 0 1 1"} | ${'Invalid path data: expected "0" or "1" but found "2" at position 14'}
+  `("can not parse invalid path data $d", ({ d, message }) => {
+    expect(() => parsePathData(d)).toThrowError(message);
+  });
+});
@@ -0,0 +1,355 @@
+import { Vector } from "@trans-vector2d/vector";
+import { Matrix, MatrixLike } from "@trans-vector2d/matrix";
+import { Rect } from "@trans-vector2d/rect";
+import {
+  Curve,
+  curveTangent,
+  curveLength,
+  curveParameterAtLength,
+  flattenCurve,
+} from "./curve";
+
+const quadraticRoots = (a: number, b: number, c: number): number[] => {
+  if (Math.abs(a) < 10 ** -12) return b === 0 ? [] : [-c / b];
+  const disc = b * b - 4 * a * c;
+  if (disc < 0) return [];
+  const sqrtDisc = Math.sqrt(disc);
+  return [(-b - sqrtDisc) / (2 * a), (-b + sqrtDisc) / (2 * a)];
+};
+
+/**
+ * Cubic bezier curve.
+ * CubicBezier is immutable.
+ */
+export class CubicBezier implements Curve {
+  readonly kind = "cubic";
+
+  /**
+   * @param start Start point at t = 0
+   * @param control1 Control point near start
+   * @param control2 Control point near end
+   * @param end End point at t = 1
+   */
+  constructor(
+    public readonly start: Vector,
+    public readonly control1: Vector,
+    public readonly control2: Vector,
+    public readonly end: Vector
+  ) {}
+
+  /**
+   * Compute point at parameter.
+   *
+   * @param t Parameter. 0 is start and 1 is end
+   * @returns Point
+   */
+  pointAt(t: number): Vector {
+    const u = 1 - t;
+    return this.start
+      .mlt(u * u * u)
+      .add(this.control1.mlt(3 * u * u * t))
+      .add(this.control2.mlt(3 * u * t * t))
+      .add(this.end.mlt(t * t * t));
+  }
+
+  /**
+   * Compute derivative by parameter.
+   *
+   * @param t Parameter
+   * @returns Derivative
+   */
+  derivativeAt(t: number): Vector {
+    const u = 1 - t;
+    return this.control1
+      .sub(this.start)
+      .mlt(3 * u * u)
+      .add(this.control2.sub(this.control1).mlt(6 * u * t))
+      .add(this.end.sub(this.control2).mlt(3 * t * t));
+  }
+
+  /**
+   * Compute unit tangent at parameter.
+   *
+   * @param t Parameter
+   * @returns Unit tangent
+   */
+  tangentAt(t: number): Vector {
+    return curveTangent(this, t);
+  }
+
+  /**
+   * Compute unit normal at parameter.
+   * Normal is tangent rotated by +90 degrees.
+   *
+   * @param t Parameter
+   * @returns Unit normal
+   */
+  normalAt(t: number): Vector {
+    return this.tangentAt(t).perpLeft();
+  }
+
+  /**
+   * Split self at parameter by de Casteljau's algorithm.
+   *
+   * @param t Parameter
+   * @returns Curves before and after t
+   */
+  split(t: number): [CubicBezier, CubicBezier] {
+    const p01 = this.start.lerp(this.control1, t);
+    const p12 = this.control1.lerp(this.control2, t);
+    const p23 = this.control2.lerp(this.end, t);
+    const p012 = p01.lerp(p12, t);
+    const p123 = p12.lerp(p23, t);
+    const p = p012.lerp(p123, t);
+    return [
+      new CubicBezier(this.start, p01, p012, p),
+      new CubicBezier(p, p123, p23, this.end),
+    ];
+  }
+
+  /**
+   * Create tight bounding rect of self.
+   * Extrema are computed from roots of derivative.
+   *
+   * @returns Bounding rect
+   */
+  bounds(): Rect {
+    const points = [this.start, this.end];
+    // Derivative / 3 = a * t^2 + b * t + c
+    const a = this.end
+      .sub(this.start)
+      .add(this.control1.sub(this.control2).mlt(3));
+    const b = this.start.sub(this.control1.mlt(2)).add(this.control2).mlt(2);
+    const c = this.control1.sub(this.start);
+    for (const axis of ["x", "y"] as const) {
+      for (const t of quadraticRoots(a[axis], b[axis], c[axis])) {
+        if (0 < t && t < 1) points.push(this.pointAt(t));
+      }
+    }
+    return Rect.fromPoints(points);
+  }
+
+  /**
+   * Compute arc length of self.
+   *
+   * @returns Arc length
+   */
+  length(): number {
+    return curveLength(this);
+  }
+
+  /**
+   * Compute parameter at arc length from start.
+   *
+   * @param s Arc length. Clamped to [0, length]
+   * @returns Parameter
+   */
+  parameterAtLength(s: number): number {
+    return curveParameterAtLength(this, s);
+  }
+
+  /**
+   * Compute point at arc length from start.
+   *
+   * @param s Arc length. Clamped to [0, length]
+   * @returns Point
+   */
+  pointAtLength(s: number): Vector {
+    return this.pointAt(this.parameterAtLength(s));
+  }
+
+  /**
+   * Approximate self with polyline.
+   *
+   * @param tolerance Maximum distance between self and polyline
+   * @returns Points of polyline contains both end points
+   */
+  flatten(tolerance: number): Vector[] {
+    return flattenCurve(this, tolerance);
+  }
+
+  /**
+   * Create curve transformed by matrix.
+   * Bezier curves are transformed exactly by transforming control points.
+   *
+   * @param matrix Transformation matrix
+   * @returns Transformed curve
+   */
+  transformedBy(matrix: MatrixLike): CubicBezier {
+    return new CubicBezier(
+      Matrix.productVector(matrix, this.start),
+      Matrix.productVector(matrix, this.control1),
+      Matrix.productVector(matrix, this.control2),
+      Matrix.productVector(matrix, this.end)
+    );
+  }
+}
+
+/**
+ * Quadratic bezier curve.
+ * QuadraticBezier is immutable.
+ */
+export class QuadraticBezier implements Curve {
+  readonly kind = "quadratic";
+
+  /**
+   * @param start Start point at t = 0
+   * @param control Control point
+   * @param end End point at t = 1
+   */
+  constructor(
+    public readonly start: Vector,
+    public readonly control: Vector,
+    public readonly end: Vector
+  ) {}
+
+  /**
+   * Compute point at parameter.
+   *
+   * @param t Parameter. 0 is start and 1 is end
+   * @returns Point
+   */
+  pointAt(t: number): Vector {
+    const u = 1 - t;
+    return this.start
+      .mlt(u * u)
+      .add(this.control.mlt(2 * u * t))
+      .add(this.end.mlt(t * t));
+  }
+
+  /**
+   * Compute derivative by parameter.
+   *
+   * @param t Parameter
+   * @returns Derivative
+   */
+  derivativeAt(t: number): Vector {
+    return this.control
+      .sub(this.start)
+      .mlt(2 * (1 - t))
+      .add(this.end.sub(this.control).mlt(2 * t));
+  }
+
+  /**
+   * Compute unit tangent at parameter.
+   *
+   * @param t Parameter
+   * @returns Unit tangent
+   */
+  tangentAt(t: number): Vector {
+    return curveTangent(this, t);
+  }
+
+  /**
+   * Compute unit normal at parameter.
+   * Normal is tangent rotated by +90 degrees.
+   *
+   * @param t Parameter
+   * @returns Unit normal
+   */
+  normalAt(t: number): Vector {
+    return this.tangentAt(t).perpLeft();
+  }
+
+  /**
+   * Split self at parameter by de Casteljau's algorithm.
+   *
+   * @param t Parameter
+   * @returns Curves before and after t
+   */
+  split(t: number): [QuadraticBezier, QuadraticBezier] {
+    const p01 = this.start.lerp(this.control, t);
+    const p12 = this.control.lerp(this.end, t);
+    const p = p01.lerp(p12, t);
+    return [
+      new QuadraticBezier(this.start, p01, p),
+      new QuadraticBezier(p, p12, this.end),
+    ];
+  }
+
+  /**
+   * Create tight bounding rect of self.
+   * Extrema are computed from roots of derivative.
+   *
+   * @returns Bounding rect
+   */
+  bounds(): Rect {
+    const points = [this.start, this.end];
+    const denom = this.start.sub(this.control.mlt(2)).add(this.end);
+    const numer = this.start.sub(this.control);
+    for (const axis of ["x", "y"] as const) {
+      if (denom[axis] === 0) continue;
+      const t = numer[axis] / denom[axis];
+      if (0 < t && t < 1) points.push(this.pointAt(t));
+    }
+    return Rect.fromPoints(points);
+  }
+
+  /**
+   * Compute arc length of self.
+   *
+   * @returns Arc length
+   */
+  length(): number {
+    return curveLength(this);
+  }
+
+  /**
+   * Compute parameter at arc length from start.
+   *
+   * @param s Arc length. Clamped to [0, length]
+   * @returns Parameter
+   */
+  parameterAtLength(s: number): number {
+    return curveParameterAtLength(this, s);
+  }
+
+  /**
+   * Compute point at arc length from start.
+   *
+   * @param s Arc length. Clamped to [0, length]
+   * @returns Point
+   */
+  pointAtLength(s: number): Vector {
+    return this.pointAt(this.parameterAtLength(s));
+  }
+
+  /**
+   * Approximate self with polyline.
+   *
+   * @param tolerance Maximum distance between self and polyline
+   * @returns Points of polyline contains both end points
+   */
+  flatten(tolerance: number): Vector[] {
+    return flattenCurve(this, tolerance);
+  }
+
+  /**
+   * Create curve transformed by matrix.
+   * Bezier curves are transformed exactly by transforming control points.
+   *
+   * @param matrix Transformation matrix
+   * @returns Transformed curve
+   */
+  transformedBy(matrix: MatrixLike): QuadraticBezier {
+    return new QuadraticBezier(
+      Matrix.productVector(matrix, this.start),
+      Matrix.productVector(matrix, this.control),
+      Matrix.productVector(matrix, this.end)
+    );
+  }
+
+  /**
+   * Elevate degree of self to cubic bezier curve.
+   *
+   * @returns Identical cubic bezier curve
+   */
+  toCubic(): CubicBezier {
+    return new CubicBezier(
+      this.start,
+      this.start.lerp(this.control, 2 / 3),
+      this.end.lerp(this.control, 2 / 3),
+      this.end
+    );
+  }
+}
@@ -0,0 +1,173 @@
+import { Vector } from "@trans-vector2d/vector";
+import { MatrixLike } from "@trans-vector2d/matrix";
+import { Rect } from "@trans-vector2d/rect";
+
+/**
+ * Parametric curve defined on 0 <= t <= 1.
+ * Line, bezier curves and arc implement this interface.
+ */
+export interface Curve {
+  readonly kind: string;
+  pointAt(t: number): Vector;
+  derivativeAt(t: number): Vector;
+  tangentAt(t: number): Vector;
+  normalAt(t: number): Vector;
+  split(t: number): [Curve, Curve];
+  bounds(): Rect;
+  length(): number;
+  parameterAtLength(s: number): number;
+  pointAtLength(s: number): Vector;
+  flatten(tolerance: number): Vector[];
+  transformedBy(matrix: MatrixLike): Curve;
+}
+
+// 5 points Gauss-Legendre quadrature on [-1, 1]
+const gaussNodes = [
+  0,
+  -0.5384693101056831,
+  0.5384693101056831,
+  -0.906179845938664,
+  0.906179845938664,
+];
+const gaussWeights = [
+  0.5688888888888889,
+  0.4786286704993665,
+  0.4786286704993665,
+  0.2369268850561891,
+  0.2369268850561891,
+];
+
+const tableDivision = 32;
+const maxFlattenDepth = 16;
+const lengthTables = new WeakMap<Curve, number[]>();
+
+const integrateSpeed = (curve: Curve, t0: number, t1: number): number => {
+  const half = (t1 - t0) / 2;
+  const mid = (t0 + t1) / 2;
+  let sum = 0;
+  for (let i = 0; i < gaussNodes.length; i++) {
+    sum +=
+      gaussWeights[i] * curve.derivativeAt(mid + half * gaussNodes[i]).norm();
+  }
+  return sum * half;
+};
+
+const lengthTable = (curve: Curve): number[] => {
+  const cached = lengthTables.get(curve);
+  if (cached !== undefined) return cached;
+  const table = [0];
+  for (let i = 0; i < tableDivision; i++) {
+    const t0 = i / tableDivision;
+    const t1 = (i + 1) / tableDivision;
+    table.push(table[i] + integrateSpeed(curve, t0, t1));
+  }
+  lengthTables.set(curve, table);
+  return table;
+};
+
+/**
+ * Compute unit tangent of curve.
+ * Direction of chord is used where derivative is zero.
+ *
+ * @param curve Curve
+ * @param t Parameter
+ * @returns Unit tangent
+ */
+export function curveTangent(curve: Curve, t: number): Vector {
+  const tangent = curve.derivativeAt(t).tryUnit();
+  if (tangent !== undefined) return tangent;
+  // Derivative vanishes at end points of degenerated bezier curves
+  const nearby = curve.derivativeAt(t < 0.5 ? t + 10 ** -6 : t - 10 ** -6);
+  return (
+    nearby.tryUnit() ||
+    curve.pointAt(1).sub(curve.pointAt(0)).unitOr({ x: 1, y: 0 })
+  );
+}
+
+/**
+ * Compute arc length of curve by numerical integration.
+ * Result is cached for each curve.
+ *
+ * @param curve Curve
+ * @returns Arc length
+ */
+export function curveLength(curve: Curve): number {
+  const table = lengthTable(curve);
+  return table[table.length - 1];
+}
+
+/**
+ * Compute parameter of curve at arc length from start.
+ *
+ * @param curve Curve
+ * @param s Arc length. Clamped to [0, length]
+ * @returns Parameter
+ */
+export function curveParameterAtLength(curve: Curve, s: number): number {
+  const table = lengthTable(curve);
+  const total = table[table.length - 1];
+  if (total === 0 || s <= 0) return 0;
+  if (s >= total) return 1;
+
+  let low = 0;
+  let high = tableDivision;
+  while (high - low > 1) {
+    const mid = Math.floor((low + high) / 2);
+    if (table[mid] <= s) low = mid;
+    else high = mid;
+  }
+  const t0 = low / tableDivision;
+  const t1 = high / tableDivision;
+  const ratio = (s - table[low]) / (table[high] - table[low]);
+  let t = t0 + (t1 - t0) * ratio;
+  // Refine linear guess by Newton's method
+  for (let i = 0; i < 3; i++) {
+    const speed = curve.derivativeAt(t).norm();
+    if (speed === 0) break;
+    const error = table[low] + integrateSpeed(curve, t0, t) - s;
+    t = Math.min(t1, Math.max(t0, t - error / speed));
+  }
+  return t;
+}
+
+const distanceToChord = (p: Vector, start: Vector, end: Vector): number => {
+  const chord = end.sub(start);
+  const lengthSq = chord.squaredNorm();
+  if (lengthSq === 0) return p.distance(start);
+  const t = Math.min(1, Math.max(0, chord.dot(p.sub(start)) / lengthSq));
+  return p.distance(start.add(chord.mlt(t)));
+};
+
+/**
+ * Approximate curve with polyline.
+ *
+ * @param curve Curve
+ * @param tolerance Maximum distance between curve and polyline
+ * @returns Points of polyline contains both end points
+ */
+export function flattenCurve(curve: Curve, tolerance: number): Vector[] {
+  if (tolerance <= 0) throw new Error("tolerance is not positive");
+  const points = [curve.pointAt(0)];
+  const subdivide = (
+    t0: number,
+    t1: number,
+    p0: Vector,
+    p1: Vector,
+    depth: number
+  ): void => {
+    const isFlat = [0.25, 0.5, 0.75].every((r) => {
+      const p = curve.pointAt(t0 + (t1 - t0) * r);
+      return distanceToChord(p, p0, p1) <= tolerance;
+    });
+    if ((depth > 0 && isFlat) || depth >= maxFlattenDepth) {
+      points.push(p1);
+      return;
+    }
+    const tm = (t0 + t1) / 2;
+    const pm = curve.pointAt(tm);
+    subdivide(t0, tm, p0, pm, depth + 1);
+    subdivide(tm, t1, pm, p1, depth + 1);
+  };
+  subdivide(0, 1, points[0], curve.pointAt(1), 0);
+  return points;
+}
@@ -0,0 +1,288 @@
+import { Vector, VectorLike } from "@trans-vector2d/vector";
+import { Matrix, MatrixLike } from "@trans-vector2d/matrix";
+import { Rect } from "@trans-vector2d/rect";
+import {
+  Curve,
+  curveTangent,
+  curveLength,
+  curveParameterAtLength,
+  flattenCurve,
+} from "./curve";
+
+/**
+ * Arc of ellipse expressed as unit circle arc transformed by matrix.
+ * Point at t is matrix * (cos(angle), sin(angle)) where angle = startAngle + sweepAngle * t.
+ * EllipticArc is immutable.
+ */
+export class EllipticArc implements Curve {
+  readonly kind = "arc";
+
+  /**
+   * @param matrix Matrix maps unit circle to ellipse
+   * @param startAngle Angle of unit circle at t = 0
+   * @param sweepAngle Signed angle from start to end. Positive is direction from x-axis to y-axis
+   */
+  constructor(
+    public readonly matrix: Matrix,
+    public readonly startAngle: number,
+    public readonly sweepAngle: number
+  ) {}
+
+  /**
+   * Compute point at parameter.
+   *
+   * @param t Parameter. 0 is start and 1 is end
+   * @returns Point
+   */
+  pointAt(t: number): Vector {
+    const angle = this.startAngle + this.sweepAngle * t;
+    return this.matrix.globalizePoint({
+      x: Math.cos(angle),
+      y: Math.sin(angle),
+    });
+  }
+
+  /**
+   * Compute derivative by parameter.
+   *
+   * @param t Parameter
+   * @returns Derivative
+   */
+  derivativeAt(t: number): Vector {
+    const angle = this.startAngle + this.sweepAngle * t;
+    const dx = -Math.sin(angle) * this.sweepAngle;
+    const dy = Math.cos(angle) * this.sweepAngle;
+    const { a, b, c, d } = this.matrix;
+    return new Vector(a * dx + c * dy, b * dx + d * dy);
+  }
+
+  /**
+   * Compute unit tangent at parameter.
+   *
+   * @param t Parameter
+   * @returns Unit tangent
+   */
+  tangentAt(t: number): Vector {
+    return curveTangent(this, t);
+  }
+
+  /**
+   * Compute unit normal at parameter.
+   * Normal is tangent rotated by +90 degrees.
+   *
+   * @param t Parameter
+   * @returns Unit normal
+   */
+  normalAt(t: number): Vector {
+    return this.tangentAt(t).perpLeft();
+  }
+
+  /**
+   * Split self at parameter.
+   *
+   * @param t Parameter
+   * @returns Arcs before and after t
+   */
+  split(t: number): [EllipticArc, EllipticArc] {
+    const sweep = this.sweepAngle * t;
+    return [
+      new EllipticArc(this.matrix, this.startAngle, sweep),
+      new EllipticArc(
+        this.matrix,
+        this.startAngle + sweep,
+        this.sweepAngle - sweep
+      ),
+    ];
+  }
+
+  /**
+   * Create tight bounding rect of self.
+   *
+   * @returns Bounding rect
+   */
+  bounds(): Rect {
+    const points = [this.pointAt(0), this.pointAt(1)];
+    const low = Math.min(this.startAngle, this.startAngle + this.sweepAngle);
+    const high = Math.max(this.startAngle, this.startAngle + this.sweepAngle);
+    const { a, b, c, d } = this.matrix;
+    // x and y are extremal where their derivatives by angle are zero
+    for (const extremal of [Math.atan2(c, a), Math.atan2(d, b)]) {
+      let angle = extremal + Math.ceil((low - extremal) / Math.PI) * Math.PI;
+      for (; angle <= high; angle += Math.PI) {
+        points.push(
+          this.matrix.globalizePoint({ x: Math.cos(angle), y: Math.sin(angle) })
+        );
+      }
+    }
+    return Rect.fromPoints(points);
+  }
+
+  /**
+   * Compute arc length of self.
+   *
+   * @returns Arc length
+   */
+  length(): number {
+    return curveLength(this);
+  }
+
+  /**
+   * Compute parameter at arc length from start.
+   *
+   * @param s Arc length. Clamped to [0, length]
+   * @returns Parameter
+   */
+  parameterAtLength(s: number): number {
+    return curveParameterAtLength(this, s);
+  }
+
+  /**
+   * Compute point at arc length from start.
+   *
+   * @param s Arc length. Clamped to [0, length]
+   * @returns Point
+   */
+  pointAtLength(s: number): Vector {
+    return this.pointAt(this.parameterAtLength(s));
+  }
+
+  /**
+   * Approximate self with polyline.
+   *
+   * @param tolerance Maximum distance between self and polyline
+   * @returns Points of polyline contains both end points
+   */
+  flatten(tolerance: number): Vector[] {
+    return flattenCurve(this, tolerance);
+  }
+
+  /**
+   * Create arc transformed by matrix.
+   * Arcs are transformed exactly because affine image of ellipse is ellipse.
+   *
+   * @param matrix Transformation matrix
+   * @returns Transformed arc
+   */
+  transformedBy(matrix: MatrixLike): EllipticArc {
+    return new EllipticArc(
+      Matrix.product(matrix, this.matrix),
+      this.startAngle,
+      this.sweepAngle
+    );
+  }
+
+  /**
+   * Create arc of ellipse.
+   *
+   * @param center Center of ellipse
+   * @param radii Radii along x-axis and y-axis of ellipse
+   * @param rotation Rotation of ellipse
+   * @param startAngle Angle of ellipse at start
+   * @param sweepAngle Signed angle from start to end
+   * @returns Arc
+   */
+  static fromEllipse(
+    center: VectorLike,
+    radii: VectorLike,
+    rotation: number,
+    startAngle: number,
+    sweepAngle: number
+  ): EllipticArc {
+    const matrix = Matrix.from({
+      translation: center,
+      rotation,
+      scale: radii,
+    });
+    return new EllipticArc(matrix, startAngle, sweepAngle);
+  }
+
+  /**
+   * Create arc of circle.
+   *
+   * @param center Center of circle
+   * @param radius Radius of circle
+   * @param startAngle Angle at start
+   * @param sweepAngle Signed angle from start to end
+   * @returns Arc
+   */
+  static fromCircle(
+    center: VectorLike,
+    radius: number,
+    startAngle: number,
+    sweepAngle: number
+  ): EllipticArc {
+    return EllipticArc.fromEllipse(
+      center,
+      { x: radius, y: radius },
+      0,
+      startAngle,
+      sweepAngle
+    );
+  }
+
+  /**
+   * Create arc from SVG endpoint parameterization.
+   * Radii are scaled up when they are too small to connect end points.
+   *
+   * @param start Start point
+   * @param radii Radii of ellipse
+   * @param rotation Rotation of ellipse as radians
+   * @param largeArc Use arc larger than 180 degrees
+   * @param sweep Use arc drawn in positive angle direction
+   * @param end End point
+   * @returns Arc or undefined if either radius is zero or end points are equal
+   */
+  static fromEndpoints(
+    start: VectorLike,
+    radii: VectorLike,
+    rotation: number,
+    largeArc: boolean,
+    sweep: boolean,
+    end: VectorLike
+  ): EllipticArc | undefined {
+    let rx = Math.abs(radii.x);
+    let ry = Math.abs(radii.y);
+    const p0 = Vector.from(start);
+    const p1 = Vector.from(end);
+    if (rx === 0 || ry === 0 || p0.equals(p1)) return undefined;
+
+    // Half of chord in ellipse axes
+    const h = p0.sub(p1).div(2).rotate(-rotation);
+    const lambda = (h.x * h.x) / (rx * rx) + (h.y * h.y) / (ry * ry);
+    if (lambda > 1) {
+      rx *= Math.sqrt(lambda);
+      ry *= Math.sqrt(lambda);
+    }
+    const rxSq = rx * rx;
+    const rySq = ry * ry;
+    const num = rxSq * rySq - rxSq * h.y * h.y - rySq * h.x * h.x;
+    const den = rxSq * h.y * h.y + rySq * h.x * h.x;
+    const coef =
+      (largeArc !== sweep ? 1 : -1) * Math.sqrt(Math.max(0, num / den));
+    const centerInAxes = new Vector(
+      (coef * rx * h.y) / ry,
+      (-coef * ry * h.x) / rx
+    );
+    const center = centerInAxes.rotate(rotation).add(p0.add(p1).div(2));
+
+    const u = new Vector(
+      (h.x - centerInAxes.x) / rx,
+      (h.y - centerInAxes.y) / ry
+    );
+    const v = new Vector(
+      (-h.x - centerInAxes.x) / rx,
+      (-h.y - centerInAxes.y) / ry
+    );
+    const startAngle = u.angle();
+    let sweepAngle = Math.atan2(u.cross(v), u.dot(v));
+    if (!sweep && sweepAngle > 0) sweepAngle -= 2 * Math.PI;
+    if (sweep && sweepAngle < 0) sweepAngle += 2 * Math.PI;
+    return EllipticArc.fromEllipse(
+      center,
+      { x: rx, y: ry },
+      rotation,
+      startAngle,
+      sweepAngle
+    );
+  }
+}
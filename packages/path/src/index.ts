@@ -0,0 +1,6 @@
+export * from "./curve";
+export * from "./line-curve";
+export * from "./bezier";
+export * from "./elliptic-arc";
+export * from "./path";
+export * from "./svg-path";
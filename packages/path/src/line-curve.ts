@@ -0,0 +1,134 @@
+import { Vector } from "@trans-vector2d/vector";
+import { Matrix, MatrixLike } from "@trans-vector2d/matrix";
+import { Rect } from "@trans-vector2d/rect";
+import { Curve, curveTangent } from "./curve";
+
+/**
+ * Straight curve between two points.
+ * LineCurve is immutable.
+ */
+export class LineCurve implements Curve {
+  readonly kind = "line";
+
+  /**
+   * @param start Start point at t = 0
+   * @param end End point at t = 1
+   */
+  constructor(public readonly start: Vector, public readonly end: Vector) {}
+
+  /**
+   * Compute point at parameter.
+   *
+   * @param t Parameter. 0 is start and 1 is end
+   * @returns Point
+   */
+  pointAt(t: number): Vector {
+    return this.start.lerp(this.end, t);
+  }
+
+  /**
+   * Compute derivative by parameter.
+   *
+   * @param _t Parameter
+   * @returns Derivative
+   */
+  derivativeAt(_t: number): Vector {
+    return this.end.sub(this.start);
+  }
+
+  /**
+   * Compute unit tangent at parameter.
+   *
+   * @param t Parameter
+   * @returns Unit tangent
+   */
+  tangentAt(t: number): Vector {
+    return curveTangent(this, t);
+  }
+
+  /**
+   * Compute unit normal at parameter.
+   * Normal is tangent rotated by +90 degrees.
+   *
+   * @param t Parameter
+   * @returns Unit normal
+   */
+  normalAt(t: number): Vector {
+    return this.tangentAt(t).perpLeft();
+  }
+
+  /**
+   * Split self at parameter.
+   *
+   * @param t Parameter
+   * @returns Curves before and after t
+   */
+  split(t: number): [LineCurve, LineCurve] {
+    const p = this.pointAt(t);
+    return [new LineCurve(this.start, p), new LineCurve(p, this.end)];
+  }
+
+  /**
+   * Create bounding rect of self.
+   *
+   * @returns Bounding rect
+   */
+  bounds(): Rect {
+    return Rect.fromPoints([this.start, this.end]);
+  }
+
+  /**
+   * Compute length of self.
+   *
+   * @returns Length
+   */
+  length(): number {
+    return this.start.distance(this.end);
+  }
+
+  /**
+   * Compute parameter at arc length from start.
+   *
+   * @param s Arc length. Clamped to [0, length]
+   * @returns Parameter
+   */
+  parameterAtLength(s: number): number {
+    const length = this.length();
+    if (length === 0) return 0;
+    return Math.min(1, Math.max(0, s / length));
+  }
+
+  /**
+   * Compute point at arc length from start.
+   *
+   * @param s Arc length. Clamped to [0, length]
+   * @returns Point
+   */
+  pointAtLength(s: number): Vector {
+    return this.pointAt(this.parameterAtLength(s));
+  }
+
+  /**
+   * Approximate self with polyline.
+   *
+   * @param tolerance Maximum distance between self and polyline
+   * @returns Start and end points
+   */
+  flatten(tolerance: number): Vector[] {
+    if (tolerance <= 0) throw new Error("tolerance is not positive");
+    return [this.start, this.end];
+  }
+
+  /**
+   * Create curve transformed by matrix.
+   *
+   * @param matrix Transformation matrix
+   * @returns Transformed curve
+   */
+  transformedBy(matrix: MatrixLike): LineCurve {
+    return new LineCurve(
+      Matrix.productVector(matrix, this.start),
+      Matrix.productVector(matrix, this.end)
+    );
+  }
+}
@@ -0,0 +1,188 @@
+import { Vector } from "@trans-vector2d/vector";
+import { MatrixLike } from "@trans-vector2d/matrix";
+import { Rect } from "@trans-vector2d/rect";
+import { Curve } from "./curve";
+import { parsePathData } from "./svg-path";
+
+/**
+ * Sequence of curves.
+ * Each curve occupies equal range of parameter t and
+ * gaps between curves (e.g. subpaths of SVG path) are not measured as length.
+ * Path is immutable.
+ */
+export class Path {
+  /**
+   * @param segments Curves in drawing order
+   */
+  constructor(public readonly segments: readonly Curve[]) {}
+
+  /**
+   * Compute point at parameter.
+   *
+   * @param t Parameter. 0 is start of first segment and 1 is end of last segment
+   * @returns Point
+   */
+  pointAt(t: number): Vector {
+    const { segment, localT } = this.locate(t);
+    return segment.pointAt(localT);
+  }
+
+  /**
+   * Compute unit tangent at parameter.
+   *
+   * @param t Parameter
+   * @returns Unit tangent
+   */
+  tangentAt(t: number): Vector {
+    const { segment, localT } = this.locate(t);
+    return segment.tangentAt(localT);
+  }
+
+  /**
+   * Compute unit normal at parameter.
+   * Normal is tangent rotated by +90 degrees.
+   *
+   * @param t Parameter
+   * @returns Unit normal
+   */
+  normalAt(t: number): Vector {
+    const { segment, localT } = this.locate(t);
+    return segment.normalAt(localT);
+  }
+
+  /**
+   * Split self at parameter.
+   *
+   * @param t Parameter
+   * @returns Paths before and after t
+   */
+  split(t: number): [Path, Path] {
+    const { index, localT } = this.locate(t);
+    const [before, after] = this.segments[index].split(localT);
+    return [
+      new Path([...this.segments.slice(0, index), before]),
+      new Path([after, ...this.segments.slice(index + 1)]),
+    ];
+  }
+
+  /**
+   * Create tight bounding rect of self.
+   *
+   * @returns Bounding rect
+   */
+  bounds(): Rect {
+    if (this.segments.length === 0) throw new Error("path is empty");
+    return this.segments
+      .map((s) => s.bounds())
+      .reduce((result, rect) => result.union(rect));
+  }
+
+  /**
+   * Compute arc length of self.
+   *
+   * @returns Sum of arc lengths of segments
+   */
+  length(): number {
+    return this.segments.reduce((sum, s) => sum + s.length(), 0);
+  }
+
+  /**
+   * Compute point at arc length from start.
+   *
+   * @param s Arc length. Clamped to [0, length]
+   * @returns Point
+   */
+  pointAtLength(s: number): Vector {
+    const { segment, localT } = this.locateLength(s);
+    return segment.pointAt(localT);
+  }
+
+  /**
+   * Compute unit tangent at arc length from start.
+   *
+   * @param s Arc length. Clamped to [0, length]
+   * @returns Unit tangent
+   */
+  tangentAtLength(s: number): Vector {
+    const { segment, localT } = this.locateLength(s);
+    return segment.tangentAt(localT);
+  }
+
+  /**
+   * Compute unit normal at arc length from start.
+   *
+   * @param s Arc length. Clamped to [0, length]
+   * @returns Unit normal
+   */
+  normalAtLength(s: number): Vector {
+    const { segment, localT } = this.locateLength(s);
+    return segment.normalAt(localT);
+  }
+
+  /**
+   * Approximate self with polylines.
+   * New polyline is started where segment is disconnected from previous segment.
+   *
+   * @param tolerance Maximum distance between self and polylines
+   * @returns Points of each polyline
+   */
+  flatten(tolerance: number): Vector[][] {
+    const polylines: Vector[][] = [];
+    let polyline: Vector[] = [];
+    for (const segment of this.segments) {
+      const points = segment.flatten(tolerance);
+      const last = polyline[polyline.length - 1];
+      if (last !== undefined && last.isClosedTo(points[0])) {
+        polyline.push(...points.slice(1));
+      } else {
+        polyline = points;
+        polylines.push(polyline);
+      }
+    }
+    return polylines;
+  }
+
+  /**
+   * Create path transformed by matrix.
+   *
+   * @param matrix Transformation matrix
+   * @returns Transformed path
+   */
+  transformedBy(matrix: MatrixLike): Path {
+    return new Path(this.segments.map((s) => s.transformedBy(matrix)));
+  }
+
+  /**
+   * Create path from SVG path data.
+   *
+   * @example
+   * Path.fromSVG("M 0 0 C 10 0 10 10 20 10 A 5 5 0 0 1 30 10 Z")
+   * @param d `d` attribute of SVG path element
+   * @returns Path
+   */
+  static fromSVG(d: string): Path {
+    return new Path(parsePathData(d));
+  }
+
+  private locate(t: number): { index: number; segment: Curve; localT: number } {
+    const count = this.segments.length;
+    if (count === 0) throw new Error("path is empty");
+    const scaled = Math.min(1, Math.max(0, t)) * count;
+    const index = Math.min(count - 1, Math.floor(scaled));
+    return { index, segment: this.segments[index], localT: scaled - index };
+  }
+
+  private locateLength(s: number): { segment: Curve; localT: number } {
+    if (this.segments.length === 0) throw new Error("path is empty");
+    let rest = s;
+    for (const segment of this.segments) {
+      const length = segment.length();
+      if (rest <= length) {
+        return { segment, localT: segment.parameterAtLength(rest) };
+      }
+      rest -= length;
+    }
+    const last = this.segments[this.segments.length - 1];
+    return { segment: last, localT: 1 };
+  }
+}
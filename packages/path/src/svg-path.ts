@@ -0,0 +1,175 @@
+import { Vector } from "@trans-vector2d/vector";
+import { Curve } from "./curve";
+import { LineCurve } from "./line-curve";
+import { QuadraticBezier, CubicBezier } from "./bezier";
+import { EllipticArc } from "./elliptic-arc";
+
+type ArgKind = "number" | "flag";
+
+const commandArgs: { [command: string]: ArgKind[] } = {
+  m: ["number", "number"],
+  l: ["number", "number"],
+  h: ["number"],
+  v: ["number"],
+  c: ["number", "number", "number", "number", "number", "number"],
+  s: ["number", "number", "number", "number"],
+  q: ["number", "number", "number", "number"],
+  t: ["number", "number"],
+  a: ["number", "number", "number", "flag", "flag", "number", "number"],
+  z: [],
+};
+
+const numberPattern = /^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/;
+
+/**
+ * Parse SVG path data into curves.
+ * Move commands start new subpath and do not create curves.
+ * Close commands create line to start of subpath unless current point is already there.
+ *
+ * @example
+ * parsePathData("M 0 0 L 10 0 Q 20 0 20 10")
+ * // [LineCurve((0, 0), (10, 0)), QuadraticBezier((10, 0), (20, 0), (20, 10))]
+ * @param d `d` attribute of SVG path element
+ * @returns Curves in written order
+ */
+export function parsePathData(d: string): Curve[] {
+  let pos = 0;
+
+  const fail = (message: string): never => {
+    const found = pos < d.length ? `"${d[pos]}"` : "end of input";
+    throw new Error(
+      `Invalid path data: ${message} but found ${found} at position ${pos}`
+    );
+  };
+  const skipSpaces = (): void => {
+    while (pos < d.length && /\s/.test(d[pos])) pos += 1;
+  };
+  const skipSeparator = (): void => {
+    skipSpaces();
+    if (d[pos] === ",") {
+      pos += 1;
+      skipSpaces();
+    }
+  };
+  const readArg = (kind: ArgKind): number => {
+    if (kind === "flag") {
+      if (d[pos] !== "0" && d[pos] !== "1") return fail('expected "0" or "1"');
+      pos += 1;
+      return d[pos - 1] === "1" ? 1 : 0;
+    }
+    const match = numberPattern.exec(d.slice(pos));
+    if (match === null) return fail("expected number");
+    pos += match[0].length;
+    return parseFloat(match[0]);
+  };
+  const startsArg = (): boolean => /^[+\-.\d]/.test(d.slice(pos));
+
+  const curves: Curve[] = [];
+  let current = Vector.zero;
+  let subpathStart = Vector.zero;
+  // Control point reflected by smooth commands
+  let lastControl: Vector | undefined;
+  let lastCommand = "";
+
+  skipSpaces();
+  if (pos < d.length && !/[mM]/.test(d[pos])) fail('expected "M" or "m"');
+  while (pos < d.length) {
+    const letter = d[pos];
+    const command = letter.toLowerCase();
+    if (!Object.prototype.hasOwnProperty.call(commandArgs, command))
+      fail("expected command");
+    pos += 1;
+    const relative = letter !== letter.toUpperCase();
+    const kinds = commandArgs[command];
+
+    let isFirst = true;
+    do {
+      skipSpaces();
+      const args: number[] = [];
+      for (const kind of kinds) {
+        if (args.length > 0) skipSeparator();
+        args.push(readArg(kind));
+      }
+      const base = relative ? current : Vector.zero;
+      const point = (i: number): Vector =>
+        new Vector(args[i], args[i + 1]).add(base);
+      // Extra pairs of move command are treated as line commands
+      const effective = command === "m" && !isFirst ? "l" : command;
+
+      let control: Vector | undefined;
+      let next = current;
+      switch (effective) {
+        case "m":
+          next = point(0);
+          subpathStart = next;
+          break;
+        case "l":
+          next = point(0);
+          curves.push(new LineCurve(current, next));
+          break;
+        case "h":
+          next = new Vector(args[0] + (relative ? current.x : 0), current.y);
+          curves.push(new LineCurve(current, next));
+          break;
+        case "v":
+          next = new Vector(current.x, args[0] + (relative ? current.y : 0));
+          curves.push(new LineCurve(current, next));
+          break;
+        case "c":
+          control = point(2);
+          next = point(4);
+          curves.push(new CubicBezier(current, point(0), control, next));
+          break;
+        case "s": {
+          const reflected =
+            lastControl !== undefined && /[cs]/.test(lastCommand)
+              ? current.mlt(2).sub(lastControl)
+              : current;
+          control = point(0);
+          next = point(2);
+          curves.push(new CubicBezier(current, reflected, control, next));
+          break;
+        }
+        case "q":
+          control = point(0);
+          next = point(2);
+          curves.push(new QuadraticBezier(current, control, next));
+          break;
+        case "t":
+          control =
+            lastControl !== undefined && /[qt]/.test(lastCommand)
+              ? current.mlt(2).sub(lastControl)
+              : current;
+          next = point(0);
+          curves.push(new QuadraticBezier(current, control, next));
+          break;
+        case "a": {
+          next = point(5);
+          const arc = EllipticArc.fromEndpoints(
+            current,
+            { x: args[0], y: args[1] },
+            (args[2] * Math.PI) / 180,
+            args[3] === 1,
+            args[4] === 1,
+            next
+          );
+          if (arc !== undefined) curves.push(arc);
+          else if (!current.equals(next))
+            curves.push(new LineCurve(current, next));
+          break;
+        }
+        case "z":
+          next = subpathStart;
+          if (!current.equals(next)) curves.push(new LineCurve(current, next));
+          break;
+      }
+      current = next;
+      lastControl = control;
+      lastCommand = effective;
+      isFirst = false;
+      if (kinds.length > 0) skipSeparator();
+    } while (kinds.length > 0 && startsArg());
+    skipSpaces();
+  }
+  return curves;
+}
@@ -0,0 +1,88 @@
+import { Random, poissonDiskSampling } from "../src";
+import { Vector } from "@trans-vector2d/vector";
+import { Rect } from "@trans-vector2d/rect";
+
+const v = (x: number, y: number): Vector => new Vector(x, y);
+const region = new Rect(v(0, 0), v(50, 30));
+
+describe("@trans-vector2d/random.poissonDiskSampling", () => {
+  it("can generate points keep minimum distance", () => {
+    const points = poissonDiskSampling(new Random(1), region, 4);
+
+    expect(points.length).toBeGreaterThan(30);
+    points.forEach((p, i) => {
+      expect(region.contains(p)).toBe(true);
+      points.slice(i + 1).forEach((q) => {
+        expect(p.distance(q)).toBeGreaterThanOrEqual(4);
+      });
+    });
+  });
+
+  it("can fill region without large gap", () => {
+    const points = poissonDiskSampling(new Random(2), region, 4);
+    // Every location is close to any point when region is saturated
+    for (let x = 0; x <= 50; x += 5) {
+      for (let y = 0; y <= 30; y += 5) {
+        const closest = Math.min(...points.map((p) => p.distance(v(x, y))));
+        expect(closest).toBeLessThan(8);
+      }
+    }
+  });
+
+  it("can generate same points for same seed", () => {
+    const a = poissonDiskSampling(new Random(3), region, 5);
+    const b = poissonDiskSampling(new Random(3), region, 5);
+    const c = poissonDiskSampling(new Random(4), region, 5);
+
+    expect(a).toEqual(b);
+    expect(a).not.toEqual(c);
+  });
+
+  it("can restrict region by predicate", () => {
+    const center = v(25, 15);
+    const contains = (p: Vector): boolean => p.distance(center) <= 10;
+    const points = poissonDiskSampling(new Random(5), region, 3, { contains });
+
+    expect(points.length).toBeGreaterThan(10);
+    points.forEach((p) => expect(contains(p)).toBe(true));
+  });
+
+  it.each([1, 2, 3, 4, 5, 6, 7, 8])(
+    "can find first point in small region by seed %d",
+    (seed) => {
+      const center = v(70, 20);
+      const contains = (p: Vector): boolean => p.distance(center) <= 5;
+      const points = poissonDiskSampling(
+        new Random(seed),
+        new Rect(v(0, 0), v(100, 100)),
+        1,
+        { contains }
+      );
+
+      expect(points.length).toBeGreaterThan(20);
+      points.forEach((p) => expect(contains(p)).toBe(true));
+    }
+  );
+
+  it("can start from seed point", () => {
+    const seed = v(10, 20);
+    const points = poissonDiskSampling(new Random(1), region, 4, { seed });
+
+    expect(points[0]).toEqual(seed);
+    expect(points.length).toBeGreaterThan(30);
+  });
+
+  it.each`
+    distance | options                      | message
+    ${0}     | ${{}}                        | ${"minDistance is not positive"}
+    ${1}     | ${{ attempts: 0 }}           | ${"attempts is less than 1"}
+    ${1}     | ${{ seed: { x: -1, y: 0 } }} | ${"seed is outside of region"}
+  `(
+    "can not sample with invalid arguments",
+    ({ distance, options, message }) => {
+      expect(() =>
+        poissonDiskSampling(new Random(0), region, distance, options)
+      ).toThrowError(message);
+    }
+  );
+});
@@ -0,0 +1,193 @@
+import { Random } from "../src";
+import { Vector } from "@trans-vector2d/vector";
+import { Rect } from "@trans-vector2d/rect";
+
+const v = (x: number, y: number): Vector => new Vector(x, y);
+
+const sample = <T>(count: number, fn: () => T): T[] => {
+  const result: T[] = [];
+  for (let i = 0; i < count; i++) result.push(fn());
+  return result;
+};
+
+const mean = (points: Vector[]): Vector =>
+  points.reduce((sum, p) => sum.add(p), Vector.zero).div(points.length);
+
+describe("@trans-vector2d/random.Random", () => {
+  it("can generate same sequence for same seed", () => {
+    const random = new Random(1);
+    expect(sample(3, () => random.nextUint32())).toEqual([
+      1553841669,
+      3822136429,
+      4266283186,
+    ]);
+    expect(new Random(-5).nextUint32()).toBe(3484945805);
+    expect(new Random(2 ** 40 + 3).nextUint32()).toBe(1460712498);
+  });
+
+  it("can generate different sequence for different seed", () => {
+    const a = new Random(1);
+    const b = new Random(2);
+    expect(sample(4, () => a.next())).not.toEqual(sample(4, () => b.next()));
+  });
+
+  it("can clone state", () => {
+    const random = new Random(7);
+    random.next();
+    const copy = random.clone();
+    expect(sample(5, () => copy.next())).toEqual(
+      sample(5, () => random.next())
+    );
+  });
+
+  it("can generate numbers in range", () => {
+    const random = new Random(3);
+    const numbers = sample(1000, () => random.next());
+    expect(Math.min(...numbers)).toBeGreaterThanOrEqual(0);
+    expect(Math.max(...numbers)).toBeLessThan(1);
+
+    const integers = sample(1000, () => random.int(-2, 3));
+    expect(Array.from(new Set(integers)).sort()).toEqual([-1, -2, 0, 1, 2]);
+
+    const angles = sample(1000, () => random.angle());
+    expect(Math.min(...angles)).toBeGreaterThanOrEqual(-Math.PI);
+    expect(Math.max(...angles)).toBeLessThan(Math.PI);
+  });
+
+  it("can pick and shuffle items", () => {
+    const random = new Random(4);
+    const items = [1, 2, 3, 4, 5];
+    expect(items).toContain(random.pick(items));
+    expect(random.shuffle(items).sort()).toEqual(items);
+    expect(() => random.pick([])).toThrowError("items are empty");
+  });
+
+  it("can generate unit vector", () => {
+    const random = new Random(5);
+    const vectors = sample(1000, () => random.unitVector());
+    vectors.forEach((u) => expect(u.norm()).toBeCloseTo(1));
+    expect(mean(vectors).norm()).toBeLessThan(0.1);
+  });
+
+  it("can generate points in circle and annulus", () => {
+    const random = new Random(6);
+    const center = v(10, -5);
+    const inCircle = sample(2000, () => random.inCircle(center, 2));
+    inCircle.forEach((p) => expect(p.distance(center)).toBeLessThanOrEqual(2));
+    expect(mean(inCircle).distance(center)).toBeLessThan(0.1);
+    // Uniform area density puts quarter of points in half radius
+    const inner = inCircle.filter((p) => p.distance(center) < 1).length;
+    expect(inner / inCircle.length).toBeCloseTo(0.25, 1);
+
+    const inAnnulus = sample(1000, () => random.inAnnulus(center, 1, 2));
+    inAnnulus.forEach((p) => {
+      expect(p.distance(center)).toBeGreaterThanOrEqual(1 - 10 ** -10);
+      expect(p.distance(center)).toBeLessThanOrEqual(2);
+    });
+    expect(() => random.inAnnulus(center, 2, 1)).toThrowError(
+      "innerRadius is greater than outerRadius"
+    );
+    expect(() => random.inCircle(center, -1)).toThrowError(
+      "radius is negative"
+    );
+  });
+
+  it("can generate points in rect and triangle", () => {
+    const random = new Random(8);
+    const rect = new Rect(v(-1, 2), v(3, 4));
+    const inRect = sample(1000, () => random.inRect(rect));
+    inRect.forEach((p) => expect(rect.contains(p)).toBe(true));
+    expect(mean(inRect).distance(rect.center())).toBeLessThan(0.1);
+
+    const a = v(0, 0);
+    const b = v(3, 0);
+    const c = v(0, 3);
+    const inTriangle = sample(1000, () => random.inTriangle(a, b, c));
+    inTriangle.forEach((p) => {
+      expect(p.x).toBeGreaterThanOrEqual(0);
+      expect(p.y).toBeGreaterThanOrEqual(0);
+      expect(p.x + p.y).toBeLessThanOrEqual(3 + 10 ** -10);
+    });
+    expect(mean(inTriangle).distance(v(1, 1))).toBeLessThan(0.1);
+  });
+
+  it("can generate points in concave polygon", () => {
+    const random = new Random(9);
+    // L shape
+    const polygon = [v(0, 0), v(2, 0), v(2, 1), v(1, 1), v(1, 2), v(0, 2)];
+    const points = sample(1000, () => random.inPolygon(polygon));
+    points.forEach((p) => expect(p.x <= 1 || p.y <= 1).toBe(true));
+    expect(mean(points).distance(v(5 / 6, 5 / 6))).toBeLessThan(0.1);
+    expect(() => random.inPolygon([v(0, 0), v(1, 1), v(2, 2)])).toThrowError(
+      "polygon is degenerate"
+    );
+  });
+
+  it("can generate point in concave polygon overlapped by fan", () => {
+    const random = new Random(12);
+    // U shape starts from tip of left arm
+    const polygon = [
+      v(0, 2),
+      v(0, 0),
+      v(3, 0),
+      v(3, 2),
+      v(2, 2),
+      v(2, 1),
+      v(1, 1),
+      v(1, 2),
+    ];
+    const points = sample(2000, () => random.inPolygon(polygon));
+    points.forEach((p) => expect(p.x <= 1 || p.x >= 2 || p.y <= 1).toBe(true));
+    expect(mean(points).distance(v(1.5, 0.9))).toBeLessThan(0.1);
+  });
+
+  it("can generate point in thin or large polygon", () => {
+    const random = new Random(13);
+    const thin = [v(0, 0), v(1000, 1000), v(1000, 1000.001)];
+    const count = 200000;
+    const large = Array.from({ length: count }, (_, i) =>
+      v(
+        Math.cos((i / count) * Math.PI * 2),
+        Math.sin((i / count) * Math.PI * 2)
+      )
+    );
+
+    const p = random.inPolygon(thin);
+    expect(p.y - p.x).toBeGreaterThanOrEqual(0);
+    expect(p.y - p.x).toBeLessThanOrEqual(0.001);
+    expect(random.inPolygon(large).norm()).toBeLessThanOrEqual(1);
+  });
+
+  it("throw Error for polygon has no inside", () => {
+    const random = new Random(14);
+
+    expect(() =>
+      random.inPolygon([v(0, 0), v(1, 0), v(1, 1), v(1, 0)])
+    ).toThrowError("polygon has no inside");
+  });
+
+  it("can generate matrix in range", () => {
+    const random = new Random(10);
+    const translation = new Rect(v(-10, -10), v(10, 10));
+    for (let i = 0; i < 100; i++) {
+      const m = random.matrix({
+        translation,
+        rotation: { min: 0, max: Math.PI / 2 },
+        scale: { min: 1, max: 2 },
+        uniformScale: true,
+      });
+      const component = m.decompose();
+      expect(translation.contains(component.translation)).toBe(true);
+      expect(component.rotation).toBeGreaterThanOrEqual(0);
+      expect(component.rotation).toBeLessThanOrEqual(Math.PI / 2);
+      expect(component.scale.x).toBeCloseTo(component.scale.y);
+      expect(component.scale.x).toBeGreaterThanOrEqual(1 - 10 ** -10);
+      expect(component.scale.x).toBeLessThanOrEqual(2);
+    }
+    expect(new Random(11).matrix()).toEqual(new Random(11).matrix());
+  });
+
+  it("can not be created with non-finite seed", () => {
+    expect(() => new Random(NaN)).toThrowError("seed is not finite");
+  });
+});
@@ -0,0 +1,111 @@
+import { Vector, VectorLike } from "@trans-vector2d/vector";
+import { Rect, RectLike } from "@trans-vector2d/rect";
+import { Random } from "./random";
+
+export interface PoissonDiskOptions {
+  // Count of candidates around each active point. Default is 30
+  attempts?: number;
+  // Restrict region to shape inside of rect
+  contains?: (point: Vector) => boolean;
+  // First point. Default is random point inside of region
+  seed?: VectorLike;
+}
+
+// Region is treated as empty after this count of rejections of first point
+const maxSeedAttempts = 10000;
+
+/**
+ * Generate points in region keep distance each other by Bridson's algorithm.
+ * Generated points fill region until no more point can be placed.
+ * First point is searched in rect up to 10000 times, so pass `seed` when
+ * `contains` covers tiny part of rect.
+ *
+ * @example
+ * const points = poissonDiskSampling(new Random(1), rect, 10);
+ * @param random Random generator
+ * @param region Bounding rect of region
+ * @param minDistance Minimum distance between points
+ * @param options Options
+ * @throws Error when seed is outside of region
+ * @returns Points in generated order
+ */
+export function poissonDiskSampling(
+  random: Random,
+  region: RectLike,
+  minDistance: number,
+  options: PoissonDiskOptions = {}
+): Vector[] {
+  if (!(minDistance > 0)) throw new Error("minDistance is not positive");
+  const attempts = options.attempts === undefined ? 30 : options.attempts;
+  if (attempts < 1) throw new Error("attempts is less than 1");
+  const rect = Rect.from(region);
+  const contains = options.contains || ((): boolean => true);
+  const isInside = (p: Vector): boolean =>
+    p.x >= rect.min.x &&
+    p.x <= rect.max.x &&
+    p.y >= rect.min.y &&
+    p.y <= rect.max.y &&
+    contains(p);
+
+  // Each cell can contain only one point
+  const cellSize = minDistance / Math.SQRT2;
+  const columns = Math.max(Math.ceil(rect.size().x / cellSize), 1);
+  const rows = Math.max(Math.ceil(rect.size().y / cellSize), 1);
+  const grid: (Vector | undefined)[] = new Array(columns * rows);
+  const cellOf = (p: VectorLike): [number, number] => [
+    Math.min(Math.floor((p.x - rect.min.x) / cellSize), columns - 1),
+    Math.min(Math.floor((p.y - rect.min.y) / cellSize), rows - 1),
+  ];
+  const isFarEnough = (p: Vector): boolean => {
+    const [cx, cy] = cellOf(p);
+    for (let x = Math.max(cx - 2, 0); x <= Math.min(cx + 2, columns - 1); x++) {
+      for (let y = Math.max(cy - 2, 0); y <= Math.min(cy + 2, rows - 1); y++) {
+        const other = grid[y * columns + x];
+        if (other && other.distance(p) < minDistance) return false;
+      }
+    }
+    return true;
+  };
+
+  const points: Vector[] = [];
+  const active: Vector[] = [];
+  const add = (p: Vector): void => {
+    const [cx, cy] = cellOf(p);
+    grid[cy * columns + cx] = p;
+    points.push(p);
+    active.push(p);
+  };
+
+  if (options.seed !== undefined) {
+    const seed = Vector.from(options.seed);
+    if (!isInside(seed)) throw new Error("seed is outside of region");
+    add(seed);
+  } else {
+    for (let i = 0; i < maxSeedAttempts; i++) {
+      const first = random.inRect(rect);
+      if (isInside(first)) {
+        add(first);
+        break;
+      }
+    }
+  }
+  while (active.length > 0) {
+    const index = random.int(0, active.length);
+    const origin = active[index];
+    let found = false;
+    for (let i = 0; i < attempts; i++) {
+      const candidate = random.inAnnulus(origin, minDistance, 2 * minDistance);
+      if (isInside(candidate) && isFarEnough(candidate)) {
+        add(candidate);
+        found = true;
+        break;
+      }
+    }
+    if (!found) {
+      // Remove by swapping with last to keep removal O(1)
+      active[index] = active[active.length - 1];
+      active.pop();
+    }
+  }
+  return points;
+}
@@ -0,0 +1,360 @@
+import { Vector, VectorLike } from "@trans-vector2d/vector";
+import { Matrix } from "@trans-vector2d/matrix";
+import { RectLike } from "@trans-vector2d/rect";
+
+/**
+ * Closed range of number.
+ */
+export interface NumberRange {
+  min: number;
+  max: number;
+}
+
+/**
+ * Bounds of random Matrix.
+ * Omitted translation means no translation, omitted rotation means full turn
+ * and omitted scale means no scaling.
+ */
+export interface MatrixRange {
+  translation?: RectLike;
+  rotation?: NumberRange;
+  scale?: NumberRange;
+  // Use same scale for x and y
+  uniformScale?: boolean;
+}
+
+const uint32Range = 4294967296;
+
+const containsByEvenOdd = (
+  vertices: readonly VectorLike[],
+  point: VectorLike
+): boolean => {
+  let inside = false;
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    const p = vertices[i];
+    const q = vertices[j];
+    if (
+      p.y > point.y !== q.y > point.y &&
+      point.x < ((q.x - p.x) * (point.y - p.y)) / (q.y - p.y) + p.x
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+const triangleContains = (
+  a: VectorLike,
+  b: VectorLike,
+  c: VectorLike,
+  point: VectorLike
+): boolean => {
+  const d1 = (b.x - a.x) * (point.y - a.y) - (b.y - a.y) * (point.x - a.x);
+  const d2 = (c.x - b.x) * (point.y - b.y) - (c.y - b.y) * (point.x - b.x);
+  const d3 = (a.x - c.x) * (point.y - c.y) - (a.y - c.y) * (point.x - c.x);
+  const hasNegative = d1 < 0 || d2 < 0 || d3 < 0;
+  const hasPositive = d1 > 0 || d2 > 0 || d3 > 0;
+  return !(hasNegative && hasPositive);
+};
+
+// Polygon is treated as having no inside after this count of rejections
+const maxPolygonAttempts = 10000;
+
+/**
+ * Seedable pseudo random number generator.
+ * Algorithm is sfc32 implemented by 32bit integer operations only,
+ * so same seed generates same sequence on any platform.
+ *
+ * @example
+ * const random = new Random(42);
+ * random.next(); // same number for every run
+ * random.inCircle({ x: 0, y: 0 }, 10);
+ */
+export class Random {
+  private a: number;
+  private b: number;
+  private c: number;
+  private d: number;
+
+  /**
+   * @param seed Integer seed. Fraction is ignored
+   */
+  constructor(seed: number) {
+    if (!isFinite(seed)) throw new Error("seed is not finite");
+    const integer = Math.floor(seed);
+    this.a = 0x9e3779b9;
+    this.b = 0x243f6a88;
+    this.c = Math.floor(integer / uint32Range) | 0;
+    this.d = integer | 0;
+    // Mix seed into whole state
+    for (let i = 0; i < 15; i++) this.nextUint32();
+  }
+
+  /**
+   * Create generator has same state as self.
+   * Original and copy generate same sequence independently.
+   *
+   * @returns Copied generator
+   */
+  clone(): Random {
+    const copy = new Random(0);
+    copy.a = this.a;
+    copy.b = this.b;
+    copy.c = this.c;
+    copy.d = this.d;
+    return copy;
+  }
+
+  /**
+   * Generate unsigned 32bit integer.
+   *
+   * @returns Integer in [0, 2^32)
+   */
+  nextUint32(): number {
+    const t = (((this.a + this.b) | 0) + this.d) | 0;
+    this.d = (this.d + 1) | 0;
+    this.a = this.b ^ (this.b >>> 9);
+    this.b = (this.c + (this.c << 3)) | 0;
+    this.c = (this.c << 21) | (this.c >>> 11);
+    this.c = (this.c + t) | 0;
+    return t >>> 0;
+  }
+
+  /**
+   * Generate number like Math.random.
+   *
+   * @returns Number in [0, 1)
+   */
+  next(): number {
+    return this.nextUint32() / uint32Range;
+  }
+
+  /**
+   * Generate number in range.
+   *
+   * @param min Minimum
+   * @param max Maximum
+   * @returns Number in [min, max)
+   */
+  range(min: number, max: number): number {
+    return min + (max - min) * this.next();
+  }
+
+  /**
+   * Generate integer in range.
+   *
+   * @param min Minimum integer
+   * @param max Maximum integer
+   * @returns Integer in [min, max)
+   */
+  int(min: number, max: number): number {
+    return Math.floor(this.range(Math.ceil(min), Math.ceil(max)));
+  }
+
+  /**
+   * Generate true with probability.
+   *
+   * @param probability Probability of true
+   * @returns Boolean
+   */
+  chance(probability = 0.5): boolean {
+    return this.next() < probability;
+  }
+
+  /**
+   * Pick element of array.
+   *
+   * @param items Not empty array
+   * @returns Picked element
+   */
+  pick<T>(items: readonly T[]): T {
+    if (items.length === 0) throw new Error("items are empty");
+    return items[this.int(0, items.length)];
+  }
+
+  /**
+   * Create shuffled copy of array by Fisher-Yates shuffle.
+   *
+   * @param items Array
+   * @returns Shuffled array
+   */
+  shuffle<T>(items: readonly T[]): T[] {
+    const result = items.slice();
+    for (let i = result.length - 1; i > 0; i--) {
+      const j = this.int(0, i + 1);
+      const tmp = result[i];
+      result[i] = result[j];
+      result[j] = tmp;
+    }
+    return result;
+  }
+
+  /**
+   * Generate angle.
+   *
+   * @returns Angle in [-PI, PI)
+   */
+  angle(): number {
+    return this.range(-Math.PI, Math.PI);
+  }
+
+  /**
+   * Generate Vector has length 1 and uniform direction.
+   *
+   * @returns Unit Vector
+   */
+  unitVector(): Vector {
+    return Vector.fromPolar(1, this.angle());
+  }
+
+  /**
+   * Generate point uniformly distributed in circle.
+   *
+   * @param center Center of circle
+   * @param radius Radius of circle
+   * @returns Point
+   */
+  inCircle(center: VectorLike, radius: number): Vector {
+    if (radius < 0) throw new Error("radius is negative");
+    return this.inAnnulus(center, 0, radius);
+  }
+
+  /**
+   * Generate point uniformly distributed in annulus.
+   *
+   * @param center Center of annulus
+   * @param innerRadius Radius of hole
+   * @param outerRadius Radius of outer circle
+   * @returns Point
+   */
+  inAnnulus(
+    center: VectorLike,
+    innerRadius: number,
+    outerRadius: number
+  ): Vector {
+    if (innerRadius < 0) throw new Error("radius is negative");
+    if (innerRadius > outerRadius) {
+      throw new Error("innerRadius is greater than outerRadius");
+    }
+    // Area grows with squared radius
+    const innerSq = innerRadius * innerRadius;
+    const outerSq = outerRadius * outerRadius;
+    const radius = Math.sqrt(this.range(innerSq, outerSq));
+    return Vector.fromPolar(radius, this.angle()).add(center);
+  }
+
+  /**
+   * Generate point uniformly distributed in rect.
+   *
+   * @param rect Rect
+   * @returns Point
+   */
+  inRect(rect: RectLike): Vector {
+    return new Vector(
+      this.range(rect.min.x, rect.max.x),
+      this.range(rect.min.y, rect.max.y)
+    );
+  }
+
+  /**
+   * Generate point uniformly distributed in triangle.
+   *
+   * @param a Vertex of triangle
+   * @param b Vertex of triangle
+   * @param c Vertex of triangle
+   * @returns Point
+   */
+  inTriangle(a: VectorLike, b: VectorLike, c: VectorLike): Vector {
+    let u = this.next();
+    let v = this.next();
+    // Reflect point in parallelogram into triangle
+    if (u + v > 1) {
+      u = 1 - u;
+      v = 1 - v;
+    }
+    const origin = Vector.from(a);
+    return origin
+      .add(Vector.from(b).sub(origin).mlt(u))
+      .add(Vector.from(c).sub(origin).mlt(v));
+  }
+
+  /**
+   * Generate point uniformly distributed in polygon.
+   * Inside of self-intersecting polygon is determined by even-odd rule.
+   *
+   * @param vertices Vertices of polygon
+   * @throws Error when polygon has no area or inside by even-odd rule
+   * @returns Point
+   */
+  inPolygon(vertices: readonly VectorLike[]): Vector {
+    if (vertices.length < 3) throw new Error("vertices are less than 3");
+    // Fan triangles from first vertex cover inside of polygon
+    const origin = vertices[0];
+    const areas: number[] = [];
+    let fanArea = 0;
+    for (let i = 2; i < vertices.length; i++) {
+      const e1 = Vector.from(vertices[i - 1]).sub(origin);
+      const e2 = Vector.from(vertices[i]).sub(origin);
+      const area = Math.abs(e1.cross(e2));
+      areas.push(area);
+      fanArea += area;
+    }
+    if (fanArea === 0) throw new Error("polygon is degenerate");
+
+    for (let attempt = 0; attempt < maxPolygonAttempts; attempt++) {
+      // Pick triangle weighted by area
+      let rest = this.next() * fanArea;
+      let picked = 0;
+      for (let i = 0; i < areas.length; i++) {
+        if (areas[i] === 0) continue;
+        picked = i;
+        if (rest < areas[i]) break;
+        rest -= areas[i];
+      }
+      const point = this.inTriangle(
+        origin,
+        vertices[picked + 1],
+        vertices[picked + 2]
+      );
+      if (!containsByEvenOdd(vertices, point)) continue;
+      // Fan triangles overlap in concave polygon, so accept point by inverse
+      // of overlap count to keep uniformity
+      let coverage = 0;
+      for (let i = 0; i < areas.length; i++) {
+        if (
+          areas[i] > 0 &&
+          triangleContains(origin, vertices[i + 1], vertices[i + 2], point)
+        ) {
+          coverage += 1;
+        }
+      }
+      if (coverage <= 1 || this.next() * coverage < 1) return point;
+    }
+    throw new Error("polygon has no inside");
+  }
+
+  /**
+   * Generate Matrix in range.
+   *
+   * @param range Bounds of translation, rotation and scale
+   * @returns Matrix
+   */
+  matrix(range: MatrixRange = {}): Matrix {
+    const translation = range.translation
+      ? this.inRect(range.translation)
+      : Vector.zero;
+    const rotation = range.rotation
+      ? this.range(range.rotation.min, range.rotation.max)
+      : this.angle();
+    const scaleRange = range.scale || { min: 1, max: 1 };
+    const scaleX = this.range(scaleRange.min, scaleRange.max);
+    const scaleY = range.uniformScale
+      ? scaleX
+      : this.range(scaleRange.min, scaleRange.max);
+    return Matrix.from({
+      translation,
+      rotation,
+      scale: { x: scaleX, y: scaleY },
+    });
+  }
+}
@@ -0,0 +1,125 @@
+import { Rect } from "../src";
+import { Vector } from "@trans-vector2d/vector";
+import { Matrix } from "@trans-vector2d/matrix";
+
+const rect = (minX: number, minY: number, maxX: number, maxY: number): Rect =>
+  Rect.from({ min: { x: minX, y: minY }, max: { x: maxX, y: maxY } });
+
+describe("@trans-vector2d/rect.Rect", () => {
+  it("can be created from object", () => {
+    const r = Rect.from({ min: { x: 2, y: 0 }, max: { x: 0, y: 1 } });
+
+    expect(r).toBeInstanceOf(Rect);
+    expect(r.min).toBeInstanceOf(Vector);
+    expect(r.max).toBeInstanceOf(Vector);
+    expect(r.asObject()).toEqual({ min: { x: 0, y: 0 }, max: { x: 2, y: 1 } });
+  });
+
+  it("can be created from points", () => {
+    const r = Rect.fromPoints([
+      { x: 1, y: 5 },
+      { x: -2, y: 3 },
+      { x: 4, y: -1 },
+    ]);
+
+    expect(r.equals(rect(-2, -1, 4, 5))).toBe(true);
+  });
+
+  it("throw Error when created from empty points", () => {
+    expect(() => Rect.fromPoints([])).toThrowError();
+  });
+
+  it("can be created from center and size", () => {
+    const r = Rect.fromCenter({ x: 1, y: 1 }, { x: 2, y: 4 });
+
+    expect(r.equals(rect(0, -1, 2, 3))).toBe(true);
+  });
+
+  it("can tell center and size", () => {
+    const r = rect(1, 1, 2, 4);
+
+    expect(r.center()).toEqual({ x: 1.5, y: 2.5 });
+    expect(r.size()).toEqual({ x: 1, y: 3 });
+  });
+
+  it("can create corners", () => {
+    const r = rect(0, 1, 2, 3);
+
+    expect(r.corners()).toEqual([
+      { x: 0, y: 1 },
+      { x: 2, y: 1 },
+      { x: 2, y: 3 },
+      { x: 0, y: 3 },
+    ]);
+  });
+
+  it("can create union", () => {
+    const r = rect(0, 0, 2, 2).union(rect(1, -1, 3, 1));
+
+    expect(r.equals(rect(0, -1, 3, 2))).toBe(true);
+  });
+
+  it("can create intersection", () => {
+    const r = rect(0, 0, 2, 2).intersection(rect(1, -1, 3, 1));
+
+    expect(r?.equals(rect(1, 0, 2, 1))).toBe(true);
+  });
+
+  it.each`
+    other                 | intersects
+    ${rect(1, 1, 3, 3)}   | ${true}
+    ${rect(2, 2, 3, 3)}   | ${true}
+    ${rect(2.1, 0, 3, 3)} | ${false}
+    ${rect(0, -2, 1, -1)} | ${false}
+  `("can tell intersects: $intersects", ({ other, intersects }) => {
+    const r = rect(0, 0, 2, 2);
+
+    expect(r.intersects(other)).toBe(intersects);
+    expect(r.intersection(other) !== undefined).toBe(intersects);
+  });
+
+  it.each`
+    point               | contains
+    ${{ x: 1, y: 1 }}   | ${true}
+    ${{ x: 0, y: 2 }}   | ${true}
+    ${{ x: -1, y: 1 }}  | ${false}
+    ${{ x: 1, y: 2.1 }} | ${false}
+  `(
+    "can tell contains point { x: $point.x, y: $point.y }",
+    ({ point, contains }) => {
+      expect(rect(0, 0, 2, 2).contains(point)).toBe(contains);
+    }
+  );
+
+  it("can tell contains other rect", () => {
+    const r = rect(0, 0, 2, 2);
+
+    expect(r.containsRect(rect(0.5, 0.5, 1, 2))).toBe(true);
+    expect(r.containsRect(rect(0.5, 0.5, 1, 3))).toBe(false);
+  });
+
+  it("can create expanded rect", () => {
+    const r = rect(0, 0, 2, 2).expand({ x: 1, y: 2 });
+
+    expect(r.equals(rect(-1, -2, 3, 4))).toBe(true);
+  });
+
+  it("can create transformed rect", () => {
+    const m = Matrix.from({
+      translation: { x: 1, y: 0 },
+      rotation: Math.PI / 4,
+    });
+    const r = rect(-1, -1, 1, 1).transformedBy(m);
+    const sqrt2 = Math.sqrt(2);
+
+    expect(r.isClosedTo(rect(1 - sqrt2, -sqrt2, 1 + sqrt2, sqrt2))).toBe(true);
+  });
+
+  it("can tell closing to other rect", () => {
+    const r = rect(0, 0, 1, 1);
+
+    expect(r.isClosedTo(rect(0, 0, 1, 1 + 10 ** -11))).toBe(true);
+    expect(r.isClosedTo(rect(0, 0, 1, 1.1))).toBe(false);
+    expect(r.equals(rect(0, 0, 1, 1 + 10 ** -11))).toBe(false);
+  });
+});
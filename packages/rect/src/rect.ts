@@ -0,0 +1,248 @@
+import { Vector, VectorLike } from "@trans-vector2d/vector";
+import { Matrix, MatrixLike } from "@trans-vector2d/matrix";
+
+export interface RectLike {
+  min: VectorLike;
+  max: VectorLike;
+}
+
+/**
+ * Axis-aligned rectangle.
+ * Rect is immutable.
+ */
+export class Rect {
+  /**
+   * @param min Immutable minimum corner
+   * @param max Immutable maximum corner
+   */
+  constructor(public readonly min: Vector, public readonly max: Vector) {}
+
+  /**
+   * Compute center of self.
+   *
+   * @example
+   * Rect.from({ min: { x: 0, y: 0 }, max: { x: 2, y: 4 } }).center() // { x: 1, y: 2 }
+   * @returns Center point
+   */
+  center(): Vector {
+    return this.min.add(this.max).div(2);
+  }
+
+  /**
+   * Compute size of self.
+   *
+   * @example
+   * Rect.from({ min: { x: 1, y: 1 }, max: { x: 2, y: 4 } }).size() // { x: 1, y: 3 }
+   * @returns Width and height as Vector
+   */
+  size(): Vector {
+    return this.max.sub(this.min);
+  }
+
+  /**
+   * Compute corners of self.
+   *
+   * @returns Corners ordered as (min.x, min.y), (max.x, min.y), (max.x, max.y), (min.x, max.y)
+   */
+  corners(): [Vector, Vector, Vector, Vector] {
+    return [
+      this.min,
+      new Vector(this.max.x, this.min.y),
+      this.max,
+      new Vector(this.min.x, this.max.y),
+    ];
+  }
+
+  /**
+   * Create smallest rect contains self and other.
+   *
+   * @param other Another rect
+   * @returns United rect
+   */
+  union(other: RectLike): Rect {
+    return new Rect(
+      new Vector(
+        Math.min(this.min.x, other.min.x),
+        Math.min(this.min.y, other.min.y)
+      ),
+      new Vector(
+        Math.max(this.max.x, other.max.x),
+        Math.max(this.max.y, other.max.y)
+      )
+    );
+  }
+
+  /**
+   * Create overlapped area of self and other.
+   *
+   * @param other Another rect
+   * @returns Intersection rect or undefined if self and other are not overlapped
+   */
+  intersection(other: RectLike): Rect | undefined {
+    const min = new Vector(
+      Math.max(this.min.x, other.min.x),
+      Math.max(this.min.y, other.min.y)
+    );
+    const max = new Vector(
+      Math.min(this.max.x, other.max.x),
+      Math.min(this.max.y, other.max.y)
+    );
+    if (min.x > max.x || min.y > max.y) return undefined;
+    return new Rect(min, max);
+  }
+
+  /**
+   * Compute self is overlapped with other.
+   * Touching edges are treated as overlapped.
+   *
+   * @param other Another rect
+   * @returns Self is overlapped with other
+   */
+  intersects(other: RectLike): boolean {
+    return (
+      this.min.x <= other.max.x &&
+      other.min.x <= this.max.x &&
+      this.min.y <= other.max.y &&
+      other.min.y <= this.max.y
+    );
+  }
+
+  /**
+   * Compute self contains point.
+   * Points on edges are treated as contained.
+   *
+   * @example
+   * const rect = Rect.from({ min: { x: 0, y: 0 }, max: { x: 2, y: 2 } });
+   * rect.contains({ x: 1, y: 2 }) // true
+   * rect.contains({ x: 1, y: 3 }) // false
+   * @param point Point
+   * @returns Self contains point
+   */
+  contains(point: VectorLike): boolean {
+    return (
+      this.min.x <= point.x &&
+      point.x <= this.max.x &&
+      this.min.y <= point.y &&
+      point.y <= this.max.y
+    );
+  }
+
+  /**
+   * Compute self contains other rect entirely.
+   *
+   * @param other Another rect
+   * @returns Self contains other
+   */
+  containsRect(other: RectLike): boolean {
+    return this.contains(other.min) && this.contains(other.max);
+  }
+
+  /**
+   * Create expanded rect.
+   * Each edges are moved outward by delta.
+   *
+   * @example
+   * Rect.from({ min: { x: 0, y: 0 }, max: { x: 2, y: 2 } }).expand({ x: 1, y: 2 })
+   * // { min: { x: -1, y: -2 }, max: { x: 3, y: 4 } }
+   * @param delta Expanding length of each axis
+   * @returns Expanded rect
+   */
+  expand(delta: VectorLike): Rect {
+    return new Rect(this.min.sub(delta), this.max.add(delta));
+  }
+
+  /**
+   * Create bounding rect of self transformed by matrix.
+   *
+   * @param matrix Transformation matrix
+   * @returns Axis-aligned bounding rect of transformed corners
+   */
+  transformedBy(matrix: MatrixLike): Rect {
+    return Rect.fromPoints(
+      this.corners().map((p) => Matrix.productVector(matrix, p))
+    );
+  }
+
+  /**
+   * Compute self equals other.
+   *
+   * @param other Another rect
+   * @returns Self equals other
+   */
+  equals(other: RectLike): boolean {
+    return this.min.equals(other.min) && this.max.equals(other.max);
+  }
+
+  /**
+   * Compute self is closed to other.
+   *
+   * @param other Another rect
+   * @param delta Allowable error
+   * @returns Self is closed to other
+   */
+  isClosedTo(other: RectLike, delta = 10 ** -10): boolean {
+    return (
+      this.min.isClosedTo(other.min, delta) &&
+      this.max.isClosedTo(other.max, delta)
+    );
+  }
+
+  /**
+   * Create simple object equals self.
+   *
+   * @returns Object equals self
+   */
+  asObject(): RectLike {
+    return { min: this.min.asObject(), max: this.max.asObject() };
+  }
+
+  /**
+   * Create Rect from object.
+   * Corners are sorted so min is not greater than max.
+   *
+   * @example
+   * Rect.from({ min: { x: 2, y: 0 }, max: { x: 0, y: 1 } })
+   * // { min: { x: 0, y: 0 }, max: { x: 2, y: 1 } }
+   * @param rect Object contains min and max
+   * @returns Rect
+   */
+  static from(rect: RectLike): Rect {
+    return Rect.fromPoints([rect.min, rect.max]);
+  }
+
+  /**
+   * Create smallest Rect contains all points.
+   *
+   * @param points Points
+   * @returns Rect
+   */
+  static fromPoints(points: VectorLike[]): Rect {
+    if (points.length === 0) throw new Error("points is empty");
+    let minX = Infinity;
+    let minY = Infinity;
+    let maxX = -Infinity;
+    let maxY = -Infinity;
+    for (const p of points) {
+      minX = Math.min(minX, p.x);
+      minY = Math.min(minY, p.y);
+      maxX = Math.max(maxX, p.x);
+      maxY = Math.max(maxY, p.y);
+    }
+    return new Rect(new Vector(minX, minY), new Vector(maxX, maxY));
+  }
+
+  /**
+   * Create Rect from center and size.
+   *
+   * @example
+   * Rect.fromCenter({ x: 1, y: 1 }, { x: 2, y: 4 })
+   * // { min: { x: 0, y: -1 }, max: { x: 2, y: 3 } }
+   * @param center Center point
+   * @param size Width and height
+   * @returns Rect
+   */
+  static fromCenter(center: VectorLike, size: VectorLike): Rect {
+    const half = Vector.from(size).abs().div(2);
+    return new Rect(half.mlt(-1).add(center), half.add(center));
+  }
+}
@@ -0,0 +1,49 @@
+import { LooseQuadtree } from "../src";
+import { Vector } from "@trans-vector2d/vector";
+import { Rect } from "@trans-vector2d/rect";
+
+const v = (x: number, y: number): Vector => new Vector(x, y);
+const world = new Rect(v(0, 0), v(64, 64));
+
+describe("@trans-vector2d/spatial-index.LooseQuadtree", () => {
+  it("can keep items across split and merge of nodes", () => {
+    const tree = new LooseQuadtree<number>(world, { capacity: 1, maxDepth: 4 });
+    const points = [v(1, 1), v(3, 3), v(60, 60), v(62, 2), v(2, 62)];
+    points.forEach((p, i) => tree.insert(i, p));
+
+    expect(tree.queryRect(new Rect(v(0, 0), v(4, 4))).sort()).toEqual([0, 1]);
+
+    points.forEach((_, i) => {
+      if (i > 0) tree.remove(i);
+    });
+    expect(tree.queryRect(world)).toEqual([0]);
+    expect(tree.nearest(v(30, 30), 3)).toEqual([0]);
+  });
+
+  it("can store large item in shallow node", () => {
+    const tree = new LooseQuadtree<string>(world, { capacity: 1 });
+    tree.insert("small", v(10, 10));
+    tree.insert("large", new Rect(v(1, 1), v(63, 63)));
+    tree.insert("other", v(50, 50));
+
+    expect(tree.queryRect(new Rect(v(30, 30), v(31, 31)))).toEqual(["large"]);
+    tree.move("large", new Rect(v(1, 1), v(3, 3)));
+    expect(tree.queryRect(new Rect(v(30, 30), v(31, 31)))).toEqual([]);
+    expect(tree.queryRect(new Rect(v(0, 0), v(2, 2)))).toEqual(["large"]);
+  });
+
+  it("can stop splitting at max depth", () => {
+    const tree = new LooseQuadtree<number>(world, { capacity: 1, maxDepth: 2 });
+    for (let i = 0; i < 10; i++) tree.insert(i, v(1, 1));
+
+    expect(tree.queryRect(new Rect(v(0, 0), v(1, 1)))).toHaveLength(10);
+  });
+
+  it.each`
+    options             | message
+    ${{ capacity: 0 }}  | ${"capacity is less than 1"}
+    ${{ maxDepth: -1 }} | ${"maxDepth is negative"}
+  `("can not be created with invalid options", ({ options, message }) => {
+    expect(() => new LooseQuadtree(world, options)).toThrowError(message);
+  });
+});
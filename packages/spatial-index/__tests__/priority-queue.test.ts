@@ -0,0 +1,32 @@
+import { PriorityQueue } from "../src/priority-queue";
+
+describe("@trans-vector2d/spatial-index.PriorityQueue", () => {
+  it("can pop values in order of priority", () => {
+    const queue = new PriorityQueue<string>();
+    const priorities = [5, 1, 4, 2, 8, 0, 3, 7, 6, 9];
+    priorities.forEach((p) => queue.push(`v${p}`, p));
+
+    expect(queue.size()).toBe(10);
+    const popped: (string | undefined)[] = [];
+    while (queue.size() > 0) popped.push(queue.pop());
+    expect(popped).toEqual(priorities.sort().map((p) => `v${p}`));
+    expect(queue.pop()).toBeUndefined();
+  });
+
+  it("pop values have same priority in insertion order", () => {
+    const queue = new PriorityQueue<string>();
+    queue.push("a", 1);
+    queue.push("b", 0);
+    queue.push("c", 1);
+    queue.push("d", 0);
+    queue.push("e", 1);
+
+    expect([1, 2, 3, 4, 5].map(() => queue.pop())).toEqual([
+      "b",
+      "d",
+      "a",
+      "c",
+      "e",
+    ]);
+  });
+});
@@ -0,0 +1,39 @@
+import { SpatialHashGrid } from "../src";
+import { Vector } from "@trans-vector2d/vector";
+import { Rect } from "@trans-vector2d/rect";
+
+const v = (x: number, y: number): Vector => new Vector(x, y);
+
+describe("@trans-vector2d/spatial-index.SpatialHashGrid", () => {
+  it("can find item spans multiple cells once", () => {
+    const grid = new SpatialHashGrid<string>(1);
+    grid.insert("wide", new Rect(v(0.5, 0.5), v(3.5, 0.5)));
+
+    expect(grid.queryRect(new Rect(v(0, 0), v(4, 1)))).toEqual(["wide"]);
+    expect(grid.nearest(v(2, 2), 2)).toEqual(["wide"]);
+  });
+
+  it("can move item within same cell", () => {
+    const grid = new SpatialHashGrid<string>(10);
+    grid.insert("a", v(1, 1));
+    grid.move("a", v(9, 9));
+
+    expect(grid.queryRect(new Rect(v(0, 0), v(2, 2)))).toEqual([]);
+    expect(grid.queryRect(new Rect(v(8, 8), v(10, 10)))).toEqual(["a"]);
+  });
+
+  it("can handle negative coordinates", () => {
+    const grid = new SpatialHashGrid<string>(10);
+    grid.insert("a", v(-0.5, -0.5));
+    grid.insert("b", v(0.5, 0.5));
+
+    expect(grid.queryRect(new Rect(v(-1, -1), v(0, 0)))).toEqual(["a"]);
+    expect(grid.nearest(v(-3, -3), 1)).toEqual(["a"]);
+  });
+
+  it("can not be created with non-positive cell size", () => {
+    expect(() => new SpatialHashGrid(0)).toThrowError(
+      "cellSize is not positive"
+    );
+  });
+});
@@ -0,0 +1,181 @@
+import {
+  SpatialIndex,
+  LooseQuadtree,
+  SpatialHashGrid,
+  toBoundsRect,
+  squaredDistanceToRect,
+} from "../src";
+import { Vector } from "@trans-vector2d/vector";
+import { Random } from "@trans-vector2d/random";
+import { Rect } from "@trans-vector2d/rect";
+
+const v = (x: number, y: number): Vector => new Vector(x, y);
+const rect = (x1: number, y1: number, x2: number, y2: number): Rect =>
+  new Rect(v(x1, y1), v(x2, y2));
+
+const sortNumbers = (values: number[]): number[] =>
+  values.slice().sort((a, b) => a - b);
+
+describe("@trans-vector2d/spatial-index", () => {
+  it("can convert point and box to rect", () => {
+    expect(toBoundsRect({ x: 1, y: 2 })).toEqual(rect(1, 2, 1, 2));
+    expect(toBoundsRect({ min: { x: 0, y: 1 }, max: { x: 2, y: 3 } })).toEqual(
+      rect(0, 1, 2, 3)
+    );
+  });
+
+  it.each`
+    point               | expected
+    ${{ x: 1, y: 1 }}   | ${0}
+    ${{ x: 5, y: 1 }}   | ${9}
+    ${{ x: -3, y: -4 }} | ${25}
+  `("can compute squared distance to rect", ({ point, expected }) => {
+    expect(squaredDistanceToRect(point, rect(0, 0, 2, 2))).toBe(expected);
+  });
+});
+
+describe.each`
+  name                 | create
+  ${"LooseQuadtree"}   | ${(): SpatialIndex<number> => new LooseQuadtree(rect(0, 0, 100, 100), { capacity: 2 })}
+  ${"SpatialHashGrid"} | ${(): SpatialIndex<number> => new SpatialHashGrid(10)}
+`(
+  "@trans-vector2d/spatial-index.$name",
+  ({ create }: { create: () => SpatialIndex<number> }) => {
+    const createFilled = (): SpatialIndex<number> => {
+      const index = create();
+      index.insert(1, v(5, 5));
+      index.insert(2, v(15, 5));
+      index.insert(3, v(50, 50));
+      index.insert(4, rect(60, 0, 90, 30));
+      index.insert(5, v(95, 95));
+      return index;
+    };
+
+    it("can insert, move and remove items", () => {
+      const index = createFilled();
+
+      expect(index.count()).toBe(5);
+      expect(index.has(3)).toBe(true);
+
+      index.move(3, v(5, 6));
+      expect(sortNumbers(index.queryRect(rect(0, 0, 10, 10)))).toEqual([1, 3]);
+
+      expect(index.remove(3)).toBe(true);
+      expect(index.remove(3)).toBe(false);
+      expect(index.has(3)).toBe(false);
+      expect(index.queryRect(rect(0, 0, 10, 10))).toEqual([1]);
+
+      index.clear();
+      expect(index.count()).toBe(0);
+      expect(index.queryRect(rect(0, 0, 100, 100))).toEqual([]);
+    });
+
+    it("can not insert item twice nor move missing item", () => {
+      const index = createFilled();
+
+      expect(() => index.insert(1, v(0, 0))).toThrowError(
+        "item is already inserted"
+      );
+      expect(() => index.move(10, v(0, 0))).toThrowError(
+        "item is not inserted"
+      );
+    });
+
+    it("can query by rect", () => {
+      const index = createFilled();
+
+      expect(sortNumbers(index.queryRect(rect(0, 0, 20, 20)))).toEqual([1, 2]);
+      expect(sortNumbers(index.queryRect(rect(40, 20, 70, 60)))).toEqual([
+        3,
+        4,
+      ]);
+      expect(index.queryRect(rect(-1000, -1000, 1000, 1000))).toHaveLength(5);
+    });
+
+    it("can query by radius", () => {
+      const index = createFilled();
+
+      expect(sortNumbers(index.queryRadius(v(10, 5), 5))).toEqual([1, 2]);
+      expect(index.queryRadius(v(55, 25), 5)).toEqual([4]);
+      expect(() => index.queryRadius(v(0, 0), -1)).toThrowError(
+        "radius is negative"
+      );
+    });
+
+    it("can find k nearest items", () => {
+      const index = createFilled();
+
+      expect(index.nearest(v(0, 0), 3)).toEqual([1, 2, 4]);
+      expect(index.nearest(v(100, 100), 1)).toEqual([5]);
+      expect(index.nearest(v(-500, 500), 10)).toHaveLength(5);
+      expect(index.nearest(v(0, 0), 0)).toEqual([]);
+    });
+
+    it("can find items outside of initial area", () => {
+      const index = create();
+      index.insert(1, v(-50, -50));
+      index.insert(2, v(250, 120));
+
+      expect(index.queryRect(rect(-60, -60, -40, -40))).toEqual([1]);
+      expect(index.queryRadius(v(250, 121), 2)).toEqual([2]);
+      expect(index.nearest(v(200, 100), 1)).toEqual([2]);
+    });
+
+    it("can answer same as brute force", () => {
+      const random = new Random(42);
+      const index = create();
+      const rects = new Map<number, Rect>();
+      for (let i = 0; i < 200; i++) {
+        const min = v(random.range(-10, 110), random.range(-10, 110));
+        const r =
+          i % 3 === 0
+            ? new Rect(
+                min,
+                min.add({ x: random.range(0, 20), y: random.range(0, 20) })
+              )
+            : new Rect(min, min);
+        rects.set(i, r);
+        index.insert(i, r);
+      }
+      for (let i = 0; i < 200; i += 4) {
+        const min = v(random.range(0, 100), random.range(0, 100));
+        const r = new Rect(
+          min,
+          min.add({ x: random.range(0, 5), y: random.range(0, 5) })
+        );
+        rects.set(i, r);
+        index.move(i, r);
+      }
+      for (let i = 1; i < 200; i += 10) {
+        rects.delete(i);
+        index.remove(i);
+      }
+      const ids = Array.from(rects.keys());
+
+      for (let q = 0; q < 20; q++) {
+        const query = new Rect(
+          v(random.range(0, 100), random.range(0, 100)),
+          v(random.range(100, 200), random.range(100, 200))
+        ).intersection(rect(0, 0, 200, 200)) as Rect;
+        const expectedRect = ids.filter((id) =>
+          (rects.get(id) as Rect).intersects(query)
+        );
+        expect(sortNumbers(index.queryRect(query))).toEqual(
+          sortNumbers(expectedRect)
+        );
+
+        const center = v(random.range(0, 100), random.range(0, 100));
+        const distance = (id: number): number =>
+          squaredDistanceToRect(center, rects.get(id) as Rect);
+        const expectedRadius = ids.filter((id) => distance(id) <= 15 * 15);
+        expect(sortNumbers(index.queryRadius(center, 15))).toEqual(
+          sortNumbers(expectedRadius)
+        );
+
+        const nearest = index.nearest(center, 5);
+        const expectedDistances = sortNumbers(ids.map(distance)).slice(0, 5);
+        expect(nearest.map(distance)).toEqual(expectedDistances);
+      }
+    });
+  }
+);
@@ -0,0 +1,3 @@
+export * from "./spatial-index";
+export * from "./loose-quadtree";
+export * from "./spatial-hash-grid";
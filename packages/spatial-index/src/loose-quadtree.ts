@@ -0,0 +1,297 @@
+import { Vector, VectorLike } from "@trans-vector2d/vector";
+import { Rect, RectLike } from "@trans-vector2d/rect";
+import {
+  SpatialIndex,
+  SpatialBounds,
+  toBoundsRect,
+  squaredDistanceToRect,
+} from "./spatial-index";
+import { PriorityQueue } from "./priority-queue";
+
+/**
+ * Options of LooseQuadtree.
+ */
+export interface LooseQuadtreeOptions {
+  /** Count of items in node before node is split. Default is 8 */
+  capacity?: number;
+  /** Max depth of nodes. Root is depth 0. Default is 8 */
+  maxDepth?: number;
+}
+
+interface QuadEntry<T> {
+  item: T;
+  rect: Rect;
+  node: QuadNode<T>;
+}
+
+interface QuadNode<T> {
+  cell: Rect;
+  // Cell expanded by half of its size. Entries in node are inside of it
+  loose: Rect;
+  depth: number;
+  parent: QuadNode<T> | undefined;
+  entries: QuadEntry<T>[];
+  children: QuadNode<T>[] | undefined;
+}
+
+const createNode = <T>(
+  cell: Rect,
+  depth: number,
+  parent: QuadNode<T> | undefined
+): QuadNode<T> => ({
+  cell,
+  loose: cell.expand(cell.size().div(2)),
+  depth,
+  parent,
+  entries: [],
+  children: undefined,
+});
+
+const fitsInCell = (cell: Rect, rect: Rect): boolean => {
+  const size = rect.size();
+  const cellSize = cell.size();
+  return (
+    cell.contains(rect.center()) && size.x <= cellSize.x && size.y <= cellSize.y
+  );
+};
+
+/**
+ * Loose quadtree.
+ * Each item is stored in the deepest node whose loose bounds contain it entirely,
+ * so items are never duplicated and moving item is cheap.
+ * Items outside of world bounds are stored in root node.
+ */
+export class LooseQuadtree<T> implements SpatialIndex<T> {
+  private readonly root: QuadNode<T>;
+  private readonly entries = new Map<T, QuadEntry<T>>();
+  private readonly capacity: number;
+  private readonly maxDepth: number;
+
+  /**
+   * @param bounds World bounds divided by nodes
+   * @param options Options
+   */
+  constructor(bounds: RectLike, options: LooseQuadtreeOptions = {}) {
+    this.capacity = options.capacity === undefined ? 8 : options.capacity;
+    this.maxDepth = options.maxDepth === undefined ? 8 : options.maxDepth;
+    if (this.capacity < 1) throw new Error("capacity is less than 1");
+    if (this.maxDepth < 0) throw new Error("maxDepth is negative");
+    this.root = createNode(Rect.from(bounds), 0, undefined);
+  }
+
+  /**
+   * Return count of items.
+   *
+   * @returns Count of items
+   */
+  count(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Return item is in self.
+   *
+   * @param item Item
+   * @returns Item is in self
+   */
+  has(item: T): boolean {
+    return this.entries.has(item);
+  }
+
+  /**
+   * Add item.
+   *
+   * @param item Item not in self
+   * @param bounds Point or bounding box of item
+   */
+  insert(item: T, bounds: SpatialBounds): void {
+    if (this.entries.has(item)) throw new Error("item is already inserted");
+    const entry = { item, rect: toBoundsRect(bounds), node: this.root };
+    this.entries.set(item, entry);
+    this.insertEntry(this.root, entry);
+  }
+
+  /**
+   * Update location of item.
+   *
+   * @param item Item in self
+   * @param bounds New point or bounding box of item
+   */
+  move(item: T, bounds: SpatialBounds): void {
+    const entry = this.entries.get(item);
+    if (entry === undefined) throw new Error("item is not inserted");
+    entry.rect = toBoundsRect(bounds);
+    // Stay in current node if item still fits and can not go deeper
+    const { node } = entry;
+    const fits = node === this.root || fitsInCell(node.cell, entry.rect);
+    const canSink =
+      node.children !== undefined &&
+      node.children.some((child) => fitsInCell(child.cell, entry.rect));
+    if (fits && !canSink) return;
+    this.detach(entry);
+    this.insertEntry(this.root, entry);
+  }
+
+  /**
+   * Remove item.
+   *
+   * @param item Item
+   * @returns Item was in self
+   */
+  remove(item: T): boolean {
+    const entry = this.entries.get(item);
+    if (entry === undefined) return false;
+    this.entries.delete(item);
+    this.detach(entry);
+    return true;
+  }
+
+  /**
+   * Remove all items.
+   */
+  clear(): void {
+    this.entries.clear();
+    this.root.entries = [];
+    this.root.children = undefined;
+  }
+
+  /**
+   * Find items overlapped with rect.
+   * Touching items are treated as overlapped.
+   *
+   * @param rect Query rect
+   * @returns Found items in no particular order
+   */
+  queryRect(rect: RectLike): T[] {
+    const query = Rect.from(rect);
+    const result: T[] = [];
+    const visit = (node: QuadNode<T>): void => {
+      for (const entry of node.entries) {
+        if (entry.rect.intersects(query)) result.push(entry.item);
+      }
+      if (node.children === undefined) return;
+      for (const child of node.children) {
+        if (child.loose.intersects(query)) visit(child);
+      }
+    };
+    visit(this.root);
+    return result;
+  }
+
+  /**
+   * Find items within distance from point.
+   *
+   * @param center Query point
+   * @param radius Query radius
+   * @returns Found items in no particular order
+   */
+  queryRadius(center: VectorLike, radius: number): T[] {
+    if (radius < 0) throw new Error("radius is negative");
+    const c = Vector.from(center);
+    const query = new Rect(
+      c.sub({ x: radius, y: radius }),
+      c.add({ x: radius, y: radius })
+    );
+    const radiusSq = radius * radius;
+    return this.queryRect(query).filter((item) => {
+      const entry = this.entries.get(item) as QuadEntry<T>;
+      return squaredDistanceToRect(c, entry.rect) <= radiusSq;
+    });
+  }
+
+  /**
+   * Find k nearest items from point.
+   *
+   * @param point Query point
+   * @param k Max count of items
+   * @returns Items sorted by distance
+   */
+  nearest(point: VectorLike, k: number): T[] {
+    // Best-first search. Distance to loose bounds is lower bound of distances to entries in node
+    type Candidate = { node: QuadNode<T> } | { entry: QuadEntry<T> };
+    const queue = new PriorityQueue<Candidate>();
+    queue.push({ node: this.root }, 0);
+
+    const result: T[] = [];
+    while (result.length < k && queue.size() > 0) {
+      const candidate = queue.pop() as Candidate;
+      if ("entry" in candidate) {
+        result.push(candidate.entry.item);
+        continue;
+      }
+      const { node } = candidate;
+      for (const entry of node.entries) {
+        queue.push({ entry }, squaredDistanceToRect(point, entry.rect));
+      }
+      for (const child of node.children || []) {
+        queue.push({ node: child }, squaredDistanceToRect(point, child.loose));
+      }
+    }
+    return result;
+  }
+
+  private insertEntry(start: QuadNode<T>, entry: QuadEntry<T>): void {
+    let node = start;
+    for (;;) {
+      const child = this.childToSink(node, entry.rect);
+      if (child === undefined) break;
+      node = child;
+    }
+    entry.node = node;
+    node.entries.push(entry);
+    if (
+      node.children === undefined &&
+      node.entries.length > this.capacity &&
+      node.depth < this.maxDepth
+    ) {
+      this.split(node);
+    }
+  }
+
+  private childToSink(node: QuadNode<T>, rect: Rect): QuadNode<T> | undefined {
+    if (node.children === undefined) return undefined;
+    return node.children.filter((child) => fitsInCell(child.cell, rect))[0];
+  }
+
+  private split(node: QuadNode<T>): void {
+    const { min, max } = node.cell;
+    const center = node.cell.center();
+    node.children = [
+      new Rect(min, center),
+      new Rect(new Vector(center.x, min.y), new Vector(max.x, center.y)),
+      new Rect(new Vector(min.x, center.y), new Vector(center.x, max.y)),
+      new Rect(center, max),
+    ].map((cell) => createNode(cell, node.depth + 1, node));
+    const entries = node.entries;
+    node.entries = [];
+    for (const entry of entries) this.insertEntry(node, entry);
+  }
+
+  private detach(entry: QuadEntry<T>): void {
+    const { node } = entry;
+    node.entries.splice(node.entries.indexOf(entry), 1);
+    // Merge children into parent when they become sparse
+    let parent = node.parent;
+    while (parent !== undefined && this.canMerge(parent)) {
+      const children = parent.children as QuadNode<T>[];
+      parent.children = undefined;
+      for (const child of children) {
+        for (const e of child.entries) {
+          e.node = parent;
+          parent.entries.push(e);
+        }
+      }
+      parent = parent.parent;
+    }
+  }
+
+  private canMerge(node: QuadNode<T>): boolean {
+    if (node.children === undefined) return false;
+    let total = node.entries.length;
+    for (const child of node.children) {
+      if (child.children !== undefined) return false;
+      total += child.entries.length;
+    }
+    return total <= this.capacity;
+  }
+}
@@ -0,0 +1,80 @@
+interface QueueNode<T> {
+  value: T;
+  priority: number;
+  // Insertion count breaks ties of priority
+  order: number;
+}
+
+/**
+ * Binary min-heap pops value has smallest priority.
+ * Values have same priority are popped in insertion order.
+ */
+export class PriorityQueue<T> {
+  private readonly nodes: QueueNode<T>[] = [];
+  private pushed = 0;
+
+  /**
+   * Return count of values.
+   *
+   * @returns Count of values
+   */
+  size(): number {
+    return this.nodes.length;
+  }
+
+  /**
+   * Add value.
+   *
+   * @param value Value
+   * @param priority Smaller priority is popped earlier
+   */
+  push(value: T, priority: number): void {
+    const nodes = this.nodes;
+    const node = { value, priority, order: this.pushed++ };
+    let i = nodes.length;
+    nodes.push(node);
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.precedes(node, nodes[parent])) break;
+      nodes[i] = nodes[parent];
+      i = parent;
+    }
+    nodes[i] = node;
+  }
+
+  /**
+   * Remove value has smallest priority.
+   *
+   * @returns Removed value or undefined if self is empty
+   */
+  pop(): T | undefined {
+    const nodes = this.nodes;
+    if (nodes.length === 0) return undefined;
+    const top = nodes[0];
+    const last = nodes.pop() as QueueNode<T>;
+    if (nodes.length === 0) return top.value;
+    let i = 0;
+    for (;;) {
+      let child = 2 * i + 1;
+      if (child >= nodes.length) break;
+      if (
+        child + 1 < nodes.length &&
+        this.precedes(nodes[child + 1], nodes[child])
+      ) {
+        child += 1;
+      }
+      if (!this.precedes(nodes[child], last)) break;
+      nodes[i] = nodes[child];
+      i = child;
+    }
+    nodes[i] = last;
+    return top.value;
+  }
+
+  private precedes(a: QueueNode<T>, b: QueueNode<T>): boolean {
+    return (
+      a.priority < b.priority ||
+      (a.priority === b.priority && a.order < b.order)
+    );
+  }
+}
@@ -0,0 +1,277 @@
+import { Vector, VectorLike } from "@trans-vector2d/vector";
+import { Rect, RectLike } from "@trans-vector2d/rect";
+import {
+  SpatialIndex,
+  SpatialBounds,
+  toBoundsRect,
+  squaredDistanceToRect,
+} from "./spatial-index";
+
+interface GridEntry<T> {
+  item: T;
+  rect: Rect;
+  // Range of cell indices covered by rect
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+/**
+ * Uniform grid hashes cells by their indices.
+ * Grid is unbounded and only occupied cells allocate memory.
+ * Item stored by bounding box is registered to all cells it covers.
+ */
+export class SpatialHashGrid<T> implements SpatialIndex<T> {
+  // Buckets of occupied cells indexed by x and then y
+  private readonly cells = new Map<number, Map<number, GridEntry<T>[]>>();
+  private readonly entries = new Map<T, GridEntry<T>>();
+  private cellCount = 0;
+
+  /**
+   * @param cellSize Width and height of each cell
+   */
+  constructor(public readonly cellSize: number) {
+    if (!(cellSize > 0)) throw new Error("cellSize is not positive");
+  }
+
+  /**
+   * Return count of items.
+   *
+   * @returns Count of items
+   */
+  count(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Return item is in self.
+   *
+   * @param item Item
+   * @returns Item is in self
+   */
+  has(item: T): boolean {
+    return this.entries.has(item);
+  }
+
+  /**
+   * Add item.
+   *
+   * @param item Item not in self
+   * @param bounds Point or bounding box of item
+   */
+  insert(item: T, bounds: SpatialBounds): void {
+    if (this.entries.has(item)) throw new Error("item is already inserted");
+    const entry = this.createEntry(item, toBoundsRect(bounds));
+    this.entries.set(item, entry);
+    this.register(entry);
+  }
+
+  /**
+   * Update location of item.
+   *
+   * @param item Item in self
+   * @param bounds New point or bounding box of item
+   */
+  move(item: T, bounds: SpatialBounds): void {
+    const old = this.entries.get(item);
+    if (old === undefined) throw new Error("item is not inserted");
+    const entry = this.createEntry(item, toBoundsRect(bounds));
+    this.entries.set(item, entry);
+    if (
+      old.minX === entry.minX &&
+      old.minY === entry.minY &&
+      old.maxX === entry.maxX &&
+      old.maxY === entry.maxY
+    ) {
+      // Same cells. Replace entry without rehashing
+      this.forEachCell(old, (x, y) => {
+        const bucket = this.bucket(x, y) || [];
+        bucket[bucket.indexOf(old)] = entry;
+      });
+      return;
+    }
+    this.unregister(old);
+    this.register(entry);
+  }
+
+  /**
+   * Remove item.
+   *
+   * @param item Item
+   * @returns Item was in self
+   */
+  remove(item: T): boolean {
+    const entry = this.entries.get(item);
+    if (entry === undefined) return false;
+    this.entries.delete(item);
+    this.unregister(entry);
+    return true;
+  }
+
+  /**
+   * Remove all items.
+   */
+  clear(): void {
+    this.entries.clear();
+    this.cells.clear();
+    this.cellCount = 0;
+  }
+
+  /**
+   * Find items overlapped with rect.
+   * Touching items are treated as overlapped.
+   *
+   * @param rect Query rect
+   * @returns Found items in no particular order
+   */
+  queryRect(rect: RectLike): T[] {
+    const query = Rect.from(rect);
+    const range = this.createEntry(undefined, query);
+    const cellCount =
+      (range.maxX - range.minX + 1) * (range.maxY - range.minY + 1);
+    // Scanning all items is faster than visiting many empty cells
+    if (cellCount > this.cellCount) {
+      const result: T[] = [];
+      this.entries.forEach((entry) => {
+        if (entry.rect.intersects(query)) result.push(entry.item);
+      });
+      return result;
+    }
+
+    const seen = new Set<GridEntry<T>>();
+    const result: T[] = [];
+    this.forEachCell(range, (x, y) => {
+      for (const entry of this.bucket(x, y) || []) {
+        if (seen.has(entry)) continue;
+        seen.add(entry);
+        if (entry.rect.intersects(query)) result.push(entry.item);
+      }
+    });
+    return result;
+  }
+
+  /**
+   * Find items within distance from point.
+   *
+   * @param center Query point
+   * @param radius Query radius
+   * @returns Found items in no particular order
+   */
+  queryRadius(center: VectorLike, radius: number): T[] {
+    if (radius < 0) throw new Error("radius is negative");
+    const c = Vector.from(center);
+    const query = new Rect(
+      c.sub({ x: radius, y: radius }),
+      c.add({ x: radius, y: radius })
+    );
+    const radiusSq = radius * radius;
+    return this.queryRect(query).filter((item) => {
+      const entry = this.entries.get(item) as GridEntry<T>;
+      return squaredDistanceToRect(c, entry.rect) <= radiusSq;
+    });
+  }
+
+  /**
+   * Find k nearest items from point.
+   *
+   * @param point Query point
+   * @param k Max count of items
+   * @returns Items sorted by distance
+   */
+  nearest(point: VectorLike, k: number): T[] {
+    if (k <= 0) return [];
+    const candidates: { distance: number; entry: GridEntry<T> }[] = [];
+    const seen = new Set<GridEntry<T>>();
+    const visit = (entry: GridEntry<T>): void => {
+      if (seen.has(entry)) return;
+      seen.add(entry);
+      candidates.push({
+        distance: squaredDistanceToRect(point, entry.rect),
+        entry,
+      });
+    };
+    const isSettled = (ring: number): boolean => {
+      if (candidates.length < k) return false;
+      candidates.sort((a, b) => a.distance - b.distance);
+      // Unvisited items are in outer rings at least ring * cellSize away
+      const bound = ring * this.cellSize;
+      return candidates[k - 1].distance <= bound * bound;
+    };
+
+    const cx = Math.floor(point.x / this.cellSize);
+    const cy = Math.floor(point.y / this.cellSize);
+    for (let ring = 0; seen.size < this.entries.size; ring++) {
+      if (8 * ring > this.cellCount) {
+        // Ring is larger than occupied cells. Check remaining items directly
+        this.entries.forEach(visit);
+        break;
+      }
+      for (let x = cx - ring; x <= cx + ring; x++) {
+        const onEdge = x === cx - ring || x === cx + ring;
+        const step = onEdge ? 1 : 2 * ring;
+        for (let y = cy - ring; y <= cy + ring; y += Math.max(step, 1)) {
+          (this.bucket(x, y) || []).forEach(visit);
+        }
+      }
+      if (isSettled(ring)) break;
+    }
+    candidates.sort((a, b) => a.distance - b.distance);
+    return candidates.slice(0, k).map((c) => c.entry.item);
+  }
+
+  private createEntry<U>(item: U, rect: Rect): GridEntry<U> {
+    return {
+      item,
+      rect,
+      minX: Math.floor(rect.min.x / this.cellSize),
+      minY: Math.floor(rect.min.y / this.cellSize),
+      maxX: Math.floor(rect.max.x / this.cellSize),
+      maxY: Math.floor(rect.max.y / this.cellSize),
+    };
+  }
+
+  private forEachCell<U>(
+    range: GridEntry<U>,
+    fn: (x: number, y: number) => void
+  ): void {
+    for (let x = range.minX; x <= range.maxX; x++) {
+      for (let y = range.minY; y <= range.maxY; y++) fn(x, y);
+    }
+  }
+
+  private bucket(x: number, y: number): GridEntry<T>[] | undefined {
+    const column = this.cells.get(x);
+    return column === undefined ? undefined : column.get(y);
+  }
+
+  private register(entry: GridEntry<T>): void {
+    this.forEachCell(entry, (x, y) => {
+      let column = this.cells.get(x);
+      if (column === undefined) {
+        column = new Map();
+        this.cells.set(x, column);
+      }
+      const bucket = column.get(y);
+      if (bucket !== undefined) {
+        bucket.push(entry);
+        return;
+      }
+      column.set(y, [entry]);
+      this.cellCount += 1;
+    });
+  }
+
+  private unregister(entry: GridEntry<T>): void {
+    this.forEachCell(entry, (x, y) => {
+      const column = this.cells.get(x);
+      const bucket = column === undefined ? undefined : column.get(y);
+      if (column === undefined || bucket === undefined) return;
+      bucket.splice(bucket.indexOf(entry), 1);
+      if (bucket.length > 0) return;
+      column.delete(y);
+      this.cellCount -= 1;
+      if (column.size === 0) this.cells.delete(x);
+    });
+  }
+}
@@ -0,0 +1,111 @@
+import { Vector, VectorLike } from "@trans-vector2d/vector";
+import { Rect, RectLike } from "@trans-vector2d/rect";
+
+/**
+ * Location of item in spatial index. Point or bounding box.
+ */
+export type SpatialBounds = VectorLike | RectLike;
+
+/**
+ * Common interface of spatial indexes.
+ * Items are identified by identity, so same item can not be inserted twice.
+ */
+export interface SpatialIndex<T> {
+  /**
+   * Return count of items.
+   */
+  count(): number;
+
+  /**
+   * Return item is in self.
+   *
+   * @param item Item
+   */
+  has(item: T): boolean;
+
+  /**
+   * Add item. Throw Error if item is already in self.
+   *
+   * @param item Item
+   * @param bounds Point or bounding box of item
+   */
+  insert(item: T, bounds: SpatialBounds): void;
+
+  /**
+   * Update location of item. Throw Error if item is not in self.
+   *
+   * @param item Item
+   * @param bounds New point or bounding box of item
+   */
+  move(item: T, bounds: SpatialBounds): void;
+
+  /**
+   * Remove item.
+   *
+   * @param item Item
+   * @returns Item was in self
+   */
+  remove(item: T): boolean;
+
+  /**
+   * Remove all items.
+   */
+  clear(): void;
+
+  /**
+   * Find items overlapped with rect.
+   * Touching items are treated as overlapped.
+   *
+   * @param rect Query rect
+   */
+  queryRect(rect: RectLike): T[];
+
+  /**
+   * Find items within distance from point.
+   * Distance to bounding box is used for items stored by bounding box.
+   *
+   * @param center Query point
+   * @param radius Query radius
+   */
+  queryRadius(center: VectorLike, radius: number): T[];
+
+  /**
+   * Find k nearest items from point.
+   *
+   * @param point Query point
+   * @param k Max count of items
+   * @returns Items sorted by distance
+   */
+  nearest(point: VectorLike, k: number): T[];
+}
+
+/**
+ * Convert point or bounding box to rect.
+ *
+ * @param bounds Point or bounding box
+ * @returns Rect. Point is expressed as rect has zero size
+ */
+export function toBoundsRect(bounds: SpatialBounds): Rect {
+  // Vector has min method, so test x instead of min
+  if ("x" in bounds) {
+    const point = Vector.from(bounds);
+    return new Rect(point, point);
+  }
+  return Rect.from(bounds);
+}
+
+/**
+ * Compute squared distance from point to rect.
+ *
+ * @param point Point
+ * @param rect Rect
+ * @returns Squared distance. 0 if rect contains point
+ */
+export function squaredDistanceToRect(
+  point: VectorLike,
+  rect: RectLike
+): number {
+  const dx = Math.max(rect.min.x - point.x, 0, point.x - rect.max.x);
+  const dy = Math.max(rect.min.y - point.y, 0, point.y - rect.max.y);
+  return dx * dx + dy * dy;
+}
@@ -1,4 +1,25 @@
-import { Vector, Matrix } from "../src";
+import {
+  Vector,
+  Matrix,
+  Rect,
+  TransformNode,
+  Segment,
+  Path,
+  Timeline,
+  Camera,
+  LooseQuadtree,
+  SpatialHashGrid,
+  Random,
+  SquareGrid,
+  IsometricGrid,
+  HexGrid,
+  Homography,
+  RigidTransform,
+  SimilarityTransform,
+  TransformBuilder,
+  FixedVector,
+  FixedMatrix,
+} from "../src";
 
 describe("trans-vector2d", () => {
   it("has Vector", () => {
@@ -8,4 +29,61 @@ describe("trans-vector2d", () => {
   it("has Matrix", () => {
     expect(Matrix).not.toBeUndefined();
   });
+
+  it("has Rect", () => {
+    expect(Rect).not.toBeUndefined();
+  });
+
+  it("has TransformNode", () => {
+    expect(TransformNode).not.toBeUndefined();
+  });
+
+  it("has geometric primitives", () => {
+    expect(Segment).not.toBeUndefined();
+  });
+
+  it("has Path", () => {
+    expect(Path).not.toBeUndefined();
+  });
+
+  it("has Timeline", () => {
+    expect(Timeline).not.toBeUndefined();
+  });
+
+  it("has Camera", () => {
+    expect(Camera).not.toBeUndefined();
+  });
+
+  it("has spatial indexes", () => {
+    expect(LooseQuadtree).not.toBeUndefined();
+    expect(SpatialHashGrid).not.toBeUndefined();
+  });
+
+  it("has Random", () => {
+    expect(Random).not.toBeUndefined();
+  });
+
+  it("has grids", () => {
+    expect(SquareGrid).not.toBeUndefined();
+    expect(IsometricGrid).not.toBeUndefined();
+    expect(HexGrid).not.toBeUndefined();
+  });
+
+  it("has Homography", () => {
+    expect(Homography).not.toBeUndefined();
+  });
+
+  it("has constrained transforms", () => {
+    expect(RigidTransform).not.toBeUndefined();
+    expect(SimilarityTransform).not.toBeUndefined();
+  });
+
+  it("has TransformBuilder", () => {
+    expect(TransformBuilder).not.toBeUndefined();
+  });
+
+  it("has fixed-point classes", () => {
+    expect(FixedVector).not.toBeUndefined();
+    expect(FixedMatrix).not.toBeUndefined();
+  });
 });
@@ -1,2 +1,12 @@
 export * from "@trans-vector2d/vector";
 export * from "@trans-vector2d/matrix";
+export * from "@trans-vector2d/rect";
+export * from "@trans-vector2d/transform-node";
+export * from "@trans-vector2d/geometry";
+export * from "@trans-vector2d/path";
+export * from "@trans-vector2d/animation";
+export * from "@trans-vector2d/camera";
+export * from "@trans-vector2d/spatial-index";
+export * from "@trans-vector2d/random";
+export * from "@trans-vector2d/grid";
+export * from "@trans-vector2d/fixed";
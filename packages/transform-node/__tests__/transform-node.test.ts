@@ -0,0 +1,131 @@
+import { TransformNode } from "../src";
+import { Matrix } from "@trans-vector2d/matrix";
+
+const createNodes = (): {
+  root: TransformNode;
+  child: TransformNode;
+  grandChild: TransformNode;
+} => {
+  const root = new TransformNode(
+    Matrix.from({ translation: { x: 1, y: 1 }, rotation: Math.PI / 2 })
+  );
+  const child = new TransformNode(
+    Matrix.from({ translation: { x: 2, y: 0 }, scale: { x: 2, y: 2 } })
+  );
+  const grandChild = new TransformNode(Matrix.translation({ x: 1, y: 0 }));
+  root.addChild(child, false);
+  child.addChild(grandChild, false);
+  return { root, child, grandChild };
+};
+
+describe("@trans-vector2d/transform-node.TransformNode", () => {
+  it("has identity matrix as default", () => {
+    const node = new TransformNode();
+
+    expect(node.getLocal().equals(Matrix.identity)).toBe(true);
+    expect(node.getWorld().equals(Matrix.identity)).toBe(true);
+    expect(node.getParent()).toBeUndefined();
+    expect(node.getChildren()).toEqual([]);
+  });
+
+  it("can compose world matrix from ancestors", () => {
+    const { root, child, grandChild } = createNodes();
+    const expected = root
+      .getLocal()
+      .globalize(child.getLocal())
+      .globalize(grandChild.getLocal());
+
+    expect(grandChild.getWorld().isClosedTo(expected)).toBe(true);
+    expect(grandChild.getRoot()).toBe(root);
+    expect(grandChild.isDescendantOf(root)).toBe(true);
+    expect(root.isDescendantOf(grandChild)).toBe(false);
+  });
+
+  it("cache world matrix", () => {
+    const { grandChild } = createNodes();
+
+    expect(grandChild.getWorld()).toBe(grandChild.getWorld());
+  });
+
+  it("update world matrix when ancestor was changed", () => {
+    const { root, grandChild } = createNodes();
+    const before = grandChild.getWorld();
+
+    root.setLocal(Matrix.identity);
+    const after = grandChild.getWorld();
+
+    expect(after).not.toBe(before);
+    const expected = Matrix.from({
+      translation: { x: 4, y: 0 },
+      scale: { x: 2, y: 2 },
+    });
+    expect(after.isClosedTo(expected)).toBe(true);
+  });
+
+  it("can set world matrix", () => {
+    const { child, grandChild } = createNodes();
+    const world = Matrix.from({ translation: { x: 5, y: 6 }, rotation: 1 });
+
+    grandChild.setWorld(world);
+
+    expect(grandChild.getWorld().isClosedTo(world)).toBe(true);
+    expect(
+      child.getWorld().globalize(grandChild.getLocal()).isClosedTo(world)
+    ).toBe(true);
+  });
+
+  it("keep world matrix when reparented", () => {
+    const { root, child, grandChild } = createNodes();
+    const other = new TransformNode(Matrix.from({ rotation: 2 }));
+    const world = grandChild.getWorld();
+
+    grandChild.setParent(other);
+
+    expect(grandChild.getParent()).toBe(other);
+    expect(other.getChildren()).toEqual([grandChild]);
+    expect(child.getChildren()).toEqual([]);
+    expect(grandChild.isDescendantOf(root)).toBe(false);
+    expect(grandChild.getWorld().isClosedTo(world)).toBe(true);
+  });
+
+  it("can keep local matrix when reparented", () => {
+    const { grandChild } = createNodes();
+    const local = grandChild.getLocal();
+
+    grandChild.setParent(undefined, false);
+
+    expect(grandChild.getLocal()).toBe(local);
+    expect(grandChild.getWorld()).toBe(local);
+  });
+
+  it("can remove child", () => {
+    const { child, grandChild } = createNodes();
+    const world = grandChild.getWorld();
+
+    child.removeChild(grandChild);
+
+    expect(grandChild.getParent()).toBeUndefined();
+    expect(grandChild.getWorld().isClosedTo(world)).toBe(true);
+  });
+
+  it("throw Error when remove not child node", () => {
+    const { root, grandChild } = createNodes();
+
+    expect(() => root.removeChild(grandChild)).toThrowError();
+  });
+
+  it("throw Error when make cycle", () => {
+    const { root, grandChild } = createNodes();
+
+    expect(() => root.setParent(grandChild)).toThrowError();
+    expect(() => root.setParent(root)).toThrowError();
+  });
+
+  it("can convert point between local and world", () => {
+    const { child } = createNodes();
+    const world = child.localToWorld({ x: 1, y: 0 });
+
+    expect(world.isClosedTo({ x: 1, y: 5 })).toBe(true);
+    expect(child.worldToLocal(world).isClosedTo({ x: 1, y: 0 })).toBe(true);
+  });
+});
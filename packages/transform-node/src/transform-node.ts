@@ -0,0 +1,189 @@
+import { Vector, VectorLike } from "@trans-vector2d/vector";
+import { Matrix, MatrixLike } from "@trans-vector2d/matrix";
+
+/**
+ * Node of transform hierarchy.
+ * Node has local matrix relative to parent and caches world matrix.
+ * Cached world matrix is invalidated when self or any ancestor is changed.
+ */
+export class TransformNode {
+  private parent?: TransformNode;
+  private readonly children: TransformNode[] = [];
+  private local: Matrix;
+  private world = Matrix.identity;
+  private worldIsDirty = true;
+
+  /**
+   * @param local Local matrix relative to parent
+   */
+  constructor(local: MatrixLike = Matrix.identity) {
+    this.local = Matrix.from(local);
+  }
+
+  /**
+   * Get parent node.
+   *
+   * @returns Parent node or undefined if self is root
+   */
+  getParent(): TransformNode | undefined {
+    return this.parent;
+  }
+
+  /**
+   * Get child nodes.
+   *
+   * @returns Child nodes
+   */
+  getChildren(): readonly TransformNode[] {
+    return this.children;
+  }
+
+  /**
+   * Get root node of hierarchy contains self.
+   *
+   * @returns Root node
+   */
+  getRoot(): TransformNode {
+    return this.parent === undefined ? this : this.parent.getRoot();
+  }
+
+  /**
+   * Return self is descendant of other node.
+   *
+   * @param other Other node
+   * @returns Self is descendant of other
+   */
+  isDescendantOf(other: TransformNode): boolean {
+    for (let node = this.parent; node !== undefined; node = node.parent) {
+      if (node === other) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Get local matrix relative to parent.
+   *
+   * @returns Local matrix
+   */
+  getLocal(): Matrix {
+    return this.local;
+  }
+
+  /**
+   * Set local matrix relative to parent.
+   *
+   * @param local Local matrix
+   */
+  setLocal(local: MatrixLike): void {
+    this.local = Matrix.from(local);
+    this.invalidateWorld();
+  }
+
+  /**
+   * Get world matrix.
+   * World matrix is computed only when self or any ancestor was changed.
+   *
+   * @returns World matrix
+   */
+  getWorld(): Matrix {
+    if (this.worldIsDirty) {
+      this.world =
+        this.parent === undefined
+          ? this.local
+          : this.parent.getWorld().globalize(this.local);
+      this.worldIsDirty = false;
+    }
+    return this.world;
+  }
+
+  /**
+   * Set world matrix.
+   * Local matrix is computed from parent world matrix.
+   *
+   * @param world World matrix
+   */
+  setWorld(world: MatrixLike): void {
+    if (this.parent === undefined) {
+      this.setLocal(world);
+      return;
+    }
+    this.setLocal(this.parent.getWorld().localize(world));
+  }
+
+  /**
+   * Change parent node.
+   *
+   * @param parent New parent node or undefined to make self root
+   * @param keepWorld Keep world matrix instead of local matrix
+   */
+  setParent(parent: TransformNode | undefined, keepWorld = true): void {
+    if (parent === this.parent) return;
+    if (
+      parent === this ||
+      (parent !== undefined && parent.isDescendantOf(this))
+    )
+      throw new Error("parent is self or descendant of self");
+
+    const world = this.getWorld();
+    if (this.parent !== undefined) {
+      const siblings = this.parent.children;
+      siblings.splice(siblings.indexOf(this), 1);
+    }
+    this.parent = parent;
+    if (parent !== undefined) parent.children.push(this);
+
+    if (keepWorld) {
+      this.setWorld(world);
+    } else {
+      this.invalidateWorld();
+    }
+  }
+
+  /**
+   * Add child node.
+   *
+   * @param child Child node
+   * @param keepWorld Keep world matrix of child instead of local matrix
+   */
+  addChild(child: TransformNode, keepWorld = true): void {
+    child.setParent(this, keepWorld);
+  }
+
+  /**
+   * Remove child node.
+   *
+   * @param child Child node
+   * @param keepWorld Keep world matrix of child instead of local matrix
+   */
+  removeChild(child: TransformNode, keepWorld = true): void {
+    if (child.parent !== this) throw new Error("node is not child of self");
+    child.setParent(undefined, keepWorld);
+  }
+
+  /**
+   * Convert point in local space to world space.
+   *
+   * @param point Local point
+   * @returns World point
+   */
+  localToWorld(point: VectorLike): Vector {
+    return this.getWorld().globalizePoint(point);
+  }
+
+  /**
+   * Convert point in world space to local space.
+   *
+   * @param point World point
+   * @returns Local point
+   */
+  worldToLocal(point: VectorLike): Vector {
+    return this.getWorld().localizePoint(point);
+  }
+
+  private invalidateWorld(): void {
+    // Descendants of dirty node are always dirty
+    if (this.worldIsDirty) return;
+    this.worldIsDirty = true;
+    for (const child of this.children) child.invalidateWorld();
+  }
+}
@@ -0,0 +1,93 @@
+import {
+  normalizeAngle,
+  normalizeAnglePositive,
+  deltaAngle,
+  lerpAngle,
+  moveTowardsAngle,
+  degToRad,
+  radToDeg,
+  turnToRad,
+  radToTurn,
+} from "../src";
+
+const PI = Math.PI;
+
+describe("@trans-vector2d/vector angle", () => {
+  it.each`
+    angle           | expected
+    ${0}            | ${0}
+    ${PI}           | ${PI}
+    ${-PI}          | ${PI}
+    ${(PI * 3) / 2} | ${-PI / 2}
+    ${-PI * 3}      | ${PI}
+    ${PI * 5}       | ${PI}
+    ${PI * 4 + 1}   | ${1}
+  `("can normalize $angle to (-PI, PI]", ({ angle, expected }) => {
+    const normalized = normalizeAngle(angle);
+
+    expect(normalized).toBeCloseTo(expected);
+    expect(normalized).toBeGreaterThan(-PI);
+    expect(normalized).toBeLessThanOrEqual(PI);
+  });
+
+  it.each`
+    angle           | expected
+    ${0}            | ${0}
+    ${PI}           | ${PI}
+    ${-PI / 2}      | ${(PI * 3) / 2}
+    ${PI * 2}       | ${0}
+    ${-PI * 4 - 1}  | ${PI * 2 - 1}
+    ${-(10 ** -17)} | ${0}
+  `("can normalize $angle to [0, 2 * PI)", ({ angle, expected }) => {
+    const normalized = normalizeAnglePositive(angle);
+
+    expect(normalized).toBeCloseTo(expected);
+    expect(normalized).toBeGreaterThanOrEqual(0);
+    expect(normalized).toBeLessThan(PI * 2);
+  });
+
+  it.each`
+    from             | to               | expected
+    ${0}             | ${1}             | ${1}
+    ${1}             | ${0}             | ${-1}
+    ${(PI * 3) / 4}  | ${(-PI * 3) / 4} | ${PI / 2}
+    ${(-PI * 3) / 4} | ${(PI * 3) / 4}  | ${-PI / 2}
+    ${0}             | ${PI * 4 + 0.5}  | ${0.5}
+  `(
+    "can compute shortest delta from $from to $to",
+    ({ from, to, expected }) => {
+      expect(deltaAngle(from, to)).toBeCloseTo(expected);
+    }
+  );
+
+  it("can interpolate angle along shortest arc", () => {
+    expect(lerpAngle((PI * 3) / 4, (-PI * 3) / 4, 0.5)).toBeCloseTo(PI);
+    expect(lerpAngle(0, 1, 0.25)).toBeCloseTo(0.25);
+    expect(lerpAngle(0.5, -0.5, 1)).toBeCloseTo(-0.5);
+  });
+
+  it.each`
+    current | target     | maxDelta | expected
+    ${0}    | ${PI / 2}  | ${0.1}   | ${0.1}
+    ${0}    | ${-PI / 2} | ${0.1}   | ${-0.1}
+    ${0}    | ${0.05}    | ${0.1}   | ${0.05}
+    ${3}    | ${-3}      | ${0.1}   | ${3.1}
+    ${3}    | ${-3}      | ${1}     | ${-3}
+  `(
+    "can move $current towards $target by $maxDelta",
+    ({ current, target, maxDelta, expected }) => {
+      expect(moveTowardsAngle(current, target, maxDelta)).toBeCloseTo(expected);
+    }
+  );
+
+  it("throw Error when maxDelta is negative in moveTowardsAngle()", () => {
+    expect(() => moveTowardsAngle(0, 1, -1)).toThrowError();
+  });
+
+  it("can convert degrees and turns", () => {
+    expect(degToRad(180)).toBeCloseTo(PI);
+    expect(radToDeg(PI / 2)).toBeCloseTo(90);
+    expect(turnToRad(0.25)).toBeCloseTo(PI / 2);
+    expect(radToTurn(PI)).toBeCloseTo(0.5);
+  });
+});
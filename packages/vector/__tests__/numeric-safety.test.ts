@@ -0,0 +1,63 @@
+import {
+  Vector,
+  setStrictMode,
+  isStrictMode,
+  withStrictMode,
+  isFiniteValue,
+} from "../src";
+
+describe("@trans-vector2d/vector numeric safety", () => {
+  afterEach(() => {
+    setStrictMode(false);
+  });
+
+  it("is not strict mode as default", () => {
+    expect(isStrictMode()).toBe(false);
+    expect(new Vector(0, 0).unit().isFinite()).toBe(false);
+  });
+
+  it("throw Error naming operation and operands in strict mode", () => {
+    setStrictMode(true);
+
+    expect(() => new Vector(0, 0).unit()).toThrowError(
+      "Vector.unit produced non-finite result from operands: Vector(0, 0)"
+    );
+    expect(() => new Vector(1, 2).div(0)).toThrowError(
+      "Vector.div produced non-finite result from operands: Vector(1, 2), 0"
+    );
+    expect(() => Vector.from({ x: NaN })).toThrowError(
+      'Vector.from produced non-finite result from operands: {"x":null}'
+    );
+  });
+
+  it("does not throw Error for finite results in strict mode", () => {
+    setStrictMode(true);
+
+    expect(new Vector(3, 4).unit()).toEqual(new Vector(0.6, 0.8));
+    expect(new Vector(0, 0).tryUnit()).toBeUndefined();
+    expect(new Vector(0, 0).unitOr({ x: 1, y: 0 })).toEqual(new Vector(1, 0));
+  });
+
+  it("can enable strict mode for one call", () => {
+    const zero = new Vector(0, 0);
+
+    expect(() => withStrictMode(() => zero.unit())).toThrowError(/Vector.unit/);
+    expect(isStrictMode()).toBe(false);
+    expect(withStrictMode(() => zero.add({ x: 1, y: 0 }))).toEqual(
+      new Vector(1, 0)
+    );
+  });
+
+  it.each`
+    value                              | finite
+    ${1}                               | ${true}
+    ${NaN}                             | ${false}
+    ${undefined}                       | ${true}
+    ${[1, Infinity]}                   | ${false}
+    ${new Float64Array([1, NaN])}      | ${false}
+    ${{ a: new Vector(1, 2), b: 3 }}   | ${true}
+    ${{ a: new Vector(1, NaN), b: 3 }} | ${false}
+  `("can tell $value is finite: $finite", ({ value, finite }) => {
+    expect(isFiniteValue(value)).toBe(finite);
+  });
+});
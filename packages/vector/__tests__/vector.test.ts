@@ -88,6 +88,19 @@ describe("@trans-vector2d/vector.Vector", () => {
     expect(vec1.angle()).toBeCloseTo(Math.PI / 3);
   });
 
+  it.each`
+    t      | x    | y
+    ${0}   | ${1} | ${2}
+    ${0.5} | ${2} | ${4}
+    ${1}   | ${3} | ${6}
+    ${2}   | ${5} | ${10}
+  `("can create interpolated vector at $t", ({ t, x, y }) => {
+    const vec = new Vector(1, 2).lerp({ x: 3, y: 6 }, t);
+
+    expect(vec.x).toBeCloseTo(x);
+    expect(vec.y).toBeCloseTo(y);
+  });
+
   it.each`
     x            | y
     ${1}         | ${1}
@@ -161,4 +174,202 @@ describe("@trans-vector2d/vector.Vector", () => {
   it("contain [1, 1] vector", () => {
     expect(Vector.one).toEqual({ x: 1, y: 1 });
   });
+
+  it("can create negated vector", () => {
+    expect(new Vector(1, -2).negate()).toEqual(new Vector(-1, 2));
+  });
+
+  it("can tell squared norm", () => {
+    expect(new Vector(3, 4).squaredNorm()).toBe(25);
+  });
+
+  it("can tell dot product", () => {
+    expect(new Vector(1, 2).dot({ x: 3, y: 4 })).toBe(11);
+  });
+
+  it.each`
+    other              | cross
+    ${{ x: 0, y: 1 }}  | ${1}
+    ${{ x: 0, y: -1 }} | ${-1}
+    ${{ x: 2, y: 0 }}  | ${0}
+  `(
+    "can tell cross product with { x: $other.x, y: $other.y }",
+    ({ other, cross }) => {
+      expect(new Vector(1, 0).cross(other)).toBe(cross);
+    }
+  );
+
+  it("can create projected and rejected vector", () => {
+    const vec = new Vector(2, 3);
+    const onto = { x: 1, y: 1 };
+
+    const projected = vec.projectOnto(onto);
+    const rejected = vec.rejectFrom(onto);
+
+    expect(projected.isClosedTo({ x: 2.5, y: 2.5 })).toBe(true);
+    expect(rejected.isClosedTo({ x: -0.5, y: 0.5 })).toBe(true);
+    expect(projected.add(rejected).isClosedTo(vec)).toBe(true);
+  });
+
+  it.each`
+    normal             | expected
+    ${{ x: 0, y: 1 }}  | ${{ x: 1, y: 1 }}
+    ${{ x: 0, y: 3 }}  | ${{ x: 1, y: 1 }}
+    ${{ x: -1, y: 0 }} | ${{ x: -1, y: -1 }}
+    ${{ x: 1, y: 1 }}  | ${{ x: 1, y: -1 }}
+  `(
+    "can create reflected vector by { x: $normal.x, y: $normal.y }",
+    ({ normal, expected }) => {
+      const reflected = new Vector(1, -1).reflect(normal);
+
+      expect(reflected.isClosedTo(expected)).toBe(true);
+    }
+  );
+
+  it("can create perpendicular vectors", () => {
+    const vec = new Vector(1, 2);
+
+    expect(vec.perpLeft()).toEqual(new Vector(-2, 1));
+    expect(vec.perpRight()).toEqual(new Vector(2, -1));
+    expect(vec.perpLeft().isClosedTo(vec.rotate(Math.PI / 2))).toBe(true);
+    expect(vec.perpRight().isClosedTo(vec.rotate(-Math.PI / 2))).toBe(true);
+  });
+
+  it.each`
+    other              | angle
+    ${{ x: 0, y: 1 }}  | ${Math.PI / 2}
+    ${{ x: 0, y: -1 }} | ${-Math.PI / 2}
+    ${{ x: -1, y: 0 }} | ${Math.PI}
+    ${{ x: 1, y: 1 }}  | ${Math.PI / 4}
+  `(
+    "can tell signed angle to { x: $other.x, y: $other.y }",
+    ({ other, angle }) => {
+      expect(new Vector(2, 0).angleTo(other)).toBeCloseTo(angle);
+    }
+  );
+
+  it("can create vector with norm", () => {
+    const vec = new Vector(3, 4).withNorm(10);
+
+    expect(vec.isClosedTo({ x: 6, y: 8 })).toBe(true);
+  });
+
+  it.each`
+    vector            | min   | max   | expected
+    ${{ x: 3, y: 4 }} | ${0}  | ${1}  | ${{ x: 0.6, y: 0.8 }}
+    ${{ x: 3, y: 4 }} | ${10} | ${20} | ${{ x: 6, y: 8 }}
+    ${{ x: 3, y: 4 }} | ${1}  | ${10} | ${{ x: 3, y: 4 }}
+    ${{ x: 0, y: 0 }} | ${1}  | ${10} | ${{ x: 0, y: 0 }}
+  `(
+    "can create norm clamped vector in [$min, $max]",
+    ({ vector, min, max, expected }) => {
+      const vec = Vector.from(vector).clampNorm(min, max);
+
+      expect(vec.isClosedTo(expected)).toBe(true);
+    }
+  );
+
+  it("throw Error when min is greater than max in clampNorm()", () => {
+    expect(() => new Vector(1, 1).clampNorm(2, 1)).toThrowError();
+  });
+
+  it("can create element-wise min and max vector", () => {
+    const vec = new Vector(1, 4);
+
+    expect(vec.min({ x: 2, y: 3 })).toEqual(new Vector(1, 3));
+    expect(vec.max({ x: 2, y: 3 })).toEqual(new Vector(2, 4));
+  });
+
+  it("can create floored and rounded vector", () => {
+    expect(new Vector(1.5, -1.5).floor()).toEqual(new Vector(1, -2));
+    expect(new Vector(1.4, -1.6).round()).toEqual(new Vector(1, -2));
+  });
+
+  it.each`
+    x            | y           | finite
+    ${1}         | ${2}        | ${true}
+    ${NaN}       | ${2}        | ${false}
+    ${1}         | ${Infinity} | ${false}
+    ${-Infinity} | ${NaN}      | ${false}
+  `("can tell { x: $x, y: $y } is finite", ({ x, y, finite }) => {
+    expect(new Vector(x, y).isFinite()).toBe(finite);
+  });
+
+  it("can try to create unit vector", () => {
+    expect(new Vector(3, 4).tryUnit()?.isClosedTo({ x: 0.6, y: 0.8 })).toBe(
+      true
+    );
+    expect(new Vector(0, 0).tryUnit()).toBeUndefined();
+    expect(new Vector(Infinity, 0).tryUnit()).toBeUndefined();
+  });
+
+  it("can try to create projection, rejection and reflection", () => {
+    const vec = new Vector(2, 3);
+    const onto = { x: 1, y: 1 };
+
+    expect(vec.tryProjectOnto(onto)).toEqual(vec.projectOnto(onto));
+    expect(vec.tryRejectFrom(onto)).toEqual(vec.rejectFrom(onto));
+    expect(vec.tryReflect(onto)).toEqual(vec.reflect(onto));
+  });
+
+  it.each`
+    other
+    ${{ x: 0, y: 0 }}
+    ${{ x: Infinity, y: 0 }}
+    ${{ x: NaN, y: 1 }}
+  `("can not try to project onto { x: $other.x, y: $other.y }", ({ other }) => {
+    const vec = new Vector(2, 3);
+
+    expect(vec.projectOnto(other).isFinite()).toBe(false);
+    expect(vec.tryProjectOnto(other)).toBeUndefined();
+    expect(vec.tryRejectFrom(other)).toBeUndefined();
+    expect(vec.tryReflect(other)).toBeUndefined();
+  });
+
+  it("can try to create vector with norm", () => {
+    expect(new Vector(3, 4).tryWithNorm(10)).toEqual(
+      new Vector(3, 4).withNorm(10)
+    );
+    expect(new Vector(0, 0).withNorm(10).isFinite()).toBe(false);
+    expect(new Vector(0, 0).tryWithNorm(10)).toBeUndefined();
+    expect(new Vector(Infinity, 0).tryWithNorm(10)).toBeUndefined();
+  });
+
+  it("can create unit vector or fallback", () => {
+    const fallback = { x: 1, y: 0 };
+
+    expect(new Vector(0, 2).unitOr(fallback)).toEqual(new Vector(0, 1));
+    expect(new Vector(0, 0).unitOr(fallback)).toEqual(new Vector(1, 0));
+  });
+
+  it("keep NaN when created by object", () => {
+    const vec = Vector.from({ x: NaN });
+
+    expect(vec.x).toBeNaN();
+    expect(vec.y).toBe(0);
+  });
+
+  it("can create string", () => {
+    expect(new Vector(0, -1.5).toString()).toBe("Vector(0, -1.5)");
+  });
+
+  it("can create polar coordinates", () => {
+    const polar = new Vector(0, 2).toPolar();
+
+    expect(polar.length).toBeCloseTo(2);
+    expect(polar.angle).toBeCloseTo(Math.PI / 2);
+  });
+
+  it("keep angles in (-PI, PI] for negative zero", () => {
+    expect(new Vector(-1, -0).toPolar().angle).toBe(Math.PI);
+    expect(new Vector(1, -0).angleTo({ x: -1, y: -0 })).toBe(Math.PI);
+  });
+
+  it("can be created from polar coordinates", () => {
+    const vec = Vector.fromPolar(2, Math.PI / 3);
+
+    expect(vec).toBeInstanceOf(Vector);
+    expect(vec.isClosedTo({ x: 1, y: Math.sqrt(3) })).toBe(true);
+    expect(vec.toPolar().angle).toBeCloseTo(Math.PI / 3);
+  });
 });
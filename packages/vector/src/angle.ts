@@ -0,0 +1,130 @@
+const fullTurn = Math.PI * 2;
+
+/**
+ * Normalize angle to (-PI, PI].
+ *
+ * @example
+ * normalizeAngle(Math.PI * 3 / 2) // -Math.PI / 2
+ * normalizeAngle(-Math.PI) // Math.PI
+ * @param angle Angle as radians
+ * @returns Normalized angle
+ */
+export function normalizeAngle(angle: number): number {
+  const r = angle % fullTurn;
+  if (r <= -Math.PI) return r + fullTurn;
+  if (r > Math.PI) return r - fullTurn;
+  return r;
+}
+
+/**
+ * Normalize angle to [0, 2 * PI).
+ *
+ * @example
+ * normalizeAnglePositive(-Math.PI / 2) // Math.PI * 3 / 2
+ * @param angle Angle as radians
+ * @returns Normalized angle
+ */
+export function normalizeAnglePositive(angle: number): number {
+  const r = angle % fullTurn;
+  if (r >= 0) return r;
+  const positive = r + fullTurn;
+  // Tiny negative angle is rounded to 2 * PI
+  return positive < fullTurn ? positive : 0;
+}
+
+/**
+ * Compute shortest signed difference from angle to other angle.
+ *
+ * @example
+ * deltaAngle(Math.PI * 3 / 4, -Math.PI * 3 / 4) // Math.PI / 2
+ * @param from Angle as radians
+ * @param to Angle as radians
+ * @returns Difference in (-PI, PI]
+ */
+export function deltaAngle(from: number, to: number): number {
+  return normalizeAngle(to - from);
+}
+
+/**
+ * Interpolate angles along shortest arc.
+ *
+ * @example
+ * lerpAngle(Math.PI * 3 / 4, -Math.PI * 3 / 4, 0.5) // Math.PI
+ * @param from Angle at t = 0
+ * @param to Angle at t = 1
+ * @param t Interpolation ratio
+ * @returns Interpolated angle in (-PI, PI]
+ */
+export function lerpAngle(from: number, to: number, t: number): number {
+  return normalizeAngle(from + deltaAngle(from, to) * t);
+}
+
+/**
+ * Move angle towards target angle along shortest arc.
+ *
+ * @example
+ * moveTowardsAngle(0, Math.PI / 2, 0.1) // 0.1
+ * moveTowardsAngle(0, 0.05, 0.1) // 0.05
+ * @param current Current angle
+ * @param target Target angle
+ * @param maxDelta Maximum amount of movement
+ * @returns Moved angle in (-PI, PI]
+ */
+export function moveTowardsAngle(
+  current: number,
+  target: number,
+  maxDelta: number
+): number {
+  if (maxDelta < 0) throw new Error("maxDelta is negative");
+  const delta = deltaAngle(current, target);
+  if (Math.abs(delta) <= maxDelta) return normalizeAngle(target);
+  return normalizeAngle(current + Math.sign(delta) * maxDelta);
+}
+
+/**
+ * Convert degrees to radians.
+ *
+ * @example
+ * degToRad(180) // Math.PI
+ * @param degrees Angle as degrees
+ * @returns Angle as radians
+ */
+export function degToRad(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+/**
+ * Convert radians to degrees.
+ *
+ * @example
+ * radToDeg(Math.PI) // 180
+ * @param radians Angle as radians
+ * @returns Angle as degrees
+ */
+export function radToDeg(radians: number): number {
+  return (radians * 180) / Math.PI;
+}
+
+/**
+ * Convert turns to radians.
+ *
+ * @example
+ * turnToRad(0.5) // Math.PI
+ * @param turns Angle as turns
+ * @returns Angle as radians
+ */
+export function turnToRad(turns: number): number {
+  return turns * fullTurn;
+}
+
+/**
+ * Convert radians to turns.
+ *
+ * @example
+ * radToTurn(Math.PI) // 0.5
+ * @param radians Angle as radians
+ * @returns Angle as turns
+ */
+export function radToTurn(radians: number): number {
+  return radians / fullTurn;
+}
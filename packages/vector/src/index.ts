@@ -1 +1,3 @@
 export * from "./vector";
+export * from "./numeric-safety";
+export * from "./angle";
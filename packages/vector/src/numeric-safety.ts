@@ -0,0 +1,93 @@
+let strictMode = false;
+
+/**
+ * Enable or disable strict mode.
+ * In strict mode, operations produce NaN or Infinity throw Error.
+ *
+ * @param enabled Strict mode is enabled
+ */
+export function setStrictMode(enabled: boolean): void {
+  strictMode = enabled;
+}
+
+/**
+ * Return strict mode is enabled.
+ *
+ * @returns Strict mode is enabled
+ */
+export function isStrictMode(): boolean {
+  return strictMode;
+}
+
+/**
+ * Call function with strict mode.
+ * Strict mode is restored after calling.
+ *
+ * @example
+ * const unit = withStrictMode(() => v.unit()); // throw Error if v is zero
+ * @param fn Function called in strict mode
+ * @returns Returned value of fn
+ */
+export function withStrictMode<T>(fn: () => T): T {
+  const prev = strictMode;
+  strictMode = true;
+  try {
+    return fn();
+  } finally {
+    strictMode = prev;
+  }
+}
+
+/**
+ * Return value does not contain NaN nor Infinity.
+ * Numbers, arrays, typed arrays, objects have isFinite() and plain objects are inspected.
+ *
+ * @param value Value
+ * @returns Value is finite
+ */
+export function isFiniteValue(value: unknown): boolean {
+  if (typeof value === "number") return Number.isFinite(value);
+  if (typeof value !== "object" || value === null) return true;
+  if (ArrayBuffer.isView(value)) {
+    const view = value as Float64Array;
+    for (let i = 0; i < view.length; i++) {
+      if (!Number.isFinite(view[i])) return false;
+    }
+    return true;
+  }
+  if (Array.isArray(value)) return value.every(isFiniteValue);
+  const obj = value as { [key: string]: unknown };
+  if (typeof obj.isFinite === "function") return obj.isFinite() === true;
+  return Object.keys(obj).every((key) => isFiniteValue(obj[key]));
+}
+
+const formatOperand = (value: unknown): string => {
+  if (typeof value === "number") return String(value);
+  if (typeof value !== "object" || value === null) return String(value);
+  if (value.toString !== Object.prototype.toString) return String(value);
+  return JSON.stringify(value);
+};
+
+/**
+ * Throw Error naming operation and operands when result is not finite.
+ * Operations call this only when `isStrictMode()` returns true,
+ * so operands are not collected in normal mode.
+ *
+ * @example
+ * if (isStrictMode()) assertFiniteResult(result, "Vector.div", [this, s]);
+ * @param result Result of operation
+ * @param operation Operation name like "Vector.unit"
+ * @param operands Receiver and arguments of operation
+ */
+export function assertFiniteResult(
+  result: unknown,
+  operation: string,
+  operands: unknown[]
+): void {
+  if (isFiniteValue(result)) return;
+  throw new Error(
+    `${operation} produced non-finite result from operands: ${operands
+      .map(formatOperand)
+      .join(", ")}`
+  );
+}
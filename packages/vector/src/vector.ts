@@ -1,8 +1,27 @@
+import { isStrictMode, assertFiniteResult } from "./numeric-safety";
+import { normalizeAngle } from "./angle";
+
 export interface VectorLike {
   x: number;
   y: number;
 }
 
+export interface PolarLike {
+  length: number;
+  angle: number;
+}
+
+// Ratio of projection of v onto other to other
+const projectionRatio = (v: VectorLike, other: VectorLike): number =>
+  (v.x * other.x + v.y * other.y) / (other.x * other.x + other.y * other.y);
+
+// Zero or non-finite divisor makes result NaN
+const isDivisor = (value: number): boolean =>
+  value !== 0 && Number.isFinite(value);
+
+const hasDirection = (v: VectorLike): boolean =>
+  isDivisor(v.x * v.x + v.y * v.y);
+
 /**
  * Immutable 2d vector.
  */
@@ -25,7 +44,9 @@ export class Vector {
    * @return Added vector
    */
   add(v: VectorLike): Vector {
-    return new Vector(this.x + v.x, this.y + v.y);
+    const result = new Vector(this.x + v.x, this.y + v.y);
+    if (isStrictMode()) assertFiniteResult(result, "Vector.add", [this, v]);
+    return result;
   }
 
   /**
@@ -37,7 +58,9 @@ export class Vector {
    * @return Subtracted vector
    */
   sub(v: VectorLike): Vector {
-    return new Vector(this.x - v.x, this.y - v.y);
+    const result = new Vector(this.x - v.x, this.y - v.y);
+    if (isStrictMode()) assertFiniteResult(result, "Vector.sub", [this, v]);
+    return result;
   }
 
   /**
@@ -49,7 +72,10 @@ export class Vector {
    * @return Hadamard-producted vector
    */
   hadamard(v: VectorLike): Vector {
-    return new Vector(this.x * v.x, this.y * v.y);
+    const result = new Vector(this.x * v.x, this.y * v.y);
+    if (isStrictMode())
+      assertFiniteResult(result, "Vector.hadamard", [this, v]);
+    return result;
   }
 
   /**
@@ -61,7 +87,9 @@ export class Vector {
    * @return Multiplied vector
    */
   mlt(s: number): Vector {
-    return new Vector(this.x * s, this.y * s);
+    const result = new Vector(this.x * s, this.y * s);
+    if (isStrictMode()) assertFiniteResult(result, "Vector.mlt", [this, s]);
+    return result;
   }
 
   /**
@@ -73,7 +101,22 @@ export class Vector {
    * @return Divided vector
    */
   div(s: number): Vector {
-    return new Vector(this.x / s, this.y / s);
+    const result = new Vector(this.x / s, this.y / s);
+    if (isStrictMode()) assertFiniteResult(result, "Vector.div", [this, s]);
+    return result;
+  }
+
+  /**
+   * Create negated vector.
+   *
+   * @example
+   * new Vector(1, -2).negate() // { x: -1, y: 2 }
+   * @return Negated vector
+   */
+  negate(): Vector {
+    const result = new Vector(-this.x, -this.y);
+    if (isStrictMode()) assertFiniteResult(result, "Vector.negate", [this]);
+    return result;
   }
 
   /**
@@ -84,7 +127,24 @@ export class Vector {
    * @return L2-norm (length of vector)
    */
   norm(): number {
-    return Math.sqrt(this.x * this.x + this.y * this.y);
+    const result = Math.sqrt(this.x * this.x + this.y * this.y);
+    if (isStrictMode()) assertFiniteResult(result, "Vector.norm", [this]);
+    return result;
+  }
+
+  /**
+   * Compute squared L2-norm.
+   * This is cheaper than norm() for comparing lengths.
+   *
+   * @example
+   * new Vector(3, 4).squaredNorm() // 25
+   * @return Squared L2-norm
+   */
+  squaredNorm(): number {
+    const result = this.x * this.x + this.y * this.y;
+    if (isStrictMode())
+      assertFiniteResult(result, "Vector.squaredNorm", [this]);
+    return result;
   }
 
   /**
@@ -93,7 +153,9 @@ export class Vector {
    * @returns Non-negative Vector
    */
   abs(): Vector {
-    return new Vector(Math.abs(this.x), Math.abs(this.y));
+    const result = new Vector(Math.abs(this.x), Math.abs(this.y));
+    if (isStrictMode()) assertFiniteResult(result, "Vector.abs", [this]);
+    return result;
   }
 
   /**
@@ -107,7 +169,10 @@ export class Vector {
   distance(other: VectorLike): number {
     const deltaX = this.x - other.x;
     const deltaY = this.y - other.y;
-    return Math.sqrt(deltaX ** 2 + deltaY ** 2);
+    const result = Math.sqrt(deltaX ** 2 + deltaY ** 2);
+    if (isStrictMode())
+      assertFiniteResult(result, "Vector.distance", [this, other]);
+    return result;
   }
 
   /**
@@ -118,7 +183,39 @@ export class Vector {
    * @return Unit vector
    */
   unit(): Vector {
-    return this.div(this.norm());
+    const norm = Math.sqrt(this.x * this.x + this.y * this.y);
+    const result = new Vector(this.x / norm, this.y / norm);
+    if (isStrictMode()) assertFiniteResult(result, "Vector.unit", [this]);
+    return result;
+  }
+
+  /**
+   * Create unit vector if self can be normalized.
+   *
+   * @example
+   * new Vector(3, 4).tryUnit() // { x: 0.6, y: 0.8 }
+   * new Vector(0, 0).tryUnit() // undefined
+   * @return Unit vector or undefined if self is zero or not finite
+   */
+  tryUnit(): Vector | undefined {
+    const norm = Math.sqrt(this.x * this.x + this.y * this.y);
+    if (norm === 0 || !Number.isFinite(norm)) return undefined;
+    return new Vector(this.x / norm, this.y / norm);
+  }
+
+  /**
+   * Create unit vector or return fallback if self can not be normalized.
+   *
+   * @example
+   * new Vector(0, 0).unitOr({ x: 1, y: 0 }) // { x: 1, y: 0 }
+   * @param fallback Vector returned when self is zero or not finite
+   * @return Unit vector or fallback
+   */
+  unitOr(fallback: VectorLike): Vector {
+    const result = this.tryUnit() || new Vector(fallback.x, fallback.y);
+    if (isStrictMode())
+      assertFiniteResult(result, "Vector.unitOr", [this, fallback]);
+    return result;
   }
 
   /**
@@ -132,7 +229,13 @@ export class Vector {
   rotate(rotation: number): Vector {
     const cos = Math.cos(rotation);
     const sin = Math.sin(rotation);
-    return new Vector(cos * this.x - sin * this.y, sin * this.x + cos * this.y);
+    const result = new Vector(
+      cos * this.x - sin * this.y,
+      sin * this.x + cos * this.y
+    );
+    if (isStrictMode())
+      assertFiniteResult(result, "Vector.rotate", [this, rotation]);
+    return result;
   }
 
   /**
@@ -143,7 +246,335 @@ export class Vector {
    * @return Angle of self
    */
   angle(): number {
-    return Math.atan2(this.y, this.x);
+    const result = Math.atan2(this.y, this.x);
+    if (isStrictMode()) assertFiniteResult(result, "Vector.angle", [this]);
+    return result;
+  }
+
+  /**
+   * Create linearly interpolated vector between self and other.
+   *
+   * @example
+   * new Vector(1, 2).lerp({ x: 3, y: 6 }, 0.5) // { x: 2, y: 4 }
+   * @param v Another vector
+   * @param t Interpolation ratio. 0 is self and 1 is other
+   * @return Interpolated vector
+   */
+  lerp(v: VectorLike, t: number): Vector {
+    const result = new Vector(
+      this.x + (v.x - this.x) * t,
+      this.y + (v.y - this.y) * t
+    );
+    if (isStrictMode()) assertFiniteResult(result, "Vector.lerp", [this, v, t]);
+    return result;
+  }
+
+  /**
+   * Compute dot product.
+   *
+   * @example
+   * new Vector(1, 2).dot({ x: 3, y: 4 }) // 11
+   * @param v Another vector
+   * @return Dot product
+   */
+  dot(v: VectorLike): number {
+    const result = this.x * v.x + this.y * v.y;
+    if (isStrictMode()) assertFiniteResult(result, "Vector.dot", [this, v]);
+    return result;
+  }
+
+  /**
+   * Compute cross product as scalar (z element of 3d cross product).
+   *
+   * @example
+   * new Vector(1, 0).cross({ x: 0, y: 1 }) // 1
+   * @param v Another vector
+   * @return Cross product
+   */
+  cross(v: VectorLike): number {
+    const result = this.x * v.y - this.y * v.x;
+    if (isStrictMode()) assertFiniteResult(result, "Vector.cross", [this, v]);
+    return result;
+  }
+
+  /**
+   * Create projection of self onto other vector.
+   * Result contains NaN when other is zero.
+   * Use `tryProjectOnto` to detect it.
+   *
+   * @example
+   * new Vector(2, 3).projectOnto({ x: 2, y: 0 }) // { x: 2, y: 0 }
+   * @param v Vector projected onto
+   * @return Projected vector
+   */
+  projectOnto(v: VectorLike): Vector {
+    const ratio = projectionRatio(this, v);
+    const result = new Vector(v.x * ratio, v.y * ratio);
+    if (isStrictMode())
+      assertFiniteResult(result, "Vector.projectOnto", [this, v]);
+    return result;
+  }
+
+  /**
+   * Create projection of self onto other vector if other has direction.
+   *
+   * @example
+   * new Vector(2, 3).tryProjectOnto({ x: 0, y: 0 }) // undefined
+   * @param v Vector projected onto
+   * @return Projected vector or undefined if other is zero or not finite
+   */
+  tryProjectOnto(v: VectorLike): Vector | undefined {
+    if (!hasDirection(v)) return undefined;
+    const ratio = projectionRatio(this, v);
+    return new Vector(v.x * ratio, v.y * ratio);
+  }
+
+  /**
+   * Create rejection of self from other vector.
+   * Rejection is self minus projection onto other.
+   * Result contains NaN when other is zero.
+   * Use `tryRejectFrom` to detect it.
+   *
+   * @example
+   * new Vector(2, 3).rejectFrom({ x: 2, y: 0 }) // { x: 0, y: 3 }
+   * @param v Vector rejected from
+   * @return Rejected vector
+   */
+  rejectFrom(v: VectorLike): Vector {
+    const ratio = projectionRatio(this, v);
+    const result = new Vector(this.x - v.x * ratio, this.y - v.y * ratio);
+    if (isStrictMode())
+      assertFiniteResult(result, "Vector.rejectFrom", [this, v]);
+    return result;
+  }
+
+  /**
+   * Create rejection of self from other vector if other has direction.
+   *
+   * @example
+   * new Vector(2, 3).tryRejectFrom({ x: 0, y: 0 }) // undefined
+   * @param v Vector rejected from
+   * @return Rejected vector or undefined if other is zero or not finite
+   */
+  tryRejectFrom(v: VectorLike): Vector | undefined {
+    if (!hasDirection(v)) return undefined;
+    const ratio = projectionRatio(this, v);
+    return new Vector(this.x - v.x * ratio, this.y - v.y * ratio);
+  }
+
+  /**
+   * Create vector reflected by surface has normal.
+   * Result contains NaN when normal is zero.
+   * Use `tryReflect` to detect it.
+   *
+   * @example
+   * new Vector(1, -1).reflect({ x: 0, y: 2 }) // { x: 1, y: 1 }
+   * @param normal Normal of surface. Need not be unit vector
+   * @return Reflected vector
+   */
+  reflect(normal: VectorLike): Vector {
+    const ratio = 2 * projectionRatio(this, normal);
+    const result = new Vector(
+      this.x - normal.x * ratio,
+      this.y - normal.y * ratio
+    );
+    if (isStrictMode())
+      assertFiniteResult(result, "Vector.reflect", [this, normal]);
+    return result;
+  }
+
+  /**
+   * Create vector reflected by surface if normal has direction.
+   *
+   * @example
+   * new Vector(1, -1).tryReflect({ x: 0, y: 0 }) // undefined
+   * @param normal Normal of surface. Need not be unit vector
+   * @return Reflected vector or undefined if normal is zero or not finite
+   */
+  tryReflect(normal: VectorLike): Vector | undefined {
+    if (!hasDirection(normal)) return undefined;
+    const ratio = 2 * projectionRatio(this, normal);
+    return new Vector(this.x - normal.x * ratio, this.y - normal.y * ratio);
+  }
+
+  /**
+   * Create vector rotated by +90 degrees.
+   *
+   * @example
+   * new Vector(1, 2).perpLeft() // { x: -2, y: 1 }
+   * @return Perpendicular vector
+   */
+  perpLeft(): Vector {
+    const result = new Vector(-this.y, this.x);
+    if (isStrictMode()) assertFiniteResult(result, "Vector.perpLeft", [this]);
+    return result;
+  }
+
+  /**
+   * Create vector rotated by -90 degrees.
+   *
+   * @example
+   * new Vector(1, 2).perpRight() // { x: 2, y: -1 }
+   * @return Perpendicular vector
+   */
+  perpRight(): Vector {
+    const result = new Vector(this.y, -this.x);
+    if (isStrictMode()) assertFiniteResult(result, "Vector.perpRight", [this]);
+    return result;
+  }
+
+  /**
+   * Compute signed angle from self to other in (-PI, PI].
+   *
+   * @example
+   * new Vector(1, 0).angleTo({ x: 0, y: 1 }) // Math.PI / 2
+   * new Vector(0, 1).angleTo({ x: 1, y: 0 }) // -Math.PI / 2
+   * @param v Another vector
+   * @return Signed angle as radians
+   */
+  angleTo(v: VectorLike): number {
+    // atan2 returns -PI for negative zero
+    const result = normalizeAngle(
+      Math.atan2(this.x * v.y - this.y * v.x, this.x * v.x + this.y * v.y)
+    );
+    if (isStrictMode()) assertFiniteResult(result, "Vector.angleTo", [this, v]);
+    return result;
+  }
+
+  /**
+   * Create vector has same direction and given norm.
+   * Result contains NaN when self is zero.
+   * Use `tryWithNorm` to detect it.
+   *
+   * @example
+   * new Vector(3, 4).withNorm(10) // { x: 6, y: 8 }
+   * @param norm Norm of result
+   * @return Resized vector
+   */
+  withNorm(norm: number): Vector {
+    const ratio = norm / Math.sqrt(this.x * this.x + this.y * this.y);
+    const result = new Vector(this.x * ratio, this.y * ratio);
+    if (isStrictMode())
+      assertFiniteResult(result, "Vector.withNorm", [this, norm]);
+    return result;
+  }
+
+  /**
+   * Create vector has same direction and given norm if self has direction.
+   *
+   * @example
+   * new Vector(0, 0).tryWithNorm(10) // undefined
+   * @param norm Norm of result
+   * @return Resized vector or undefined if self is zero or not finite
+   */
+  tryWithNorm(norm: number): Vector | undefined {
+    const current = Math.sqrt(this.x * this.x + this.y * this.y);
+    if (!isDivisor(current)) return undefined;
+    const ratio = norm / current;
+    return new Vector(this.x * ratio, this.y * ratio);
+  }
+
+  /**
+   * Create vector has same direction and clamped norm.
+   * Zero vector is returned as it is.
+   *
+   * @example
+   * new Vector(3, 4).clampNorm(0, 1) // { x: 0.6, y: 0.8 }
+   * @param min Minimum norm
+   * @param max Maximum norm
+   * @return Clamped vector
+   */
+  clampNorm(min: number, max: number): Vector {
+    if (min > max) throw new Error("min is greater than max");
+    const norm = Math.sqrt(this.x * this.x + this.y * this.y);
+    if (norm === 0 || (norm >= min && norm <= max)) return this;
+    const ratio = (norm < min ? min : max) / norm;
+    const result = new Vector(this.x * ratio, this.y * ratio);
+    if (isStrictMode())
+      assertFiniteResult(result, "Vector.clampNorm", [this, min, max]);
+    return result;
+  }
+
+  /**
+   * Create vector each elements is minimum of self and other.
+   *
+   * @example
+   * new Vector(1, 4).min({ x: 2, y: 3 }) // { x: 1, y: 3 }
+   * @param v Another vector
+   * @return Minimum vector
+   */
+  min(v: VectorLike): Vector {
+    const result = new Vector(Math.min(this.x, v.x), Math.min(this.y, v.y));
+    if (isStrictMode()) assertFiniteResult(result, "Vector.min", [this, v]);
+    return result;
+  }
+
+  /**
+   * Create vector each elements is maximum of self and other.
+   *
+   * @example
+   * new Vector(1, 4).max({ x: 2, y: 3 }) // { x: 2, y: 4 }
+   * @param v Another vector
+   * @return Maximum vector
+   */
+  max(v: VectorLike): Vector {
+    const result = new Vector(Math.max(this.x, v.x), Math.max(this.y, v.y));
+    if (isStrictMode()) assertFiniteResult(result, "Vector.max", [this, v]);
+    return result;
+  }
+
+  /**
+   * Create vector each elements is floored.
+   *
+   * @example
+   * new Vector(1.5, -1.5).floor() // { x: 1, y: -2 }
+   * @return Floored vector
+   */
+  floor(): Vector {
+    const result = new Vector(Math.floor(this.x), Math.floor(this.y));
+    if (isStrictMode()) assertFiniteResult(result, "Vector.floor", [this]);
+    return result;
+  }
+
+  /**
+   * Create vector each elements is rounded.
+   *
+   * @example
+   * new Vector(1.4, -1.6).round() // { x: 1, y: -2 }
+   * @return Rounded vector
+   */
+  round(): Vector {
+    const result = new Vector(Math.round(this.x), Math.round(this.y));
+    if (isStrictMode()) assertFiniteResult(result, "Vector.round", [this]);
+    return result;
+  }
+
+  /**
+   * Compute self does not contain NaN nor Infinity.
+   *
+   * @example
+   * new Vector(0, 1).isFinite() // true
+   * new Vector(0, 0).unit().isFinite() // false
+   * @return Self is finite
+   */
+  isFinite(): boolean {
+    return Number.isFinite(this.x) && Number.isFinite(this.y);
+  }
+
+  /**
+   * Create polar coordinates of self.
+   *
+   * @example
+   * new Vector(0, 2).toPolar() // { length: 2, angle: Math.PI / 2 }
+   * @return Length and angle in (-PI, PI]
+   */
+  toPolar(): PolarLike {
+    const result = {
+      length: Math.sqrt(this.x * this.x + this.y * this.y),
+      angle: normalizeAngle(Math.atan2(this.y, this.x)),
+    };
+    if (isStrictMode()) assertFiniteResult(result, "Vector.toPolar", [this]);
+    return result;
   }
 
   /**
@@ -198,16 +629,49 @@ export class Vector {
     return [this.x, this.y];
   }
 
+  /**
+   * Create string expresses self.
+   *
+   * @example
+   * new Vector(0, 1).toString() // "Vector(0, 1)"
+   * @return String expresses self
+   */
+  toString(): string {
+    return `Vector(${this.x}, ${this.y})`;
+  }
+
   /**
    * Create Vector from object or array.
    * @example
    * Vector.from({ x: 1, y: 2 }) // { x: 1, y: 2 } as Vector
    * Vector.from({ y: 2 }) // { x: 0, y: 2 } as Vector
-   * @param v Object or array
+   * Vector.from({ x: NaN }) // { x: NaN, y: 0 } as Vector
+   * @param v Object or array. Only missing elements are treated as 0
    */
   static from(v: Partial<VectorLike>): Vector {
-    const x = v.x || 0;
-    const y = v.y || 0;
-    return new Vector(x, y);
+    const x = v.x === undefined ? 0 : v.x;
+    const y = v.y === undefined ? 0 : v.y;
+    const result = new Vector(x, y);
+    if (isStrictMode()) assertFiniteResult(result, "Vector.from", [v]);
+    return result;
+  }
+
+  /**
+   * Create Vector from polar coordinates.
+   *
+   * @example
+   * Vector.fromPolar(2, Math.PI / 2) // { x: 0, y: 2 }
+   * @param length Length of vector
+   * @param angle Angle as radians
+   * @return Vector
+   */
+  static fromPolar(length: number, angle: number): Vector {
+    const result = new Vector(
+      length * Math.cos(angle),
+      length * Math.sin(angle)
+    );
+    if (isStrictMode())
+      assertFiniteResult(result, "Vector.fromPolar", [length, angle]);
+    return result;
   }
 }